@@ -0,0 +1,97 @@
+/**
+ * Tests for where compaction splits the conversation
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GrokMessage } from '../../grok/client.js';
+import { toAnthropicMessages } from '../../providers/anthropic.js';
+import {
+  CONTINUE_PROMPT,
+  RECENT_ROUNDS_TO_KEEP,
+  SUMMARY_PREFIX,
+  buildSummaryMessage,
+  splitForCompaction,
+} from '../conversation-compactor.js';
+
+function toolRound(index: number): GrokMessage[] {
+  return [
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: `call_${index}`, type: 'function', function: { name: 'view_file', arguments: `{"path":"file${index}.ts"}` } }],
+    },
+    { role: 'tool', tool_call_id: `call_${index}`, content: `contents of file${index}.ts` },
+  ];
+}
+
+describe('splitForCompaction', () => {
+  it('should keep the last user turns when they are short', () => {
+    const messages: GrokMessage[] = [
+      { role: 'system', content: 'system prompt' },
+      { role: 'user', content: 'first' },
+      { role: 'assistant', content: 'one' },
+      { role: 'user', content: 'second' },
+      { role: 'assistant', content: 'two' },
+      { role: 'user', content: 'third' },
+      { role: 'assistant', content: 'three' },
+    ];
+
+    const split = splitForCompaction(messages);
+
+    expect(split.systemMessages).toEqual([messages[0]]);
+    expect(split.olderMessages).toEqual(messages.slice(1, 3));
+    expect(split.recentMessages).toEqual(messages.slice(3));
+  });
+
+  it('should split a single user turn with many tool rounds between rounds', () => {
+    const rounds = Array.from({ length: 10 }, (_, index) => toolRound(index));
+    const messages: GrokMessage[] = [
+      { role: 'system', content: 'system prompt' },
+      { role: 'user', content: 'refactor everything' },
+      ...rounds.flat(),
+    ];
+
+    const split = splitForCompaction(messages);
+
+    expect(split.olderMessages).toEqual(rounds.slice(0, -RECENT_ROUNDS_TO_KEEP).flat());
+    // The request stays in front of the kept rounds, and every kept tool result follows its call
+    expect(split.recentMessages).toEqual([messages[1], ...rounds.slice(-RECENT_ROUNDS_TO_KEEP).flat()]);
+    expect(split.olderMessages.at(-1)!.role).toBe('tool');
+  });
+
+  it('should start the kept rounds with a user message when the turn has none', () => {
+    const rounds = Array.from({ length: 10 }, (_, index) => toolRound(index));
+    const messages: GrokMessage[] = [
+      { role: 'system', content: 'system prompt' },
+      { role: 'system', content: `${SUMMARY_PREFIX}\nearlier work` },
+      ...rounds.flat(),
+    ];
+
+    const split = splitForCompaction(messages);
+
+    expect(split.recentMessages[0]).toEqual({ role: 'user', content: CONTINUE_PROMPT });
+    expect(split.recentMessages.slice(1)).toEqual(rounds.slice(-RECENT_ROUNDS_TO_KEEP).flat());
+  });
+
+  it('should produce a history the Anthropic adapter accepts after a split inside a turn', () => {
+    const rounds = Array.from({ length: 10 }, (_, index) => toolRound(index));
+    const messages: GrokMessage[] = [
+      { role: 'system', content: 'system prompt' },
+      { role: 'user', content: 'refactor everything' },
+      ...rounds.flat(),
+    ];
+    const split = splitForCompaction(messages);
+    const compacted: GrokMessage[] = [
+      ...split.systemMessages,
+      buildSummaryMessage('summary of the earlier rounds', [], []),
+      ...split.recentMessages,
+    ];
+
+    const { system, messages: converted } = toAnthropicMessages(compacted);
+
+    expect(system).toContain('summary of the earlier rounds');
+    expect(converted[0]).toEqual({ role: 'user', content: [{ type: 'text', text: 'refactor everything' }] });
+    // Roles alternate, starting with the user
+    converted.forEach((message, index) => expect(message.role).toBe(index % 2 === 0 ? 'user' : 'assistant'));
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Conversation Compactor
+ *
+ * Helpers for shrinking the message history sent to the model. Older turns are
+ * replaced by a model-written summary while the system prompt and the most
+ * recent turns are kept verbatim. Facts the agent must not lose (open todos and
+ * files touched) are extracted deterministically and appended to the summary.
+ */
+
+import type { GrokMessage } from '../grok/client.js';
+import type { TodoItem } from '../tools/todo-tool.js';
+
+export interface CompactionOptions {
+  dryRun?: boolean;
+  force?: boolean;
+  /** Why compaction was triggered, shown in the result */
+  reason?: 'manual' | 'auto';
+}
+
+export interface CompactionResult {
+  compacted: boolean;
+  dryRun: boolean;
+  reason: 'manual' | 'auto';
+  tokensBefore: number;
+  tokensAfter: number;
+  messagesBefore: number;
+  messagesAfter: number;
+  summarizedMessages: number;
+  summary?: string;
+  filesTouched: string[];
+  openTodos: TodoItem[];
+  /** Set when compaction was skipped */
+  skippedReason?: string;
+}
+
+export interface CompactionSplit {
+  systemMessages: GrokMessage[];
+  olderMessages: GrokMessage[];
+  recentMessages: GrokMessage[];
+}
+
+/** Number of most recent user turns kept verbatim */
+export const RECENT_TURNS_TO_KEEP = 2;
+
+/** Most assistant rounds kept verbatim when the recent turns contain more (long agent loops) */
+export const RECENT_ROUNDS_TO_KEEP = 4;
+
+/** Below this many tokens of older history a manual /compact is skipped unless forced */
+export const MIN_TOKENS_TO_COMPACT = 2000;
+
+/** Fraction of the context window at which automatic compaction kicks in */
+export const AUTO_COMPACT_THRESHOLD = 0.8;
+
+export const SUMMARY_PREFIX = '[Conversation summary]';
+
+/** Stands in for the request when the kept rounds have no user message before them */
+export const CONTINUE_PROMPT = 'Continue with the task from the conversation summary.';
+
+const MAX_TRANSCRIPT_ITEM_CHARS = 2000;
+
+// Argument names used by file tools (view_file, create_file, str_replace_editor, multi_file_edit, ...)
+const FILE_ARGUMENT_KEYS = ['path', 'file_path', 'filePath', 'filename', 'source', 'destination'];
+
+export const SUMMARIZER_SYSTEM_PROMPT = `You compress coding-assistant conversations so work can continue in a smaller context.
+Write a concise summary of the conversation below that preserves:
+- The user's goals, requirements and constraints
+- Decisions made and the reasons for them
+- What was changed (files, functions, commands run) and the outcome of each step
+- Errors encountered and how they were resolved, or that they remain unresolved
+- Anything the assistant promised to do next
+
+Use short bullet points grouped under headings. Do not invent details. Do not include code unless a small snippet is essential.`;
+
+/**
+ * Split messages into the system prompt, older turns to summarize and
+ * the recent turns to keep. The recent turns are cut down to the last few
+ * assistant rounds when they contain more, so a single long agent loop can
+ * be compacted too. The split lands on a user or assistant message, so tool
+ * calls are never separated from their results, and the recent messages
+ * always start with a user message.
+ */
+export function splitForCompaction(
+  messages: GrokMessage[],
+  recentTurns: number = RECENT_TURNS_TO_KEEP,
+  recentRounds: number = RECENT_ROUNDS_TO_KEEP
+): CompactionSplit {
+  // Only the main system prompt is kept; earlier summaries get folded into the new one
+  const start = messages[0]?.role === 'system' ? 1 : 0;
+
+  let turnSplit = messages.length;
+  let turnsSeen = 0;
+  let roundSplit = messages.length;
+  let roundsSeen = 0;
+  for (let i = messages.length - 1; i >= start; i--) {
+    if (messages[i].role === 'user' && turnsSeen < recentTurns) {
+      turnsSeen++;
+      turnSplit = i;
+    }
+    if (messages[i].role === 'assistant' && roundsSeen < recentRounds) {
+      roundsSeen++;
+      roundSplit = i;
+    }
+  }
+  if (turnsSeen === 0) {
+    // No user turn left (e.g. right after a compaction), so only rounds can be split off
+    turnSplit = start;
+  }
+  // Whichever keeps less; a round split needs the full number of rounds after it
+  const splitIndex = roundsSeen >= recentRounds ? Math.max(turnSplit, roundSplit) : turnSplit;
+  const systemMessages = messages.slice(0, start);
+
+  if (splitIndex >= messages.length || messages[splitIndex].role === 'user') {
+    return {
+      systemMessages,
+      olderMessages: messages.slice(start, splitIndex),
+      recentMessages: messages.slice(splitIndex),
+    };
+  }
+
+  // Split inside a turn: its user message stays in front of the kept rounds,
+  // as providers such as Anthropic require the conversation to start with one
+  let requestIndex = splitIndex - 1;
+  while (requestIndex >= start && messages[requestIndex].role !== 'user') {
+    requestIndex--;
+  }
+  if (requestIndex < start) {
+    return {
+      systemMessages,
+      olderMessages: messages.slice(start, splitIndex),
+      recentMessages: [{ role: 'user', content: CONTINUE_PROMPT }, ...messages.slice(splitIndex)],
+    };
+  }
+  return {
+    systemMessages,
+    olderMessages: [...messages.slice(start, requestIndex), ...messages.slice(requestIndex + 1, splitIndex)],
+    recentMessages: [messages[requestIndex], ...messages.slice(splitIndex)],
+  };
+}
+
+/**
+ * Collect file paths referenced by tool calls
+ */
+export function extractFilesTouched(messages: GrokMessage[]): string[] {
+  const files = new Set<string>();
+
+  for (const message of messages) {
+    if (message.role !== 'assistant' || !message.tool_calls) continue;
+
+    for (const toolCall of message.tool_calls) {
+      if (toolCall.type !== 'function') continue;
+      let args: any;
+      try {
+        args = JSON.parse(toolCall.function.arguments || '{}');
+      } catch {
+        continue;
+      }
+
+      for (const file of getFileArguments(args)) {
+        files.add(file);
+      }
+    }
+  }
+
+  return Array.from(files);
+}
+
+/**
+ * File paths named in a tool call's arguments
+ */
+export function getFileArguments(args: any): string[] {
+  const files: string[] = [];
+
+  for (const key of FILE_ARGUMENT_KEYS) {
+    if (typeof args?.[key] === 'string' && args[key]) {
+      files.push(args[key]);
+    }
+  }
+  if (Array.isArray(args?.files)) {
+    for (const file of args.files) {
+      const filePath = typeof file === 'string' ? file : file?.path || file?.file_path;
+      if (typeof filePath === 'string' && filePath) {
+        files.push(filePath);
+      }
+    }
+  }
+  // multi_file_edit: `{ operations: [{ filePath, newFilePath }] }`
+  if (Array.isArray(args?.operations)) {
+    for (const operation of args.operations) {
+      for (const filePath of [operation?.filePath, operation?.newFilePath]) {
+        if (typeof filePath === 'string' && filePath) {
+          files.push(filePath);
+        }
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Render messages as a plain-text transcript for the summarizer
+ */
+export function buildTranscript(messages: GrokMessage[]): string {
+  const lines: string[] = [];
+
+  for (const message of messages) {
+    const content = truncate(contentToText(message.content));
+
+    switch (message.role) {
+      case 'user':
+        lines.push(`USER: ${content}`);
+        break;
+      case 'assistant':
+        if (content) lines.push(`ASSISTANT: ${content}`);
+        for (const toolCall of message.tool_calls || []) {
+          if (toolCall.type === 'function') {
+            lines.push(`TOOL CALL ${toolCall.function.name}: ${truncate(toolCall.function.arguments)}`);
+          }
+        }
+        break;
+      case 'tool':
+        lines.push(`TOOL RESULT: ${content}`);
+        break;
+      case 'system':
+        // Earlier summaries are carried forward
+        lines.push(`CONTEXT: ${content}`);
+        break;
+    }
+  }
+
+  return lines.join('\n\n');
+}
+
+/**
+ * Build the message that replaces the summarized turns
+ */
+export function buildSummaryMessage(summary: string, filesTouched: string[], openTodos: TodoItem[]): GrokMessage {
+  const sections = [`${SUMMARY_PREFIX}\nEarlier parts of this conversation were compacted. Summary:\n\n${summary.trim()}`];
+
+  if (filesTouched.length > 0) {
+    sections.push(`Files touched so far:\n${filesTouched.map(file => `- ${file}`).join('\n')}`);
+  }
+
+  if (openTodos.length > 0) {
+    sections.push(`Open todos:\n${openTodos.map(todo => `- [${todo.status}] (${todo.priority}) ${todo.content}`).join('\n')}`);
+  }
+
+  return { role: 'system', content: sections.join('\n\n') };
+}
+
+function contentToText(content: GrokMessage['content']): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content
+    .map((part: any) => (part.type === 'text' ? part.text : `[${part.type}]`))
+    .join(' ');
+}
+
+function truncate(text: string): string {
+  if (text.length <= MAX_TRANSCRIPT_ITEM_CHARS) return text;
+  return `${text.substring(0, MAX_TRANSCRIPT_ITEM_CHARS)}... [truncated ${text.length - MAX_TRANSCRIPT_ITEM_CHARS} chars]`;
+}
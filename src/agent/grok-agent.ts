@@ -1,13 +1,18 @@
-import { GrokClient, GrokMessage, GrokToolCall } from "../grok/client.js";
+import { GrokClient, GrokMessage, GrokResponse, GrokTool, GrokToolCall, SearchOptions, UsageEvent } from "../grok/client.js";
+import type { RetryEvent } from "../grok/retry.js";
+import type { ProviderConfig } from "../providers/types.js";
 import fs from "fs";
 import path from "path";
+import os from "os";
 import { createHash } from "node:crypto";
 import {
   getAllGrokTools,
   getMCPManager,
   initializeMCPServers,
+  READ_MCP_RESOURCE_TOOL,
 } from "../grok/tools.js";
 import { loadMCPConfig } from "../mcp/config.js";
+import { expandResourceReferences, formatResourceContents } from "../mcp/content.js";
 import { debugLog } from "../utils/debug.js";
 import {
   TextEditorTool,
@@ -26,17 +31,41 @@ import {
   DependencyAnalyzerTool,
   CodeContextTool,
   RefactoringAssistantTool,
+  ASTParserTool,
+  LanguageServerTool,
 } from "../tools/index.js";
+import { ToolDefinition, ToolExecutionContext, ToolRegistry, matchesToolPattern } from "../tools/registry.js";
 import { CodeIntelligenceEngine } from "../tools/intelligence/engine.js";
 import { ToolResult } from "../types/index.js";
-import { extractSelfCorrectError } from "../types/errors.js";
+import { BudgetExceededError, extractSelfCorrectError, GrokAPIError, isContextOverflowError, SelfCorrectError } from "../types/errors.js";
 import { MetricsCollector } from "../utils/metrics.js";
+import { OperationTracker } from "../utils/operation-tracker.js";
 import { EventEmitter } from "events";
 import { createTokenCounter, TokenCounter } from "../utils/token-counter.js";
 import { loadCustomInstructions } from "../utils/custom-instructions.js";
+import { ConfirmationService } from "../utils/confirmation-service.js";
 import { getSettingsManager } from "../utils/settings-manager.js";
 import { TaskOrchestrator, OrchestratorResult } from "../planning/task-orchestrator.js";
 import { PlanExecutionProgress, TaskPlan } from "../planning/types.js";
+import { SessionStore, SessionMetadata } from "../sessions/session-store.js";
+import { getContextWindow } from "../utils/model-config.js";
+import { SubagentFramework, SubagentConfig, SUBAGENT_TYPES } from "../subagents/subagent-framework.js";
+import {
+  AUTO_COMPACT_THRESHOLD,
+  MIN_TOKENS_TO_COMPACT,
+  SUMMARIZER_SYSTEM_PROMPT,
+  CompactionOptions,
+  CompactionResult,
+  buildSummaryMessage,
+  buildTranscript,
+  extractFilesTouched,
+  getFileArguments,
+  splitForCompaction,
+} from "./conversation-compactor.js";
+import { ModelPhase, routeModel } from "./model-router.js";
+import { ToolOutputStream } from "./tool-output-stream.js";
+import { UsageRecord, UsageReport, UsageTotals, UsageTracker } from "../utils/usage-tracker.js";
+import { BudgetLimit, RunBudget, RunSummary, StopReason, budgetExceeded, checkBudget } from "./run-budget.js";
 
 export interface ChatEntry {
   type: "user" | "assistant" | "tool_result" | "tool_call";
@@ -54,6 +83,10 @@ export interface StreamingChunk {
   toolCalls?: GrokToolCall[];
   toolCall?: GrokToolCall;
   toolResult?: ToolResult;
+  /** Live output of a tool that is still running; the final tool_result follows */
+  isPartial?: boolean;
+  /** With isPartial: output reported since the previous partial chunk, as toolResult holds only the tail */
+  outputDelta?: string;
   tokenCount?: number;
 }
 
@@ -84,6 +117,9 @@ export class GrokAgent extends EventEmitter {
   private dependencyAnalyzer: DependencyAnalyzerTool;
   private codeContext: CodeContextTool;
   private refactoringAssistant: RefactoringAssistantTool;
+  private astParser: ASTParserTool;
+  private languageServer: LanguageServerTool;
+  private toolRegistry: ToolRegistry;
   private taskOrchestrator: TaskOrchestrator;
   private chatHistory: ChatEntry[] = [];
   private messages: GrokMessage[] = [];
@@ -96,6 +132,11 @@ export class GrokAgent extends EventEmitter {
   private readonly maxConcurrentToolCalls: number = 2;
   private readonly minRequestInterval: number = 500; // ms
   private sessionLogPath: string;
+  private sessionStore: SessionStore;
+  private sessionId: string | null = null;
+  private compactionInProgress: boolean = false;
+  private subagents: SubagentFramework;
+  private lastAutoCompactionTokens: number = 0;
   private planExecutionInProgress: boolean = false;
   // Self-correction tracking
   private toolRetryCount: Map<string, number> = new Map();
@@ -112,9 +153,23 @@ export class GrokAgent extends EventEmitter {
   private metrics: MetricsCollector;
   private readonly maxCorrectionAttempts: number = 3;
   // Loop detection
-  private operationTracker = require('../utils/operation-tracker.js').OperationTracker.getInstance();
+  private operationTracker = OperationTracker.getInstance();
   private consecutiveIdenticalRequests: Map<string, number> = new Map();
   private readonly maxIdenticalRequests: number = 2;
+  // Token usage and cost accounting
+  private usageTracker: UsageTracker = new UsageTracker();
+  private usagePhase: ModelPhase = "planning";
+  private lastUsageRecord: UsageRecord | null = null;
+  // Run limits and the state of the current run (one user message and its tool rounds)
+  private runBudget: RunBudget;
+  private runStartTime: number = 0;
+  private runUsageCheckpoint: number = 0;
+  private runFilesChanged: Set<string> = new Set();
+  private runToolStats = { calls: 0, failed: 0, lastFailed: false };
+  /** Tool name patterns the current run is limited to, or null for all tools */
+  private runAllowedTools: string[] | null = null;
+  private wallTimeTimer: NodeJS.Timeout | null = null;
+  private lastRunSummary: RunSummary | null = null;
 
   constructor(
     apiKey: string,
@@ -127,7 +182,9 @@ export class GrokAgent extends EventEmitter {
     const savedModel = manager.getCurrentModel();
     const modelToUse = model || savedModel || "grok-code-fast-1";
     this.maxToolRounds = maxToolRounds || 400;
+    this.runBudget = manager.getRunBudget();
     this.sessionLogPath = process.env.GROK_SESSION_LOG || `${process.env.HOME}/.grok/session.log`;
+    this.sessionStore = new SessionStore(process.cwd());
 
     // Get settings from manager
     const clientOptions = {
@@ -135,11 +192,26 @@ export class GrokAgent extends EventEmitter {
       streamTimeout: manager.getStreamTimeout(),
       temperature: manager.getTemperature(),
       maxTokens: manager.getMaxTokens(),
+      fallbackModel: manager.getFallbackModel(),
+      maxRetries: manager.getMaxRetries(),
+      // Lets the UI show a "retrying in Ns" status
+      onRetry: (event: RetryEvent) => this.emit("api_retry", event),
+      onUsage: (event: UsageEvent) => this.recordUsage(event, this.usagePhase),
     };
 
     // Initialize client with settings
     this.grokClient = new GrokClient(apiKey, modelToUse, baseURL, clientOptions);
 
+    // Subagents get their own client per run so their conversations stay isolated
+    this.subagents = new SubagentFramework({
+      createClient: () => new GrokClient(apiKey, this.getModelForPhase("subagent"), baseURL, {
+        ...clientOptions,
+        onUsage: (event: UsageEvent) => this.recordUsage(event, "subagent"),
+      }),
+      executeTool: (toolCall) => this.executeTool(toolCall),
+      getTools: () => this.toolRegistry.toGrokTools(),
+    });
+
     // Get parallel execution settings
     const parallelEnabled = manager.getParallelToolCalls();
     this.maxConcurrentToolCalls = parallelEnabled ? manager.getMaxConcurrentTools() : 1;
@@ -147,6 +219,8 @@ export class GrokAgent extends EventEmitter {
     this.textEditor = new TextEditorTool();
     this.morphEditor = process.env.MORPH_API_KEY ? new MorphEditorTool() : null;
     this.bash = new BashTool();
+    // Like the sandbox settings, permission rules are fixed when the agent starts
+    ConfirmationService.getInstance().loadPermissionRules();
     this.todoTool = new TodoTool();
     this.confirmationTool = new ConfirmationTool();
     this.search = new SearchTool();
@@ -164,6 +238,9 @@ export class GrokAgent extends EventEmitter {
     this.dependencyAnalyzer = new DependencyAnalyzerTool(this.intelligenceEngine);
     this.codeContext = new CodeContextTool(this.intelligenceEngine);
     this.refactoringAssistant = new RefactoringAssistantTool(this.intelligenceEngine);
+    this.astParser = new ASTParserTool(this.intelligenceEngine);
+    this.languageServer = new LanguageServerTool(this.intelligenceEngine);
+    this.toolRegistry = this.createToolRegistry();
     this.tokenCounter = createTokenCounter(modelToUse);
 
     // Initialize metrics collector
@@ -238,25 +315,7 @@ export class GrokAgent extends EventEmitter {
 
 You have access to these tools:
 
-CORE TOOLS:
-- view_file: View file contents or directory listings
-- create_file: Create new files with content (ONLY use this for files that don't exist yet)
-- str_replace_editor: Replace text in existing files (ALWAYS use this to edit or update existing files)${this.morphEditor
-          ? "\n- edit_file: High-speed file editing with Morph Fast Apply (4,500+ tokens/sec with 98% accuracy)"
-          : ""
-        }
-- bash: Execute bash commands (use for searching, file discovery, navigation, and system operations)
-- search: Unified search tool for finding text content or files (similar to Cursor's search functionality)
-- create_todo_list: Create a visual todo list for planning and tracking tasks
-- update_todo_list: Update existing todos in your todo list
-- task_planner: Intelligent multi-step task planning with automatic decomposition and execution
-
-ADVANCED TOOLS:
-- multi_file_edit: Perform atomic operations across multiple files with transaction support
-- advanced_search: Enhanced search with regex patterns, context, and bulk replace capabilities
-- file_tree_ops: Generate directory trees, bulk operations, and file organization
-- code_analysis: Analyze code structure, perform refactoring, and smart code operations
-- operation_history: Track, undo, and redo operations with comprehensive history management
+${this.toolRegistry.describeForPrompt()}
 
 REAL-TIME INFORMATION:
 You have access to real-time web search and X (Twitter) data. When users ask for current information, latest news, or recent events, you automatically have access to up-to-date information from the web and social media.
@@ -323,9 +382,31 @@ Current working directory: ${process.cwd()}`,
     });
   }
 
-  private isGrokModel(): boolean {
-    const currentModel = this.grokClient.getCurrentModel();
-    return currentModel.toLowerCase().includes("grok");
+  private supportsLiveSearch(model?: string): boolean {
+    return this.grokClient.supports("liveSearch", model);
+  }
+
+  /**
+   * Model for a request phase per the `modelRouting` settings. Undefined
+   * means the client's active model, which may be the fallback model.
+   */
+  private routeRequest(phase: ModelPhase, userRequest?: string): { model?: string; escalated: boolean } {
+    const failedCorrections = userRequest
+      ? this.correctionAttempts.get(this.hashRequest(userRequest))?.length || 0
+      : 0;
+    const currentModel = this.getCurrentModel();
+    const route = routeModel(getSettingsManager().getModelRouting(), phase, currentModel, failedCorrections);
+    return {
+      model: route.model === currentModel ? undefined : route.model,
+      escalated: route.escalated,
+    };
+  }
+
+  /**
+   * Model the given phase is routed to, for display
+   */
+  getModelForPhase(phase: ModelPhase): string {
+    return this.routeRequest(phase).model || this.grokClient.getActiveModel();
   }
 
   // Heuristic: enable web search only when likely needed
@@ -356,31 +437,31 @@ Current working directory: ${process.cwd()}`,
     return false;
   }
 
-  async processUserMessage(message: string): Promise<ChatEntry[]> {
+  async processUserMessage(message: string, options: { phase?: ModelPhase } = {}): Promise<ChatEntry[]> {
     // Add user message to conversation
     const userEntry: ChatEntry = {
       type: "user",
       content: message,
       timestamp: new Date(),
     };
-    this.chatHistory.push(userEntry);
+    this.addChatEntry(userEntry);
     this.logEntry(userEntry);
-    this.messages.push({ role: "user", content: message });
+    this.addMessage({ role: "user", content: await this.expandMCPResources(message) });
+    this.usageTracker.startTurn(message);
 
     const newEntries: ChatEntry[] = [userEntry];
     const maxToolRounds = this.maxToolRounds; // Prevent infinite loops
     let toolRounds = 0;
+    let stopReason: StopReason = "completed";
+    let stopError: unknown;
+
+    this.abortController = new AbortController();
+    this.beginRun();
 
     try {
-      const tools = await getAllGrokTools();
-      let currentResponse = await this.grokClient.chat(
-        this.messages,
-        tools,
-        undefined,
-        this.isGrokModel() && this.shouldUseSearchFor(message)
-          ? { search_parameters: { mode: "auto" } }
-          : { search_parameters: { mode: "off" } }
-      );
+      const tools = await getAllGrokTools(this.toolRegistry);
+      await this.autoCompactIfNeeded();
+      let currentResponse = await this.requestCompletion(tools, message, options.phase || "planning");
 
       // Agent loop - continue until no more tool calls or max rounds reached
       while (toolRounds < maxToolRounds) {
@@ -396,6 +477,7 @@ Current working directory: ${process.cwd()}`,
           assistantMessage.tool_calls.length > 0
         ) {
           toolRounds++;
+          this.attributeUsageToTools(assistantMessage.tool_calls);
 
           // Add assistant message with tool calls
           const assistantEntry: ChatEntry = {
@@ -404,12 +486,12 @@ Current working directory: ${process.cwd()}`,
             timestamp: new Date(),
             toolCalls: assistantMessage.tool_calls,
           };
-          this.chatHistory.push(assistantEntry);
+          this.addChatEntry(assistantEntry);
           this.logEntry(assistantEntry);
           newEntries.push(assistantEntry);
 
           // Add assistant message to conversation
-          this.messages.push({
+          this.addMessage({
             role: "assistant",
             content: assistantMessage.content || "",
             tool_calls: assistantMessage.tool_calls,
@@ -429,7 +511,8 @@ Current working directory: ${process.cwd()}`,
 
           // Execute tool calls and update the entries
           for (const toolCall of assistantMessage.tool_calls) {
-            const result = await this.executeTool(toolCall);
+            const result = await this.executeTool(toolCall, { signal: this.abortController?.signal });
+            this.recordToolResult(result);
 
             // Update the existing tool_call entry with the result
             const entryIndex = this.chatHistory.findIndex(
@@ -447,6 +530,7 @@ Current working directory: ${process.cwd()}`,
                 toolResult: result,
               };
               this.chatHistory[entryIndex] = updatedEntry;
+              this.persistChatEntry(updatedEntry);
 
               // Also update in newEntries for return value
               const newEntryIndex = newEntries.findIndex(
@@ -460,7 +544,7 @@ Current working directory: ${process.cwd()}`,
             }
 
             // Add tool result to messages with proper format (needed for AI context)
-            this.messages.push({
+            this.addMessage({
               role: "tool",
               content: result.success
                 ? result.output || "Success"
@@ -470,14 +554,8 @@ Current working directory: ${process.cwd()}`,
           }
 
           // Get next response - this might contain more tool calls
-          currentResponse = await this.grokClient.chat(
-            this.messages,
-            tools,
-            undefined,
-            this.isGrokModel() && this.shouldUseSearchFor(message)
-              ? { search_parameters: { mode: "auto" } }
-              : { search_parameters: { mode: "off" } }
-          );
+          await this.autoCompactIfNeeded();
+          currentResponse = await this.requestCompletion(tools, message, options.phase || "toolRounds");
         } else {
           // No more tool calls, add final response
           const finalEntry: ChatEntry = {
@@ -487,8 +565,8 @@ Current working directory: ${process.cwd()}`,
               "I understand, but I don't have a specific response.",
             timestamp: new Date(),
           };
-          this.chatHistory.push(finalEntry);
-          this.messages.push({
+          this.addChatEntry(finalEntry);
+          this.addMessage({
             role: "assistant",
             content: assistantMessage.content || "",
           });
@@ -498,25 +576,80 @@ Current working directory: ${process.cwd()}`,
       }
 
       if (toolRounds >= maxToolRounds) {
+        stopReason = "max_tool_rounds";
         const warningEntry: ChatEntry = {
           type: "assistant",
           content:
             "Maximum tool execution rounds reached. Stopping to prevent infinite loops.",
           timestamp: new Date(),
         };
-        this.chatHistory.push(warningEntry);
+        this.addChatEntry(warningEntry);
         newEntries.push(warningEntry);
       }
 
       return newEntries;
     } catch (error: any) {
+      // Budget stops keep the work done so far
+      const budgetError = error instanceof BudgetExceededError ? error : this.getBudgetAbortReason();
+      if (budgetError) {
+        stopReason = "budget_exceeded";
+        stopError = budgetError;
+        const stopEntry: ChatEntry = {
+          type: "assistant",
+          content: `⛔ ${budgetError.message}. Stopping.`,
+          timestamp: new Date(),
+        };
+        this.addChatEntry(stopEntry);
+        return [...newEntries, stopEntry];
+      }
+
+      stopReason = this.abortController?.signal.aborted ? "cancelled" : "error";
+      stopError = error;
       const errorEntry: ChatEntry = {
         type: "assistant",
         content: `Sorry, I encountered an error: ${error.message}`,
         timestamp: new Date(),
       };
-      this.chatHistory.push(errorEntry);
+      this.addChatEntry(errorEntry);
       return [userEntry, errorEntry];
+    } finally {
+      this.endRun(stopReason, stopError);
+      this.abortController = null;
+    }
+  }
+
+  /**
+   * Non-streaming agent loop request. When the prompt exceeds the context
+   * window, older history is compacted and the request sent once more.
+   */
+  private async requestCompletion(tools: GrokTool[], message: string, phase: ModelPhase): Promise<GrokResponse> {
+    const signal = this.abortController?.signal;
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    const budgetError = this.checkRunBudget();
+    if (budgetError) {
+      throw budgetError;
+    }
+
+    const { model } = this.routeRequest(phase, message);
+    this.startUsageRound(phase);
+    const searchOptions: SearchOptions = this.supportsLiveSearch(model) && this.shouldUseSearchFor(message)
+      ? { search_parameters: { mode: "auto" } }
+      : { search_parameters: { mode: "off" } };
+
+    try {
+      return await this.grokClient.chat(this.messages, tools, model, searchOptions, undefined, signal);
+    } catch (error) {
+      if (!isContextOverflowError(error)) {
+        throw error;
+      }
+      const compaction = await this.compactConversation({ force: true, reason: "auto" });
+      if (!compaction.compacted) {
+        throw error;
+      }
+      this.usagePhase = phase;
+      return await this.grokClient.chat(this.messages, tools, model, searchOptions, undefined, signal);
     }
   }
 
@@ -550,11 +683,18 @@ Current working directory: ${process.cwd()}`,
     return reduce(previous, item.choices[0]?.delta || {});
   }
 
+  /**
+   * Streaming agent loop. `model` and `allowedTools` restrict this message
+   * only, e.g. for custom slash commands.
+   */
   async *processUserMessageStream(
-    message: string
+    message: string,
+    options: { phase?: ModelPhase; model?: string; allowedTools?: string[] } = {}
   ): AsyncGenerator<StreamingChunk, void, unknown> {
     // Create new abort controller for this request
     this.abortController = new AbortController();
+    this.beginRun();
+    this.runAllowedTools = options.allowedTools || null;
 
     // Check for identical request repetition
     const requestHash = this.hashRequest(message);
@@ -571,6 +711,7 @@ Current working directory: ${process.cwd()}`,
           `**Suggestion**: Please verify the current state and provide a different request if changes are still needed.`
       };
       this.consecutiveIdenticalRequests.delete(requestHash);
+      this.endRun("loop_detected", `Request repeated ${identicalCount + 1} times`);
       return;
     }
 
@@ -587,6 +728,7 @@ Current working directory: ${process.cwd()}`,
       };
       this.operationTracker.clearAll();
       this.consecutiveIdenticalRequests.delete(requestHash);
+      this.endRun("loop_detected", loopCheck.suggestion);
       return;
     }
 
@@ -599,8 +741,9 @@ Current working directory: ${process.cwd()}`,
       content: message,
       timestamp: new Date(),
     };
-    this.chatHistory.push(userEntry);
-    this.messages.push({ role: "user", content: message });
+    this.addChatEntry(userEntry);
+    this.addMessage({ role: "user", content: await this.expandMCPResources(message) });
+    this.usageTracker.startTurn(message);
 
     // Calculate input tokens
     let inputTokens = this.tokenCounter.countMessageTokens(
@@ -615,6 +758,11 @@ Current working directory: ${process.cwd()}`,
     let toolRounds = 0;
     let totalOutputTokens = 0;
     let lastTokenUpdate = 0;
+    // Compaction is tried once per request that overflows the context window
+    let overflowCompacted = false;
+    let escalationAnnounced = false;
+    let stopReason: StopReason = "completed";
+    let stopError: unknown;
 
     try {
       // PHASE 1: Plan Detection - Check if this request warrants automatic planning
@@ -656,8 +804,8 @@ Current working directory: ${process.cwd()}`,
               content: `Plan executed with ${successCount} successful steps and ${failCount} failed steps.`,
               timestamp: new Date(),
             };
-            this.chatHistory.push(finalEntry);
-            this.messages.push({
+            this.addChatEntry(finalEntry);
+            this.addMessage({
               role: "assistant",
               content: finalEntry.content,
             });
@@ -685,12 +833,23 @@ Current working directory: ${process.cwd()}`,
         if (this.abortController?.signal.aborted) {
           yield {
             type: "content",
-            content: "\n\n[Operation cancelled by user]",
+            content: this.getCancellationNotice(),
           };
           yield { type: "done" };
           return;
         }
 
+        const budgetError = this.checkRunBudget();
+        if (budgetError) {
+          stopReason = "budget_exceeded";
+          stopError = budgetError;
+          yield {
+            type: "content",
+            content: `\n\n⛔ ${budgetError.message}. Stopping.`,
+          };
+          break;
+        }
+
         // Enforce global rate limit
         const now = Date.now();
         const timeSinceLastRequest = now - this.lastRequestTime;
@@ -700,80 +859,148 @@ Current working directory: ${process.cwd()}`,
         }
         this.lastRequestTime = Date.now();
 
+        const compaction = await this.autoCompactIfNeeded();
+        if (compaction) {
+          yield {
+            type: "content",
+            content: `\n🧹 Context nearly full: compacted ${compaction.summarizedMessages} older messages (${compaction.tokensBefore} → ${compaction.tokensAfter} tokens)\n\n`,
+          };
+        }
+
+        // The first request of a turn plans the approach, later ones follow up on tool results
+        const phase = options.phase || (toolRounds === 0 ? "planning" : "toolRounds");
+        const route = options.model ? { model: options.model, escalated: false } : this.routeRequest(phase, message);
+        if (route.escalated && !escalationAnnounced) {
+          escalationAnnounced = true;
+          yield {
+            type: "content",
+            content: `\n⬆️ Self-correction keeps failing, escalating to ${route.model}\n\n`,
+          };
+        }
+
         // Stream response and accumulate
-        const tools = await getAllGrokTools();
+        const tools = (await getAllGrokTools(this.toolRegistry)).filter(
+          (tool) => !this.runAllowedTools || matchesToolPattern(tool.function.name, this.runAllowedTools)
+        );
+        this.startUsageRound(phase);
         const stream = this.grokClient.chatStream(
           this.messages,
           tools,
-          undefined,
-          this.isGrokModel() && this.shouldUseSearchFor(message)
+          route.model,
+          this.supportsLiveSearch(route.model) && this.shouldUseSearchFor(message)
             ? { search_parameters: { mode: "auto" } }
-            : { search_parameters: { mode: "off" } }
+            : { search_parameters: { mode: "off" } },
+          undefined,
+          this.abortController?.signal
         );
         let accumulatedMessage: any = {};
         let accumulatedContent = "";
         let toolCallsYielded = false;
 
-        for await (const chunk of stream) {
-          // Check for cancellation in the streaming loop
-          if (this.abortController?.signal.aborted) {
-            yield {
-              type: "content",
-              content: "\n\n[Operation cancelled by user]",
-            };
-            yield { type: "done" };
-            return;
-          }
+        try {
+          for await (const chunk of stream) {
+            // Check for cancellation in the streaming loop
+            if (this.abortController?.signal.aborted) {
+              yield {
+                type: "content",
+                content: this.getCancellationNotice(),
+              };
+              yield { type: "done" };
+              return;
+            }
+
+            if (chunk.notice) {
+              yield { type: "content", content: `\n⚠️ ${chunk.notice}\n\n` };
+              continue;
+            }
 
-          if (!chunk.choices?.[0]) continue;
+            // The connection dropped mid-response and the request is sent again
+            if (chunk.restart) {
+              accumulatedMessage = {};
+              accumulatedContent = "";
+              toolCallsYielded = false;
+              yield { type: "content", content: "\n⚠️ Connection lost, restarting the response\n\n" };
+              continue;
+            }
 
-          // Accumulate the message using reducer
-          accumulatedMessage = this.messageReducer(accumulatedMessage, chunk);
+            if (!chunk.choices?.[0]) continue;
 
-          // Check for tool calls - yield when we have complete tool calls with function names
-          if (!toolCallsYielded && accumulatedMessage.tool_calls?.length > 0) {
-            // Check if we have at least one complete tool call with a function name
-            const hasCompleteTool = accumulatedMessage.tool_calls.some(
-              (tc: any) => tc.function?.name
-            );
-            if (hasCompleteTool) {
-              yield {
-                type: "tool_calls",
-                toolCalls: accumulatedMessage.tool_calls,
-              };
-              toolCallsYielded = true;
+            // Accumulate the message using reducer
+            accumulatedMessage = this.messageReducer(accumulatedMessage, chunk);
+
+            // Check for tool calls - yield when we have complete tool calls with function names
+            if (!toolCallsYielded && accumulatedMessage.tool_calls?.length > 0) {
+              // Check if we have at least one complete tool call with a function name
+              const hasCompleteTool = accumulatedMessage.tool_calls.some(
+                (tc: any) => tc.function?.name
+              );
+              if (hasCompleteTool) {
+                yield {
+                  type: "tool_calls",
+                  toolCalls: accumulatedMessage.tool_calls,
+                };
+                toolCallsYielded = true;
+              }
             }
-          }
 
-          // Stream content as it comes
-          if (chunk.choices[0].delta?.content) {
-            accumulatedContent += chunk.choices[0].delta.content;
+            // Stream content as it comes
+            if (chunk.choices[0].delta?.content) {
+              accumulatedContent += chunk.choices[0].delta.content;
 
-            // Update token count in real-time including accumulated content and any tool calls
-            const currentOutputTokens =
-              this.tokenCounter.estimateStreamingTokens(accumulatedContent) +
-              (accumulatedMessage.tool_calls
-                ? this.tokenCounter.countTokens(
-                  JSON.stringify(accumulatedMessage.tool_calls)
-                )
-                : 0);
-            totalOutputTokens = currentOutputTokens;
+              // Update token count in real-time including accumulated content and any tool calls
+              const currentOutputTokens =
+                this.tokenCounter.estimateStreamingTokens(accumulatedContent) +
+                (accumulatedMessage.tool_calls
+                  ? this.tokenCounter.countTokens(
+                    JSON.stringify(accumulatedMessage.tool_calls)
+                  )
+                  : 0);
+              totalOutputTokens = currentOutputTokens;
 
-            yield {
-              type: "content",
-              content: chunk.choices[0].delta.content,
-            };
+              yield {
+                type: "content",
+                content: chunk.choices[0].delta.content,
+              };
 
-            // Emit token count update
-            const now = Date.now();
-            if (now - lastTokenUpdate > 250) {
-              lastTokenUpdate = now;
+              // Emit token count update
+              const now = Date.now();
+              if (now - lastTokenUpdate > 250) {
+                lastTokenUpdate = now;
+                yield {
+                  type: "token_count",
+                  tokenCount: inputTokens + totalOutputTokens,
+                };
+              }
+            }
+          }
+        } catch (error) {
+          // Summarize older history and send the request again
+          if (isContextOverflowError(error) && !overflowCompacted) {
+            overflowCompacted = true;
+            const compaction = await this.compactConversation({ force: true, reason: "auto" }).catch((compactionError) => {
+              debugLog("Compaction after context overflow failed:", compactionError);
+              return null;
+            });
+            if (compaction?.compacted) {
               yield {
-                type: "token_count",
-                tokenCount: inputTokens + totalOutputTokens,
+                type: "content",
+                content: `\n🧹 Context window exceeded: compacted ${compaction.summarizedMessages} older messages (${compaction.tokensBefore} → ${compaction.tokensAfter} tokens), retrying\n\n`,
               };
+              continue;
             }
           }
+          throw error;
+        }
+        overflowCompacted = false;
+
+        // Replace the estimates with the provider's counts
+        if (this.lastUsageRecord) {
+          inputTokens = this.lastUsageRecord.promptTokens;
+          totalOutputTokens = this.lastUsageRecord.completionTokens;
+          yield {
+            type: "token_count",
+            tokenCount: inputTokens + totalOutputTokens,
+          };
         }
 
         // Add assistant entry to history
@@ -783,10 +1010,10 @@ Current working directory: ${process.cwd()}`,
           timestamp: new Date(),
           toolCalls: accumulatedMessage.tool_calls || undefined,
         };
-        this.chatHistory.push(assistantEntry);
+        this.addChatEntry(assistantEntry);
 
         // Add accumulated message to conversation
-        this.messages.push({
+        this.addMessage({
           role: "assistant",
           content: accumulatedMessage.content || "",
           tool_calls: accumulatedMessage.tool_calls,
@@ -795,6 +1022,7 @@ Current working directory: ${process.cwd()}`,
         // Handle tool calls if present
         if (accumulatedMessage.tool_calls?.length > 0) {
           toolRounds++;
+          this.attributeUsageToTools(accumulatedMessage.tool_calls);
 
           // Only yield tool_calls if we haven't already yielded them during streaming
           if (!toolCallsYielded) {
@@ -804,8 +1032,9 @@ Current working directory: ${process.cwd()}`,
             };
           }
 
-          // Execute tools with concurrency limit
+          // Execute tools with concurrency limit, streaming live output as partial results
           const toolCalls = accumulatedMessage.tool_calls;
+          const liveOutput = new ToolOutputStream();
           for (let i = 0; i < toolCalls.length; i += this.maxConcurrentToolCalls) {
             const batch = toolCalls.slice(i, i + this.maxConcurrentToolCalls);
             const batchPromises = batch.map(async (toolCall: GrokToolCall) => {
@@ -814,7 +1043,13 @@ Current working directory: ${process.cwd()}`,
                 return null;
               }
 
-              const result = await this.executeTool(toolCall);
+              // Arguments are complete now, unlike in tool_calls chunks yielded mid-stream
+              this.emit("tool_start", toolCall);
+              const result = await this.executeTool(toolCall, {
+                onOutput: liveOutput.reporter(toolCall),
+                signal: this.abortController?.signal,
+              });
+              this.recordToolResult(result);
 
               // PHASE 3: Check for self-correction signal (typed error or legacy string)
               let correctionInfo = null;
@@ -824,7 +1059,7 @@ Current working directory: ${process.cwd()}`,
 
                 if (correctionResult.shouldRetry && correctionResult.fallbackRequest) {
                   // Add fallback request to conversation for LLM re-engagement
-                  this.messages.push({
+                  this.addMessage({
                     role: "user",
                     content: `Previous approach failed. ${correctionResult.fallbackRequest}\n\nPlease try again with the suggested approach.`
                   });
@@ -853,10 +1088,10 @@ Current working directory: ${process.cwd()}`,
                 toolCall: toolCall,
                 toolResult: result,
               };
-              this.chatHistory.push(toolResultEntry);
+              this.addChatEntry(toolResultEntry);
 
               // Add tool result with proper format (needed for AI context)
-              this.messages.push({
+              this.addMessage({
                 role: "tool",
                 content: result.success
                   ? result.output || "Success"
@@ -867,12 +1102,12 @@ Current working directory: ${process.cwd()}`,
               return { toolCall, result, entry: toolResultEntry, correctionInfo };
             });
 
-            const batchResults = await Promise.all(batchPromises);
+            const batchResults = yield* liveOutput.forward(Promise.all(batchPromises));
             if (batchResults.includes(null)) {
               // Cancelled
               yield {
                 type: "content",
-                content: "\n\n[Operation cancelled by user]",
+                content: this.getCancellationNotice(),
               };
               yield { type: "done" };
               return;
@@ -923,6 +1158,7 @@ Current working directory: ${process.cwd()}`,
       }
 
       if (toolRounds >= maxToolRounds) {
+        stopReason = "max_tool_rounds";
         yield {
           type: "content",
           content:
@@ -939,30 +1175,37 @@ Current working directory: ${process.cwd()}`,
       if (this.abortController?.signal.aborted) {
         yield {
           type: "content",
-          content: "\n\n[Operation cancelled by user]",
+          content: this.getCancellationNotice(),
         };
         yield { type: "done" };
         return;
       }
 
+      stopReason = "error";
+      stopError = error;
       const errorEntry: ChatEntry = {
         type: "assistant",
         content: `Sorry, I encountered an error: ${error.message}`,
         timestamp: new Date(),
       };
-      this.chatHistory.push(errorEntry);
+      this.addChatEntry(errorEntry);
       yield {
         type: "content",
         content: errorEntry.content,
       };
       yield { type: "done" };
     } finally {
+      if (stopReason === "completed" && this.abortController?.signal.aborted) {
+        stopError = this.getBudgetAbortReason() || undefined;
+        stopReason = stopError ? "budget_exceeded" : "cancelled";
+      }
+      this.endRun(stopReason, stopError);
       // Clean up abort controller
       this.abortController = null;
     }
   }
 
-  private async executeTool(toolCall: GrokToolCall): Promise<ToolResult> {
+  private async executeTool(toolCall: GrokToolCall, context?: ToolExecutionContext): Promise<ToolResult> {
     const operationId = this.metrics.startOperation(toolCall.function.name, {
       toolCallId: toolCall.id,
       args: toolCall.function.arguments
@@ -972,343 +1215,53 @@ Current working directory: ${process.cwd()}`,
       const args = JSON.parse(toolCall.function.arguments);
       let result: ToolResult;
 
-      switch (toolCall.function.name) {
-        case "view_file":
-          try {
-            const range: [number, number] | undefined =
-              args.start_line && args.end_line
-                ? [args.start_line, args.end_line]
-                : undefined;
-            const viewResult = await this.textEditor.view(args.path, range);
-
-            // If file not found, provide helpful error
-            if (!viewResult.success && viewResult.error?.includes('not found')) {
-              result = {
-                success: false,
-                error: `SELF_CORRECT_ATTEMPT: File not found: ${args.path}. ` +
-                  `Please verify the file path is correct. Try one of these:\n` +
-                  `1. Use 'search' to find the file in the project\n` +
-                  `2. Check if the file was moved or renamed\n` +
-                  `3. Verify you're in the correct directory\n` +
-                  `4. Use 'bash' with 'find' or 'ls' to locate the file`,
-                metadata: {
-                  originalTool: 'view_file',
-                  originalError: viewResult.error,
-                  suggestedApproach: 'search_for_file',
-                  fallbackTools: ['search', 'bash']
-                }
-              };
-            } else {
-              result = viewResult;
-            }
-          } catch (error: any) {
-            debugLog(`view_file tool failed: ${error.message}`);
-
-            result = {
-              success: false,
-              error: `SELF_CORRECT_ATTEMPT: Failed to view file: ${error.message}. ` +
-                `Please verify the file exists and is accessible.`,
-              metadata: {
-                originalTool: 'view_file',
-                originalError: error.message,
-                suggestedApproach: 'verify_file_exists',
-                fallbackTools: ['bash', 'search']
-              }
-            };
-          }
-          break;
-
-        case "create_file":
-          try {
-            const result = await this.textEditor.create(args.path, args.content);
-
-            // If file already exists, provide helpful error
-            if (!result.success && result.error?.includes('already exists')) {
-              return {
-                success: false,
-                error: `SELF_CORRECT_ATTEMPT: File already exists: ${args.path}. ` +
-                  `Please try one of these approaches:\n` +
-                  `1. Use 'view_file' to see the current content\n` +
-                  `2. Use 'str_replace_editor' to modify the existing file\n` +
-                  `3. Choose a different file name\n` +
-                  `4. Delete the existing file first if you want to replace it`,
-                metadata: {
-                  originalTool: 'create_file',
-                  originalError: result.error,
-                  suggestedApproach: 'view_then_edit',
-                  fallbackTools: ['view_file', 'str_replace_editor']
-                }
-              };
-            }
-
-            return result;
-          } catch (error: any) {
-            debugLog(`create_file tool failed: ${error.message}`);
-
-            return {
-              success: false,
-              error: `SELF_CORRECT_ATTEMPT: Failed to create file: ${error.message}. ` +
-                `Please verify the directory exists and you have write permissions.`,
-              metadata: {
-                originalTool: 'create_file',
-                originalError: error.message,
-                suggestedApproach: 'verify_directory',
-                fallbackTools: ['bash']
-              }
-            };
-          }
-
-        case "str_replace_editor":
-          try {
-            const result = await this.textEditor.strReplace(
-              args.path,
-              args.old_str,
-              args.new_str,
-              args.replace_all
-            );
-
-            // Check if string not found - trigger self-correction
-            if (!result.success && result.error?.includes('String not found')) {
-              return {
-                success: false,
-                error: `SELF_CORRECT_ATTEMPT: The exact string was not found in the file. ` +
-                  `This often happens due to whitespace differences or formatting. ` +
-                  `Please try one of these approaches:\n` +
-                  `1. Use 'view_file' to see the exact current content first\n` +
-                  `2. Use 'multi_file_edit' with line-based operations instead\n` +
-                  `3. Use 'code_analysis' to analyze the file structure first\n` +
-                  `4. Break the edit into smaller, more specific single-line changes`,
-                metadata: {
-                  originalTool: 'str_replace_editor',
-                  originalError: result.error,
-                  suggestedApproach: 'view_file_then_retry',
-                  fallbackTools: ['view_file', 'multi_file_edit', 'code_analysis']
-                }
-              };
-            }
-
-            return result;
-          } catch (error: any) {
-            debugLog(`str_replace_editor tool failed: ${error.message}`);
-
-            // Return self-correction signal instead of bash fallback
-            return {
-              success: false,
-              error: `SELF_CORRECT_ATTEMPT: File operation failed: ${error.message}. ` +
-                `Please use 'view_file' to check the current state and try again with the exact content.`,
-              metadata: {
-                originalTool: 'str_replace_editor',
-                originalError: error.message,
-                suggestedApproach: 'view_file_then_retry',
-                fallbackTools: ['view_file', 'multi_file_edit']
-              }
-            };
-          }
-
-        case "edit_file":
-          if (!this.morphEditor) {
-            return {
-              success: false,
-              error:
-                "Morph Fast Apply not available. Please set MORPH_API_KEY environment variable to use this feature.",
-            };
-          }
-          return await this.morphEditor.editFile(
-            args.target_file,
-            args.instructions,
-            args.code_edit
-          );
-
-        case "bash":
-          return await this.bash.execute(args.command);
-
-        case "create_todo_list":
-          return await this.todoTool.createTodoList(args.todos);
-
-        case "update_todo_list":
-          return await this.todoTool.updateTodoList(args.updates);
-
-        case "search":
-          try {
-            return await this.search.search(args.query, {
-              searchType: args.search_type,
-              includePattern: args.include_pattern,
-              excludePattern: args.exclude_pattern,
-              caseSensitive: args.case_sensitive,
-              wholeWord: args.whole_word,
-              regex: args.regex,
-              maxResults: args.max_results,
-              fileTypes: args.file_types,
-              includeHidden: args.include_hidden,
-            });
-          } catch (error: any) {
-            debugLog(`search tool failed, falling back to bash: ${error.message}`);
-            // Fallback to bash grep/find
-            let command = `grep -r "${args.query}" .`;
-            if (args.include_pattern) {
-              command += ` --include="${args.include_pattern}"`;
-            }
-            if (args.exclude_pattern) {
-              command += ` --exclude="${args.exclude_pattern}"`;
-            }
-            return await this.bash.execute(command);
-          }
-
-        // Advanced Tools
-        case "multi_file_edit":
-          switch (args.operation) {
-            case "begin_transaction":
-              return await this.multiFileEditor.beginTransaction(args.description);
-            case "add_operations":
-              return await this.multiFileEditor.addOperations(args.operations);
-            case "preview_transaction":
-              return await this.multiFileEditor.previewTransaction();
-            case "commit_transaction":
-              return await this.multiFileEditor.commitTransaction();
-            case "rollback_transaction":
-              return await this.multiFileEditor.rollbackTransaction(args.transaction_id);
-            case "execute_multi_file":
-              return await this.multiFileEditor.executeMultiFileOperation(args.operations, args.description);
-            default:
-              return { success: false, error: `Unknown multi_file_edit operation: ${args.operation}` };
-          }
-
-        case "advanced_search":
-          switch (args.operation) {
-            case "search":
-              return await this.advancedSearch.search(args.path, args.options);
-            case "search_replace":
-              return await this.advancedSearch.searchAndReplace(args.path, args.options);
-            case "find_files":
-              return await this.advancedSearch.findFiles(args.path, args.pattern, args.options);
-            default:
-              return { success: false, error: `Unknown advanced_search operation: ${args.operation}` };
-          }
-
-        case "file_tree_ops":
-          switch (args.operation) {
-            case "generate_tree":
-              return await this.fileTreeOps.generateTree(args.path, args.options);
-            case "bulk_operations":
-              return await this.fileTreeOps.bulkOperations(args.operations);
-            case "copy_structure":
-              return await this.fileTreeOps.copyStructure(args.source, args.destination, args.options);
-            case "organize_files":
-              return await this.fileTreeOps.organizeFiles(args.source, args.organization_type, args.destination);
-            case "cleanup_empty_dirs":
-              return await this.fileTreeOps.cleanupEmptyDirectories(args.path);
-            default:
-              return { success: false, error: `Unknown file_tree_ops operation: ${args.operation}` };
-          }
-
-        case "code_analysis":
-          switch (args.operation) {
-            case "analyze":
-              return await this.codeAwareEditor.analyzeCode(args.file_path);
-            case "refactor":
-              return await this.codeAwareEditor.refactor(args.file_path, args.refactor_operation);
-            case "smart_insert":
-              return await this.codeAwareEditor.smartInsert(args.file_path, args.code, args.location, args.target);
-            case "format_code":
-              return await this.codeAwareEditor.formatCode(args.file_path, args.options);
-            case "add_imports":
-              return await this.codeAwareEditor.addMissingImports(args.file_path, args.symbols);
-            default:
-              return { success: false, error: `Unknown code_analysis operation: ${args.operation}` };
-          }
-
-        case "operation_history":
-          switch (args.operation) {
-            case "show_history":
-              return await this.operationHistory.showHistory(args.limit);
-            case "undo":
-              return await this.operationHistory.undo();
-            case "redo":
-              return await this.operationHistory.redo();
-            case "goto_point":
-              return await this.operationHistory.goToHistoryPoint(args.entry_id);
-            case "clear_history":
-              return await this.operationHistory.clearHistory();
-            default:
-              return { success: false, error: `Unknown operation_history operation: ${args.operation}` };
-          }
-
-        case "symbol_search":
-          return await this.symbolSearch.execute(args);
-
-        case "dependency_analyzer":
-          return await this.dependencyAnalyzer.execute(args);
-
-        case "code_context":
-          return await this.codeContext.execute(args);
-
-        case "refactoring_assistant":
-          try {
-            return await this.refactoringAssistant.execute(args);
-          } catch (error: any) {
-            // PHASE 3: Return SELF_CORRECT_ATTEMPT signal for LLM re-engagement
-            debugLog(`refactoring_assistant failed: ${error.message}`);
-
-            return {
-              success: false,
-              error: `SELF_CORRECT_ATTEMPT: The refactoring operation failed with error: "${error.message}". ` +
-                `Please generate a new plan using the 'multi_file_edit' tool for more direct text manipulation ` +
-                `across multiple files. Break down the refactoring into smaller, explicit file edits with ` +
-                `specific line ranges and content replacements.`,
-              metadata: {
-                originalTool: 'refactoring_assistant',
-                originalError: error.message,
-                suggestedApproach: 'multi_file_edit',
-                fallbackTools: ['multi_file_edit', 'code_analysis', 'str_replace_editor']
-              }
-            } as any;
-          }
-
-        case "task_planner":
-          // Handle task planner operations
-          const plannerResult = await this.taskPlanner.execute(args);
-
-          // If this is a create_plan operation and it succeeded, optionally execute it
-          if (args.operation === 'create_plan' && plannerResult.success && args.autoExecute) {
-            try {
-              const executionResult = await this.planAndExecute(args.userRequest, {
-                currentDirectory: args.currentDirectory
-              });
-
-              return {
-                success: executionResult.success,
-                output: executionResult.success
-                  ? `Plan created and executed successfully!\n\n${JSON.stringify(executionResult, null, 2)}`
-                  : `Plan execution failed: ${executionResult.error}`,
-                error: executionResult.success ? undefined : executionResult.error
-              };
-            } catch (error: any) {
-              return {
-                success: false,
-                error: `Plan execution error: ${error.message}`
-              };
-            }
-          }
+      if (this.runAllowedTools && !matchesToolPattern(toolCall.function.name, this.runAllowedTools)) {
+        const error = `Tool ${toolCall.function.name} is not allowed here. Allowed tools: ${this.runAllowedTools.join(", ")}`;
+        this.metrics.endOperation(operationId, false, error);
+        return { success: false, error };
+      }
 
-          return plannerResult;
+      if (this.toolRegistry.has(toolCall.function.name)) {
+        // Files named in the arguments; what bash commands write is not counted
+        const changedFiles = this.toolRegistry.get(toolCall.function.name)?.category === "write"
+          ? getFileArguments(args).map((file) => path.resolve(file))
+          : [];
+        const budgetError = this.checkFilesChangedBudget(changedFiles);
+        if (budgetError) {
+          // Refuse the edit and end the run instead of overshooting the limit
+          this.abortController?.abort(budgetError);
+          this.metrics.endOperation(operationId, false, budgetError.message);
+          return { success: false, error: budgetError.message };
+        }
 
-        default:
-          // Check if this is an MCP tool
-          if (toolCall.function.name.startsWith("mcp__")) {
-            result = await this.executeMCPTool(toolCall);
-          } else {
-            result = {
-              success: false,
-              error: `Unknown tool: ${toolCall.function.name}`,
-            };
-          }
-          break;
+        result = await this.toolRegistry.execute(toolCall.function.name, args, context);
+        if (Array.isArray(result.metadata?.filesChanged)) {
+          this.countReportedFilesChanged(result.metadata!.filesChanged);
+        } else if (result.success) {
+          changedFiles.forEach((file) => this.runFilesChanged.add(file));
+        }
+      } else if (toolCall.function.name.startsWith("mcp__")) {
+        // MCP tools are discovered at runtime and dispatched separately
+        result = await this.executeMCPTool(toolCall);
+      } else if (toolCall.function.name === READ_MCP_RESOURCE_TOOL) {
+        result = await this.readMCPResource(args);
+      } else {
+        result = {
+          success: false,
+          error: `Unknown tool: ${toolCall.function.name}`,
+        };
       }
 
       // Track metrics for successful execution
       this.metrics.endOperation(operationId, result.success, result.error);
       return result;
     } catch (error: any) {
+      // Typed self-correction errors go back to the tool loop so the model can adapt
+      if (error instanceof SelfCorrectError) {
+        this.metrics.endOperation(operationId, false, error.message);
+        return error.toToolResult();
+      }
+
       // Self-correction: Attempt fallback if available
       debugLog(`Tool ${toolCall.function.name} failed: ${error.message}`);
 
@@ -1336,6 +1289,7 @@ Current working directory: ${process.cwd()}`,
       const mcpManager = getMCPManager();
 
       const result = await mcpManager.callTool(toolCall.function.name, args);
+      const serverName = mcpManager.getTools().find((tool) => tool.name === toolCall.function.name)?.serverName || "mcp";
 
       if (result.isError) {
         return {
@@ -1350,7 +1304,7 @@ Current working directory: ${process.cwd()}`,
           if (item.type === "text") {
             return item.text;
           } else if (item.type === "resource") {
-            return `Resource: ${item.resource?.uri || "Unknown"}`;
+            return formatResourceContents(serverName, { contents: [item.resource] });
           }
           return String(item);
         })
@@ -1368,13 +1322,159 @@ Current working directory: ${process.cwd()}`,
     }
   }
 
+  private async readMCPResource(args: { server?: string; uri?: string }): Promise<ToolResult> {
+    if (!args.server || !args.uri) {
+      return { success: false, error: "Both server and uri are required" };
+    }
+    try {
+      const result = await getMCPManager().readResource(args.server, args.uri);
+      return { success: true, output: formatResourceContents(args.server, result) };
+    } catch (error: any) {
+      return { success: false, error: `MCP resource read error: ${error.message}` };
+    }
+  }
+
+  /**
+   * The user message with the contents of its `@server:resource` references
+   */
+  private async expandMCPResources(message: string): Promise<string> {
+    if (!message.includes("@")) {
+      return message;
+    }
+    try {
+      return await expandResourceReferences(message, getMCPManager());
+    } catch (error: any) {
+      debugLog(`Failed to expand MCP resource references: ${error.message}`);
+      return message;
+    }
+  }
+
   getChatHistory(): ChatEntry[] {
     return [...this.chatHistory];
   }
 
+  /**
+   * Append a message to the model conversation and persist it to the session
+   */
+  private addMessage(message: GrokMessage): void {
+    this.messages.push(message);
+    this.persistSession((sessionId) => this.sessionStore.appendMessage(sessionId, message));
+  }
+
+  /**
+   * Append a visible chat entry and persist it to the session
+   */
+  private addChatEntry(entry: ChatEntry): void {
+    this.chatHistory.push(entry);
+    this.persistChatEntry(entry);
+  }
+
+  private persistChatEntry(entry: ChatEntry): void {
+    this.persistSession((sessionId) => this.sessionStore.appendChatEntry(sessionId, entry));
+  }
+
+  private persistSession(write: (sessionId: string) => void): void {
+    try {
+      if (!this.sessionId) {
+        // Sessions are created lazily so launching the CLI doesn't leave empty files behind
+        this.sessionId = this.sessionStore.create(this.getCurrentModel()).id;
+      }
+      write(this.sessionId);
+    } catch (error) {
+      // Silently ignore persistence errors to avoid disrupting the conversation
+      debugLog('Failed to persist session:', error);
+    }
+  }
+
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  listSessions(): SessionMetadata[] {
+    return this.sessionStore.list();
+  }
+
+  /**
+   * Restore a saved session (the most recent one when no id is given)
+   */
+  resumeSession(sessionId?: string): SessionMetadata {
+    const targetId = sessionId || this.sessionStore.getMostRecent()?.id;
+    if (!targetId) {
+      throw new Error("No saved sessions found for this project");
+    }
+
+    const session = this.sessionStore.load(targetId);
+    if (!session) {
+      throw new Error(`Session not found: ${targetId}`);
+    }
+
+    this.loadSessionState(session.metadata.id, session.messages, session.chatHistory);
+    if (session.metadata.model && session.metadata.model !== this.getCurrentModel()) {
+      this.setModel(session.metadata.model);
+    }
+
+    return session.metadata;
+  }
+
+  /**
+   * Copy a session (the current one when no id is given) and continue in the copy
+   */
+  forkSession(sessionId?: string): SessionMetadata {
+    const sourceId = sessionId || this.sessionId;
+    if (!sourceId) {
+      throw new Error("There is no active session to fork");
+    }
+
+    const forked = this.sessionStore.fork(sourceId);
+    if (!forked) {
+      throw new Error(`Session not found: ${sourceId}`);
+    }
+
+    this.loadSessionState(forked.metadata.id, forked.messages, forked.chatHistory);
+    return forked.metadata;
+  }
+
+  deleteSession(sessionId: string): boolean {
+    const deleted = this.sessionStore.delete(sessionId);
+    if (deleted && this.sessionId && this.sessionId.startsWith(sessionId)) {
+      this.sessionId = null;
+    }
+    return deleted;
+  }
+
+  /**
+   * Drop the current conversation and start a fresh session on the next message
+   */
+  startNewSession(): void {
+    this.messages = [this.messages[0]];
+    this.chatHistory = [];
+    this.sessionId = null;
+    this.lastAutoCompactionTokens = 0;
+    this.consecutiveIdenticalRequests.clear();
+    this.correctionAttempts.clear();
+    this.usageTracker = new UsageTracker();
+    this.emit("usage", this.usageTracker.getTotals());
+  }
+
+  private loadSessionState(sessionId: string, messages: GrokMessage[], chatHistory: ChatEntry[]): void {
+    // Always use the freshly generated system prompt (cwd, custom instructions)
+    const systemPrompt = this.messages[0];
+    const restored = messages[0]?.role === "system" ? messages.slice(1) : messages;
+
+    this.messages = [systemPrompt, ...restored];
+    this.chatHistory = [...chatHistory];
+    this.sessionId = sessionId;
+    this.lastAutoCompactionTokens = 0;
+    this.consecutiveIdenticalRequests.clear();
+    this.correctionAttempts.clear();
+    this.usageTracker = new UsageTracker();
+    this.usageTracker.restoreSession(sessionId);
+    this.emit("usage", this.usageTracker.getTotals());
+  }
+
   saveSessionLog(): void {
     try {
-      const sessionDir = path.join(require('os').homedir(), '.grok');
+      const sessionDir = path.join(os.homedir(), '.grok');
       if (!fs.existsSync(sessionDir)) {
         fs.mkdirSync(sessionDir, { recursive: true });
       }
@@ -1399,17 +1499,428 @@ Current working directory: ${process.cwd()}`,
     return this.grokClient.getCurrentModel();
   }
 
+  /**
+   * Model providers known to the client, used to validate `provider/model` names
+   */
+  getProviderConfigs(): ProviderConfig[] {
+    return this.grokClient.getProviderConfigs();
+  }
+
   setModel(model: string): void {
     this.grokClient.setModel(model);
     // Update token counter for new model
     this.tokenCounter.dispose();
     this.tokenCounter = createTokenCounter(model);
+    if (this.sessionId) {
+      this.persistSession((sessionId) => this.sessionStore.updateMetadata(sessionId, { model }));
+    }
+  }
+
+  /**
+   * Build the registry of tools exposed to the model from each tool's own definitions
+   */
+  private createToolRegistry(): ToolRegistry {
+    const registry = new ToolRegistry();
+
+    registry.registerProvider(this.textEditor);
+    if (this.morphEditor) {
+      registry.registerProvider(this.morphEditor);
+    }
+    registry.registerProvider(this.bash);
+    registry.registerProvider(this.search);
+    registry.registerProvider(this.todoTool);
+    registry.registerProvider(this.astParser);
+    registry.registerProvider(this.symbolSearch);
+    registry.registerProvider(this.dependencyAnalyzer);
+    registry.register(this.getSpawnSubagentDefinition());
+    registry.registerProvider(this.codeContext);
+    registry.registerProvider(this.refactoringAssistant);
+    registry.registerProvider(this.languageServer);
+
+    // task_planner can hand its plan straight to the agent's orchestrator
+    for (const definition of this.taskPlanner.getToolDefinitions()) {
+      registry.register({ ...definition, handler: (args) => this.executeTaskPlanner(args) });
+    }
+
+    registry.registerProvider(this.multiFileEditor);
+    registry.registerProvider(this.advancedSearch);
+    registry.registerProvider(this.fileTreeOps);
+    registry.registerProvider(this.codeAwareEditor);
+    registry.registerProvider(this.operationHistory);
+
+    return registry;
+  }
+
+  getToolRegistry(): ToolRegistry {
+    return this.toolRegistry;
+  }
+
+  private getSpawnSubagentDefinition(): ToolDefinition {
+    return {
+      name: "spawn_subagent",
+      description: "Delegate a self-contained task to a specialized subagent that runs in its own isolated conversation with a restricted tool set and token budget. Returns a structured result. Use it to keep large reads (docs generation, change analysis, summarizing long content, risk reviews) out of the main conversation.",
+      summary: "Delegate a self-contained task (docs, change analysis, summarizing, risk review) to an isolated subagent with its own token budget",
+      category: "internal",
+      group: "core",
+      parameters: {
+        type: "object",
+        properties: {
+          type: {
+            type: "string",
+            enum: SUBAGENT_TYPES,
+            description: "Subagent type: docgen (write documentation), prd-assistant (review a PRD), delta (impact of changes between git revisions), token-optimizer (reduce token usage), summarizer (compress content), sentinel (error patterns in logs), regression-hunter (risk of proposed changes), guardrail (validate a plan against rules)"
+          },
+          task: {
+            type: "string",
+            description: "Clear, complete instructions for the subagent. It cannot see this conversation."
+          },
+          input: {
+            type: "object",
+            description: "Optional structured input for the subagent (e.g. {\"fromCommit\": \"HEAD~3\"} or {\"content\": \"...\"})"
+          }
+        },
+        required: ["type", "task"]
+      },
+      handler: (args) => this.delegateToSubagent(args),
+    };
+  }
+
+  private async executeTaskPlanner(args: any): Promise<ToolResult> {
+    const plannerResult = await this.taskPlanner.execute(args);
+
+    // If this is a create_plan operation and it succeeded, optionally execute it
+    if (args.operation === 'create_plan' && plannerResult.success && args.autoExecute) {
+      try {
+        const executionResult = await this.planAndExecute(args.userRequest, {
+          currentDirectory: args.currentDirectory
+        });
+
+        return {
+          success: executionResult.success,
+          output: executionResult.success
+            ? `Plan created and executed successfully!\n\n${JSON.stringify(executionResult, null, 2)}`
+            : `Plan execution failed: ${executionResult.error}`,
+          error: executionResult.success ? undefined : executionResult.error
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: `Plan execution error: ${error.message}`
+        };
+      }
+    }
+
+    return plannerResult;
+  }
+
+  /**
+   * Run a spawn_subagent tool call and format its structured result
+   */
+  private async delegateToSubagent(args: any): Promise<ToolResult> {
+    const type = args.type as SubagentConfig["type"];
+    if (!SUBAGENT_TYPES.includes(type)) {
+      return {
+        success: false,
+        error: `Unknown subagent type "${args.type}". Available: ${SUBAGENT_TYPES.join(", ")}`,
+      };
+    }
+
+    const input = args.input && typeof args.input === "object"
+      ? { task: args.task, ...args.input }
+      : { task: args.task };
+    const result = await this.subagents.runSubagent({ type, input, priority: "medium" });
+
+    if (!result.success) {
+      return {
+        success: false,
+        error: `${type} subagent failed: ${result.error} (${result.tokensUsed} tokens used)`,
+        data: result,
+      };
+    }
+
+    return {
+      success: true,
+      output: `${type} subagent: ${result.summary}\n(${result.tokensUsed} tokens, ${(result.executionTime / 1000).toFixed(1)}s)\n\n${JSON.stringify(result.output, null, 2)}`,
+      data: result,
+    };
+  }
+
+  getContextUsage(): { tokens: number; contextWindow: number } {
+    return {
+      tokens: this.tokenCounter.countMessageTokens(this.messages as any),
+      contextWindow: getContextWindow(this.getCurrentModel()),
+    };
+  }
+
+  /**
+   * Token usage and cost of the current session
+   */
+  getUsageTotals(): UsageTotals {
+    return this.usageTracker.getTotals();
+  }
+
+  /**
+   * Usage broken down per model, tool, turn and tool-call round
+   */
+  getUsageReport(): UsageReport {
+    return this.usageTracker.getReport();
+  }
+
+  /**
+   * Limits for each following run; replaces the project's `budget` setting
+   */
+  setRunBudget(budget: RunBudget): void {
+    this.runBudget = budget;
+  }
+
+  getRunBudget(): RunBudget {
+    return this.runBudget;
+  }
+
+  /**
+   * How the last run ended, with its duration, usage and changed files
+   */
+  getLastRunSummary(): RunSummary | null {
+    return this.lastRunSummary;
+  }
+
+  private beginRun(): void {
+    if (this.wallTimeTimer) {
+      clearTimeout(this.wallTimeTimer);
+      this.wallTimeTimer = null;
+    }
+    this.runStartTime = Date.now();
+    this.runUsageCheckpoint = this.usageTracker.checkpoint();
+    this.runFilesChanged.clear();
+    this.runToolStats = { calls: 0, failed: 0, lastFailed: false };
+    this.lastRunSummary = null;
+
+    // Also stops model requests and tools that are still running
+    const maxWallTime = this.runBudget.maxWallTime;
+    if (maxWallTime !== undefined) {
+      const controller = this.abortController;
+      this.wallTimeTimer = setTimeout(() => {
+        controller?.abort(budgetExceeded("maxWallTime", maxWallTime, (Date.now() - this.runStartTime) / 1000));
+      }, maxWallTime * 1000);
+      this.wallTimeTimer.unref();
+    }
+  }
+
+  private endRun(stopReason: StopReason, detail?: unknown): void {
+    if (this.wallTimeTimer) {
+      clearTimeout(this.wallTimeTimer);
+      this.wallTimeTimer = null;
+    }
+    this.runAllowedTools = null;
+
+    const summary: RunSummary = {
+      stopReason,
+      durationMs: Date.now() - this.runStartTime,
+      filesChanged: Array.from(this.runFilesChanged),
+      toolCalls: this.runToolStats.calls,
+      failedToolCalls: this.runToolStats.failed,
+      lastToolFailed: this.runToolStats.lastFailed,
+      usage: this.usageTracker.getTotals(this.runUsageCheckpoint),
+    };
+    if (detail instanceof BudgetExceededError) {
+      summary.budget = { limit: detail.limit as BudgetLimit, max: detail.max, actual: detail.actual };
+    }
+    if (detail instanceof GrokAPIError) {
+      summary.apiError = { kind: detail.kind, provider: detail.provider, status: detail.status };
+    }
+    if (detail) {
+      summary.message = detail instanceof Error ? detail.message : String(detail);
+    }
+
+    this.lastRunSummary = summary;
+    this.emit("run_end", summary);
+  }
+
+  private recordToolResult(result: ToolResult): void {
+    this.runToolStats.calls++;
+    if (!result.success) {
+      this.runToolStats.failed++;
+    }
+    this.runToolStats.lastFailed = !result.success;
+  }
+
+  private checkRunBudget(): BudgetExceededError | null {
+    return checkBudget(this.runBudget, {
+      usage: this.usageTracker.getTotals(this.runUsageCheckpoint),
+      elapsedMs: Date.now() - this.runStartTime,
+    });
+  }
+
+  /**
+   * Count the files a tool reports in `metadata.filesChanged` instead of those
+   * named in its arguments, which miss renames, undo and the like. These are
+   * only known afterwards, so going over the limit ends the run after the change.
+   */
+  private countReportedFilesChanged(files: unknown[]): void {
+    for (const file of files) {
+      if (typeof file === "string") {
+        this.runFilesChanged.add(path.resolve(file));
+      }
+    }
+
+    const max = this.runBudget.maxFilesChanged;
+    if (max !== undefined && this.runFilesChanged.size > max) {
+      this.abortController?.abort(budgetExceeded("maxFilesChanged", max, this.runFilesChanged.size));
+    }
+  }
+
+  private checkFilesChangedBudget(files: string[]): BudgetExceededError | null {
+    const max = this.runBudget.maxFilesChanged;
+    if (max === undefined || files.length === 0) {
+      return null;
+    }
+    const changed = new Set([...this.runFilesChanged, ...files]).size;
+    return changed > max ? budgetExceeded("maxFilesChanged", max, changed) : null;
+  }
+
+  /**
+   * The budget limit that aborted the current run, if any
+   */
+  private getBudgetAbortReason(): BudgetExceededError | null {
+    const reason = this.abortController?.signal.reason;
+    return reason instanceof BudgetExceededError ? reason : null;
+  }
+
+  private getCancellationNotice(): string {
+    const budgetError = this.getBudgetAbortReason();
+    return budgetError ? `\n\n⛔ ${budgetError.message}. Stopping.` : "\n\n[Operation cancelled by user]";
+  }
+
+  private startUsageRound(phase: ModelPhase): void {
+    this.usagePhase = phase;
+    this.usageTracker.startRound();
+    this.lastUsageRecord = null;
+  }
+
+  private recordUsage(event: UsageEvent, phase: ModelPhase): void {
+    const record = this.usageTracker.record(event.model, event.usage, {
+      sessionId: this.sessionId || undefined,
+      phase,
+    });
+    if (phase !== "summarization" && phase !== "subagent") {
+      this.lastUsageRecord = record;
+    }
+    this.emit("usage", this.usageTracker.getTotals());
+  }
+
+  /**
+   * Charge the last response to the tools it called
+   */
+  private attributeUsageToTools(toolCalls: GrokToolCall[]): void {
+    if (this.lastUsageRecord) {
+      this.usageTracker.attributeTools(this.lastUsageRecord, toolCalls.map((toolCall) => toolCall.function.name));
+    }
+  }
+
+  /**
+   * Replace older turns with a model-written summary, keeping the system prompt
+   * and the most recent turns verbatim
+   */
+  async compactConversation(options: CompactionOptions = {}): Promise<CompactionResult> {
+    const { dryRun = false, force = false, reason = "manual" } = options;
+    const tokensBefore = this.tokenCounter.countMessageTokens(this.messages as any);
+    const { systemMessages, olderMessages, recentMessages } = splitForCompaction(this.messages);
+    const filesTouched = extractFilesTouched(this.messages);
+    const openTodos = this.todoTool.getOpenTodos();
+
+    const result: CompactionResult = {
+      compacted: false,
+      dryRun,
+      reason,
+      tokensBefore,
+      tokensAfter: tokensBefore,
+      messagesBefore: this.messages.length,
+      messagesAfter: this.messages.length,
+      summarizedMessages: olderMessages.length,
+      filesTouched,
+      openTodos,
+    };
+
+    if (this.compactionInProgress) {
+      return { ...result, skippedReason: "A compaction is already running" };
+    }
+
+    if (olderMessages.length === 0) {
+      return { ...result, skippedReason: "Not enough conversation history to compact yet" };
+    }
+
+    const olderTokens = this.tokenCounter.countMessageTokens(olderMessages as any);
+    if (!force && olderTokens < MIN_TOKENS_TO_COMPACT) {
+      return {
+        ...result,
+        skippedReason: `Older history is only ${olderTokens} tokens (threshold ${MIN_TOKENS_TO_COMPACT}); use --force to compact anyway`,
+      };
+    }
+
+    this.compactionInProgress = true;
+    const usagePhase = this.usagePhase;
+    this.usagePhase = "summarization";
+    try {
+      const response = await this.grokClient.chat([
+        { role: "system", content: SUMMARIZER_SYSTEM_PROMPT },
+        { role: "user", content: buildTranscript(olderMessages) },
+      ], undefined, this.routeRequest("summarization").model);
+      const summary = response.choices[0]?.message?.content?.trim();
+      if (!summary) {
+        throw new Error("Summarizer returned an empty response");
+      }
+
+      const compactedMessages: GrokMessage[] = [
+        ...systemMessages,
+        buildSummaryMessage(summary, filesTouched, openTodos),
+        ...recentMessages,
+      ];
+      const tokensAfter = this.tokenCounter.countMessageTokens(compactedMessages as any);
+
+      if (!dryRun) {
+        this.messages = compactedMessages;
+        this.persistSession((sessionId) => this.sessionStore.replaceMessages(sessionId, compactedMessages));
+      }
+
+      return {
+        ...result,
+        compacted: !dryRun,
+        tokensAfter,
+        messagesAfter: compactedMessages.length,
+        summary,
+      };
+    } finally {
+      this.compactionInProgress = false;
+      this.usagePhase = usagePhase;
+    }
+  }
+
+  /**
+   * Compact automatically when the conversation nears the model's context window
+   */
+  private async autoCompactIfNeeded(): Promise<CompactionResult | null> {
+    const { tokens, contextWindow } = this.getContextUsage();
+    // Don't retry until the history has grown past the last compaction result
+    if (tokens < contextWindow * AUTO_COMPACT_THRESHOLD || tokens <= this.lastAutoCompactionTokens) {
+      return null;
+    }
+
+    try {
+      const result = await this.compactConversation({ force: true, reason: "auto" });
+      this.lastAutoCompactionTokens = result.tokensAfter;
+      return result.compacted ? result : null;
+    } catch (error) {
+      debugLog("Automatic compaction failed:", error);
+      this.lastAutoCompactionTokens = tokens;
+      return null;
+    }
   }
 
   abortCurrentOperation(): void {
     if (this.abortController) {
       this.abortController.abort();
     }
+    this.bash.killAllBackgroundProcesses();
   }
 
   private logEntry(entry: ChatEntry): void {
@@ -0,0 +1,71 @@
+/**
+ * Model Router
+ *
+ * Picks the model for each kind of request from the `modelRouting` settings,
+ * so cheap models can handle routine tool rounds while stronger models plan.
+ * Phases without a rule use the current model.
+ */
+
+/**
+ * Kinds of model requests the agent makes
+ * - planning: first request of a turn, where the model reads the task and decides how to approach it
+ * - toolRounds: follow-up requests after tool results
+ * - summarization: conversation compaction
+ * - commitMessage: /commit-and-push message generation
+ * - subagent: runs of specialized subagents
+ */
+export type ModelPhase = 'planning' | 'toolRounds' | 'summarization' | 'commitMessage' | 'subagent';
+
+export const MODEL_PHASES: ModelPhase[] = ['planning', 'toolRounds', 'summarization', 'commitMessage', 'subagent'];
+
+export interface EscalationRule {
+  /** Failed self-correction attempts in a turn before escalating */
+  afterFailures: number;
+  model: string;
+}
+
+export type ModelRoutingSettings = Partial<Record<ModelPhase, string>> & {
+  /** Switch planning and tool rounds to a stronger model once self-correction keeps failing */
+  escalation?: EscalationRule;
+};
+
+export interface ModelRoute {
+  model: string;
+  /** Set when the escalation rule picked the model */
+  escalated: boolean;
+}
+
+/**
+ * Model for a request in the given phase. `failedCorrections` counts the
+ * self-correction attempts of the current turn.
+ */
+export function routeModel(
+  routing: ModelRoutingSettings,
+  phase: ModelPhase,
+  currentModel: string,
+  failedCorrections: number = 0
+): ModelRoute {
+  const escalation = routing.escalation;
+  if (
+    escalation?.model &&
+    (phase === 'planning' || phase === 'toolRounds') &&
+    failedCorrections >= Math.max(1, escalation.afterFailures)
+  ) {
+    return { model: escalation.model, escalated: true };
+  }
+
+  return { model: routing[phase] || currentModel, escalated: false };
+}
+
+/**
+ * One line per configured rule, for `grok models list` and `/models`
+ */
+export function formatModelRouting(routing: ModelRoutingSettings): string[] {
+  const lines = MODEL_PHASES
+    .filter((phase) => routing[phase])
+    .map((phase) => `${phase}: ${routing[phase]}`);
+  if (routing.escalation?.model) {
+    lines.push(`escalation: ${routing.escalation.model} after ${Math.max(1, routing.escalation.afterFailures)} failed self-corrections`);
+  }
+  return lines;
+}
@@ -0,0 +1,182 @@
+/**
+ * Run Budget
+ *
+ * Hard limits for autonomous runs: cost, tokens, wall-clock time and the
+ * number of files changed. The agent checks them before every model request
+ * and aborts in-flight work when the wall-clock limit passes, so a run stops
+ * with a reportable reason instead of running until `maxToolRounds`.
+ */
+
+import { BudgetExceededError } from '../types/errors.js';
+import type { ApiErrorKind } from '../types/errors.js';
+import { formatCost } from '../utils/model-pricing.js';
+import { formatTokenCount } from '../utils/token-counter.js';
+import type { UsageTotals } from '../utils/usage-tracker.js';
+
+export interface RunBudget {
+  /** USD, priced with the `pricing` table; unpriced models count as $0 */
+  maxCost?: number;
+  /** Prompt plus completion tokens, including subagents and compaction */
+  maxTokens?: number;
+  /** Seconds */
+  maxWallTime?: number;
+  /** Distinct files modified by file-editing tools (bash commands are not counted) */
+  maxFilesChanged?: number;
+}
+
+export type BudgetLimit = keyof RunBudget;
+
+/**
+ * Why a run ended
+ */
+export type StopReason =
+  | 'completed'
+  | 'max_tool_rounds'
+  | 'budget_exceeded'
+  | 'loop_detected'
+  | 'cancelled'
+  | 'error';
+
+export interface RunSummary {
+  stopReason: StopReason;
+  /** What stopped the run, for every reason but `completed` */
+  message?: string;
+  /** Set when a budget limit stopped the run */
+  budget?: { limit: BudgetLimit; max: number; actual: number };
+  durationMs: number;
+  /** Absolute paths of files modified by file-editing tools */
+  filesChanged: string[];
+  toolCalls: number;
+  failedToolCalls: number;
+  /** The most recent tool call failed, so the run ended on an unresolved failure */
+  lastToolFailed: boolean;
+  /** Set when a failed model request ended the run */
+  apiError?: { kind: ApiErrorKind; provider: string; status?: number };
+  /** Usage of this run only */
+  usage: UsageTotals;
+}
+
+const BUDGET_LIMITS: BudgetLimit[] = ['maxCost', 'maxTokens', 'maxWallTime', 'maxFilesChanged'];
+
+function formatLimitValue(limit: BudgetLimit, value: number): string {
+  switch (limit) {
+    case 'maxCost':
+      return formatCost(value);
+    case 'maxTokens':
+      return `${formatTokenCount(value)} tokens`;
+    case 'maxWallTime':
+      return formatDuration(value);
+    case 'maxFilesChanged':
+      return `${value} ${value === 1 ? 'file' : 'files'}`;
+  }
+}
+
+const LIMIT_LABELS: Record<BudgetLimit, string> = {
+  maxCost: 'Cost',
+  maxTokens: 'Token',
+  maxWallTime: 'Wall-time',
+  maxFilesChanged: 'Files-changed',
+};
+
+export function budgetExceeded(limit: BudgetLimit, max: number, actual: number): BudgetExceededError {
+  return new BudgetExceededError({
+    message: `${LIMIT_LABELS[limit]} budget exceeded: ${formatLimitValue(limit, actual)} of ${formatLimitValue(limit, max)} max`,
+    limit,
+    max,
+    actual,
+  });
+}
+
+/**
+ * The first usage or time limit the run has reached, or null. Files changed
+ * are checked before each edit instead, so the limit is never overshot.
+ */
+export function checkBudget(
+  budget: RunBudget,
+  run: { usage: UsageTotals; elapsedMs: number }
+): BudgetExceededError | null {
+  const actual: Partial<Record<BudgetLimit, number>> = {
+    maxCost: run.usage.cost,
+    maxTokens: run.usage.promptTokens + run.usage.completionTokens,
+    maxWallTime: run.elapsedMs / 1000,
+  };
+
+  for (const limit of ['maxCost', 'maxTokens', 'maxWallTime'] as const) {
+    const max = budget[limit];
+    if (max !== undefined && actual[limit]! >= max) {
+      return budgetExceeded(limit, max, actual[limit]!);
+    }
+  }
+  return null;
+}
+
+export function hasBudget(budget: RunBudget): boolean {
+  return BUDGET_LIMITS.some((limit) => budget[limit] !== undefined);
+}
+
+/**
+ * Parse a duration such as `90`, `90s`, `30m` or `2h` into seconds
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m|h)?$/i);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}", expected e.g. 90s, 30m or 2h`);
+  }
+  const multiplier = { s: 1, m: 60, h: 3600 }[(match[2] || 's').toLowerCase() as 's' | 'm' | 'h'];
+  return Number(match[1]) * multiplier;
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${Math.round(seconds)}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m${seconds % 60 >= 1 ? ` ${Math.round(seconds % 60)}s` : ''}`;
+  }
+  const minutes = Math.round((seconds % 3600) / 60);
+  return `${Math.floor(seconds / 3600)}h${minutes > 0 ? ` ${minutes}m` : ''}`;
+}
+
+function parsePositive(name: string, value: string, integer: boolean): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0 || (integer && !Number.isInteger(number))) {
+    throw new Error(`Invalid ${name} "${value}", expected a positive ${integer ? 'integer' : 'number'}`);
+  }
+  return number;
+}
+
+/**
+ * Budget from command line options; unset options are left out so they
+ * don't override project defaults
+ */
+export function parseBudgetOptions(options: {
+  maxCost?: string;
+  maxTokens?: string;
+  maxWallTime?: string;
+  maxFilesChanged?: string;
+}): RunBudget {
+  const budget: RunBudget = {};
+  if (options.maxCost !== undefined) {
+    budget.maxCost = parsePositive('--max-cost', options.maxCost.replace(/^\$/, ''), false);
+  }
+  if (options.maxTokens !== undefined) {
+    budget.maxTokens = parsePositive('--max-tokens', options.maxTokens, true);
+  }
+  if (options.maxWallTime !== undefined) {
+    budget.maxWallTime = parseDuration(options.maxWallTime);
+  }
+  if (options.maxFilesChanged !== undefined) {
+    budget.maxFilesChanged = parsePositive('--max-files-changed', options.maxFilesChanged, true);
+  }
+  return budget;
+}
+
+/**
+ * The configured limits on one line, e.g. for the headless log
+ */
+export function formatBudget(budget: RunBudget): string {
+  return BUDGET_LIMITS
+    .filter((limit) => budget[limit] !== undefined)
+    .map((limit) => `${limit} ${formatLimitValue(limit, budget[limit]!)}`)
+    .join(', ');
+}
@@ -0,0 +1,89 @@
+/**
+ * Tool Output Stream
+ *
+ * Collects live output reported by running tools (see ToolExecutionContext)
+ * and forwards it from the streaming tool loop as partial `tool_result`
+ * chunks while the tool calls are still in flight.
+ */
+
+import type { GrokToolCall } from "../grok/client.js";
+import type { StreamingChunk } from "./grok-agent.js";
+
+/** Only the tail of the output is kept for the live preview */
+const MAX_LIVE_OUTPUT_CHARS = 8000;
+/** Minimum time between partial updates, to keep the UI from re-rendering per chunk */
+const UPDATE_INTERVAL_MS = 100;
+
+export class ToolOutputStream {
+  private outputs: Map<string, string> = new Map();
+  /** Output reported since the last partial chunk, by tool call */
+  private deltas: Map<string, string> = new Map();
+  private pending: Map<string, GrokToolCall> = new Map();
+  private wake: (() => void) | null = null;
+
+  /**
+   * Output callback for one tool call
+   */
+  reporter(toolCall: GrokToolCall): (chunk: string) => void {
+    return (chunk: string) => {
+      const output = ((this.outputs.get(toolCall.id) || "") + chunk).slice(-MAX_LIVE_OUTPUT_CHARS);
+      this.outputs.set(toolCall.id, output);
+      this.deltas.set(toolCall.id, (this.deltas.get(toolCall.id) || "") + chunk);
+      this.pending.set(toolCall.id, toolCall);
+      this.wake?.();
+    };
+  }
+
+  /**
+   * Yield partial tool_result chunks until `work` settles, then return its result
+   */
+  async *forward<T>(work: Promise<T>): AsyncGenerator<StreamingChunk, T, unknown> {
+    let done = false;
+    const settled = work.finally(() => {
+      done = true;
+      this.wake?.();
+    });
+    // Avoid an unhandled rejection before the final await below
+    settled.catch(() => undefined);
+
+    while (!done) {
+      if (this.pending.size === 0) {
+        await new Promise<void>((resolve) => {
+          this.wake = resolve;
+        });
+        this.wake = null;
+      }
+
+      for (const chunk of this.drain()) {
+        yield chunk;
+      }
+
+      if (!done) {
+        await Promise.race([settled.catch(() => undefined), sleep(UPDATE_INTERVAL_MS)]);
+      }
+    }
+
+    this.pending.clear();
+    return await settled;
+  }
+
+  private drain(): StreamingChunk[] {
+    const chunks: StreamingChunk[] = [];
+    for (const [id, toolCall] of this.pending) {
+      chunks.push({
+        type: "tool_result",
+        toolCall,
+        toolResult: { success: true, output: this.outputs.get(id) || "" },
+        isPartial: true,
+        outputDelta: this.deltas.get(id) || "",
+      });
+    }
+    this.pending.clear();
+    this.deltas.clear();
+    return chunks;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,99 @@
+import { Command } from 'commander';
+import path from 'path';
+import { CodeIntelligenceEngine } from '../tools/intelligence/engine.js';
+import chalk from 'chalk';
+
+function createEngine(directory: string): CodeIntelligenceEngine {
+  return new CodeIntelligenceEngine(path.resolve(directory), { watch: false });
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function createIndexCommand(): Command {
+  const indexCommand = new Command('index');
+  indexCommand.description('Manage the persistent code intelligence index (.grok/index/)');
+
+  // Status command
+  indexCommand
+    .command('status')
+    .description('Show the index size and how many files changed since it was saved')
+    .option('-d, --directory <dir>', 'project directory', process.cwd())
+    .action(async (options) => {
+      try {
+        const engine = createEngine(options.directory);
+        const status = await engine.getIndexStatus();
+
+        console.log(chalk.bold('Code index:'), status.directory);
+        if (!status.exists || !status.manifest) {
+          console.log(chalk.yellow('  No index found'));
+          console.log(`  Source files: ${status.totalFiles}`);
+          console.log(chalk.gray('  Run `grok index rebuild` to build it'));
+          return;
+        }
+
+        const { manifest } = status;
+        console.log(`  Files:        ${manifest.fileCount}`);
+        console.log(`  Symbols:      ${manifest.symbolCount}`);
+        console.log(`  Size:         ${formatSize(status.size)}`);
+        console.log(`  Created:      ${new Date(manifest.createdAt).toLocaleString()}`);
+        console.log(`  Updated:      ${new Date(manifest.updatedAt).toLocaleString()}`);
+
+        const stale = status.changedFiles + status.newFiles + status.deletedFiles;
+        if (stale === 0) {
+          console.log(chalk.green('  ✓ Up to date'));
+        } else {
+          console.log(chalk.yellow(
+            `  ${status.changedFiles} changed, ${status.newFiles} new, ${status.deletedFiles} deleted since the last save`
+          ));
+          console.log(chalk.gray('  These files are re-indexed the next time the index is loaded'));
+        }
+      } catch (error: any) {
+        console.error(chalk.red(`Error reading code index: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
+  // Rebuild command
+  indexCommand
+    .command('rebuild')
+    .description('Discard the index and re-parse every source file')
+    .option('-d, --directory <dir>', 'project directory', process.cwd())
+    .action(async (options) => {
+      try {
+        const engine = createEngine(options.directory);
+        const result = await engine.rebuildIndex();
+        const statistics = engine.getStatistics();
+        engine.dispose();
+
+        console.log(chalk.green(
+          `✓ Indexed ${result.reindexedFiles} files (${statistics.totalSymbols} symbols) in ${(result.duration / 1000).toFixed(1)}s`
+        ));
+        console.log(chalk.gray(`  Saved to ${engine.getIndexDirectory()}`));
+      } catch (error: any) {
+        console.error(chalk.red(`Error rebuilding code index: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
+  // Clear command
+  indexCommand
+    .command('clear')
+    .description('Delete the index from disk')
+    .option('-d, --directory <dir>', 'project directory', process.cwd())
+    .action((options) => {
+      try {
+        const engine = createEngine(options.directory);
+        engine.clearIndex();
+        console.log(chalk.green(`✓ Removed ${engine.getIndexDirectory()}`));
+      } catch (error: any) {
+        console.error(chalk.red(`Error clearing code index: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
+  return indexCommand;
+}
@@ -0,0 +1,32 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { formatMonthlyReport, monthKey, summarizeMonth } from '../utils/usage-tracker.js';
+
+export function createCostCommand(): Command {
+  const costCommand = new Command('cost');
+  costCommand
+    .description('Show spend per project and model from the usage ledger')
+    .option('--month <month>', 'month to report as YYYY-MM (default: current month)')
+    .option('--json', 'print the report as JSON')
+    .action((options) => {
+      try {
+        const month: string = options.month || monthKey();
+        if (!/^\d{4}-\d{2}$/.test(month)) {
+          console.error(chalk.red(`Invalid month "${month}", expected YYYY-MM`));
+          process.exit(1);
+        }
+
+        const usage = summarizeMonth(month);
+        if (options.json) {
+          console.log(JSON.stringify(usage, null, 2));
+          return;
+        }
+        console.log(formatMonthlyReport(usage));
+      } catch (error) {
+        console.error(chalk.red(`Error reading usage: ${error instanceof Error ? error.message : String(error)}`));
+        process.exit(1);
+      }
+    });
+
+  return costCommand;
+}
@@ -1,8 +1,86 @@
 import { Command } from 'commander';
-import { addMCPServer, removeMCPServer, loadMCPConfig, PREDEFINED_SERVERS } from '../mcp/config.js';
+import { addMCPServer, removeMCPServer, loadMCPConfig, getMCPServer, PREDEFINED_SERVERS } from '../mcp/config.js';
 import { getMCPManager } from '../grok/tools.js';
-import { MCPServerConfig } from '../mcp/client.js';
+import { MCPManager, MCPServerConfig } from '../mcp/client.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { loginMCPServer } from '../mcp/oauth.js';
+import { getSecretName, hasReference, resolveTransportConfig, storeSecretValues } from '../mcp/secrets.js';
+import {
+  createExportableToolRegistry,
+  GrokMCPServer,
+  MCP_SERVE_CONFIRMATION_POLICIES,
+  MCPServeConfirmationPolicy,
+} from '../mcp/server.js';
+import { TransportType } from '../mcp/transports.js';
+import { MCPAuthorizationRequiredError } from '../types/errors.js';
+import { getCredentialStore } from '../utils/credential-store.js';
+import { hasPipedStdin, readStdin } from '../utils/headless-input.js';
+import { getSettingsManager } from '../utils/settings-manager.js';
 import chalk from 'chalk';
+import pkg from '../../package.json' with { type: 'json' };
+
+/**
+ * Parse `key=value` options; values may contain `=`, as tokens often do
+ */
+function parseKeyValues(entries: string[] = []): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const entry of entries) {
+    const separator = entry.indexOf('=');
+    const key = entry.slice(0, separator);
+    const value = entry.slice(separator + 1);
+    if (separator > 0 && value) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Move header, environment and client secret values of a new server into the
+ * credential store, so the settings file only holds references
+ */
+function protectSecrets(config: MCPServerConfig): MCPServerConfig {
+  const transport = { ...config.transport };
+  let stored = 0;
+  if (transport.headers && Object.keys(transport.headers).length > 0) {
+    transport.headers = storeSecretValues(config.name, 'header', transport.headers);
+    stored += Object.keys(transport.headers).length;
+  }
+  if (transport.env && Object.keys(transport.env).length > 0) {
+    transport.env = storeSecretValues(config.name, 'env', transport.env);
+    stored += Object.keys(transport.env).length;
+  }
+  const clientSecret = transport.oauth?.clientSecret;
+  if (clientSecret && !hasReference(clientSecret)) {
+    const secretName = getSecretName(config.name, 'oauth', 'clientSecret');
+    getCredentialStore().setSecret(secretName, clientSecret);
+    transport.oauth = { ...transport.oauth, clientSecret: `\${secret:${secretName}}` };
+    stored++;
+  }
+  if (stored > 0) {
+    console.log(chalk.gray(`  Secret values are kept in ~/.grok/credentials.json and referenced from the settings`));
+  }
+  return { ...config, transport };
+}
+
+/**
+ * Connect to a server, signing in with OAuth in the browser when it asks
+ */
+async function connectWithLogin(manager: MCPManager, config: MCPServerConfig): Promise<void> {
+  try {
+    await manager.addServer(config);
+  } catch (error) {
+    if (!(error instanceof MCPAuthorizationRequiredError)) {
+      throw error;
+    }
+    console.log(chalk.yellow(`${config.name} requires authorization; opening the browser to sign in...`));
+    await loginMCPServer(config.name, config.transport, (url) => {
+      console.log(chalk.gray(`  If the browser does not open, visit: ${url}`));
+    });
+    console.log(chalk.green(`✓ Signed in to ${config.name}`));
+    await manager.addServer(config);
+  }
+}
 
 export function createMCPCommand(): Command {
   const mcpCommand = new Command('mcp');
@@ -18,6 +96,9 @@ export function createMCPCommand(): Command {
     .option('-u, --url <url>', 'URL for HTTP/SSE transport')
     .option('-h, --headers [headers...]', 'HTTP headers (key=value format)', [])
     .option('-e, --env [env...]', 'Environment variables (key=value format)', [])
+    .option('--client-id <id>', 'OAuth client id (for servers without dynamic client registration)')
+    .option('--client-secret <secret>', 'OAuth client secret, stored in the credential store')
+    .option('--scope <scope>', 'OAuth scope to request')
     .action(async (name: string, options) => {
       try {
         // Check if it's a predefined server
@@ -33,6 +114,7 @@ export function createMCPCommand(): Command {
           
           const tools = manager.getTools().filter(t => t.serverName === name);
           console.log(chalk.blue(`  Available tools: ${tools.length}`));
+          await manager.removeServer(name);
           
           return;
         }
@@ -55,47 +137,40 @@ export function createMCPCommand(): Command {
           process.exit(1);
         }
 
-        // Parse environment variables
-        const env: Record<string, string> = {};
-        for (const envVar of options.env || []) {
-          const [key, value] = envVar.split('=', 2);
-          if (key && value) {
-            env[key] = value;
-          }
-        }
+        const env = parseKeyValues(options.env);
+        const headers = parseKeyValues(options.headers);
 
-        // Parse headers
-        const headers: Record<string, string> = {};
-        for (const header of options.headers || []) {
-          const [key, value] = header.split('=', 2);
-          if (key && value) {
-            headers[key] = value;
-          }
-        }
+        const oauth = options.clientId || options.clientSecret || options.scope
+          ? { clientId: options.clientId, clientSecret: options.clientSecret, scope: options.scope }
+          : undefined;
 
-        const config = {
+        const config = protectSecrets({
           name,
           transport: {
-            type: transportType as 'stdio' | 'http' | 'sse' | 'streamable_http',
+            type: transportType as TransportType,
             command: options.command,
             args: options.args || [],
             url: options.url,
             env,
-            headers: Object.keys(headers).length > 0 ? headers : undefined
+            headers: Object.keys(headers).length > 0 ? headers : undefined,
+            oauth
           }
-        };
+        });
 
         addMCPServer(config);
         console.log(chalk.green(`✓ Added MCP server: ${name}`));
         
         // Try to connect immediately
         const manager = getMCPManager();
-        await manager.addServer(config);
+        await connectWithLogin(manager, config);
         console.log(chalk.green(`✓ Connected to MCP server: ${name}`));
         
         const tools = manager.getTools().filter(t => t.serverName === name);
         console.log(chalk.blue(`  Available tools: ${tools.length}`));
 
+        // The connection was only a check; open HTTP streams would keep the process alive
+        await manager.removeServer(name);
+
       } catch (error: any) {
         console.error(chalk.red(`Error adding MCP server: ${error.message}`));
         process.exit(1);
@@ -131,23 +206,27 @@ export function createMCPCommand(): Command {
         // Override transport type if specified
         if (config.transport) {
           if (typeof config.transport === 'string') {
-            serverConfig.transport.type = config.transport as 'stdio' | 'http' | 'sse';
+            serverConfig.transport.type = config.transport as TransportType;
           } else if (typeof config.transport === 'object') {
             serverConfig.transport = { ...serverConfig.transport, ...config.transport };
           }
         }
 
-        addMCPServer(serverConfig);
+        const protectedConfig = protectSecrets(serverConfig);
+        addMCPServer(protectedConfig);
         console.log(chalk.green(`✓ Added MCP server: ${name}`));
         
         // Try to connect immediately
         const manager = getMCPManager();
-        await manager.addServer(serverConfig);
+        await connectWithLogin(manager, protectedConfig);
         console.log(chalk.green(`✓ Connected to MCP server: ${name}`));
         
         const tools = manager.getTools().filter(t => t.serverName === name);
         console.log(chalk.blue(`  Available tools: ${tools.length}`));
 
+        // The connection was only a check; open HTTP streams would keep the process alive
+        await manager.removeServer(name);
+
       } catch (error: any) {
         console.error(chalk.red(`Error adding MCP server: ${error.message}`));
         process.exit(1);
@@ -188,9 +267,11 @@ export function createMCPCommand(): Command {
 
       for (const server of config.servers) {
         const isConnected = manager.getServers().includes(server.name);
-        const status = isConnected 
-          ? chalk.green('✓ Connected') 
-          : chalk.red('✗ Disconnected');
+        const status = server.disabled
+          ? chalk.gray('○ Disabled')
+          : isConnected 
+            ? chalk.green('✓ Connected') 
+            : chalk.red('✗ Disconnected');
         
         console.log(`${chalk.bold(server.name)}: ${status}`);
         
@@ -199,7 +280,7 @@ export function createMCPCommand(): Command {
           console.log(`  Transport: ${server.transport.type}`);
           if (server.transport.type === 'stdio') {
             console.log(`  Command: ${server.transport.command} ${(server.transport.args || []).join(' ')}`);
-          } else if (server.transport.type === 'http' || server.transport.type === 'sse') {
+          } else {
             console.log(`  URL: ${server.transport.url}`);
           }
         } else if (server.command) {
@@ -230,8 +311,9 @@ export function createMCPCommand(): Command {
   // Test server command
   mcpCommand
     .command('test <name>')
-    .description('Test connection to an MCP server')
+    .description('Connect to an MCP server, run the initialize handshake and list its tools')
     .action(async (name: string) => {
+      const manager = getMCPManager();
       try {
         const config = loadMCPConfig();
         const serverConfig = config.servers.find(s => s.name === name);
@@ -241,13 +323,27 @@ export function createMCPCommand(): Command {
           process.exit(1);
         }
 
-        console.log(chalk.blue(`Testing connection to ${name}...`));
+        const target = serverConfig.transport?.url || serverConfig.transport?.command || serverConfig.command;
+        console.log(chalk.blue(`Testing connection to ${name} (${serverConfig.transport?.type || 'stdio'}: ${target})...`));
         
-        const manager = getMCPManager();
+        const startTime = Date.now();
         await manager.addServer(serverConfig);
+        const info = manager.getServerInfo(name);
         
+        console.log(chalk.green(`✓ Handshake completed in ${Date.now() - startTime}ms`));
+        if (info) {
+          console.log(`  Server: ${info.name} ${info.version}`);
+          if (info.sessionId) {
+            console.log(`  Session: ${info.sessionId}`);
+          }
+          const capabilities = Object.keys(info.capabilities);
+          console.log(`  Capabilities: ${capabilities.length > 0 ? capabilities.join(', ') : 'none'}`);
+          if (info.instructions) {
+            console.log(`  Instructions: ${info.instructions.split('\n')[0]}`);
+          }
+        }
+
         const tools = manager.getTools().filter(t => t.serverName === name);
-        console.log(chalk.green(`✓ Successfully connected to ${name}`));
         console.log(chalk.blue(`  Available tools: ${tools.length}`));
         
         if (tools.length > 0) {
@@ -258,11 +354,175 @@ export function createMCPCommand(): Command {
           });
         }
 
+        const resources = manager.getResources().filter(r => r.serverName === name);
+        if (resources.length > 0) {
+          console.log(chalk.blue(`  Resources: ${resources.length}`));
+          resources.forEach(resource => console.log(`    - @${name}:${resource.uri} (${resource.name})`));
+        }
+
+        const prompts = manager.getPrompts().filter(p => p.serverName === name);
+        if (prompts.length > 0) {
+          console.log(chalk.blue(`  Prompts: ${prompts.length}`));
+          prompts.forEach(prompt => console.log(`    - /mcp__${name}__${prompt.name}${prompt.description ? `: ${prompt.description}` : ''}`));
+        }
+
+        await manager.removeServer(name);
+        process.exit(0);
       } catch (error: any) {
         console.error(chalk.red(`✗ Failed to connect to ${name}: ${error.message}`));
         process.exit(1);
       }
     });
 
+  // Sign in to a remote server
+  mcpCommand
+    .command('login <name>')
+    .description('Sign in to a remote MCP server with OAuth in the browser')
+    .action(async (name: string) => {
+      try {
+        const serverConfig = getMCPServer(name);
+        if (!serverConfig?.transport) {
+          console.error(chalk.red(`Server ${name} not found or not a remote server`));
+          process.exit(1);
+        }
+
+        console.log(chalk.blue(`Opening the browser to sign in to ${name}...`));
+        await loginMCPServer(name, serverConfig.transport, (url) => {
+          console.log(chalk.gray(`  If the browser does not open, visit: ${url}`));
+        });
+        console.log(chalk.green(`✓ Signed in to ${name}`));
+        process.exit(0);
+      } catch (error: any) {
+        console.error(chalk.red(`Error signing in to ${name}: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
+  // Forget the OAuth tokens of a remote server
+  mcpCommand
+    .command('logout <name>')
+    .description('Remove the stored OAuth tokens and client registration of an MCP server')
+    .action((name: string) => {
+      try {
+        const serverConfig = getMCPServer(name);
+        const url = serverConfig?.transport && resolveTransportConfig(name, serverConfig.transport).url;
+        if (!url) {
+          console.error(chalk.red(`Server ${name} not found or not a remote server`));
+          process.exit(1);
+        }
+
+        if (getCredentialStore().deleteOAuthCredentials(url)) {
+          console.log(chalk.green(`✓ Signed out of ${name}`));
+        } else {
+          console.log(chalk.yellow(`No stored credentials for ${name}`));
+        }
+      } catch (error: any) {
+        console.error(chalk.red(`Error signing out of ${name}: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
+  // Secrets referenced as ${secret:name} in server configurations
+  const secretCommand = mcpCommand
+    .command('secret')
+    .description('Manage secrets referenced as ${secret:name} in MCP server configurations');
+
+  secretCommand
+    .command('set <name> [value]')
+    .description('Store a secret; reads the value from stdin when it is omitted')
+    .action(async (name: string, value?: string) => {
+      try {
+        if (value === undefined) {
+          if (!hasPipedStdin()) {
+            console.error(chalk.red('Error: pass the value or pipe it in, e.g. `echo $TOKEN | grok mcp secret set <name>`'));
+            process.exit(1);
+          }
+          value = (await readStdin()).replace(/\r?\n$/, '');
+        }
+        if (!value) {
+          console.error(chalk.red('Error: the secret value is empty'));
+          process.exit(1);
+        }
+
+        getCredentialStore().setSecret(name, value);
+        console.log(chalk.green(`✓ Stored secret ${name}; reference it as \${secret:${name}}`));
+      } catch (error: any) {
+        console.error(chalk.red(`Error storing secret: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
+  secretCommand
+    .command('list')
+    .description('List the names of stored secrets')
+    .action(() => {
+      const names = getCredentialStore().listSecretNames();
+      if (names.length === 0) {
+        console.log(chalk.yellow('No secrets stored'));
+        return;
+      }
+      names.forEach(name => console.log(name));
+    });
+
+  secretCommand
+    .command('remove <name>')
+    .description('Remove a stored secret')
+    .action((name: string) => {
+      if (getCredentialStore().deleteSecret(name)) {
+        console.log(chalk.green(`✓ Removed secret ${name}`));
+      } else {
+        console.log(chalk.yellow(`Secret ${name} not found`));
+      }
+    });
+
+  // Serve our own tools to other MCP clients
+  mcpCommand
+    .command('serve')
+    .description('Expose Grok CLI tools (file editing, search, code intelligence) as an MCP server over stdio')
+    .option('--tools <tools>', 'comma-separated tools to export, `*` as wildcard (default: the read-only tools)')
+    .option('--confirm <policy>', 'confirmations not decided by permission rules: ask (the MCP client), allow or deny')
+    .option('--list-tools', 'list the tools that can be exported and exit')
+    .action(async (options) => {
+      try {
+        if (options.listTools) {
+          for (const tool of createExportableToolRegistry().list()) {
+            console.log(`${tool.name.padEnd(24)} ${tool.category.padEnd(6)} ${tool.summary}`);
+          }
+          process.exit(0);
+        }
+
+        const settings = getSettingsManager().getMCPServeSettings();
+        const tools: string[] | undefined = options.tools
+          ? options.tools.split(',').map((tool: string) => tool.trim()).filter(Boolean)
+          : settings.tools;
+        const confirmation: MCPServeConfirmationPolicy = options.confirm || settings.confirmation || 'ask';
+        if (!MCP_SERVE_CONFIRMATION_POLICIES.includes(confirmation)) {
+          console.error(chalk.red(`Error: --confirm must be one of ${MCP_SERVE_CONFIRMATION_POLICIES.join(', ')}`));
+          process.exit(1);
+        }
+
+        // stdout carries the protocol, so stray logging goes to stderr
+        console.log = console.error;
+
+        const server = new GrokMCPServer({ tools, confirmation, version: pkg.version });
+        if (server.getToolNames().length === 0) {
+          console.error(chalk.red('Error: no tools match the allowlist; see `grok mcp serve --list-tools`'));
+          process.exit(1);
+        }
+        await server.connect(new StdioServerTransport());
+        console.error(chalk.gray(`Serving ${server.getToolNames().join(', ')} over stdio (confirmations: ${confirmation})`));
+
+        const stop = () => {
+          void server.close().finally(() => process.exit(0));
+        };
+        process.stdin.on('end', stop);
+        process.on('SIGINT', stop);
+        process.on('SIGTERM', stop);
+      } catch (error: any) {
+        console.error(chalk.red(`Error starting MCP server: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
   return mcpCommand;
 }
\ No newline at end of file
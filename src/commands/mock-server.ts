@@ -0,0 +1,53 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { MockGrokServer } from '../testing/mock-server.js';
+import { RecordingProxy } from '../testing/recorder.js';
+
+export function createMockServerCommand(): Command {
+  const mockServerCommand = new Command('mock-server');
+  mockServerCommand
+    .description('Serve scripted model responses locally, or record a live session to a script (use with GROK_BASE_URL)')
+    .option('-s, --script <file>', 'mock script or recorded fixture to replay')
+    .option('-r, --record <file>', 'record responses from the upstream API to this file')
+    .option('--upstream <url>', 'API to record from', 'https://api.x.ai/v1')
+    .option('-p, --port <port>', 'port to listen on (default: a free port)', '0')
+    .action(async (options) => {
+      try {
+        if (!options.script === !options.record) {
+          console.error(chalk.red('Error: pass either --script <file> or --record <file>'));
+          process.exit(1);
+        }
+        const port = parseInt(options.port);
+        if (!Number.isInteger(port) || port < 0) {
+          console.error(chalk.red(`Invalid port "${options.port}"`));
+          process.exit(1);
+        }
+
+        const server = options.script
+          ? MockGrokServer.fromFile(options.script)
+          : new RecordingProxy(options.upstream, options.record);
+        const baseURL = await server.start(port);
+
+        if (options.script) {
+          const responses = (server as MockGrokServer).getRemainingResponses();
+          console.log(chalk.green(`✓ Serving ${responses} scripted responses from ${options.script}`));
+        } else {
+          console.log(chalk.green(`✓ Recording ${options.upstream} to ${options.record}`));
+        }
+        console.log(`  export GROK_BASE_URL=${baseURL}`);
+        console.log(chalk.gray('  Press Ctrl+C to stop'));
+
+        const stop = async () => {
+          await server.stop();
+          process.exit(0);
+        };
+        process.on('SIGINT', stop);
+        process.on('SIGTERM', stop);
+      } catch (error: any) {
+        console.error(chalk.red(`Error starting mock server: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
+  return mockServerCommand;
+}
@@ -0,0 +1,136 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { GrokClient } from '../grok/client.js';
+import { getProviderApiKey, listProviderModels, loadProviderConfigs, resolveModel } from '../providers/config.js';
+import { formatCapabilities, updateCurrentModel, updateDefaultModel } from '../utils/model-config.js';
+import { getSettingsManager } from '../utils/settings-manager.js';
+import { formatModelRouting } from '../agent/model-router.js';
+
+function createClient(model: string): GrokClient {
+  const manager = getSettingsManager();
+  return new GrokClient(manager.getApiKey() || '', model, manager.getBaseURL(), {
+    timeout: manager.getTimeout(),
+    temperature: manager.getTemperature(),
+    maxTokens: manager.getMaxTokens(),
+  });
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+export function createModelsCommand(): Command {
+  const modelsCommand = new Command('models');
+  modelsCommand.description('List, select and compare models across providers');
+
+  // List command
+  modelsCommand
+    .command('list', { isDefault: true })
+    .description('Show configured providers, their capabilities and models')
+    .action(() => {
+      try {
+        const manager = getSettingsManager();
+        const providers = loadProviderConfigs();
+        const models = listProviderModels(providers);
+
+        console.log(chalk.bold('Current model:'), manager.getCurrentModel());
+        const fallbackModel = manager.getFallbackModel();
+        if (fallbackModel) {
+          console.log(chalk.bold('Fallback model:'), fallbackModel);
+        }
+        console.log();
+
+        for (const provider of providers) {
+          const hasKey = Boolean(getProviderApiKey(provider));
+          const keyStatus = hasKey
+            ? chalk.green('key set')
+            : provider.apiKeyEnv ? chalk.yellow(`no key (${provider.apiKeyEnv})`) : chalk.gray('no key needed');
+
+          console.log(`${chalk.bold(provider.name)} ${chalk.gray(`(${provider.type})`)} ${provider.baseURL}`);
+          console.log(`  ${keyStatus} | ${formatCapabilities(provider.capabilities)}`);
+
+          const providerModels = models.filter((entry) => entry.provider === provider);
+          for (const { model } of providerModels) {
+            console.log(`  - ${model}`);
+          }
+        }
+
+        const routing = formatModelRouting(manager.getModelRouting());
+        if (routing.length > 0) {
+          console.log(chalk.bold('\nModel routing:'));
+          for (const line of routing) {
+            console.log(`  ${line}`);
+          }
+        }
+
+        console.log(chalk.gray('\nAny model of a provider can be used as <provider>/<model>, e.g. ollama/qwen2.5-coder'));
+      } catch (error) {
+        console.error(chalk.red(`Error listing models: ${error instanceof Error ? error.message : String(error)}`));
+        process.exit(1);
+      }
+    });
+
+  // Use command
+  modelsCommand
+    .command('use')
+    .description('Select the model for this project (.grok/settings.json)')
+    .argument('<model>', 'model name or <provider>/<model>')
+    .option('-g, --global', 'set the default model for all projects instead')
+    .action((model: string, options) => {
+      try {
+        const { provider } = resolveModel(model);
+        if (options.global) {
+          updateDefaultModel(model);
+          console.log(chalk.green(`✓ Default model set to ${model} (${provider.name})`));
+        } else {
+          updateCurrentModel(model);
+          console.log(chalk.green(`✓ Project model set to ${model} (${provider.name})`));
+        }
+      } catch (error) {
+        console.error(chalk.red(`Error selecting model: ${error instanceof Error ? error.message : String(error)}`));
+        process.exit(1);
+      }
+    });
+
+  // Compare command
+  modelsCommand
+    .command('compare')
+    .description('Send the same prompt to several models and compare answers, latency and token usage')
+    .argument('<prompt...>', 'prompt to send')
+    .requiredOption('-m, --model <model>', 'model to compare (repeat for each model)', collect, [])
+    .action(async (promptParts: string[], options) => {
+      const prompt = promptParts.join(' ');
+      const models: string[] = options.model;
+      if (models.length < 2) {
+        console.error(chalk.red('Give at least two models to compare, e.g. -m grok-code-fast-1 -m ollama/qwen2.5-coder'));
+        process.exit(1);
+      }
+
+      let failures = 0;
+      for (const model of models) {
+        console.log(chalk.bold(`\n=== ${model} ===`));
+        const start = Date.now();
+        try {
+          const client = createClient(model);
+          const response = await client.chat([{ role: 'user', content: prompt }]);
+          const elapsed = ((Date.now() - start) / 1000).toFixed(1);
+          const usage = response.usage;
+
+          console.log(response.choices[0]?.message.content || chalk.gray('(empty response)'));
+          console.log(chalk.gray(
+            `\n${elapsed}s` +
+            (usage ? ` | ${usage.prompt_tokens} prompt + ${usage.completion_tokens} completion tokens` : '')
+          ));
+        } catch (error) {
+          failures++;
+          console.log(chalk.red(`Failed after ${((Date.now() - start) / 1000).toFixed(1)}s: ${error instanceof Error ? error.message : String(error)}`));
+        }
+      }
+
+      if (failures === models.length) {
+        process.exit(1);
+      }
+    });
+
+  return modelsCommand;
+}
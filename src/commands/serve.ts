@@ -0,0 +1,82 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { randomBytes } from 'crypto';
+import { RunBudget, parseBudgetOptions } from '../agent/run-budget.js';
+import { AgentServer } from '../server/agent-server.js';
+import { getServerURL, serveStdio, startHttpServer } from '../server/transports.js';
+import { getSettingsManager } from '../utils/settings-manager.js';
+
+export function createServeCommand(): Command {
+  const serveCommand = new Command('serve');
+  serveCommand
+    .description('Run the agent as a local JSON-RPC server for editor integrations (HTTP + SSE, or stdio)')
+    .option('--stdio', 'speak newline-delimited JSON-RPC on stdin/stdout instead of HTTP')
+    .option('--port <port>', 'HTTP port on 127.0.0.1 (default: a free port)', '0')
+    .option('--token <token>', 'HTTP bearer token (or set GROK_SERVER_TOKEN; default: random)')
+    .option('-d, --directory <dir>', 'working directory of the agent')
+    .option('--auto-approve', 'approve all file edits and commands instead of asking clients')
+    .option('-k, --api-key <key>', 'Grok API key (or set GROK_API_KEY env var)')
+    .option('-u, --base-url <url>', 'Grok API base URL (or set GROK_BASE_URL env var)')
+    .option('-m, --model <model>', 'default model for new sessions (or set GROK_MODEL env var)')
+    .option('--max-tool-rounds <rounds>', 'maximum number of tool execution rounds per message', '400')
+    .option('--max-cost <usd>', 'stop a run once it has cost this many US dollars')
+    .option('--max-tokens <tokens>', 'stop a run once it has used this many prompt and completion tokens')
+    .option('--max-wall-time <duration>', 'stop a run after this long, e.g. 90s, 30m or 2h')
+    .option('--max-files-changed <count>', 'stop a run instead of editing more than this many files')
+    .action(async (options, command: Command) => {
+      try {
+        if (options.directory) {
+          process.chdir(options.directory);
+        }
+        const manager = getSettingsManager();
+        // The root command defines the same limits, so it may have parsed them
+        const budget: RunBudget = { ...manager.getRunBudget(), ...parseBudgetOptions(command.optsWithGlobals()) };
+        const server = new AgentServer({
+          apiKey: options.apiKey || manager.getApiKey() || '',
+          baseURL: options.baseUrl || manager.getBaseURL(),
+          model: options.model || process.env.GROK_MODEL || manager.getCurrentModel(),
+          maxToolRounds: parseInt(options.maxToolRounds) || 400,
+          autoApprove: !!options.autoApprove,
+          budget,
+        });
+
+        if (options.stdio) {
+          // stdout carries the protocol, so stray logging goes to stderr
+          console.log = console.error;
+          await serveStdio(server);
+          server.close();
+          process.exit(0);
+        }
+
+        const port = parseInt(options.port);
+        if (!Number.isInteger(port) || port < 0) {
+          console.error(chalk.red(`Invalid port "${options.port}"`));
+          process.exit(1);
+        }
+        const token: string = options.token || process.env.GROK_SERVER_TOKEN || randomBytes(24).toString('hex');
+        const httpServer = await startHttpServer(server, { port, token });
+
+        const url = getServerURL(httpServer);
+        console.log(chalk.green(`✓ Grok agent server listening on ${url}`));
+        console.log(`  JSON-RPC: POST ${url}/rpc`);
+        console.log(`  Events:   GET  ${url}/events`);
+        console.log(`  Token:    ${token}`);
+        if (options.autoApprove) {
+          console.log(chalk.yellow('  All operations are approved automatically'));
+        }
+
+        const stop = () => {
+          server.close();
+          httpServer.closeAllConnections();
+          httpServer.close(() => process.exit(0));
+        };
+        process.on('SIGINT', stop);
+        process.on('SIGTERM', stop);
+      } catch (error: any) {
+        console.error(chalk.red(`Error starting server: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
+  return serveCommand;
+}
@@ -0,0 +1,129 @@
+/**
+ * Tests for retrying failed model requests: error classification, backoff
+ * delays and `retry-after`, and the client retrying against a mock server
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { classifyError, getRetryAfter } from '../../providers/errors.js';
+import { MockGrokServer } from '../../testing/mock-server.js';
+import { GrokAPIError } from '../../types/errors.js';
+import { GrokClient } from '../client.js';
+import { DEFAULT_RETRY_POLICY, RetryEvent, getRetryDelay } from '../retry.js';
+
+describe('classifyError', () => {
+  it('should classify API error responses by status', () => {
+    expect(classifyError({ status: 401, message: 'Invalid API key' })).toBe('auth');
+    expect(classifyError({ status: 429, message: 'Too many requests' })).toBe('rate_limit');
+    expect(classifyError({ status: 429, message: 'You exceeded your current quota' })).toBe('auth');
+    expect(classifyError({ status: 400, message: "This model's maximum context length is 131072 tokens" })).toBe('context_overflow');
+    expect(classifyError({ status: 400, message: 'Unknown parameter' })).toBe('invalid_request');
+    expect(classifyError({ status: 503, message: 'Service unavailable' })).toBe('server');
+  });
+
+  it('should classify failures without a status by their cause and message', () => {
+    expect(classifyError(new Error('fetch failed', { cause: { code: 'ECONNRESET' } }))).toBe('network');
+    expect(classifyError(new Error('terminated'))).toBe('network');
+    expect(classifyError(new Error('The server is overloaded'))).toBe('server');
+    expect(classifyError({ name: 'AbortError', message: 'This operation was aborted' })).toBe('aborted');
+    expect(classifyError(new Error('Something else'))).toBe('unknown');
+  });
+});
+
+describe('getRetryAfter', () => {
+  it('should read milliseconds, seconds and HTTP dates', () => {
+    expect(getRetryAfter({ headers: { 'retry-after-ms': '250' } })).toBe(250);
+    expect(getRetryAfter({ headers: new Headers({ 'retry-after': '3' }) })).toBe(3000);
+
+    const date = getRetryAfter({ headers: { 'retry-after': new Date(Date.now() + 10000).toUTCString() } });
+    expect(date).toBeGreaterThan(8000);
+    expect(date).toBeLessThanOrEqual(10000);
+
+    expect(getRetryAfter({ headers: { 'retry-after': 'soon' } })).toBeUndefined();
+    expect(getRetryAfter(new Error('no headers'))).toBeUndefined();
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should back off exponentially with jitter up to the maximum delay', () => {
+    for (let attempt = 0; attempt < DEFAULT_RETRY_POLICY.maxRetries; attempt++) {
+      const exponential = Math.min(DEFAULT_RETRY_POLICY.maxDelay, DEFAULT_RETRY_POLICY.baseDelay * 2 ** attempt);
+      const delay = getRetryDelay('server', attempt, DEFAULT_RETRY_POLICY);
+      expect(delay).toBeGreaterThanOrEqual(exponential / 2);
+      expect(delay).toBeLessThanOrEqual(exponential);
+    }
+
+    const policy = { ...DEFAULT_RETRY_POLICY, maxRetries: 10 };
+    expect(getRetryDelay('network', 9, policy)).toBeLessThanOrEqual(policy.maxDelay);
+  });
+
+  it('should not retry errors that a retry cannot fix, or once retries are used up', () => {
+    for (const kind of ['auth', 'context_overflow', 'invalid_request', 'aborted', 'unknown'] as const) {
+      expect(getRetryDelay(kind, 0, DEFAULT_RETRY_POLICY)).toBeNull();
+    }
+    expect(getRetryDelay('rate_limit', DEFAULT_RETRY_POLICY.maxRetries, DEFAULT_RETRY_POLICY)).toBeNull();
+  });
+
+  it('should wait as long as retry-after asks unless that is too long', () => {
+    expect(getRetryDelay('rate_limit', 0, DEFAULT_RETRY_POLICY, 5000)).toBe(5000);
+    expect(getRetryDelay('rate_limit', 0, DEFAULT_RETRY_POLICY, DEFAULT_RETRY_POLICY.maxRetryAfter + 1)).toBeNull();
+  });
+});
+
+describe('GrokClient retries', () => {
+  const originalHome = process.env.HOME;
+  let tempDir: string;
+  let server: MockGrokServer | null = null;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-retry-'));
+    process.env.HOME = tempDir;
+  });
+
+  afterAll(() => {
+    process.env.HOME = originalHome;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+    server = null;
+  });
+
+  async function createClient(responses: ConstructorParameters<typeof MockGrokServer>[0]['responses'], events: RetryEvent[]) {
+    server = new MockGrokServer({ version: 1, responses });
+    const baseURL = await server.start();
+    return new GrokClient('test-key', 'grok-code-fast-1', baseURL, { onRetry: (event) => events.push(event) });
+  }
+
+  it('should retry a rate-limited request and report the retry', async () => {
+    const events: RetryEvent[] = [];
+    const client = await createClient([
+      { error: { status: 429, message: 'Too many requests' } },
+      { content: 'Done.' },
+    ], events);
+
+    const response = await client.chat([{ role: 'user', content: 'Hi' }]);
+
+    expect(response.choices[0].message.content).toBe('Done.');
+    expect(server!.requests).toHaveLength(2);
+    expect(events).toEqual([expect.objectContaining({ kind: 'rate_limit', attempt: 1, maxRetries: DEFAULT_RETRY_POLICY.maxRetries })]);
+  });
+
+  it('should fail at once on an invalid request', async () => {
+    const events: RetryEvent[] = [];
+    const client = await createClient([
+      { error: { status: 400, message: 'Unknown parameter' } },
+      { content: 'Never sent.' },
+    ], events);
+
+    const error = await client.chat([{ role: 'user', content: 'Hi' }]).catch((error) => error);
+
+    expect(error).toBeInstanceOf(GrokAPIError);
+    expect(error).toMatchObject({ kind: 'invalid_request', status: 400, retries: 0 });
+    expect(server!.requests).toHaveLength(1);
+    expect(events).toEqual([]);
+  });
+});
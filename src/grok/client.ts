@@ -1,5 +1,23 @@
-import OpenAI from "openai";
 import type { ChatCompletionMessageParam } from "openai/resources/chat";
+import {
+  ChatRequest,
+  DEFAULT_PROVIDER,
+  GrokStreamChunk,
+  ModelProvider,
+  ProviderCapabilities,
+  ProviderConfig,
+  ResolvedModel,
+  ToolChoice,
+  classifyError,
+  createProvider,
+  getErrorStatus,
+  getRetryAfter,
+  isConnectionError,
+  loadProviderConfigs,
+  resolveModel,
+} from "../providers/index.js";
+import { GrokAPIError } from "../types/errors.js";
+import { DEFAULT_RETRY_POLICY, RetryEvent, RetryPolicy, getRetryDelay, sleep } from "./retry.js";
 
 export type GrokMessage = ChatCompletionMessageParam;
 
@@ -34,6 +52,19 @@ export interface SearchOptions {
   search_parameters?: SearchParameters;
 }
 
+/**
+ * Token usage as reported by the provider. Cached tokens are part of
+ * `prompt_tokens`; some providers count reasoning tokens in
+ * `completion_tokens`, others only in `total_tokens`.
+ */
+export interface GrokUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
 export interface GrokResponse {
   choices: Array<{
     message: {
@@ -43,6 +74,7 @@ export interface GrokResponse {
     };
     finish_reason: string;
   }>;
+  usage?: GrokUsage;
 }
 
 export interface GrokClientOptions {
@@ -50,30 +82,65 @@ export interface GrokClientOptions {
   streamTimeout?: number;
   temperature?: number;
   maxTokens?: number;
+  fallbackModel?: string; // Used for the rest of the session when the current provider is unreachable
+  maxRetries?: number; // Retries for rate limits, server errors and dropped connections
+  onRetry?: (event: RetryEvent) => void;
+  onUsage?: (event: UsageEvent) => void; // Called with the provider's token counts of every response
+}
+
+export interface UsageEvent {
+  /** Model the request was sent to, as selected (may include a provider prefix) */
+  model: string;
+  usage: GrokUsage;
 }
 
+export type GrokToolChoice = ToolChoice;
+
+// Sent after the partial response when a dropped text-only stream is resumed
+const CONTINUE_PROMPT =
+  "Your previous response was cut off by a connection problem. Continue it exactly where it stopped, without repeating anything already written.";
+
+/**
+ * Chat client for the configured model providers. The API key and base URL
+ * passed in apply to the default (xAI) provider; other providers are read
+ * from the `providers` settings and selected with `provider/model` names.
+ */
 export class GrokClient {
-  private client: OpenAI;
+  private providerConfigs: ProviderConfig[];
+  private providers: Map<string, ModelProvider> = new Map();
   private currentModel: string = "grok-code-fast-1";
+  private fallbackModel?: string;
+  private activeFallback: string | null = null;
   private defaultMaxTokens: number;
   private defaultTemperature: number;
   private defaultTimeout: number;
   private defaultStreamTimeout: number;
+  private retryPolicy: RetryPolicy;
+  private onRetry?: (event: RetryEvent) => void;
+  private onUsage?: (event: UsageEvent) => void;
 
   constructor(apiKey: string, model?: string, baseURL?: string, options?: GrokClientOptions) {
     // Use provided timeout or default to 360000ms (6 minutes)
     const timeout = options?.timeout || 360000;
 
-    this.client = new OpenAI({
-      apiKey,
-      baseURL: baseURL || process.env.GROK_BASE_URL || "https://api.x.ai/v1",
-      timeout,
-    });
+    this.providerConfigs = loadProviderConfigs().map((config) =>
+      config.name === DEFAULT_PROVIDER
+        ? {
+          ...config,
+          apiKey: apiKey || config.apiKey,
+          baseURL: baseURL || process.env.GROK_BASE_URL || config.baseURL,
+        }
+        : config
+    );
 
     // Store configuration
     this.defaultTimeout = timeout;
     this.defaultStreamTimeout = options?.streamTimeout || 3600000; // 1 hour for reasoning models
     this.defaultTemperature = options?.temperature || 0.7;
+    this.fallbackModel = options?.fallbackModel;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, maxRetries: options?.maxRetries ?? DEFAULT_RETRY_POLICY.maxRetries };
+    this.onRetry = options?.onRetry;
+    this.onUsage = options?.onUsage;
 
     const envMax = Number(process.env.GROK_MAX_TOKENS);
     this.defaultMaxTokens = options?.maxTokens || (Number.isFinite(envMax) && envMax > 0 ? envMax : 1536);
@@ -85,78 +152,141 @@ export class GrokClient {
 
   setModel(model: string): void {
     this.currentModel = model;
+    this.activeFallback = null;
   }
 
   getCurrentModel(): string {
     return this.currentModel;
   }
 
+  /**
+   * Model requests are sent to: the current model, or the fallback model
+   * after the current model's provider was found unreachable
+   */
+  getActiveModel(): string {
+    return this.activeFallback || this.currentModel;
+  }
+
+  getProviderConfigs(): ProviderConfig[] {
+    return this.providerConfigs;
+  }
+
+  /**
+   * Provider and provider-side model name for a model
+   */
+  resolveModel(model: string = this.getActiveModel()): ResolvedModel {
+    return resolveModel(model, this.providerConfigs);
+  }
+
+  getCapabilities(model: string = this.getActiveModel()): ProviderCapabilities {
+    const { provider, model: modelName } = this.resolveModel(model);
+    const capabilities = { ...provider.capabilities };
+
+    // The default endpoint is often pointed at other OpenAI-compatible
+    // servers (GROK_BASE_URL), so live search is only assumed for Grok models
+    if (provider.name === DEFAULT_PROVIDER && !modelName.toLowerCase().includes("grok")) {
+      capabilities.liveSearch = false;
+    }
+    return capabilities;
+  }
+
+  supports(capability: keyof ProviderCapabilities, model?: string): boolean {
+    return this.getCapabilities(model)[capability];
+  }
+
   async chat(
     messages: GrokMessage[],
     tools?: GrokTool[],
     model?: string,
     searchOptions?: SearchOptions,
-    toolChoice?: "auto" | "required" | "none" | { type: "function"; function: { name: string } }
+    toolChoice?: GrokToolChoice,
+    signal?: AbortSignal
   ): Promise<GrokResponse> {
-    try {
-      const requestPayload: any = {
-        model: model || this.currentModel,
-        messages,
-        tools: tools || [],
-        tool_choice: toolChoice || (tools && tools.length > 0 ? "auto" : undefined),
-        temperature: this.defaultTemperature,
-        max_tokens: this.defaultMaxTokens,
-        timeout: this.defaultTimeout,
-      };
-
-      // Add search parameters if specified
-      if (searchOptions?.search_parameters) {
-        requestPayload.search_parameters = searchOptions.search_parameters;
-      }
+    let target = model || this.getActiveModel();
+    const request = this.buildRequest(messages, tools, searchOptions, toolChoice, this.defaultTimeout, signal);
+    let attempt = 0;
 
-      const response =
-        await this.client.chat.completions.create(requestPayload);
-
-      return response as GrokResponse;
-    } catch (error: any) {
-      throw new Error(`Grok API error: ${error.message}`);
+    while (true) {
+      try {
+        const response = await this.getProvider(target).chat({ ...request, model: this.resolveModel(target).model });
+        this.reportUsage(target, response.usage);
+        return response;
+      } catch (error) {
+        const fallback = this.fallbackFor(target, error);
+        if (fallback) {
+          target = fallback;
+          continue;
+        }
+        await this.waitForRetry(target, error, attempt++, signal);
+      }
     }
   }
 
+  /**
+   * Stream a response. Failed requests are retried like `chat`; when a stream
+   * drops midway, a text-only response is continued where it stopped and
+   * anything else is restarted after a `restart` chunk.
+   */
   async *chatStream(
     messages: GrokMessage[],
     tools?: GrokTool[],
     model?: string,
     searchOptions?: SearchOptions,
-    toolChoice?: "auto" | "required" | "none" | { type: "function"; function: { name: string } }
-  ): AsyncGenerator<any, void, unknown> {
-    try {
-      const requestPayload: any = {
-        model: model || this.currentModel,
-        messages,
-        tools: tools || [],
-        tool_choice: toolChoice || (tools && tools.length > 0 ? "auto" : undefined),
-        temperature: this.defaultTemperature,
-        max_tokens: this.defaultMaxTokens,
-        stream: true,
-        // Use extended timeout for streaming (especially for reasoning models)
-        timeout: this.defaultStreamTimeout,
-      };
-
-      // Add search parameters if specified
-      if (searchOptions?.search_parameters) {
-        requestPayload.search_parameters = searchOptions.search_parameters;
-      }
+    toolChoice?: GrokToolChoice,
+    signal?: AbortSignal
+  ): AsyncGenerator<GrokStreamChunk, void, unknown> {
+    let target = model || this.getActiveModel();
+    // Use extended timeout for streaming (especially for reasoning models)
+    const request = this.buildRequest(messages, tools, searchOptions, toolChoice, this.defaultStreamTimeout, signal);
+    let requestMessages = messages;
+    let attempt = 0;
+
+    // Response streamed so far, across resumed attempts
+    let streamedText = "";
+    let streamedToolCalls = false;
+
+    while (true) {
+      // Usage arrives with the last chunks; an interrupted attempt may still have reported it
+      let usage: GrokUsage | undefined;
+      try {
+        for await (const chunk of this.openStream(target, { ...request, messages: requestMessages })) {
+          const delta = chunk.choices[0]?.delta;
+          streamedText += delta?.content || "";
+          streamedToolCalls ||= Boolean(delta?.tool_calls?.length);
+          usage = chunk.usage || usage;
+          yield chunk;
+        }
+        this.reportUsage(target, usage);
+        return;
+      } catch (error) {
+        this.reportUsage(target, usage);
 
-      const stream = (await this.client.chat.completions.create(
-        requestPayload
-      )) as any;
+        // Connection failures surface before the first chunk
+        const fallback = !streamedText && !streamedToolCalls ? this.fallbackFor(target, error) : null;
+        if (fallback) {
+          yield {
+            choices: [],
+            notice: `${target} is unreachable (${errorMessage(error)}), using fallback model ${fallback}`,
+          };
+          target = fallback;
+          continue;
+        }
 
-      for await (const chunk of stream) {
-        yield chunk;
+        const resume = streamedToolCalls ? "restart" : streamedText ? "continue" : undefined;
+        await this.waitForRetry(target, error, attempt++, signal, resume);
+
+        if (resume === "restart") {
+          yield { choices: [], restart: true };
+          streamedText = "";
+          streamedToolCalls = false;
+        } else if (resume === "continue") {
+          requestMessages = [
+            ...messages,
+            { role: "assistant", content: streamedText },
+            { role: "user", content: CONTINUE_PROMPT },
+          ];
+        }
       }
-    } catch (error: any) {
-      throw new Error(`Grok API error: ${error.message}`);
     }
   }
 
@@ -175,4 +305,134 @@ export class GrokClient {
 
     return this.chat([searchMessage], [], undefined, searchOptions);
   }
+
+  private buildRequest(
+    messages: GrokMessage[],
+    tools: GrokTool[] | undefined,
+    searchOptions: SearchOptions | undefined,
+    toolChoice: GrokToolChoice | undefined,
+    timeout: number,
+    signal: AbortSignal | undefined
+  ): Omit<ChatRequest, "model"> {
+    return {
+      messages,
+      tools,
+      toolChoice,
+      temperature: this.defaultTemperature,
+      maxTokens: this.defaultMaxTokens,
+      timeout,
+      searchParameters: searchOptions?.search_parameters,
+      signal,
+    };
+  }
+
+  private getProvider(model: string): ModelProvider {
+    const { provider: config } = this.resolveModel(model);
+    let provider = this.providers.get(config.name);
+    if (!provider) {
+      provider = createProvider(config, this.defaultTimeout);
+      this.providers.set(config.name, provider);
+    }
+    return provider;
+  }
+
+  private openStream(model: string, request: Omit<ChatRequest, "model">): AsyncGenerator<GrokStreamChunk, void, unknown> {
+    const provider = this.getProvider(model);
+    const fullRequest = { ...request, model: this.resolveModel(model).model };
+    return provider.config.capabilities.streaming
+      ? provider.chatStream(fullRequest)
+      : emulateStream(provider, fullRequest);
+  }
+
+  /**
+   * Fallback model to retry with when the target's provider is unreachable.
+   * Once used, the fallback stays active until the model is changed.
+   */
+  private fallbackFor(target: string, error: unknown): string | null {
+    if (!this.fallbackModel || this.fallbackModel === target || !isConnectionError(error)) {
+      return null;
+    }
+    if (target === this.currentModel) {
+      this.activeFallback = this.fallbackModel;
+    }
+    return this.fallbackModel;
+  }
+
+  private reportUsage(model: string, usage: GrokUsage | undefined): void {
+    if (usage && this.onUsage) {
+      this.onUsage({ model, usage });
+    }
+  }
+
+  /**
+   * Report and wait for the next retry of a failed request, or throw when the
+   * error is not retryable or the retries are used up
+   */
+  private async waitForRetry(
+    model: string,
+    error: unknown,
+    attempt: number,
+    signal?: AbortSignal,
+    resume?: RetryEvent["resume"]
+  ): Promise<void> {
+    const kind = classifyError(error);
+    const delay = signal?.aborted ? null : getRetryDelay(kind, attempt, this.retryPolicy, getRetryAfter(error));
+    if (delay === null) {
+      throw this.apiError(model, error, attempt);
+    }
+
+    this.onRetry?.({
+      model,
+      kind,
+      message: errorMessage(error),
+      attempt: attempt + 1,
+      maxRetries: this.retryPolicy.maxRetries,
+      delay,
+      resume,
+    });
+    await sleep(delay, signal);
+  }
+
+  private apiError(model: string, error: unknown, retries: number = 0): GrokAPIError {
+    let label = "Grok";
+    let provider = DEFAULT_PROVIDER;
+    try {
+      provider = this.resolveModel(model).provider.name;
+      label = provider === DEFAULT_PROVIDER ? "Grok" : provider;
+    } catch {
+      // Keep the default label
+    }
+    return new GrokAPIError({
+      message: `${label} API error: ${errorMessage(error)}${retries > 0 ? ` (after ${retries} ${retries === 1 ? "retry" : "retries"})` : ""}`,
+      kind: classifyError(error),
+      provider,
+      status: getErrorStatus(error),
+      retries,
+      cause: error,
+    });
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Single-chunk stream for providers that do not support streaming
+ */
+async function* emulateStream(provider: ModelProvider, request: ChatRequest): AsyncGenerator<GrokStreamChunk, void, unknown> {
+  const response = await provider.chat(request);
+  const choice = response.choices[0];
+  yield {
+    choices: [{
+      index: 0,
+      delta: {
+        role: "assistant",
+        content: choice?.message.content ?? undefined,
+        tool_calls: choice?.message.tool_calls?.map((call, index) => ({ index, ...call })),
+      },
+      finish_reason: choice?.finish_reason ?? "stop",
+    }],
+    usage: response.usage,
+  };
 }
@@ -0,0 +1,96 @@
+import type { ApiErrorKind } from "../types/errors.js";
+
+export interface RetryPolicy {
+  maxRetries: number;
+  /** Delay before the first retry, doubled on every further attempt */
+  baseDelay: number;
+  maxDelay: number;
+  /** Longer `retry-after` waits are not worth blocking the session for */
+  maxRetryAfter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 4,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  maxRetryAfter: 120000,
+};
+
+/**
+ * Reported before each retry so the UI can show a "retrying in Ns" status
+ */
+export interface RetryEvent {
+  model: string;
+  kind: ApiErrorKind;
+  message: string;
+  /** 1-based number of the upcoming retry */
+  attempt: number;
+  maxRetries: number;
+  /** Milliseconds until the retry */
+  delay: number;
+  /** How a partially streamed response continues: from scratch or where it stopped */
+  resume?: "restart" | "continue";
+}
+
+const RETRYABLE_KINDS = new Set<ApiErrorKind>(["rate_limit", "network", "server"]);
+
+const KIND_LABELS: Record<ApiErrorKind, string> = {
+  auth: "Authentication failed",
+  rate_limit: "Rate limited",
+  context_overflow: "Context window exceeded",
+  network: "Connection problem",
+  server: "Server error",
+  invalid_request: "Invalid request",
+  aborted: "Cancelled",
+  unknown: "Request failed",
+};
+
+/**
+ * Milliseconds to wait before retry number `attempt` (0-based), or null when
+ * the error should not be retried. Exponential backoff with jitter, unless the
+ * server asked for a specific delay with `retry-after`.
+ */
+export function getRetryDelay(
+  kind: ApiErrorKind,
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfter?: number
+): number | null {
+  if (!RETRYABLE_KINDS.has(kind) || attempt >= policy.maxRetries) {
+    return null;
+  }
+
+  if (retryAfter !== undefined) {
+    return retryAfter <= policy.maxRetryAfter ? retryAfter : null;
+  }
+
+  // Half fixed, half random so concurrent clients spread out
+  const exponential = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+export function formatRetryEvent(event: RetryEvent): string {
+  const seconds = Math.max(1, Math.ceil(event.delay / 1000));
+  return `${KIND_LABELS[event.kind]}, retrying in ${seconds}s (${event.attempt}/${event.maxRetries})`;
+}
+
+/**
+ * Wait for a retry; rejects when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -5,10 +5,12 @@ import { GrokAgent, ChatEntry } from "../agent/grok-agent.js";
 import { GrokToolCall } from "../grok/client.js";
 import { ToolResult } from "../types/index.js";
 import { ConfirmationService } from "../utils/confirmation-service.js";
+import { buildCommitPrompt } from "../utils/commit-message.js";
+import { getSettingsManager } from "../utils/settings-manager.js";
 import { useEnhancedInput, Key } from "./use-enhanced-input.js";
 
 import { filterCommandSuggestions } from "../ui/components/command-suggestions.js";
-import { loadModelConfig, updateCurrentModel } from "../utils/model-config.js";
+import { ModelOption, formatProviderSummary, formatRoutingSummary, loadModelConfig, updateCurrentModel } from "../utils/model-config.js";
 import { AgentSystemGenerator } from "../tools/documentation/agent-system-generator.js";
 import { generateDocsMenuText, findDocsMenuOption } from "../tools/documentation/docs-menu.js";
 import { ReadmeGenerator } from "../tools/documentation/readme-generator.js";
@@ -16,8 +18,13 @@ import { CommentsGenerator } from "../tools/documentation/comments-generator.js"
 import { ApiDocsGenerator } from "../tools/documentation/api-docs-generator.js";
 import { ChangelogGenerator } from "../tools/documentation/changelog-generator.js";
 import { UpdateAgentDocs } from "../tools/documentation/update-agent-docs.js";
-import { SubagentFramework } from "../subagents/subagent-framework.js";
+import { formatTokenCount } from "../utils/token-counter.js";
+import { formatMonthlyReport, formatUsageReport, monthKey, summarizeMonth } from "../utils/usage-tracker.js";
 import { SelfHealingSystem } from "../tools/documentation/self-healing-system.js";
+import { SlashCommandInvocation, SlashCommandRegistry, expandCommandPrompt } from "../utils/slash-commands.js";
+import { getMCPManager } from "../grok/tools.js";
+import { formatPromptMessages, parsePromptArguments } from "../mcp/content.js";
+import { setMCPServerDisabled } from "../mcp/config.js";
 
 interface UseInputHandlerProps {
   agent: GrokAgent;
@@ -33,18 +40,24 @@ interface UseInputHandlerProps {
   isConfirmationActive?: boolean;
 }
 
+/**
+ * The `@server:resource` reference being typed at the end of the input
+ */
+function getResourceReference(input: string): string | null {
+  if (input.startsWith("/")) {
+    return null;
+  }
+  return input.match(/(?:^|\s)(@[\w-]*(?::\S*)?)$/)?.[1] ?? null;
+}
+
 interface CommandSuggestion {
   command: string;
   description: string;
-}
-
-interface ModelOption {
-  model: string;
+  argumentHint?: string;
 }
 
 export function useInputHandler({
   agent,
-  chatHistory,
   setChatHistory,
   setIsProcessing,
   setIsStreaming,
@@ -59,6 +72,10 @@ export function useInputHandler({
   const [selectedCommandIndex, setSelectedCommandIndex] = useState(0);
   const [showModelSelection, setShowModelSelection] = useState(false);
   const [selectedModelIndex, setSelectedModelIndex] = useState(0);
+  const [showMCPPanel, setShowMCPPanel] = useState(false);
+  const [selectedMCPIndex, setSelectedMCPIndex] = useState(0);
+  const commandRegistry = useMemo(() => new SlashCommandRegistry(), []);
+  const [commandRevision, setCommandRevision] = useState(0);
   const [autoEditEnabled, setAutoEditEnabled] = useState(() => {
     const confirmationService = ConfirmationService.getInstance();
     const sessionFlags = confirmationService.getSessionFlags();
@@ -99,6 +116,11 @@ export function useInputHandler({
         setSelectedModelIndex(0);
         return true;
       }
+      if (showMCPPanel) {
+        setShowMCPPanel(false);
+        setSelectedMCPIndex(0);
+        return true;
+      }
       if (isProcessing || isStreaming) {
         agent.abortCurrentOperation();
         setIsProcessing(false);
@@ -114,8 +136,8 @@ export function useInputHandler({
     // Handle command suggestions navigation
     if (showCommandSuggestions) {
       const filteredSuggestions = filterCommandSuggestions(
-        commandSuggestions,
-        input
+        activeSuggestions,
+        suggestionQuery
       );
 
       if (filteredSuggestions.length === 0) {
@@ -141,7 +163,8 @@ export function useInputHandler({
             filteredSuggestions.length - 1
           );
           const selectedCommand = filteredSuggestions[safeIndex];
-          const newInput = selectedCommand.command + " ";
+          // Replaces the whole input for commands, the typed reference for resources
+          const newInput = input.slice(0, input.length - suggestionQuery.length) + selectedCommand.command + " ";
           setInput(newInput);
           setCursorPosition(newInput.length);
           setShowCommandSuggestions(false);
@@ -197,8 +220,14 @@ export function useInputHandler({
   };
 
   const handleInputChange = (newInput: string) => {
+    // Pick up command files added or edited since the last "/"
+    if (newInput === "/") {
+      commandRegistry.reload();
+      setCommandRevision((revision) => revision + 1);
+    }
+
     // Update command suggestions based on input
-    if (newInput.startsWith("/")) {
+    if (newInput.startsWith("/") || (getResourceReference(newInput) !== null && getMCPManager().getResources().length > 0)) {
       setShowCommandSuggestions(true);
       setSelectedCommandIndex(0);
     } else {
@@ -221,8 +250,43 @@ export function useInputHandler({
     disabled: isConfirmationActive,
   });
 
+  // Keys of the /mcp panel: ↑↓ select, r restart, d disable, e enable
+  const handleMCPPanelInput = (inputChar: string, key: Key): boolean => {
+    if (!showMCPPanel || key.escape) {
+      return false;
+    }
+
+    const manager = getMCPManager();
+    const servers = manager.getServerStatuses();
+    if (key.upArrow || key.downArrow) {
+      if (servers.length > 0) {
+        setSelectedMCPIndex((prev) =>
+          key.upArrow ? (prev === 0 ? servers.length - 1 : prev - 1) : (prev + 1) % servers.length
+        );
+      }
+      return true;
+    }
+
+    const server = servers[Math.min(selectedMCPIndex, servers.length - 1)];
+    const action = { r: "restart", d: "disable", e: "enable" }[inputChar.toLowerCase()];
+    if (!server || !action) {
+      return true;
+    }
+    const run = action === "restart"
+      ? manager.restartServer(server.name)
+      : action === "disable"
+        ? manager.disableServer(server.name).then(() => setMCPServerDisabled(server.name, true))
+        : manager.enableServer(server.name).finally(() => setMCPServerDisabled(server.name, false));
+    // Failures show up as the server's state and last error in the panel
+    run.catch(() => undefined);
+    return true;
+  };
+
   // Hook up the actual input handling
   useInput((inputChar: string, key: Key) => {
+    if (handleMCPPanelInput(inputChar, key)) {
+      return;
+    }
     handleInput(inputChar, key);
   });
 
@@ -231,35 +295,110 @@ export function useInputHandler({
     handleInputChange(input);
   }, [input]);
 
-  const commandSuggestions: CommandSuggestion[] = [
-    { command: "/help", description: "Show help information" },
-    { command: "/clear", description: "Clear chat history" },
-    { command: "/models", description: "Switch Grok Model" },
-    { command: "/init-agent", description: "Initialize .agent documentation system" },
-    { command: "/docs", description: "Documentation generation menu" },
-    { command: "/readme", description: "Generate project README.md" },
-    { command: "/api-docs", description: "Generate API documentation" },
-    { command: "/changelog", description: "Generate changelog from git history" },
-    { command: "/update-agent-docs", description: "Update .agent docs with recent changes" },
-    { command: "/compact", description: "Compress conversation history" },
-    { command: "/heal", description: "Document and prevent failure recurrence" },
-    { command: "/guardrails", description: "Manage prevention rules" },
-    { command: "/comments", description: "Add code comments to files" },
-    { command: "/commit-and-push", description: "AI commit & push to remote" },
-    { command: "/exit", description: "Exit the application" },
-  ];
+  // Built-in and custom commands, minus disabled ones
+  const commandSuggestions: CommandSuggestion[] = useMemo(
+    () => commandRegistry.list().map((command) => ({
+      command: `/${command.name}`,
+      description: command.source === "builtin" ? command.description : `${command.description} (${command.source})`,
+      argumentHint: command.argumentHint,
+    })),
+    [commandRegistry, commandRevision]
+  );
+
+  // `@server:resource` references of connected MCP servers, listed again for each new reference
+  const resourceReference = getResourceReference(input);
+  const resourceSuggestions: CommandSuggestion[] = useMemo(
+    () => resourceReference === null ? [] : getMCPManager().getResources().map((resource) => ({
+      command: `@${resource.serverName}:${resource.uri}`,
+      description: resource.description ? `${resource.name} - ${resource.description}` : resource.name,
+    })),
+    [resourceReference === null]
+  );
+  const activeSuggestions = resourceReference === null ? commandSuggestions : resourceSuggestions;
+  const suggestionQuery = resourceReference ?? input;
 
   // Load models from configuration with fallback to defaults
   const availableModels: ModelOption[] = useMemo(() => {
     return loadModelConfig(); // Return directly, interface already matches
   }, []);
 
+  // Expand a custom command's prompt and send it to the agent
+  const runCustomCommand = async ({ command, args }: SlashCommandInvocation) => {
+    const displayText = args ? `/${command.name} ${args}` : `/${command.name}`;
+    if (command.mcpPrompt) {
+      const { serverName, name } = command.mcpPrompt;
+      let prompt: string;
+      try {
+        const result = await getMCPManager().getPrompt(serverName, name, parsePromptArguments(command.mcpPrompt, args));
+        prompt = formatPromptMessages(serverName, result);
+      } catch (error: any) {
+        const errorEntry: ChatEntry = {
+          type: "assistant",
+          content: `Failed to get prompt ${name} from MCP server ${serverName}: ${error.message}`,
+          timestamp: new Date(),
+        };
+        setChatHistory((prev) => [...prev, errorEntry]);
+        clearInput();
+        return;
+      }
+      await processUserMessage(prompt, { displayText });
+      return;
+    }
+
+    await processUserMessage(expandCommandPrompt(command.prompt || "", args), {
+      displayText,
+      model: command.model,
+      allowedTools: command.allowedTools,
+    });
+  };
+
   const handleDirectCommand = async (input: string): Promise<boolean> => {
     const trimmedInput = input.trim();
 
+    const invocation = commandRegistry.resolve(trimmedInput);
+    if (invocation && commandRegistry.isDisabled(invocation.command.name)) {
+      const disabledEntry: ChatEntry = {
+        type: "assistant",
+        content: `/${invocation.command.name} is disabled by the "disabledCommands" setting`,
+        timestamp: new Date(),
+      };
+      setChatHistory((prev) => [...prev, disabledEntry]);
+      clearInput();
+      return true;
+    }
+    if (invocation && invocation.command.source !== "builtin") {
+      await runCustomCommand(invocation);
+      return true;
+    }
+
+    if (trimmedInput === "/commands") {
+      commandRegistry.reload();
+      setCommandRevision((revision) => revision + 1);
+      const customCommands = commandRegistry.list().filter((command) => command.source !== "builtin");
+      const lines = customCommands.map((command) => {
+        const details = [
+          command.model ? `model ${command.model}` : "",
+          command.allowedTools ? `tools: ${command.allowedTools.join(", ")}` : "",
+        ].filter(Boolean).join("; ");
+        const origin = command.mcpPrompt ? `prompt of MCP server ${command.mcpPrompt.serverName}` : command.filePath;
+        return `  /${command.name}${command.argumentHint ? ` ${command.argumentHint}` : ""} - ${command.description}\n    ${origin}${details ? ` (${details})` : ""}`;
+      });
+      const commandsEntry: ChatEntry = {
+        type: "assistant",
+        content: customCommands.length > 0
+          ? `Custom commands:\n${lines.join("\n")}`
+          : "No custom commands. Add markdown files to .grok/commands/ (project) or ~/.grok/commands/ (user); the file name is the command name and the content is the prompt, with $ARGUMENTS replaced by what follows the command.",
+        timestamp: new Date(),
+      };
+      setChatHistory((prev) => [...prev, commandsEntry]);
+      clearInput();
+      return true;
+    }
+
     if (trimmedInput === "/clear") {
-      // Reset chat history
+      // Reset chat history and start a fresh session
       setChatHistory([]);
+      agent.startNewSession();
 
       // Reset processing states
       setIsProcessing(false);
@@ -286,6 +425,16 @@ Built-in Commands:
   /clear      - Clear chat history
   /help       - Show this help
   /models     - Switch between available models
+  /models <provider/model> - Switch to any model of a configured provider
+  /models providers - List providers, API key status and capabilities
+  /sessions   - List saved sessions for this project
+  /sessions resume <id> - Resume a saved session
+  /sessions fork [id]   - Continue a copy of a session
+  /sessions delete <id> - Delete a saved session
+  /cost       - Token usage and cost per model, tool and turn
+  /cost month [YYYY-MM] - Spend of a month per project and model
+  /commands   - List custom commands from .grok/commands and ~/.grok/commands
+  /mcp        - MCP server status; restart, disable or enable servers
   /exit       - Exit application
   exit, quit  - Exit application
 
@@ -325,7 +474,8 @@ Direct Commands (executed immediately):
   touch <file>- Create empty file
 
 Model Configuration:
-  Edit ~/.grok/models.json to add custom models (Claude, GPT, Gemini, etc.)
+  Add providers (OpenAI-compatible, Anthropic, Gemini, local servers) and their
+  models under "providers" in ~/.grok/user-settings.json or .grok/settings.json
 
 For complex operations, just describe what you want in natural language.
 Examples:
@@ -344,6 +494,13 @@ Examples:
       return true;
     }
 
+    if (trimmedInput === "/mcp") {
+      setShowMCPPanel(true);
+      setSelectedMCPIndex(0);
+      clearInput();
+      return true;
+    }
+
     if (trimmedInput === "/models") {
       setShowModelSelection(true);
       setSelectedModelIndex(0);
@@ -351,11 +508,26 @@ Examples:
       return true;
     }
 
+    if (trimmedInput === "/models providers") {
+      const providersEntry: ChatEntry = {
+        type: "assistant",
+        content: `Model providers (current model: ${agent.getCurrentModel()}):\n\n${formatProviderSummary(agent.getProviderConfigs())}` +
+          formatRoutingSummary(getSettingsManager().getModelRouting()),
+        timestamp: new Date(),
+      };
+      setChatHistory((prev) => [...prev, providersEntry]);
+      clearInput();
+      return true;
+    }
+
     if (trimmedInput.startsWith("/models ")) {
       const modelArg = trimmedInput.split(" ")[1];
       const modelNames = availableModels.map((m) => m.model);
+      // Unlisted models can be selected as provider/model
+      const providerName = modelArg.includes("/") ? modelArg.slice(0, modelArg.indexOf("/")) : "";
+      const isProviderModel = agent.getProviderConfigs().some((provider) => provider.name === providerName);
 
-      if (modelNames.includes(modelArg)) {
+      if (modelNames.includes(modelArg) || isProviderModel) {
         agent.setModel(modelArg);
         updateCurrentModel(modelArg); // Update project current model
         const confirmEntry: ChatEntry = {
@@ -369,7 +541,8 @@ Examples:
           type: "assistant",
           content: `Invalid model: ${modelArg}
 
-Available models: ${modelNames.join(", ")}`,
+Available models: ${modelNames.join(", ")}
+Use <provider>/<model> for a model of a configured provider (see /models providers)`,
           timestamp: new Date(),
         };
         setChatHistory((prev) => [...prev, errorEntry]);
@@ -451,16 +624,7 @@ Available models: ${modelNames.join(", ")}`,
         const diffResult = await agent.executeBashCommand("git diff --cached");
 
         // Generate commit message using AI
-        const commitPrompt = `Generate a concise, professional git commit message for these changes:
-
-Git Status:
-${initialStatusResult.output}
-
-Git Diff (staged changes):
-${diffResult.output || "No staged changes shown"}
-
-Follow conventional commit format (feat:, fix:, docs:, etc.) and keep it under 72 characters.
-Respond with ONLY the commit message, no additional text.`;
+        const commitPrompt = buildCommitPrompt(initialStatusResult.output, diffResult.output);
 
         let commitMessage = "";
         let streamingEntry: ChatEntry | null = null;
@@ -468,7 +632,8 @@ Respond with ONLY the commit message, no additional text.`;
         let lastCommitUpdateTime = Date.now();
 
         for await (const chunk of agent.processUserMessageStream(
-          commitPrompt
+          commitPrompt,
+          { phase: "commitMessage" }
         )) {
           if (chunk.type === "content" && chunk.content) {
             accumulatedCommitContent += chunk.content;
@@ -1020,6 +1185,91 @@ Respond with ONLY the commit message, no additional text.`;
       return true;
     }
 
+    if (trimmedInput === "/sessions" || trimmedInput.startsWith("/sessions ")) {
+      const [subcommand = "list", sessionId] = trimmedInput.split(/\s+/).slice(1);
+      let content: string;
+
+      try {
+        switch (subcommand) {
+          case "list": {
+            const sessions = agent.listSessions();
+            const currentId = agent.getSessionId();
+            content = sessions.length === 0
+              ? "No saved sessions for this project yet."
+              : `📚 **Saved Sessions**\n\n${sessions
+                  .map((session) => {
+                    const marker = session.id === currentId ? " (current)" : "";
+                    const updated = new Date(session.updatedAt).toLocaleString();
+                    return `- \`${session.id}\`${marker} — ${session.title || "(untitled)"}\n  ${session.messageCount} messages · ${session.model} · ${updated}`;
+                  })
+                  .join("\n")}\n\n💡 Use \`/sessions resume <id>\` (a unique prefix is enough)`;
+            break;
+          }
+          case "resume": {
+            if (isProcessing || isStreaming) {
+              content = "Cannot switch sessions while a request is in progress.";
+              break;
+            }
+            const session = agent.resumeSession(sessionId);
+            setChatHistory(agent.getChatHistory());
+            content = `🔄 Resumed session \`${session.id}\` (${session.messageCount} messages, model ${session.model})`;
+            break;
+          }
+          case "fork": {
+            const session = agent.forkSession(sessionId);
+            setChatHistory(agent.getChatHistory());
+            content = `🍴 Forked into new session \`${session.id}\` from \`${session.forkedFrom}\``;
+            break;
+          }
+          case "delete": {
+            if (!sessionId) {
+              content = "Usage: /sessions delete <id>";
+              break;
+            }
+            content = agent.deleteSession(sessionId)
+              ? `🗑️ Deleted session \`${sessionId}\``
+              : `Session not found: ${sessionId}`;
+            break;
+          }
+          default:
+            content = "Usage: /sessions [list | resume <id> | fork [id] | delete <id>]";
+        }
+      } catch (error: any) {
+        content = `Session command failed: ${error.message}`;
+      }
+
+      const sessionsEntry: ChatEntry = {
+        type: "assistant",
+        content,
+        timestamp: new Date(),
+      };
+      setChatHistory((prev) => [...prev, sessionsEntry]);
+      clearInput();
+      return true;
+    }
+
+    if (trimmedInput === "/cost" || trimmedInput.startsWith("/cost ")) {
+      const [subcommand, month = monthKey()] = trimmedInput.split(/\s+/).slice(1);
+      let content: string;
+
+      if (!subcommand) {
+        content = `💰 **Usage**\n\n${formatUsageReport(agent.getUsageReport())}`;
+      } else if (subcommand === "month" && /^\d{4}-\d{2}$/.test(month)) {
+        content = `💰 **Monthly Spend**\n\n${formatMonthlyReport(summarizeMonth(month))}`;
+      } else {
+        content = "Usage: /cost [month [YYYY-MM]]";
+      }
+
+      const costEntry: ChatEntry = {
+        type: "assistant",
+        content,
+        timestamp: new Date(),
+      };
+      setChatHistory((prev) => [...prev, costEntry]);
+      clearInput();
+      return true;
+    }
+
     if (trimmedInput === "/compact" || trimmedInput.startsWith("/compact ")) {
       const userEntry: ChatEntry = {
         type: "user",
@@ -1032,45 +1282,41 @@ Respond with ONLY the commit message, no additional text.`;
 
       try {
         const args = trimmedInput.split(' ').slice(1);
-        // const force = args.includes('--force'); // TODO: implement force flag
+        const force = args.includes('--force');
         const dryRun = args.includes('--dry-run');
 
-        // Simulate context compression using subagent framework
-        const subagentFramework = new SubagentFramework();
-        const taskId = await subagentFramework.spawnSubagent({
-          type: 'summarizer',
-          input: {
-            content: chatHistory.map(entry => entry.content).join('\n'),
-            compressionTarget: 0.3 // 70% reduction
-          },
-          priority: 'medium'
-        });
-
-        const result = await subagentFramework.waitForResult(taskId, 10000);
+        const result = await agent.compactConversation({ force, dryRun });
+        const savedTokens = result.tokensBefore - result.tokensAfter;
+        const savedPercent = result.tokensBefore > 0
+          ? Math.round((savedTokens / result.tokensBefore) * 100)
+          : 0;
 
-        if (result.success) {
-          // const metrics = subagentFramework.getPerformanceMetrics(); // TODO: use metrics
+        let content: string;
+        if (result.skippedReason) {
+          content = `ℹ️ **Nothing compacted**\n\n${result.skippedReason}\n\n- Current context: ${formatTokenCount(result.tokensBefore)} tokens`;
+        } else {
+          const preserved = [
+            `- System prompt and the most recent turns kept verbatim`,
+            `- Files touched: ${result.filesTouched.length}`,
+            `- Open todos: ${result.openTodos.length}`,
+          ].join('\n');
+          const stats = `- Tokens: ${formatTokenCount(result.tokensBefore)} → ${formatTokenCount(result.tokensAfter)} (${savedPercent}% saved)\n- Messages: ${result.messagesBefore} → ${result.messagesAfter} (${result.summarizedMessages} summarized)`;
+
+          content = dryRun
+            ? `📊 **Compression Preview (Dry Run)**\n\n${stats}\n${preserved}\n\n**Summary that would replace older turns:**\n\n${result.summary}\n\n💡 Use \`/compact\` to apply compression`
+            : `🧹 **Context Compressed Successfully**\n\n${stats}\n${preserved}\n\n**Summary:**\n\n${result.summary}`;
+        }
 
-          const resultEntry: ChatEntry = {
-            type: "assistant",
-            content: dryRun
-              ? `📊 **Compression Preview (Dry Run)**\n\n${result.summary}\n\n💡 Use \`/compact\` to apply compression`
-              : `🧹 **Context Compressed Successfully**\n\n${result.summary}\n\n📈 **Performance:**\n- Tokens saved: ~${result.output.compressionRatio * 100}%\n- Processing time: ${result.executionTime}ms\n- Subagent tokens used: ${result.tokensUsed}`,
-            timestamp: new Date(),
-          };
-          setChatHistory((prev) => [...prev, resultEntry]);
+        const resultEntry: ChatEntry = {
+          type: "assistant",
+          content,
+          timestamp: new Date(),
+        };
+        setChatHistory((prev) => [...prev, resultEntry]);
 
-          if (!dryRun && result.success) {
-            // In a real implementation, this would actually compress the chat history
-            const tipsEntry: ChatEntry = {
-              type: "assistant",
-              content: `✨ **Context Optimization Complete**\n\n**What happened:**\n- Older conversations summarized\n- Recent context preserved\n- Key decisions and TODOs maintained\n\n**Options:**\n- \`/compact --dry-run\` - Preview compression\n- \`/compact --force\` - Force compression even if below threshold`,
-              timestamp: new Date(),
-            };
-            setChatHistory((prev) => [...prev, tipsEntry]);
-          }
+        if (!dryRun && result.compacted) {
+          setTokenCount(result.tokensAfter);
         }
-
       } catch (error: any) {
         const errorEntry: ChatEntry = {
           type: "assistant",
@@ -1285,10 +1531,13 @@ ${incidents.slice(0, 3).map(i => `- ${i.title} (${i.impact} impact)`).join('\n')
     return false;
   };
 
-  const processUserMessage = async (userInput: string) => {
+  const processUserMessage = async (
+    userInput: string,
+    options: { displayText?: string; model?: string; allowedTools?: string[] } = {}
+  ) => {
     const userEntry: ChatEntry = {
       type: "user",
-      content: userInput,
+      content: options.displayText || userInput,
       timestamp: new Date(),
     };
     setChatHistory((prev) => [...prev, userEntry]);
@@ -1303,6 +1552,8 @@ ${incidents.slice(0, 3).map(i => `- ${i.title} (${i.impact} impact)`).join('\n')
       let lastTokenCount = 0;
       let pendingToolCalls: GrokToolCall[] | null = null;
       let pendingToolResults: Array<{ toolCall: GrokToolCall; toolResult: ToolResult }> = [];
+      // Live output of still-running tools, keyed by tool call id
+      let pendingToolOutputs = new Map<string, string>();
       let lastUpdateTime = Date.now();
 
       const flushUpdates = () => {
@@ -1365,6 +1616,19 @@ ${incidents.slice(0, 3).map(i => `- ${i.title} (${i.impact} impact)`).join('\n')
           pendingToolCalls = null;
         }
 
+        // Show live output on the matching tool_call entries
+        if (pendingToolOutputs.size > 0) {
+          const outputs = pendingToolOutputs;
+          setChatHistory((prev) =>
+            prev.map((entry) =>
+              entry.type === "tool_call" && entry.toolCall && outputs.has(entry.toolCall.id)
+                ? { ...entry, content: outputs.get(entry.toolCall.id) || entry.content }
+                : entry
+            )
+          );
+          pendingToolOutputs = new Map();
+        }
+
         // Handle pending tool results
         if (pendingToolResults.length > 0) {
           setChatHistory((prev) =>
@@ -1396,7 +1660,10 @@ ${incidents.slice(0, 3).map(i => `- ${i.title} (${i.impact} impact)`).join('\n')
         lastUpdateTime = now;
       };
 
-      for await (const chunk of agent.processUserMessageStream(userInput)) {
+      for await (const chunk of agent.processUserMessageStream(userInput, {
+        model: options.model,
+        allowedTools: options.allowedTools,
+      })) {
         switch (chunk.type) {
           case "content":
             if (chunk.content) {
@@ -1418,7 +1685,11 @@ ${incidents.slice(0, 3).map(i => `- ${i.title} (${i.impact} impact)`).join('\n')
 
           case "tool_result":
             if (chunk.toolCall && chunk.toolResult) {
-              pendingToolResults.push({ toolCall: chunk.toolCall, toolResult: chunk.toolResult });
+              if (chunk.isPartial) {
+                pendingToolOutputs.set(chunk.toolCall.id, chunk.toolResult.output || "");
+              } else {
+                pendingToolResults.push({ toolCall: chunk.toolCall, toolResult: chunk.toolResult });
+              }
             }
             break;
 
@@ -1464,7 +1735,10 @@ ${incidents.slice(0, 3).map(i => `- ${i.title} (${i.impact} impact)`).join('\n')
     selectedCommandIndex,
     showModelSelection,
     selectedModelIndex,
-    commandSuggestions,
+    showMCPPanel,
+    selectedMCPIndex,
+    commandSuggestions: activeSuggestions,
+    suggestionQuery,
     availableModels,
     agent,
     autoEditEnabled,
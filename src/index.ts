@@ -2,11 +2,24 @@ import React from "react";
 import { render } from "ink";
 import { program } from "commander";
 import * as dotenv from "dotenv";
-import { GrokAgent } from "./agent/grok-agent.js";
+import fs from "fs";
+import { ChatEntry, GrokAgent } from "./agent/grok-agent.js";
 import ChatInterface from "./ui/components/chat-interface.js";
 import { getSettingsManager } from "./utils/settings-manager.js";
 import { ConfirmationService } from "./utils/confirmation-service.js";
+import { generateCommitMessage } from "./utils/commit-message.js";
 import { createMCPCommand } from "./commands/mcp.js";
+import { createIndexCommand } from "./commands/code-index.js";
+import { createModelsCommand } from "./commands/models.js";
+import { createCostCommand } from "./commands/cost.js";
+import { createMockServerCommand } from "./commands/mock-server.js";
+import { createServeCommand } from "./commands/serve.js";
+import { formatRetryEvent, RetryEvent } from "./grok/retry.js";
+import { RunBudget, formatBudget, hasBudget, parseBudgetOptions } from "./agent/run-budget.js";
+import { EXIT_CODES, OUTPUT_FORMATS, OutputFormat, exitCodeForRun, isOutputFormat, runHeadlessPrompt } from "./utils/headless-output.js";
+import { INPUT_FORMATS, combinePromptWithInput, hasPipedStdin, isInputFormat, readInputTurns, readStdin } from "./utils/headless-input.js";
+import { GrokAPIError } from "./types/errors.js";
+import { DEFAULT_PROVIDER, getProviderApiKey, resolveModel } from "./providers/config.js";
 import type { ChatCompletionMessageParam } from "openai/resources/chat";
 import pkg from "../package.json" with { type: "json" };
 
@@ -63,6 +76,24 @@ function loadBaseURL(): string {
   return manager.getBaseURL();
 }
 
+// Error message when the selected model's provider needs an API key that is not set
+function getMissingApiKeyError(apiKey: string | undefined, model: string | undefined): string | null {
+  try {
+    const { provider } = resolveModel(model || "grok-code-fast-1");
+    if (provider.name === DEFAULT_PROVIDER) {
+      return apiKey
+        ? null
+        : "❌ Error: API key required. Set GROK_API_KEY environment variable, use --api-key flag, or save to ~/.grok/user-settings.json";
+    }
+    if (provider.apiKeyEnv && !getProviderApiKey(provider)) {
+      return `❌ Error: API key required for provider ${provider.name}. Set ${provider.apiKeyEnv} or add "apiKey" under providers.${provider.name} in ~/.grok/user-settings.json`;
+    }
+    return null;
+  } catch (error) {
+    return `❌ Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
 // Save command line settings to user settings file
 async function saveCommandLineSettings(
   apiKey?: string,
@@ -71,14 +102,14 @@ async function saveCommandLineSettings(
   try {
     const manager = getSettingsManager();
 
-    // Update with command line values
+    // Update with command line values (notices go to stderr so headless output stays parseable)
     if (apiKey) {
       manager.updateUserSetting("apiKey", apiKey);
-      console.log("✅ API key saved to ~/.grok/user-settings.json");
+      console.error("✅ API key saved to ~/.grok/user-settings.json");
     }
     if (baseURL) {
       manager.updateUserSetting("baseURL", baseURL);
-      console.log("✅ Base URL saved to ~/.grok/user-settings.json");
+      console.error("✅ Base URL saved to ~/.grok/user-settings.json");
     }
   } catch (error) {
     console.warn(
@@ -150,38 +181,15 @@ async function handleCommitAndPushHeadless(
     // Get staged changes for commit message generation
     const diffResult = await agent.executeBashCommand("git diff --cached");
 
-    // Generate commit message using AI
-    const commitPrompt = `Generate a concise, professional git commit message for these changes:
-
-Git Status:
-${initialStatusResult.output}
-
-Git Diff (staged changes):
-${diffResult.output || "No staged changes shown"}
-
-Follow conventional commit format (feat:, fix:, docs:, etc.) and keep it under 72 characters.
-Respond with ONLY the commit message, no additional text.`;
-
     console.log("🤖 Generating commit message...");
 
-    const commitMessageEntries = await agent.processUserMessage(commitPrompt);
-    let commitMessage = "";
+    const cleanCommitMessage = await generateCommitMessage(agent, initialStatusResult.output, diffResult.output);
 
-    // Extract the commit message from the AI response
-    for (const entry of commitMessageEntries) {
-      if (entry.type === "assistant" && entry.content.trim()) {
-        commitMessage = entry.content.trim();
-        break;
-      }
-    }
-
-    if (!commitMessage) {
+    if (!cleanCommitMessage) {
       console.log("❌ Failed to generate commit message");
       process.exit(1);
     }
 
-    // Clean the commit message
-    const cleanCommitMessage = commitMessage.replace(/^["']|["']$/g, "");
     console.log(`✅ Generated commit message: "${cleanCommitMessage}"`);
 
     // Execute the commit
@@ -227,82 +235,166 @@ Respond with ONLY the commit message, no additional text.`;
   }
 }
 
-// Headless mode processing function
+// Restore a saved session when --resume or --continue was given
+function restoreSession(
+  agent: GrokAgent,
+  resume: string | boolean | undefined,
+  explicitModel?: string
+): void {
+  if (!resume) {
+    return;
+  }
+
+  const session = agent.resumeSession(typeof resume === "string" ? resume : undefined);
+
+  // An explicit --model flag wins over the model stored in the session
+  if (explicitModel) {
+    agent.setModel(explicitModel);
+  }
+
+  if (process.env.DEBUG === '1') {
+    console.error(`[DEBUG] Resumed session ${session.id} (${session.messageCount} messages)`);
+  }
+}
+
+interface HeadlessOptions {
+  usageFile?: string;
+  budget?: RunBudget;
+  outputFormat?: OutputFormat;
+}
+
+// Headless mode processing function. Several prompts (stream-json input) are
+// sent as turns of one conversation; the exit code is that of the last failed turn.
 async function processPromptHeadless(
-  prompt: string,
+  prompts: string[] | AsyncIterable<string>,
   apiKey: string,
   baseURL?: string,
   model?: string,
-  maxToolRounds?: number
+  maxToolRounds?: number,
+  resume?: string | boolean,
+  explicitModel?: string,
+  options: HeadlessOptions = {}
 ): Promise<void> {
+  const { usageFile, budget } = options;
+  let agent: GrokAgent | null = null;
   try {
-    const agent = new GrokAgent(apiKey, baseURL, model, maxToolRounds);
+    agent = new GrokAgent(apiKey, baseURL, model, maxToolRounds);
+    restoreSession(agent, resume, explicitModel);
+    if (budget) {
+      agent.setRunBudget(budget);
+    }
+    if (hasBudget(agent.getRunBudget())) {
+      console.error(`Budget: ${formatBudget(agent.getRunBudget())}`);
+    }
+
+    // stdout carries the JSON messages, so retries are reported on stderr
+    agent.on("api_retry", (event: RetryEvent) => console.error(`⏳ ${formatRetryEvent(event)}`));
 
     // Configure confirmation service for headless mode (auto-approve all operations)
     const confirmationService = ConfirmationService.getInstance();
     confirmationService.setSessionFlag("allOperations", true);
 
-    // Process the user message
-    const chatEntries = await agent.processUserMessage(prompt);
+    let exitCode: number = EXIT_CODES.success;
+    for await (const prompt of prompts) {
+      if (options.outputFormat) {
+        await runHeadlessPrompt(agent, prompt, options.outputFormat);
+      } else {
+        // Without --output-format, print OpenAI-style message objects at the end
+        printChatMessages(await agent.processUserMessage(prompt));
+      }
 
-    // Convert chat entries to OpenAI compatible message objects
-    const messages: ChatCompletionMessageParam[] = [];
+      // Schedulers need to know why an unattended run ended early
+      const summary = agent.getLastRunSummary();
+      if (summary && summary.stopReason !== "completed") {
+        console.error(`Stopped (${summary.stopReason})${summary.message ? `: ${summary.message}` : ""}`);
+      }
+      const turnExitCode = summary ? exitCodeForRun(summary) : EXIT_CODES.success;
+      if (turnExitCode !== EXIT_CODES.success) {
+        exitCode = turnExitCode;
+      }
+    }
+    writeUsageFile(agent, usageFile);
+    process.exitCode = exitCode;
+  } catch (error: any) {
+    if (options.outputFormat === "text") {
+      console.error(`Error: ${error.message}`);
+    } else if (options.outputFormat) {
+      console.log(JSON.stringify({ type: "result", stopReason: "error", isError: true, message: error.message }));
+    } else {
+      // Output error in OpenAI compatible format
+      console.log(
+        JSON.stringify({
+          role: "assistant",
+          content: `Error: ${error.message}`,
+        })
+      );
+    }
+    writeUsageFile(agent, usageFile);
+    process.exit(error instanceof GrokAPIError ? EXIT_CODES.apiError : EXIT_CODES.error);
+  }
+}
 
-    for (const entry of chatEntries) {
-      switch (entry.type) {
-        case "user":
-          messages.push({
-            role: "user",
-            content: entry.content,
-          });
-          break;
+function printChatMessages(chatEntries: ChatEntry[]): void {
+  // Convert chat entries to OpenAI compatible message objects
+  const messages: ChatCompletionMessageParam[] = [];
+
+  for (const entry of chatEntries) {
+    switch (entry.type) {
+      case "user":
+        messages.push({
+          role: "user",
+          content: entry.content,
+        });
+        break;
 
-        case "assistant":
-          const assistantMessage: ChatCompletionMessageParam = {
-            role: "assistant",
-            content: entry.content,
-          };
-
-          // Add tool calls if present
-          if (entry.toolCalls && entry.toolCalls.length > 0) {
-            assistantMessage.tool_calls = entry.toolCalls.map((toolCall) => ({
-              id: toolCall.id,
-              type: "function",
-              function: {
-                name: toolCall.function.name,
-                arguments: toolCall.function.arguments,
-              },
-            }));
-          }
+      case "assistant":
+        const assistantMessage: ChatCompletionMessageParam = {
+          role: "assistant",
+          content: entry.content,
+        };
+
+        // Add tool calls if present
+        if (entry.toolCalls && entry.toolCalls.length > 0) {
+          assistantMessage.tool_calls = entry.toolCalls.map((toolCall) => ({
+            id: toolCall.id,
+            type: "function",
+            function: {
+              name: toolCall.function.name,
+              arguments: toolCall.function.arguments,
+            },
+          }));
+        }
 
-          messages.push(assistantMessage);
-          break;
+        messages.push(assistantMessage);
+        break;
 
-        case "tool_result":
-          if (entry.toolCall) {
-            messages.push({
-              role: "tool",
-              tool_call_id: entry.toolCall.id,
-              content: entry.content,
-            });
-          }
-          break;
-      }
+      case "tool_result":
+        if (entry.toolCall) {
+          messages.push({
+            role: "tool",
+            tool_call_id: entry.toolCall.id,
+            content: entry.content,
+          });
+        }
+        break;
     }
+  }
 
-    // Output each message as a separate JSON object
-    for (const message of messages) {
-      console.log(JSON.stringify(message));
-    }
-  } catch (error: any) {
-    // Output error in OpenAI compatible format
-    console.log(
-      JSON.stringify({
-        role: "assistant",
-        content: `Error: ${error.message}`,
-      })
-    );
-    process.exit(1);
+  // Output each message as a separate JSON object
+  for (const message of messages) {
+    console.log(JSON.stringify(message));
+  }
+}
+
+// Token usage and cost of a headless run, for scripts and CI
+function writeUsageFile(agent: GrokAgent | null, usageFile?: string): void {
+  if (!agent || !usageFile) {
+    return;
+  }
+  try {
+    fs.writeFileSync(usageFile, JSON.stringify(agent.getUsageReport(), null, 2));
+  } catch (error) {
+    console.error(`Failed to write usage file ${usageFile}: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
@@ -321,7 +413,7 @@ program
   )
   .option(
     "-m, --model <model>",
-    "AI model to use (e.g., grok-code-fast-1, grok-4-latest) (or set GROK_MODEL env var)"
+    "AI model to use (e.g., grok-code-fast-1, anthropic/claude-sonnet-4-5, ollama/qwen2.5-coder) (or set GROK_MODEL env var)"
   )
   .option(
     "-p, --prompt <prompt>",
@@ -332,7 +424,36 @@ program
     "maximum number of tool execution rounds (default: 400)",
     "400"
   )
+  .option(
+    "-r, --resume [sessionId]",
+    "resume a saved session (the most recent one when no id is given)"
+  )
+  .option("-c, --continue", "continue the most recent session in this directory")
+  .option("--max-cost <usd>", "stop a run once it has cost this many US dollars")
+  .option("--max-tokens <tokens>", "stop a run once it has used this many prompt and completion tokens")
+  .option("--max-wall-time <duration>", "stop a run after this long, e.g. 90s, 30m or 2h")
+  .option("--max-files-changed <count>", "stop a run instead of editing more than this many files")
+  .option(
+    "--output-format <format>",
+    "headless mode: text, json (one result object) or stream-json (newline-delimited events)"
+  )
+  .option(
+    "--input-format <format>",
+    "headless mode: text (stdin is the prompt, or context for --prompt) or stream-json (one user turn per line)"
+  )
+  .option(
+    "--usage-file <path>",
+    "headless mode: write token usage and cost of the run as JSON to this file"
+  )
+  .option(
+    "--sandbox",
+    "run bash commands in a sandbox (writes limited to the project and temp dir, no network, no secrets)"
+  )
   .action(async (message, options) => {
+    if (options.sandbox) {
+      process.env.GROK_SANDBOX = "1";
+    }
+
     if (options.directory) {
       try {
         process.chdir(options.directory);
@@ -351,11 +472,21 @@ program
       const baseURL = options.baseUrl || loadBaseURL();
       const model = options.model || loadModel();
       const maxToolRounds = parseInt(options.maxToolRounds) || 400;
+      const resume: string | boolean | undefined = options.resume || options.continue;
+      // Command line limits override the project's `budget` defaults one by one
+      const budget: RunBudget = { ...getSettingsManager().getRunBudget(), ...parseBudgetOptions(options) };
+      if (options.outputFormat && !isOutputFormat(options.outputFormat)) {
+        console.error(`❌ Error: Invalid --output-format "${options.outputFormat}", expected ${OUTPUT_FORMATS.join(", ")}`);
+        process.exit(1);
+      }
+      if (options.inputFormat && !isInputFormat(options.inputFormat)) {
+        console.error(`❌ Error: Invalid --input-format "${options.inputFormat}", expected ${INPUT_FORMATS.join(", ")}`);
+        process.exit(1);
+      }
 
-      if (!apiKey) {
-        console.error(
-          "❌ Error: API key required. Set GROK_API_KEY environment variable, use --api-key flag, or save to ~/.grok/user-settings.json"
-        );
+      const apiKeyError = getMissingApiKeyError(apiKey, model);
+      if (apiKeyError) {
+        console.error(apiKeyError);
         process.exit(1);
       }
 
@@ -364,14 +495,38 @@ program
         await saveCommandLineSettings(options.apiKey, options.baseUrl);
       }
 
-      // Headless mode: process prompt and exit
-      if (options.prompt) {
+      // Headless mode: process the prompt (and any piped input) and exit
+      const headlessOptions: HeadlessOptions = { usageFile: options.usageFile, budget, outputFormat: options.outputFormat };
+      let prompts: string[] | AsyncIterable<string> | null = null;
+      if (options.inputFormat === "stream-json") {
+        prompts = (async function* () {
+          if (options.prompt) {
+            yield options.prompt as string;
+          }
+          yield* readInputTurns();
+        })();
+      } else if (hasPipedStdin()) {
+        const positionalPrompt = Array.isArray(message) ? message.join(" ") : message;
+        const prompt = combinePromptWithInput(options.prompt || positionalPrompt, await readStdin());
+        if (!prompt.trim()) {
+          console.error("❌ Error: No prompt given on stdin or with --prompt");
+          process.exit(1);
+        }
+        prompts = [prompt];
+      } else if (options.prompt) {
+        prompts = [options.prompt];
+      }
+
+      if (prompts) {
         await processPromptHeadless(
-          options.prompt,
-          apiKey,
+          prompts,
+          apiKey || "",
           baseURL,
           model,
-          maxToolRounds
+          maxToolRounds,
+          resume,
+          options.model,
+          headlessOptions
         );
         return;
       }
@@ -382,7 +537,9 @@ program
         process.exit(1);
       }
 
-      const agent = new GrokAgent(apiKey, baseURL, model, maxToolRounds);
+      const agent = new GrokAgent(apiKey || "", baseURL, model, maxToolRounds);
+      restoreSession(agent, resume, options.model);
+      agent.setRunBudget(budget);
       console.log("🤖 Starting Grok CLI Conversational Assistant...\n");
 
       ensureUserSettingsDirectory();
@@ -432,7 +589,7 @@ gitCommand
   )
   .option(
     "-m, --model <model>",
-    "AI model to use (e.g., grok-code-fast-1, grok-4-latest) (or set GROK_MODEL env var)"
+    "AI model to use (e.g., grok-code-fast-1, anthropic/claude-sonnet-4-5, ollama/qwen2.5-coder) (or set GROK_MODEL env var)"
   )
   .option(
     "--max-tool-rounds <rounds>",
@@ -459,10 +616,9 @@ gitCommand
       const model = options.model || loadModel();
       const maxToolRounds = parseInt(options.maxToolRounds) || 400;
 
-      if (!apiKey) {
-        console.error(
-          "❌ Error: API key required. Set GROK_API_KEY environment variable, use --api-key flag, or save to ~/.grok/user-settings.json"
-        );
+      const apiKeyError = getMissingApiKeyError(apiKey, model);
+      if (apiKeyError) {
+        console.error(apiKeyError);
         process.exit(1);
       }
 
@@ -471,7 +627,7 @@ gitCommand
         await saveCommandLineSettings(options.apiKey, options.baseUrl);
       }
 
-      await handleCommitAndPushHeadless(apiKey, baseURL, model, maxToolRounds);
+      await handleCommitAndPushHeadless(apiKey || "", baseURL, model, maxToolRounds);
     } catch (error: any) {
       console.error("❌ Error during git commit-and-push:", error.message);
       process.exit(1);
@@ -481,4 +637,19 @@ gitCommand
 // MCP command
 program.addCommand(createMCPCommand());
 
+// Code index command
+program.addCommand(createIndexCommand());
+
+// Model providers command
+program.addCommand(createModelsCommand());
+
+// Usage and cost command
+program.addCommand(createCostCommand());
+
+// Mock API server for offline testing
+program.addCommand(createMockServerCommand());
+
+// Agent server for editor integrations
+program.addCommand(createServeCommand());
+
 program.parse();
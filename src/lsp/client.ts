@@ -0,0 +1,402 @@
+import { spawn, ChildProcess } from "child_process";
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import { pathToFileURL } from "url";
+import { LSPServerConfig, getLanguageId } from "./config.js";
+import {
+  Diagnostic,
+  Hover,
+  JsonRpcMessage,
+  Location,
+  LocationLink,
+  Position,
+  ServerCapabilities,
+  WorkspaceEdit,
+} from "./types.js";
+import { debugLog } from "../utils/debug.js";
+
+const REQUEST_TIMEOUT_MS = 30000;
+/** Language servers can take a while to load a large project */
+const INITIALIZE_TIMEOUT_MS = 60000;
+/** How long to wait for pushed diagnostics after opening or changing a document */
+const DIAGNOSTICS_WAIT_MS = 3000;
+const SHUTDOWN_GRACE_MS = 2000;
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface OpenDocument {
+  version: number;
+  content: string;
+}
+
+/**
+ * A single language server process spoken to over stdio with JSON-RPC
+ * (Content-Length framed messages)
+ */
+export class LSPClient extends EventEmitter {
+  readonly config: LSPServerConfig;
+  private rootPath: string;
+  private process: ChildProcess | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private nextId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private documents: Map<string, OpenDocument> = new Map(); // uri -> open document
+  private diagnostics: Map<string, Diagnostic[]> = new Map(); // uri -> latest diagnostics
+  private capabilities: ServerCapabilities = {};
+  private stderrTail = "";
+  private exited = false;
+
+  constructor(config: LSPServerConfig, rootPath: string) {
+    super();
+    this.config = config;
+    this.rootPath = rootPath;
+  }
+
+  /**
+   * Launch the server and perform the initialize handshake
+   */
+  async start(): Promise<void> {
+    const child = spawn(this.config.command, this.config.args || [], {
+      cwd: this.rootPath,
+      env: { ...process.env, ...this.config.env },
+      stdio: ["pipe", "pipe", "pipe"],
+      windowsHide: true,
+    });
+    this.process = child;
+
+    const spawned = new Promise<void>((resolve, reject) => {
+      child.once("spawn", () => resolve());
+      child.once("error", (error) => reject(error));
+    });
+
+    child.stdout?.on("data", (data: Buffer) => this.onData(data));
+    child.stderr?.on("data", (data: Buffer) => {
+      this.stderrTail = (this.stderrTail + data.toString()).slice(-2000);
+    });
+    child.on("error", (error) => this.onExit(error));
+    child.on("exit", (code, signal) => {
+      this.onExit(new Error(`Language server ${this.config.name} exited (${signal || `code ${code}`})${this.stderrTail ? `: ${this.stderrTail.trim()}` : ""}`));
+    });
+    // Writes to a server that died between requests must not crash the CLI
+    child.stdin?.on("error", (error) => debugLog(`LSP ${this.config.name} stdin error:`, error));
+
+    await spawned;
+
+    const rootUri = pathToFileURL(this.rootPath).href;
+    const result = await this.request("initialize", {
+      processId: process.pid,
+      clientInfo: { name: "grok-cli" },
+      rootPath: this.rootPath,
+      rootUri,
+      workspaceFolders: [{ uri: rootUri, name: this.rootPath.split(/[\\/]/).pop() || rootUri }],
+      initializationOptions: this.config.initializationOptions,
+      capabilities: {
+        textDocument: {
+          synchronization: { dynamicRegistration: false, didSave: false },
+          definition: { linkSupport: true },
+          references: {},
+          hover: { contentFormat: ["markdown", "plaintext"] },
+          rename: { prepareSupport: false },
+          publishDiagnostics: { relatedInformation: false },
+          diagnostic: { dynamicRegistration: false },
+        },
+        workspace: {
+          workspaceFolders: true,
+          configuration: true,
+          workspaceEdit: { documentChanges: true },
+        },
+      },
+    }, INITIALIZE_TIMEOUT_MS);
+
+    this.capabilities = result?.capabilities || {};
+    this.notify("initialized", {});
+    debugLog(`LSP ${this.config.name} initialized`);
+  }
+
+  isRunning(): boolean {
+    return this.process !== null && !this.exited;
+  }
+
+  getCapabilities(): ServerCapabilities {
+    return this.capabilities;
+  }
+
+  // ==================== Document Sync ====================
+
+  /**
+   * Make sure the server sees the current content of a file, opening it or
+   * sending the new text when it changed on disk
+   */
+  async syncDocument(filePath: string): Promise<string> {
+    const uri = pathToFileURL(filePath).href;
+    const content = await fs.promises.readFile(filePath, "utf-8");
+    const open = this.documents.get(uri);
+
+    if (!open) {
+      this.documents.set(uri, { version: 1, content });
+      this.diagnostics.delete(uri);
+      this.notify("textDocument/didOpen", {
+        textDocument: { uri, languageId: getLanguageId(filePath), version: 1, text: content },
+      });
+    } else if (open.content !== content) {
+      open.version++;
+      open.content = content;
+      this.diagnostics.delete(uri);
+      this.notify("textDocument/didChange", {
+        textDocument: { uri, version: open.version },
+        contentChanges: [{ text: content }],
+      });
+    }
+    return uri;
+  }
+
+  // ==================== Language Features ====================
+
+  async definition(filePath: string, position: Position): Promise<Location[]> {
+    const uri = await this.syncDocument(filePath);
+    const result = await this.request("textDocument/definition", { textDocument: { uri }, position });
+    return normalizeLocations(result);
+  }
+
+  async references(filePath: string, position: Position, includeDeclaration: boolean = true): Promise<Location[]> {
+    const uri = await this.syncDocument(filePath);
+    const result = await this.request("textDocument/references", {
+      textDocument: { uri },
+      position,
+      context: { includeDeclaration },
+    });
+    return normalizeLocations(result);
+  }
+
+  async hover(filePath: string, position: Position): Promise<Hover | null> {
+    const uri = await this.syncDocument(filePath);
+    return (await this.request("textDocument/hover", { textDocument: { uri }, position })) || null;
+  }
+
+  async rename(filePath: string, position: Position, newName: string): Promise<WorkspaceEdit | null> {
+    const uri = await this.syncDocument(filePath);
+    return (await this.request("textDocument/rename", { textDocument: { uri }, position, newName })) || null;
+  }
+
+  /**
+   * Diagnostics for a file, pulled when the server supports it and otherwise
+   * taken from the notifications the server pushes after a document changes
+   */
+  async getDiagnostics(filePath: string): Promise<Diagnostic[]> {
+    const uri = await this.syncDocument(filePath);
+
+    if (this.capabilities.diagnosticProvider) {
+      const report = await this.request("textDocument/diagnostic", { textDocument: { uri } });
+      if (report?.kind === "full" && Array.isArray(report.items)) {
+        return report.items;
+      }
+    }
+
+    if (!this.diagnostics.has(uri)) {
+      await this.waitForDiagnostics(uri);
+    }
+    return this.diagnostics.get(uri) || [];
+  }
+
+  private waitForDiagnostics(uri: string): Promise<void> {
+    return new Promise((resolve) => {
+      const finish = () => {
+        clearTimeout(timer);
+        this.off("diagnostics", onDiagnostics);
+        this.off("exit", finish);
+        resolve();
+      };
+      const onDiagnostics = (publishedUri: string) => {
+        if (publishedUri === uri) finish();
+      };
+      const timer = setTimeout(finish, DIAGNOSTICS_WAIT_MS);
+      this.on("diagnostics", onDiagnostics);
+      this.on("exit", finish);
+    });
+  }
+
+  // ==================== Lifecycle ====================
+
+  async shutdown(): Promise<void> {
+    if (!this.isRunning()) {
+      return;
+    }
+    try {
+      await this.request("shutdown", null, SHUTDOWN_GRACE_MS);
+      this.notify("exit", null);
+    } catch {
+      // Server is unresponsive; it is killed below
+    }
+    const child = this.process;
+    setTimeout(() => {
+      if (child && child.exitCode === null && child.signalCode === null) {
+        child.kill("SIGKILL");
+      }
+    }, SHUTDOWN_GRACE_MS).unref();
+  }
+
+  /**
+   * Kill the server immediately, e.g. when the CLI exits
+   */
+  kill(): void {
+    if (this.process && !this.exited) {
+      this.process.kill("SIGKILL");
+    }
+  }
+
+  // ==================== JSON-RPC ====================
+
+  request(method: string, params: unknown, timeoutMs: number = REQUEST_TIMEOUT_MS): Promise<any> {
+    if (this.exited || !this.process) {
+      return Promise.reject(new Error(`Language server ${this.config.name} is not running`));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Language server ${this.config.name} did not answer ${method} within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.pending.set(id, { method, resolve, reject, timer });
+      this.send({ jsonrpc: "2.0", id, method, params });
+    });
+  }
+
+  notify(method: string, params: unknown): void {
+    this.send({ jsonrpc: "2.0", method, params });
+  }
+
+  private send(message: JsonRpcMessage): void {
+    if (!this.process?.stdin || this.exited) {
+      return;
+    }
+    const body = JSON.stringify(message);
+    this.process.stdin.write(`Content-Length: ${Buffer.byteLength(body, "utf-8")}\r\n\r\n${body}`);
+  }
+
+  private onData(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    while (true) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd === -1) {
+        return;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString("ascii");
+      const match = header.match(/Content-Length:\s*(\d+)/i);
+      if (!match) {
+        // Not a valid header; drop it and resynchronize on the next one
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+      const length = parseInt(match[1], 10);
+      const bodyStart = headerEnd + 4;
+      if (this.buffer.length < bodyStart + length) {
+        return;
+      }
+      const body = this.buffer.subarray(bodyStart, bodyStart + length).toString("utf-8");
+      this.buffer = this.buffer.subarray(bodyStart + length);
+
+      try {
+        this.onMessage(JSON.parse(body));
+      } catch (error) {
+        debugLog(`LSP ${this.config.name} sent an invalid message:`, error);
+      }
+    }
+  }
+
+  private onMessage(message: JsonRpcMessage): void {
+    // Response to one of our requests
+    if (message.id !== undefined && message.id !== null && !message.method) {
+      const pending = this.pending.get(Number(message.id));
+      if (!pending) return;
+      this.pending.delete(Number(message.id));
+      clearTimeout(pending.timer);
+      if (message.error) {
+        pending.reject(new Error(`${pending.method} failed: ${message.error.message}`));
+      } else {
+        pending.resolve(message.result);
+      }
+      return;
+    }
+
+    // Request from the server
+    if (message.method && message.id !== undefined && message.id !== null) {
+      this.send({ jsonrpc: "2.0", id: message.id, ...this.handleServerRequest(message.method, message.params) });
+      return;
+    }
+
+    // Notification from the server
+    switch (message.method) {
+      case "textDocument/publishDiagnostics":
+        this.diagnostics.set(message.params.uri, message.params.diagnostics || []);
+        this.emit("diagnostics", message.params.uri);
+        break;
+      case "window/logMessage":
+      case "window/showMessage":
+        debugLog(`LSP ${this.config.name}: ${message.params?.message}`);
+        break;
+    }
+  }
+
+  private handleServerRequest(method: string, params: any): Pick<JsonRpcMessage, "result" | "error"> {
+    switch (method) {
+      case "workspace/configuration":
+        return {
+          result: (params?.items || []).map((item: { section?: string }) => this.getSettingsSection(item.section)),
+        };
+      case "workspace/workspaceFolders":
+        return { result: [{ uri: pathToFileURL(this.rootPath).href, name: this.rootPath }] };
+      case "client/registerCapability":
+      case "client/unregisterCapability":
+      case "window/workDoneProgress/create":
+        return { result: null };
+      case "workspace/applyEdit":
+        // Edits are applied by the tools after confirmation, never by the server
+        return { result: { applied: false, failureReason: "Edits must go through grok's confirmation flow" } };
+      default:
+        return { error: { code: -32601, message: `Unhandled method ${method}` } };
+    }
+  }
+
+  /**
+   * Settings for a dotted section such as `python.analysis`
+   */
+  private getSettingsSection(section?: string): unknown {
+    let value: unknown = this.config.settings ?? null;
+    for (const key of section ? section.split(".") : []) {
+      value = value && typeof value === "object" ? (value as Record<string, unknown>)[key] ?? null : null;
+    }
+    return value;
+  }
+
+  private onExit(error: Error): void {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+    this.emit("exit", error);
+  }
+}
+
+function normalizeLocations(result: Location | Location[] | LocationLink[] | null): Location[] {
+  if (!result) {
+    return [];
+  }
+  const items = Array.isArray(result) ? result : [result];
+  return items.map((item) =>
+    "targetUri" in item
+      ? { uri: item.targetUri, range: item.targetSelectionRange || item.targetRange }
+      : item
+  );
+}
@@ -0,0 +1,113 @@
+import * as path from "path";
+import { getSettingsManager } from "../utils/settings-manager.js";
+
+/**
+ * A language server launched over stdio
+ */
+export interface LSPServerConfig {
+  name: string;
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  /** File extensions (without the dot) this server handles */
+  extensions: string[];
+  /** Sent as `initializationOptions` in the initialize request */
+  initializationOptions?: unknown;
+  /** Returned for `workspace/configuration` requests, keyed by section */
+  settings?: Record<string, unknown>;
+}
+
+/**
+ * Entry in the `lspServers` settings: `true` enables a predefined server,
+ * an object overrides or extends it, and `false` / `enabled: false` turns a
+ * server off (e.g. a user-level server in one project)
+ */
+export type LSPServerSettings = boolean | (Partial<Omit<LSPServerConfig, "name">> & { enabled?: boolean });
+
+export const PREDEFINED_LSP_SERVERS: Record<string, Omit<LSPServerConfig, "name">> = {
+  typescript: {
+    command: "typescript-language-server",
+    args: ["--stdio"],
+    extensions: ["ts", "tsx", "js", "jsx", "mjs", "cjs", "mts", "cts"],
+  },
+  pyright: {
+    command: "pyright-langserver",
+    args: ["--stdio"],
+    extensions: ["py", "pyi"],
+  },
+  gopls: {
+    command: "gopls",
+    args: [],
+    extensions: ["go"],
+  },
+  "rust-analyzer": {
+    command: "rust-analyzer",
+    args: [],
+    extensions: ["rs"],
+  },
+};
+
+const LANGUAGE_IDS: Record<string, string> = {
+  ts: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  tsx: "typescriptreact",
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "javascriptreact",
+  py: "python",
+  pyi: "python",
+  go: "go",
+  rs: "rust",
+};
+
+/**
+ * Servers configured in ~/.grok/user-settings.json and .grok/settings.json
+ * (`lspServers`), with project entries taking precedence
+ */
+export function loadLSPConfig(): LSPServerConfig[] {
+  const manager = getSettingsManager();
+  const entries: Record<string, LSPServerSettings> = {
+    ...(manager.loadUserSettings().lspServers || {}),
+    ...(manager.loadProjectSettings().lspServers || {}),
+  };
+
+  const servers: LSPServerConfig[] = [];
+  for (const [name, entry] of Object.entries(entries)) {
+    const config = resolveServerConfig(name, entry);
+    if (config) {
+      servers.push(config);
+    }
+  }
+  return servers;
+}
+
+function resolveServerConfig(name: string, entry: LSPServerSettings): LSPServerConfig | null {
+  if (entry === false || (typeof entry === "object" && entry.enabled === false)) {
+    return null;
+  }
+
+  const preset = PREDEFINED_LSP_SERVERS[name];
+  const overrides = typeof entry === "object" ? entry : {};
+  const command = overrides.command || preset?.command;
+  const extensions = overrides.extensions || preset?.extensions;
+  if (!command || !extensions || extensions.length === 0) {
+    return null;
+  }
+
+  return {
+    name,
+    command,
+    args: overrides.args || preset?.args || [],
+    env: overrides.env,
+    extensions: extensions.map((ext) => ext.replace(/^\./, "").toLowerCase()),
+    initializationOptions: overrides.initializationOptions ?? preset?.initializationOptions,
+    settings: overrides.settings ?? preset?.settings,
+  };
+}
+
+export function getLanguageId(filePath: string): string {
+  const ext = path.extname(filePath).slice(1).toLowerCase();
+  return LANGUAGE_IDS[ext] || ext;
+}
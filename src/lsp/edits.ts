@@ -0,0 +1,59 @@
+import { fileURLToPath } from "url";
+import { Position, TextEdit, WorkspaceEdit } from "./types.js";
+
+/**
+ * Group the text edits of a WorkspaceEdit by absolute file path. Resource
+ * operations (create/rename/delete) are not supported and are rejected.
+ */
+export function collectTextEdits(edit: WorkspaceEdit): Map<string, TextEdit[]> {
+  const byFile = new Map<string, TextEdit[]>();
+  const add = (uri: string, edits: TextEdit[]) => {
+    const filePath = fileURLToPath(uri);
+    byFile.set(filePath, [...(byFile.get(filePath) || []), ...edits]);
+  };
+
+  if (edit.documentChanges) {
+    for (const change of edit.documentChanges) {
+      if ("kind" in change) {
+        throw new Error(`Unsupported workspace edit: ${change.kind} file`);
+      }
+      add(change.textDocument.uri, change.edits);
+    }
+  } else if (edit.changes) {
+    for (const [uri, edits] of Object.entries(edit.changes)) {
+      add(uri, edits);
+    }
+  }
+
+  return byFile;
+}
+
+/**
+ * Apply LSP text edits to a document. Edits refer to the original text, so
+ * they are applied from the end of the document backwards.
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): string {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+  const toOffset = (position: Position) => {
+    if (position.line >= lineStarts.length) {
+      return content.length;
+    }
+    const lineEnd = position.line + 1 < lineStarts.length ? lineStarts[position.line + 1] - 1 : content.length;
+    return Math.min(lineStarts[position.line] + position.character, lineEnd);
+  };
+
+  const sorted = edits
+    .map((edit) => ({ start: toOffset(edit.range.start), end: toOffset(edit.range.end), text: edit.newText }))
+    .sort((a, b) => b.start - a.start || b.end - a.end);
+
+  let result = content;
+  for (const edit of sorted) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
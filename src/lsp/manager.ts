@@ -0,0 +1,150 @@
+import * as path from "path";
+import { LSPClient } from "./client.js";
+import { LSPServerConfig, loadLSPConfig } from "./config.js";
+import { debugLog } from "../utils/debug.js";
+
+export interface LSPServerStatus {
+  name: string;
+  command: string;
+  extensions: string[];
+  state: "stopped" | "starting" | "running" | "failed";
+  error?: string;
+}
+
+/** Every manager, so language servers can be killed when the CLI exits */
+const managers = new Set<LSPManager>();
+let exitHookInstalled = false;
+
+/**
+ * Starts configured language servers on first use, one per server, and routes
+ * files to the server registered for their extension
+ */
+export class LSPManager {
+  private rootPath: string;
+  private configs: LSPServerConfig[] | null;
+  private clients: Map<string, Promise<LSPClient>> = new Map();
+  private running: Map<string, LSPClient> = new Map();
+  private failures: Map<string, string> = new Map();
+
+  /**
+   * @param configs - Servers to use; loaded from settings on first use when omitted
+   */
+  constructor(rootPath: string = process.cwd(), configs?: LSPServerConfig[]) {
+    this.rootPath = path.resolve(rootPath);
+    this.configs = configs || null;
+
+    managers.add(this);
+    if (!exitHookInstalled) {
+      exitHookInstalled = true;
+      process.once("exit", () => {
+        for (const manager of managers) {
+          manager.killAll();
+        }
+      });
+    }
+  }
+
+  getServerConfigs(): LSPServerConfig[] {
+    if (!this.configs) {
+      try {
+        this.configs = loadLSPConfig();
+      } catch (error) {
+        debugLog("Failed to load LSP configuration:", error);
+        this.configs = [];
+      }
+    }
+    return this.configs;
+  }
+
+  /**
+   * Server configured for a file's extension, if any
+   */
+  getConfigForFile(filePath: string): LSPServerConfig | undefined {
+    const ext = path.extname(filePath).slice(1).toLowerCase();
+    return this.getServerConfigs().find((config) => config.extensions.includes(ext));
+  }
+
+  /**
+   * Running client for a file, starting its server if needed. Returns null
+   * when no server is configured for the file; throws when the server could
+   * not be started.
+   */
+  async getClientForFile(filePath: string): Promise<LSPClient | null> {
+    const config = this.getConfigForFile(filePath);
+    if (!config) {
+      return null;
+    }
+
+    const failure = this.failures.get(config.name);
+    if (failure) {
+      throw new Error(failure);
+    }
+
+    let client = this.clients.get(config.name);
+    if (!client) {
+      client = this.startServer(config);
+      this.clients.set(config.name, client);
+    }
+    return await client;
+  }
+
+  getStatus(): LSPServerStatus[] {
+    return this.getServerConfigs().map((config) => {
+      const failure = this.failures.get(config.name);
+      const client = this.running.get(config.name);
+      let state: LSPServerStatus["state"] = "stopped";
+      if (failure) {
+        state = "failed";
+      } else if (client?.isRunning()) {
+        state = "running";
+      } else if (this.clients.has(config.name) && !client) {
+        state = "starting";
+      }
+      return {
+        name: config.name,
+        command: [config.command, ...(config.args || [])].join(" "),
+        extensions: config.extensions,
+        state,
+        error: failure,
+      };
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    const clients = Array.from(this.running.values());
+    this.clients.clear();
+    this.running.clear();
+    await Promise.all(clients.map((client) => client.shutdown()));
+  }
+
+  killAll(): void {
+    for (const client of this.running.values()) {
+      client.kill();
+    }
+  }
+
+  private async startServer(config: LSPServerConfig): Promise<LSPClient> {
+    const client = new LSPClient(config, this.rootPath);
+    try {
+      await client.start();
+    } catch (error) {
+      client.kill();
+      const reason = (error as NodeJS.ErrnoException).code === "ENOENT"
+        ? `'${config.command}' not found on PATH`
+        : error instanceof Error ? error.message : String(error);
+      const message = `Language server ${config.name} failed to start: ${reason}`;
+      this.failures.set(config.name, message);
+      this.clients.delete(config.name);
+      throw new Error(message);
+    }
+
+    this.running.set(config.name, client);
+    client.once("exit", (error: Error) => {
+      // Restarted on the next request
+      debugLog(error.message);
+      this.running.delete(config.name);
+      this.clients.delete(config.name);
+    });
+    return client;
+  }
+}
@@ -0,0 +1,82 @@
+// ==================== LSP Protocol Types ====================
+// The subset of the Language Server Protocol used by the client and tools.
+// Positions are zero-based, as on the wire.
+
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export interface LocationLink {
+  originSelectionRange?: Range;
+  targetUri: string;
+  targetRange: Range;
+  targetSelectionRange: Range;
+}
+
+export type DiagnosticSeverity = 1 | 2 | 3 | 4; // Error, Warning, Information, Hint
+
+export interface Diagnostic {
+  range: Range;
+  severity?: DiagnosticSeverity;
+  code?: string | number;
+  source?: string;
+  message: string;
+}
+
+export interface MarkupContent {
+  kind: "plaintext" | "markdown";
+  value: string;
+}
+
+export type MarkedString = string | { language: string; value: string };
+
+export interface Hover {
+  contents: MarkupContent | MarkedString | MarkedString[];
+  range?: Range;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+export interface TextDocumentEdit {
+  textDocument: { uri: string; version: number | null };
+  edits: TextEdit[];
+}
+
+export interface WorkspaceEdit {
+  changes?: Record<string, TextEdit[]>;
+  documentChanges?: Array<TextDocumentEdit | { kind: "create" | "rename" | "delete" }>;
+}
+
+export interface ServerCapabilities {
+  definitionProvider?: unknown;
+  referencesProvider?: unknown;
+  hoverProvider?: unknown;
+  renameProvider?: unknown;
+  diagnosticProvider?: unknown;
+  [key: string]: unknown;
+}
+
+// ==================== JSON-RPC ====================
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
@@ -0,0 +1,99 @@
+/**
+ * Tests for expanding `@server:resource` references in user messages and
+ * turning MCP prompts into message text
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPManager, MCPPrompt, MCPResource } from '../client.js';
+import { expandResourceReferences, formatPromptMessages, parsePromptArguments } from '../content.js';
+
+const RESOURCES: Record<string, ReadResourceResult> = {
+  'docs://guide': { contents: [{ uri: 'docs://guide', mimeType: 'text/markdown', text: '# Guide' }] },
+  'docs://logo': { contents: [{ uri: 'docs://logo', mimeType: 'image/png', blob: Buffer.from('png!').toString('base64') }] },
+};
+
+/** Connected `docs` server whose reads are recorded */
+function createManager() {
+  const reads: string[] = [];
+  const listed: MCPResource[] = [{ uri: 'docs://guide', name: 'guide', serverName: 'docs' }];
+  const manager = {
+    getServers: () => ['docs'],
+    getResources: () => listed,
+    readResource: async (serverName: string, uri: string) => {
+      reads.push(`${serverName} ${uri}`);
+      if (!RESOURCES[uri]) {
+        throw new Error(`Resource not found: ${uri}`);
+      }
+      return RESOURCES[uri];
+    },
+  } as unknown as MCPManager;
+  return { manager, reads };
+}
+
+describe('expandResourceReferences', () => {
+  it('should append the contents of referenced resources by URI or name', async () => {
+    const { manager, reads } = createManager();
+
+    const expanded = await expandResourceReferences('Follow @docs:guide and show @docs:docs://logo.', manager);
+
+    expect(reads).toEqual(['docs docs://guide', 'docs docs://logo']);
+    expect(expanded).toBe([
+      'Follow @docs:guide and show @docs:docs://logo.',
+      '<mcp-resource server="docs" uri="docs://guide" mimeType="text/markdown">\n# Guide\n</mcp-resource>',
+      '<mcp-resource server="docs" uri="docs://logo" mimeType="image/png">\n[binary content, 4 bytes]\n</mcp-resource>',
+    ].join('\n\n'));
+  });
+
+  it('should read a resource once however often it is referenced', async () => {
+    const { manager, reads } = createManager();
+
+    await expandResourceReferences('@docs:guide, then @docs:docs://guide again', manager);
+
+    expect(reads).toEqual(['docs docs://guide']);
+  });
+
+  it('should leave references to unknown servers and email addresses alone', async () => {
+    const { manager, reads } = createManager();
+    const message = 'Ask @other:guide or mail team@docs:guide';
+
+    expect(await expandResourceReferences(message, manager)).toBe(message);
+    expect(reads).toEqual([]);
+  });
+
+  it('should note resources that cannot be read', async () => {
+    const { manager } = createManager();
+
+    const expanded = await expandResourceReferences('See @docs:docs://missing', manager);
+
+    expect(expanded).toBe('See @docs:docs://missing\n\n<mcp-resource server="docs" uri="docs://missing" error="Resource not found: docs://missing" />');
+  });
+});
+
+describe('MCP prompts', () => {
+  const prompt: MCPPrompt = {
+    name: 'summarize',
+    serverName: 'docs',
+    arguments: [{ name: 'topic', required: true }, { name: 'notes' }],
+  };
+
+  it('should map words to arguments and give the last argument the rest of the text', () => {
+    expect(parsePromptArguments(prompt, '"release process" keep it short')).toEqual({
+      topic: 'release process',
+      notes: 'keep it short',
+    });
+    expect(() => parsePromptArguments(prompt, '')).toThrow('Missing argument topic. Usage: /mcp__docs__summarize <topic> [notes]');
+  });
+
+  it('should join the prompt messages into one message', () => {
+    const text = formatPromptMessages('docs', {
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Summarize this:' } },
+        { role: 'user', content: { type: 'resource', resource: { uri: 'docs://guide', text: '# Guide' } } },
+        { role: 'user', content: { type: 'resource_link', uri: 'docs://logo', name: 'logo' } },
+      ],
+    });
+
+    expect(text).toBe('Summarize this:\n\n<mcp-resource server="docs" uri="docs://guide">\n# Guide\n</mcp-resource>\n\n@docs:docs://logo');
+  });
+});
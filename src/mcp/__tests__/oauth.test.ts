@@ -0,0 +1,65 @@
+/**
+ * Tests for the OAuth callback server: only the redirect carrying the state
+ * of the pending authorization request may complete the sign-in
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import * as net from 'net';
+import { startCallbackServer } from '../oauth.js';
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+describe('OAuth callback server', () => {
+  let close: (() => void) | undefined;
+
+  afterEach(() => {
+    close?.();
+    close = undefined;
+  });
+
+  async function start(state: string | undefined) {
+    const port = await freePort();
+    const callback = await startCallbackServer(port, () => state);
+    close = callback.close;
+    const request = (query: string) => fetch(`http://127.0.0.1:${port}/callback?${query}`);
+    return { callback, request };
+  }
+
+  it('should ignore callbacks with the wrong state and wait for the matching one', async () => {
+    const { callback, request } = await start('expected-state');
+    const code = callback.waitForCode();
+
+    const forged = await request('code=forged-code&state=other-state');
+    const forgedError = await request('error=access_denied&state=other-state');
+    const missing = await request('code=forged-code');
+    expect([forged.status, forgedError.status, missing.status]).toEqual([400, 400, 400]);
+
+    const matching = await request('code=real-code&state=expected-state');
+    expect(matching.status).toBe(200);
+    await expect(code).resolves.toBe('real-code');
+  });
+
+  it('should reject callbacks before an authorization request has a state', async () => {
+    const { request } = await start(undefined);
+
+    const response = await request('code=early-code&state=');
+    expect(response.status).toBe(400);
+  });
+
+  it('should report an authorization error carrying the matching state', async () => {
+    const { callback, request } = await start('expected-state');
+
+    const response = await request('error=access_denied&error_description=User%20declined&state=expected-state');
+    expect(response.status).toBe(200);
+    await expect(callback.waitForCode()).rejects.toThrow('Authorization failed: User declined');
+  });
+});
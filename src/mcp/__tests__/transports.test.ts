@@ -0,0 +1,108 @@
+/**
+ * Tests for the remote MCP transports against in-process SDK servers:
+ * Streamable HTTP with a session, and legacy HTTP+SSE
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { MCPManager } from '../client.js';
+
+const HEADERS = { Authorization: 'Bearer test-token' };
+
+function createServer(): McpServer {
+  const server = new McpServer({ name: 'echo-server', version: '1.2.3' });
+  server.tool('ping', 'Answer with pong', async () => ({ content: [{ type: 'text', text: 'pong' }] }));
+  return server;
+}
+
+describe('MCP HTTP transports', () => {
+  let httpServer: http.Server;
+  let baseURL: string;
+  let manager: MCPManager;
+  /** Authorization header of every request the server received */
+  const authorizations: Array<string | undefined> = [];
+  const closedSessions: string[] = [];
+
+  beforeAll(async () => {
+    const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+    const sseSessions = new Map<string, SSEServerTransport>();
+
+    httpServer = http.createServer(async (req, res) => {
+      authorizations.push(req.headers.authorization);
+      const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+      if (url.pathname === '/mcp') {
+        const sessionId = req.headers['mcp-session-id'];
+        let transport = typeof sessionId === 'string' ? streamableSessions.get(sessionId) : undefined;
+        if (!transport) {
+          const created: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (id) => void streamableSessions.set(id, created),
+            onsessionclosed: (id) => void closedSessions.push(id),
+          });
+          await createServer().connect(created);
+          transport = created;
+        }
+        await transport.handleRequest(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        const transport = new SSEServerTransport('/messages', res);
+        sseSessions.set(transport.sessionId, transport);
+        await createServer().connect(transport);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await sseSessions.get(url.searchParams.get('sessionId') || '')?.handlePostMessage(req, res);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await manager?.shutdown();
+  });
+
+  afterAll(async () => {
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should complete the handshake over Streamable HTTP and end the session on disconnect', async () => {
+    manager = new MCPManager();
+    await manager.addServer({ name: 'remote', transport: { type: 'http', url: `${baseURL}/mcp`, headers: HEADERS } });
+
+    const info = manager.getServerInfo('remote');
+    expect(info).toMatchObject({ name: 'echo-server', version: '1.2.3', transport: 'http' });
+    expect(info?.sessionId).toBeTruthy();
+    expect(manager.getTools().map((tool) => tool.name)).toEqual(['mcp__remote__ping']);
+    expect((await manager.callTool('mcp__remote__ping', {})).content).toEqual([{ type: 'text', text: 'pong' }]);
+
+    await manager.removeServer('remote');
+
+    expect(closedSessions).toContain(info?.sessionId);
+    expect(authorizations.every((header) => header === HEADERS.Authorization)).toBe(true);
+  });
+
+  it('should complete the handshake over legacy SSE', async () => {
+    manager = new MCPManager();
+    await manager.addServer({ name: 'legacy', transport: { type: 'sse', url: `${baseURL}/sse`, headers: HEADERS } });
+
+    expect(manager.getServerInfo('legacy')).toMatchObject({ name: 'echo-server', transport: 'sse' });
+    expect((await manager.callTool('mcp__legacy__ping', {})).content).toEqual([{ type: 'text', text: 'pong' }]);
+  });
+
+  it('should fail and mark the server failed when the endpoint is not an MCP server', async () => {
+    manager = new MCPManager();
+
+    await expect(manager.addServer({ name: 'missing', transport: { type: 'http', url: `${baseURL}/missing`, headers: HEADERS } }))
+      .rejects.toThrow();
+
+    expect(manager.getServerStatus('missing')?.state).toBe('failed');
+    expect(manager.getServers()).not.toContain('missing');
+  });
+});
@@ -1,6 +1,20 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  CallToolResult,
+  GetPromptResult,
+  PromptListChangedNotificationSchema,
+  ReadResourceResult,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  ServerCapabilities,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { EventEmitter } from "events";
+import { auth } from "@modelcontextprotocol/sdk/client/auth.js";
+import { MCPAuthorizationRequiredError } from "../types/errors.js";
+import { debugLog } from "../utils/debug.js";
+import { MCPOAuthProvider } from "./oauth.js";
+import { resolveTransportConfig } from "./secrets.js";
 import { createTransport, MCPTransport, TransportType, TransportConfig } from "./transports.js";
 
 export interface MCPServerConfig {
@@ -10,6 +24,8 @@ export interface MCPServerConfig {
   command?: string;
   args?: string[];
   env?: Record<string, string>;
+  /** Kept in the configuration but not started */
+  disabled?: boolean;
 }
 
 export interface MCPTool {
@@ -19,97 +35,519 @@ export interface MCPTool {
   serverName: string;
 }
 
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  serverName: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments: MCPPromptArgument[];
+  serverName: string;
+}
+
+export interface MCPServerInfo {
+  name: string;
+  version: string;
+  transport: TransportType;
+  capabilities: ServerCapabilities;
+  instructions?: string;
+  /** Session id assigned by an HTTP server */
+  sessionId?: string;
+}
+
+/**
+ * - connecting: starting the server or running the handshake
+ * - ready: connected and answering pings
+ * - degraded: connected, but recent pings failed
+ * - failed: not connected; restarted automatically until the attempts run out
+ * - disabled: turned off by the user
+ */
+export type MCPServerState = 'connecting' | 'ready' | 'degraded' | 'failed' | 'disabled';
+
+export interface MCPServerStatus {
+  name: string;
+  state: MCPServerState;
+  transport: TransportType;
+  lastError?: string;
+  /** Last lines a stdio server wrote to stderr */
+  stderrTail: string[];
+  /** Automatic restarts since the server was added */
+  restarts: number;
+  nextRestartAt?: Date;
+  connectedAt?: Date;
+  lastPingAt?: Date;
+}
+
+interface ServerEntry {
+  config: MCPServerConfig;
+  status: MCPServerStatus;
+  /** Failed connection attempts in a row */
+  failedAttempts: number;
+  failedPings: number;
+  restartTimer?: NodeJS.Timeout;
+  /** Set while we close the connection ourselves, so it is not taken for a crash */
+  closing: boolean;
+}
+
+const HEALTH_CHECK_INTERVAL = 30000;
+const PING_TIMEOUT = 10000;
+/** Failed pings in a row before a degraded server is restarted */
+const MAX_FAILED_PINGS = 3;
+const RESTART_BASE_DELAY = 1000;
+const RESTART_MAX_DELAY = 60000;
+/** Failed attempts in a row before automatic restarts give up */
+const MAX_RESTART_ATTEMPTS = 5;
+const STDERR_TAIL_LINES = 20;
+
+function getTransportConfig(config: MCPServerConfig): TransportConfig | undefined {
+  // Handle legacy stdio-only configuration
+  if (!config.transport && config.command) {
+    return {
+      type: 'stdio',
+      command: config.command,
+      args: config.args,
+      env: config.env
+    };
+  }
+  return config.transport;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Connections to the configured MCP servers. Each server moves through the
+ * `MCPServerState`s: it is pinged periodically, restarted with backoff when
+ * it crashes or stops answering, and its tools, resources and prompts are
+ * listed again when it announces changes. State changes are emitted as
+ * `statusChanged`.
+ */
 export class MCPManager extends EventEmitter {
   private clients: Map<string, Client> = new Map();
   private transports: Map<string, MCPTransport> = new Map();
   private tools: Map<string, MCPTool> = new Map();
+  private resources: Map<string, MCPResource[]> = new Map();
+  private prompts: Map<string, MCPPrompt[]> = new Map();
+  /** `server uri` keys of resources subscribed to for updates */
+  private subscriptions: Set<string> = new Set();
+  private servers: Map<string, ServerEntry> = new Map();
+  private healthCheckTimer?: NodeJS.Timeout;
+  private initialization?: Promise<void>;
 
+  /**
+   * Connect to a server. On failure the error is thrown, the server is
+   * marked failed and restarted in the background, unless the user has to
+   * sign in first.
+   */
   async addServer(config: MCPServerConfig): Promise<void> {
-    try {
-      // Handle legacy stdio-only configuration
-      let transportConfig = config.transport;
-      if (!transportConfig && config.command) {
-        transportConfig = {
-          type: 'stdio',
-          command: config.command,
-          args: config.args,
-          env: config.env
-        };
-      }
-
-      if (!transportConfig) {
-        throw new Error('Transport configuration is required');
-      }
-
-      // Create transport
-      const transport = createTransport(transportConfig);
-      this.transports.set(config.name, transport);
-
-      // Create client
-      const client = new Client(
-        {
-          name: "grok-cli",
-          version: "1.0.0"
-        },
-        {
-          capabilities: {
-            tools: {}
-          }
-        }
-      );
-
-      this.clients.set(config.name, client);
-
-      // Connect
-      const sdkTransport = await transport.connect();
-      await client.connect(sdkTransport);
-
-      // List available tools
-      const toolsResult = await client.listTools();
-      
-      // Register tools
-      for (const tool of toolsResult.tools) {
-        const mcpTool: MCPTool = {
-          name: `mcp__${config.name}__${tool.name}`,
-          description: tool.description || `Tool from ${config.name} server`,
-          inputSchema: tool.inputSchema,
-          serverName: config.name
-        };
-        this.tools.set(mcpTool.name, mcpTool);
-      }
+    const entry = this.getEntry(config);
+    this.clearRestart(entry);
+    this.setState(entry, 'connecting');
 
-      this.emit('serverAdded', config.name, toolsResult.tools.length);
+    try {
+      await this.connect(entry);
+      entry.failedAttempts = 0;
+      entry.failedPings = 0;
+      entry.status.lastError = undefined;
+      entry.status.connectedAt = new Date();
+      this.setState(entry, 'ready');
+      this.startHealthChecks();
+      this.emit('serverAdded', config.name, this.getTools().filter(tool => tool.serverName === config.name).length);
     } catch (error) {
+      // A server that failed the handshake is not listed as connected
+      await this.teardown(entry);
+      entry.failedAttempts++;
+      entry.status.lastError = errorMessage(error);
+      this.setState(entry, 'failed');
+      if (!(error instanceof MCPAuthorizationRequiredError)) {
+        this.scheduleRestart(entry);
+      }
       this.emit('serverError', config.name, error);
       throw error;
     }
   }
 
-  async removeServer(serverName: string): Promise<void> {
-    // Remove tools
+  private getEntry(config: MCPServerConfig): ServerEntry {
+    const existing = this.servers.get(config.name);
+    if (existing) {
+      existing.config = config;
+      return existing;
+    }
+
+    const entry: ServerEntry = {
+      config,
+      status: {
+        name: config.name,
+        state: 'connecting',
+        transport: getTransportConfig(config)?.type || 'stdio',
+        stderrTail: [],
+        restarts: 0,
+      },
+      failedAttempts: 0,
+      failedPings: 0,
+      closing: false,
+    };
+    this.servers.set(config.name, entry);
+    return entry;
+  }
+
+  private async connect(entry: ServerEntry): Promise<void> {
+    const name = entry.config.name;
+    const transportConfig = getTransportConfig(entry.config);
+    if (!transportConfig) {
+      throw new Error('Transport configuration is required');
+    }
+
+    // `${env:...}` and `${secret:...}` references are resolved on every connect
+    const resolved = resolveTransportConfig(name, transportConfig);
+
+    // Remote servers sign requests with OAuth, unless the configuration
+    // sends its own Authorization header
+    let authProvider: MCPOAuthProvider | undefined;
+    const hasAuthorizationHeader = Object.keys(resolved.headers || {}).some((key) => key.toLowerCase() === 'authorization');
+    if (resolved.type !== 'stdio' && resolved.url && !hasAuthorizationHeader) {
+      authProvider = new MCPOAuthProvider(name, resolved.url, resolved.oauth);
+      if (authProvider.needsRefresh()) {
+        await auth(authProvider, { serverUrl: resolved.url });
+      }
+    }
+
+    // Create transport
+    const transport = createTransport(resolved, { authProvider });
+    this.transports.set(name, transport);
+
+    // Create client
+    const client = new Client(
+      {
+        name: "grok-cli",
+        version: "1.0.0"
+      },
+      {
+        capabilities: {
+          tools: {}
+        }
+      }
+    );
+
+    this.clients.set(name, client);
+
+    // Connect
+    const sdkTransport = await transport.connect();
+    transport.getStderr?.()?.on('data', (chunk: Buffer) => this.appendStderr(entry, chunk.toString()));
+    await client.connect(sdkTransport);
+    client.onclose = () => this.handleClose(entry, client);
+
+    // Servers only offer what their capabilities declare
+    const capabilities = client.getServerCapabilities();
+    if (!capabilities || capabilities.tools) {
+      await this.refreshTools(name, client);
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () => this.refreshList(entry, 'tools'));
+    }
+    if (capabilities?.resources) {
+      await this.refreshResources(name, client);
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => this.refreshList(entry, 'resources'));
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+        this.emit('resourceUpdated', name, notification.params.uri);
+      });
+    }
+    if (capabilities?.prompts) {
+      await this.refreshPrompts(name, client);
+      client.setNotificationHandler(PromptListChangedNotificationSchema, () => this.refreshList(entry, 'prompts'));
+    }
+  }
+
+  /**
+   * Close the connection and forget what the server offered
+   */
+  private async teardown(entry: ServerEntry): Promise<void> {
+    const serverName = entry.config.name;
+    entry.closing = true;
+    entry.status.connectedAt = undefined;
+    try {
+      // Remove tools
+      for (const [toolName, tool] of this.tools.entries()) {
+        if (tool.serverName === serverName) {
+          this.tools.delete(toolName);
+        }
+      }
+      this.resources.delete(serverName);
+      this.prompts.delete(serverName);
+      for (const key of this.subscriptions) {
+        if (key.startsWith(`${serverName} `)) {
+          this.subscriptions.delete(key);
+        }
+      }
+
+      // Close transport first, so an HTTP session can still be terminated
+      const transport = this.transports.get(serverName);
+      if (transport) {
+        this.transports.delete(serverName);
+        await transport.disconnect().catch((error) => debugLog(`Failed to close MCP transport ${serverName}:`, error));
+      }
+
+      // Disconnect client
+      const client = this.clients.get(serverName);
+      if (client) {
+        this.clients.delete(serverName);
+        await client.close().catch(() => undefined);
+      }
+    } finally {
+      entry.closing = false;
+    }
+  }
+
+  /**
+   * The connection closed without us closing it: the process exited or the
+   * stream broke
+   */
+  private handleClose(entry: ServerEntry, client: Client): void {
+    if (entry.closing || this.clients.get(entry.config.name) !== client) {
+      return;
+    }
+    void this.teardown(entry).then(() => {
+      entry.failedAttempts++;
+      entry.status.lastError = 'Connection closed by the server';
+      this.setState(entry, 'failed');
+      this.scheduleRestart(entry);
+    });
+  }
+
+  private scheduleRestart(entry: ServerEntry): void {
+    if (entry.failedAttempts > MAX_RESTART_ATTEMPTS || !this.servers.has(entry.config.name)) {
+      return;
+    }
+
+    const delay = Math.min(RESTART_BASE_DELAY * 2 ** (entry.failedAttempts - 1), RESTART_MAX_DELAY);
+    entry.status.nextRestartAt = new Date(Date.now() + delay);
+    entry.restartTimer = setTimeout(() => {
+      entry.restartTimer = undefined;
+      entry.status.nextRestartAt = undefined;
+      entry.status.restarts++;
+      this.addServer(entry.config).catch((error) => debugLog(`MCP server ${entry.config.name} restart failed:`, error));
+    }, delay);
+    // Pending restarts should not keep a finished command running
+    entry.restartTimer.unref();
+    this.emitStatus(entry);
+  }
+
+  private clearRestart(entry: ServerEntry): void {
+    if (entry.restartTimer) {
+      clearTimeout(entry.restartTimer);
+      entry.restartTimer = undefined;
+    }
+    entry.status.nextRestartAt = undefined;
+  }
+
+  private setState(entry: ServerEntry, state: MCPServerState): void {
+    entry.status.state = state;
+    this.emitStatus(entry);
+  }
+
+  private emitStatus(entry: ServerEntry): void {
+    this.emit('statusChanged', this.getServerStatus(entry.config.name));
+  }
+
+  private appendStderr(entry: ServerEntry, text: string): void {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    entry.status.stderrTail = [...entry.status.stderrTail, ...lines].slice(-STDERR_TAIL_LINES);
+  }
+
+  private startHealthChecks(): void {
+    if (this.healthCheckTimer) {
+      return;
+    }
+    this.healthCheckTimer = setInterval(() => void this.checkHealth(), HEALTH_CHECK_INTERVAL);
+    this.healthCheckTimer.unref();
+  }
+
+  /**
+   * Ping every connected server. A server that misses a ping is degraded,
+   * and restarted after missing several in a row.
+   */
+  async checkHealth(): Promise<void> {
+    await Promise.all(Array.from(this.servers.values()).map(async (entry) => {
+      const client = this.clients.get(entry.config.name);
+      if (!client || (entry.status.state !== 'ready' && entry.status.state !== 'degraded')) {
+        return;
+      }
+
+      try {
+        await client.ping({ timeout: PING_TIMEOUT });
+        entry.failedPings = 0;
+        entry.status.lastPingAt = new Date();
+        if (entry.status.state === 'degraded') {
+          this.setState(entry, 'ready');
+        }
+      } catch (error) {
+        entry.failedPings++;
+        entry.status.lastError = `Ping failed: ${errorMessage(error)}`;
+        if (entry.failedPings < MAX_FAILED_PINGS) {
+          this.setState(entry, 'degraded');
+          return;
+        }
+        await this.teardown(entry);
+        entry.failedAttempts++;
+        this.setState(entry, 'failed');
+        this.scheduleRestart(entry);
+      }
+    }));
+  }
+
+  /**
+   * List tools, resources or prompts again after the server announced a change
+   */
+  private refreshList(entry: ServerEntry, list: 'tools' | 'resources' | 'prompts'): void {
+    const name = entry.config.name;
+    const client = this.clients.get(name);
+    if (!client) {
+      return;
+    }
+    const refresh = list === 'tools'
+      ? this.refreshTools(name, client)
+      : list === 'resources' ? this.refreshResources(name, client) : this.refreshPrompts(name, client);
+    refresh
+      .then(() => this.emitStatus(entry))
+      .catch((error) => debugLog(`Failed to refresh ${list} of MCP server ${name}:`, error));
+  }
+
+  private async refreshTools(serverName: string, client: Client): Promise<void> {
+    const tools: MCPTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await client.listTools(cursor ? { cursor } : undefined);
+      for (const tool of result.tools) {
+        tools.push({
+          name: `mcp__${serverName}__${tool.name}`,
+          description: tool.description || `Tool from ${serverName} server`,
+          inputSchema: tool.inputSchema,
+          serverName
+        });
+      }
+      cursor = result.nextCursor;
+    } while (cursor);
+
     for (const [toolName, tool] of this.tools.entries()) {
       if (tool.serverName === serverName) {
         this.tools.delete(toolName);
       }
     }
-
-    // Disconnect client
-    const client = this.clients.get(serverName);
-    if (client) {
-      await client.close();
-      this.clients.delete(serverName);
+    for (const tool of tools) {
+      this.tools.set(tool.name, tool);
     }
+  }
 
-    // Close transport
-    const transport = this.transports.get(serverName);
-    if (transport) {
-      await transport.disconnect();
-      this.transports.delete(serverName);
+  private async refreshResources(serverName: string, client: Client): Promise<void> {
+    const resources: MCPResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await client.listResources(cursor ? { cursor } : undefined);
+      for (const resource of result.resources) {
+        resources.push({
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+          serverName,
+        });
+      }
+      cursor = result.nextCursor;
+    } while (cursor);
+    this.resources.set(serverName, resources);
+  }
+
+  private async refreshPrompts(serverName: string, client: Client): Promise<void> {
+    const prompts: MCPPrompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await client.listPrompts(cursor ? { cursor } : undefined);
+      for (const prompt of result.prompts) {
+        prompts.push({
+          name: prompt.name,
+          description: prompt.description,
+          arguments: prompt.arguments || [],
+          serverName,
+        });
+      }
+      cursor = result.nextCursor;
+    } while (cursor);
+    this.prompts.set(serverName, prompts);
+  }
+
+  async removeServer(serverName: string): Promise<void> {
+    const entry = this.servers.get(serverName);
+    if (!entry) {
+      return;
     }
+    this.clearRestart(entry);
+    this.servers.delete(serverName);
+    await this.teardown(entry);
 
+    if (this.servers.size === 0 && this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
     this.emit('serverRemoved', serverName);
   }
 
+  /**
+   * Reconnect now, with a fresh set of restart attempts
+   */
+  async restartServer(serverName: string): Promise<void> {
+    const entry = this.requireEntry(serverName);
+    this.clearRestart(entry);
+    await this.teardown(entry);
+    entry.failedAttempts = 0;
+    await this.addServer(entry.config);
+  }
+
+  /**
+   * Disconnect and stop restarting until the server is enabled again
+   */
+  async disableServer(serverName: string): Promise<void> {
+    const entry = this.requireEntry(serverName);
+    this.clearRestart(entry);
+    await this.teardown(entry);
+    this.setState(entry, 'disabled');
+  }
+
+  async enableServer(serverName: string): Promise<void> {
+    const entry = this.requireEntry(serverName);
+    entry.failedAttempts = 0;
+    await this.addServer(entry.config);
+  }
+
+  private requireEntry(serverName: string): ServerEntry {
+    const entry = this.servers.get(serverName);
+    if (!entry) {
+      throw new Error(`Unknown MCP server ${serverName}`);
+    }
+    return entry;
+  }
+
+  getServerStatus(serverName: string): MCPServerStatus | undefined {
+    const entry = this.servers.get(serverName);
+    return entry ? { ...entry.status, stderrTail: [...entry.status.stderrTail] } : undefined;
+  }
+
+  /**
+   * Every known server, including failed and disabled ones
+   */
+  getServerStatuses(): MCPServerStatus[] {
+    return Array.from(this.servers.keys()).map(name => this.getServerStatus(name)!);
+  }
+
   async callTool(toolName: string, arguments_: any): Promise<CallToolResult> {
     const tool = this.tools.get(toolName);
     if (!tool) {
@@ -136,6 +574,62 @@ export class MCPManager extends EventEmitter {
     } as CallToolResult;
   }
 
+  /**
+   * What the server reported in the initialize handshake
+   */
+  getServerInfo(serverName: string): MCPServerInfo | undefined {
+    const client = this.clients.get(serverName);
+    const transport = this.transports.get(serverName);
+    const serverVersion = client?.getServerVersion();
+    if (!client || !transport || !serverVersion) {
+      return undefined;
+    }
+    return {
+      name: serverVersion.name,
+      version: serverVersion.version,
+      transport: transport.getType(),
+      capabilities: client.getServerCapabilities() || {},
+      instructions: client.getInstructions(),
+      sessionId: transport.getSessionId?.(),
+    };
+  }
+
+  private getClient(serverName: string): Client {
+    const client = this.clients.get(serverName);
+    if (!client) {
+      throw new Error(`Server ${serverName} not connected`);
+    }
+    return client;
+  }
+
+  /**
+   * Read a resource. Where the server supports it, the resource is also
+   * subscribed to, and changes are emitted as `resourceUpdated`.
+   */
+  async readResource(serverName: string, uri: string): Promise<ReadResourceResult> {
+    const client = this.getClient(serverName);
+    const result = await client.readResource({ uri });
+
+    const key = `${serverName} ${uri}`;
+    if (client.getServerCapabilities()?.resources?.subscribe && !this.subscriptions.has(key)) {
+      this.subscriptions.add(key);
+      await client.subscribeResource({ uri }).catch(() => this.subscriptions.delete(key));
+    }
+    return result;
+  }
+
+  async getPrompt(serverName: string, promptName: string, arguments_: Record<string, string>): Promise<GetPromptResult> {
+    return this.getClient(serverName).getPrompt({ name: promptName, arguments: arguments_ });
+  }
+
+  getResources(): MCPResource[] {
+    return Array.from(this.resources.values()).flat();
+  }
+
+  getPrompts(): MCPPrompt[] {
+    return Array.from(this.prompts.values()).flat();
+  }
+
   getTools(): MCPTool[] {
     return Array.from(this.tools.values());
   }
@@ -145,7 +639,7 @@ export class MCPManager extends EventEmitter {
   }
 
   async shutdown(): Promise<void> {
-    const serverNames = Array.from(this.clients.keys());
+    const serverNames = Array.from(this.servers.keys());
     await Promise.all(serverNames.map(name => this.removeServer(name)));
   }
 
@@ -154,23 +648,37 @@ export class MCPManager extends EventEmitter {
     return transport?.getType();
   }
 
-  async ensureServersInitialized(): Promise<void> {
-    if (this.clients.size > 0) {
-      return; // Already initialized
+  /**
+   * Connect to the configured servers once; disabled servers are only listed
+   */
+  ensureServersInitialized(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.initializeServers();
     }
+    return this.initialization;
+  }
 
+  private async initializeServers(): Promise<void> {
     const { loadMCPConfig } = await import('../mcp/config.js');
     const config = loadMCPConfig();
     
     // Initialize servers in parallel to avoid blocking
     const initPromises = config.servers.map(async (serverConfig) => {
+      if (this.servers.has(serverConfig.name)) {
+        return;
+      }
+      if (serverConfig.disabled) {
+        this.setState(this.getEntry(serverConfig), 'disabled');
+        return;
+      }
       try {
         await this.addServer(serverConfig);
       } catch (error) {
-        console.warn(`Failed to initialize MCP server ${serverConfig.name}:`, error);
+        // Recorded in the server's status and retried in the background
+        debugLog(`Failed to initialize MCP server ${serverConfig.name}:`, error);
       }
     });
     
     await Promise.all(initPromises);
   }
-}
\ No newline at end of file
+}
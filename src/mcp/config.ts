@@ -47,6 +47,22 @@ export function removeMCPServer(serverName: string): void {
   }
 }
 
+/**
+ * Turn a configured server off or on without removing it
+ */
+export function setMCPServerDisabled(serverName: string, disabled: boolean): void {
+  const manager = getSettingsManager();
+  const projectSettings = manager.loadProjectSettings();
+  const server = projectSettings.mcpServers?.[serverName];
+
+  if (server) {
+    manager.updateProjectSetting('mcpServers', {
+      ...projectSettings.mcpServers,
+      [serverName]: { ...server, disabled: disabled || undefined },
+    });
+  }
+}
+
 export function getMCPServer(serverName: string): MCPServerConfig | undefined {
   const manager = getSettingsManager();
   const projectSettings = manager.loadProjectSettings();
@@ -0,0 +1,125 @@
+/**
+ * MCP Content
+ *
+ * Turns MCP resources and prompts into message text: `@server:resource`
+ * references in user messages are replaced with the resource contents, and
+ * prompts invoked as `/mcp__server__prompt` commands become the user message.
+ */
+
+import type { GetPromptResult, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import type { MCPManager, MCPPrompt, MCPPromptArgument } from "./client.js";
+
+/**
+ * `@server:resource` after whitespace or at the start of the text, where the
+ * resource is a URI (`@docs:docs://guide`) or a resource name (`@docs:guide`)
+ */
+const RESOURCE_REFERENCE = /(^|\s)@([\w-]+):(\S+)/g;
+
+/** Punctuation that ends a sentence rather than the reference */
+const TRAILING_PUNCTUATION = /[.,;:!?)\]]+$/;
+
+type ResourceContents = ReadResourceResult["contents"][number];
+
+function formatResourceBlock(serverName: string, contents: ResourceContents): string {
+  const mimeType = contents.mimeType ? ` mimeType="${contents.mimeType}"` : "";
+  const body = typeof contents.text === "string"
+    ? contents.text
+    : `[binary content, ${Buffer.from(String(contents.blob), "base64").length} bytes]`;
+  return `<mcp-resource server="${serverName}" uri="${contents.uri}"${mimeType}>\n${body}\n</mcp-resource>`;
+}
+
+export function formatResourceContents(serverName: string, result: ReadResourceResult): string {
+  return result.contents.map((contents) => formatResourceBlock(serverName, contents)).join("\n\n");
+}
+
+/**
+ * Append the contents of every `@server:resource` reference to the message.
+ * References to servers that are not connected are left alone; resources
+ * that cannot be read are noted so the model knows they are missing.
+ */
+export async function expandResourceReferences(message: string, manager: MCPManager): Promise<string> {
+  const servers = new Set(manager.getServers());
+  const resources = manager.getResources();
+  const blocks: string[] = [];
+  const seen = new Set<string>();
+
+  for (const match of message.matchAll(RESOURCE_REFERENCE)) {
+    const serverName = match[2];
+    const reference = match[3].replace(TRAILING_PUNCTUATION, "");
+    if (!servers.has(serverName) || !reference) {
+      continue;
+    }
+
+    // Listed resources can be named; anything else is read as a URI
+    const listed = resources.find((resource) =>
+      resource.serverName === serverName && (resource.uri === reference || resource.name === reference)
+    );
+    const uri = listed?.uri || reference;
+    if (seen.has(`${serverName} ${uri}`)) {
+      continue;
+    }
+    seen.add(`${serverName} ${uri}`);
+    try {
+      blocks.push(formatResourceContents(serverName, await manager.readResource(serverName, uri)));
+    } catch (error: any) {
+      blocks.push(`<mcp-resource server="${serverName}" uri="${uri}" error="${error.message}" />`);
+    }
+  }
+
+  return blocks.length > 0 ? `${message}\n\n${blocks.join("\n\n")}` : message;
+}
+
+/**
+ * Usage hint for a prompt's arguments, e.g. `<topic> [depth]`
+ */
+export function formatPromptArgumentHint(args: MCPPromptArgument[]): string | undefined {
+  if (args.length === 0) {
+    return undefined;
+  }
+  return args.map((arg) => (arg.required ? `<${arg.name}>` : `[${arg.name}]`)).join(" ");
+}
+
+/**
+ * Map the text typed after a prompt command to the prompt's arguments, in
+ * order. Words are split on whitespace ("quoted text" stays together) and
+ * the last argument receives the rest of the text.
+ */
+export function parsePromptArguments(prompt: MCPPrompt, text: string): Record<string, string> {
+  const words = Array.from(text.matchAll(/"([^"]*)"|(\S+)/g), (match) => match[1] ?? match[2]);
+  const result: Record<string, string> = {};
+  prompt.arguments.forEach((arg, index) => {
+    const isLast = index === prompt.arguments.length - 1;
+    const value = isLast ? words.slice(index).join(" ") : words[index];
+    if (value) {
+      result[arg.name] = value;
+    }
+  });
+
+  const missing = prompt.arguments.filter((arg) => arg.required && !result[arg.name]);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing argument ${missing.map((arg) => arg.name).join(", ")}. Usage: /mcp__${prompt.serverName}__${prompt.name} ${formatPromptArgumentHint(prompt.arguments)}`
+    );
+  }
+  return result;
+}
+
+/**
+ * The prompt's messages as one user message
+ */
+export function formatPromptMessages(serverName: string, result: GetPromptResult): string {
+  return result.messages
+    .map(({ content }) => {
+      switch (content.type) {
+        case "text":
+          return content.text;
+        case "resource":
+          return formatResourceBlock(serverName, content.resource);
+        case "resource_link":
+          return `@${serverName}:${content.uri}`;
+        default:
+          return `[${content.type} content, ${content.mimeType}]`;
+      }
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,267 @@
+/**
+ * MCP OAuth
+ *
+ * OAuth 2.1 authorization code flow with PKCE for remote MCP servers. The SDK
+ * transports drive discovery, dynamic client registration and token refresh
+ * through MCPOAuthProvider; registrations and tokens are kept in the user's
+ * credential store. Signing in needs a browser, so it only happens in
+ * `grok mcp login` (or `grok mcp add`); background connections that need it
+ * fail with MCPAuthorizationRequiredError instead.
+ */
+
+import { spawn } from "child_process";
+import * as http from "http";
+import { randomBytes } from "crypto";
+import { auth, type OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import type {
+  OAuthClientInformation,
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import { MCPAuthorizationRequiredError } from "../types/errors.js";
+import { getCredentialStore } from "../utils/credential-store.js";
+import { resolveTransportConfig } from "./secrets.js";
+import type { MCPOAuthConfig, TransportConfig } from "./transports.js";
+
+export const DEFAULT_OAUTH_CALLBACK_PORT = 33418;
+
+/** How long `grok mcp login` waits for the browser to come back */
+const LOGIN_TIMEOUT = 5 * 60 * 1000;
+
+export class MCPOAuthProvider implements OAuthClientProvider {
+  private verifier?: string;
+  private lastState?: string;
+
+  /**
+   * @param onRedirect Sends the user to the authorization URL; without it,
+   * connections that need a sign-in fail with MCPAuthorizationRequiredError
+   */
+  constructor(
+    private serverName: string,
+    private serverUrl: string,
+    private config: MCPOAuthConfig = {},
+    private onRedirect?: (authorizationUrl: URL) => void | Promise<void>
+  ) { }
+
+  get redirectUrl(): string {
+    return `http://127.0.0.1:${this.config.callbackPort ?? DEFAULT_OAUTH_CALLBACK_PORT}/callback`;
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: "Grok CLI",
+      redirect_uris: [this.redirectUrl],
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: this.config.clientSecret ? "client_secret_post" : "none",
+      scope: this.config.scope,
+    };
+  }
+
+  state(): string {
+    this.lastState = randomBytes(16).toString("hex");
+    return this.lastState;
+  }
+
+  /**
+   * State sent with the last authorization request, to check the callback
+   */
+  getLastState(): string | undefined {
+    return this.lastState;
+  }
+
+  clientInformation(): OAuthClientInformation | undefined {
+    if (this.config.clientId) {
+      return { client_id: this.config.clientId, client_secret: this.config.clientSecret };
+    }
+    // A registration for another callback port cannot be used
+    const stored = getCredentialStore().getOAuthCredentials(this.serverUrl).clientInformation;
+    return stored?.redirect_uris.includes(this.redirectUrl) ? stored : undefined;
+  }
+
+  saveClientInformation(clientInformation: OAuthClientInformationFull): void {
+    getCredentialStore().updateOAuthCredentials(this.serverUrl, { clientInformation });
+  }
+
+  tokens(): OAuthTokens | undefined {
+    return getCredentialStore().getOAuthCredentials(this.serverUrl).tokens;
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    getCredentialStore().updateOAuthCredentials(this.serverUrl, {
+      tokens,
+      expiresAt: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined,
+    });
+  }
+
+  /**
+   * Whether the stored access token has expired and can be refreshed
+   */
+  needsRefresh(): boolean {
+    const { tokens, expiresAt } = getCredentialStore().getOAuthCredentials(this.serverUrl);
+    return Boolean(tokens?.refresh_token && expiresAt && expiresAt <= Date.now());
+  }
+
+  async redirectToAuthorization(authorizationUrl: URL): Promise<void> {
+    if (!this.onRedirect) {
+      throw new MCPAuthorizationRequiredError({
+        message: `MCP server ${this.serverName} requires authorization; run \`grok mcp login ${this.serverName}\``,
+        serverName: this.serverName,
+      });
+    }
+    await this.onRedirect(authorizationUrl);
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    this.verifier = codeVerifier;
+  }
+
+  codeVerifier(): string {
+    if (!this.verifier) {
+      throw new Error("No authorization request is in progress");
+    }
+    return this.verifier;
+  }
+
+  invalidateCredentials(scope: "all" | "client" | "tokens" | "verifier"): void {
+    const store = getCredentialStore();
+    if (scope === "all") {
+      store.deleteOAuthCredentials(this.serverUrl);
+    } else if (scope === "client") {
+      store.updateOAuthCredentials(this.serverUrl, { clientInformation: undefined });
+    } else if (scope === "tokens") {
+      store.updateOAuthCredentials(this.serverUrl, { tokens: undefined, expiresAt: undefined });
+    }
+    if (scope === "all" || scope === "verifier") {
+      this.verifier = undefined;
+    }
+  }
+}
+
+/**
+ * Open a URL in the default browser; failures are ignored because the URL
+ * is printed as well
+ */
+export function openBrowser(url: string): void {
+  const [command, args] = process.platform === "darwin"
+    ? ["open", [url]]
+    : process.platform === "win32"
+      ? ["cmd", ["/c", "start", "", url]]
+      : ["xdg-open", [url]];
+  try {
+    const child = spawn(command, args, { detached: true, stdio: "ignore" });
+    child.on("error", () => undefined);
+    child.unref();
+  } catch {
+    // Printed URL is the fallback
+  }
+}
+
+/**
+ * Local server receiving the redirect from the authorization server.
+ * Callbacks without the state of the pending request are answered with 400
+ * and ignored, so only the matching redirect (or the timeout) ends the wait.
+ *
+ * @param getState State sent with the authorization request, once there is one
+ */
+export function startCallbackServer(
+  port: number,
+  getState: () => string | undefined
+): Promise<{ waitForCode: () => Promise<string>; close: () => void }> {
+  let settle: { resolve: (code: string) => void; reject: (error: Error) => void } | undefined;
+  const pending = new Promise<string>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+  // Rejections before waitForCode is called are handled there
+  pending.catch(() => undefined);
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", `http://127.0.0.1:${port}`);
+    if (url.pathname !== "/callback") {
+      res.writeHead(404).end();
+      return;
+    }
+    // Plain text, so parameters from the redirect cannot inject markup
+    const state = getState();
+    if (!state || url.searchParams.get("state") !== state) {
+      res.writeHead(400, { "Content-Type": "text/plain; charset=utf-8" });
+      res.end("Authorization response does not match the request (state mismatch).");
+      return;
+    }
+    const error = url.searchParams.get("error");
+    res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end(error
+      ? `Authorization failed: ${error}. You can close this window.`
+      : "Grok CLI is authorized. You can close this window.");
+    if (error) {
+      settle?.reject(new Error(`Authorization failed: ${url.searchParams.get("error_description") || error}`));
+    } else {
+      settle?.resolve(url.searchParams.get("code") || "");
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", (error: NodeJS.ErrnoException) => {
+      reject(error.code === "EADDRINUSE"
+        ? new Error(`Port ${port} for the OAuth callback is in use; set a different oauth.callbackPort for the server`)
+        : error);
+    });
+    server.listen(port, "127.0.0.1", () => {
+      resolve({
+        waitForCode: async () => {
+          let timer: NodeJS.Timeout | undefined;
+          const timeout = new Promise<never>((_, rejectTimeout) => {
+            timer = setTimeout(() => rejectTimeout(new Error("Timed out waiting for authorization")), LOGIN_TIMEOUT);
+          });
+          try {
+            const code = await Promise.race([pending, timeout]);
+            if (!code) {
+              throw new Error("Authorization response contains no code");
+            }
+            return code;
+          } finally {
+            clearTimeout(timer);
+          }
+        },
+        close: () => {
+          server.closeAllConnections();
+          server.close();
+        },
+      });
+    });
+  });
+}
+
+/**
+ * Sign in to a remote MCP server in the browser and store the tokens.
+ * Existing tokens are replaced.
+ */
+export async function loginMCPServer(
+  serverName: string,
+  config: TransportConfig,
+  onAuthorizationUrl: (authorizationUrl: URL) => void
+): Promise<void> {
+  const resolved = resolveTransportConfig(serverName, config);
+  if (!resolved.url || resolved.type === "stdio") {
+    throw new Error(`MCP server ${serverName} is not a remote server; OAuth is only used with HTTP and SSE transports`);
+  }
+
+  const oauth = resolved.oauth || {};
+  const provider = new MCPOAuthProvider(serverName, resolved.url, oauth, (authorizationUrl) => {
+    onAuthorizationUrl(authorizationUrl);
+    openBrowser(authorizationUrl.toString());
+  });
+  const callback = await startCallbackServer(oauth.callbackPort ?? DEFAULT_OAUTH_CALLBACK_PORT, () => provider.getLastState());
+  try {
+    provider.invalidateCredentials("tokens");
+
+    if (await auth(provider, { serverUrl: resolved.url }) === "AUTHORIZED") {
+      return;
+    }
+    const code = await callback.waitForCode();
+    await auth(provider, { serverUrl: resolved.url, authorizationCode: code });
+  } finally {
+    callback.close();
+  }
+}
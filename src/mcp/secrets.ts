@@ -0,0 +1,98 @@
+/**
+ * Secret references in MCP server configurations
+ *
+ * Values in `.grok/settings.json` can refer to `${env:VAR}` (an environment
+ * variable) or `${secret:name}` (the user's credential store) instead of
+ * containing tokens. References are resolved when the server is connected,
+ * so the settings file can be committed without leaking credentials.
+ */
+
+import { getCredentialStore } from "../utils/credential-store.js";
+import type { TransportConfig } from "./transports.js";
+
+const REFERENCE = /\$\{(env|secret):([^}]+)\}/g;
+
+export function hasReference(value: string): boolean {
+  return new RegExp(REFERENCE.source).test(value);
+}
+
+/**
+ * Replace the references in a value; a missing variable or secret is an error
+ */
+export function resolveReferences(value: string, serverName: string): string {
+  return value.replace(REFERENCE, (_match, kind: string, name: string) => {
+    if (kind === "env") {
+      const envValue = process.env[name];
+      if (envValue === undefined) {
+        throw new Error(`Environment variable ${name} used by MCP server ${serverName} is not set`);
+      }
+      return envValue;
+    }
+
+    const secret = getCredentialStore().getSecret(name);
+    if (secret === undefined) {
+      throw new Error(
+        `Secret "${name}" used by MCP server ${serverName} is not in the credential store; add it with \`grok mcp secret set ${name}\``
+      );
+    }
+    return secret;
+  });
+}
+
+function resolveRecord(values: Record<string, string> | undefined, serverName: string): Record<string, string> | undefined {
+  if (!values) {
+    return undefined;
+  }
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, resolveReferences(value, serverName)]));
+}
+
+/**
+ * The transport configuration with every reference resolved
+ */
+export function resolveTransportConfig(serverName: string, config: TransportConfig): TransportConfig {
+  const resolve = (value: string | undefined) => (value === undefined ? undefined : resolveReferences(value, serverName));
+  return {
+    ...config,
+    command: resolve(config.command),
+    args: config.args?.map((arg) => resolveReferences(arg, serverName)),
+    env: resolveRecord(config.env, serverName),
+    url: resolve(config.url),
+    headers: resolveRecord(config.headers, serverName),
+    oauth: config.oauth && {
+      ...config.oauth,
+      clientId: resolve(config.oauth.clientId),
+      clientSecret: resolve(config.oauth.clientSecret),
+    },
+  };
+}
+
+/**
+ * Name under which a value of a server's configuration is stored, e.g.
+ * `linear.header.Authorization`
+ */
+export function getSecretName(serverName: string, kind: string, key: string): string {
+  return `${serverName}.${kind}.${key}`;
+}
+
+/**
+ * Move plain values into the credential store and return references to them;
+ * values that already are references are kept as they are
+ */
+export function storeSecretValues(
+  serverName: string,
+  kind: "header" | "env",
+  values: Record<string, string>
+): Record<string, string> {
+  const store = getCredentialStore();
+  const references: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (hasReference(value)) {
+      references[key] = value;
+      continue;
+    }
+    const name = getSecretName(serverName, kind, key);
+    store.setSecret(name, value);
+    references[key] = `\${secret:${name}}`;
+  }
+  return references;
+}
@@ -0,0 +1,175 @@
+/**
+ * MCP Server
+ *
+ * Exposes Grok CLI's file editing, search and code intelligence tools to
+ * other agents and IDEs over MCP (`grok mcp serve`). Only tools on the
+ * allowlist are offered; by default that is the read-only tools.
+ *
+ * Edits ask for confirmation through the ConfirmationService as they do in
+ * the chat, so permission rules apply unchanged. What happens to a
+ * confirmation that no rule decides is set by the confirmation policy:
+ *
+ * - ask: the MCP client is asked to confirm with an elicitation request;
+ *   clients that do not support elicitation get the operation declined
+ * - allow: operations are approved, except those matched by deny or ask rules
+ * - deny: operations are declined unless an allow rule approves them
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { CallToolRequestSchema, CallToolResult, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { TextEditorTool } from "../tools/text-editor.js";
+import { SearchTool } from "../tools/search.js";
+import { OperationHistoryTool } from "../tools/advanced/operation-history.js";
+import { CodeIntelligenceEngine } from "../tools/intelligence/engine.js";
+import { SymbolSearchTool } from "../tools/intelligence/symbol-search.js";
+import { DependencyAnalyzerTool } from "../tools/intelligence/dependency-analyzer.js";
+import { RefactoringAssistantTool } from "../tools/intelligence/refactoring-assistant.js";
+import { matchesToolPattern, ToolDefinition, ToolRegistry } from "../tools/registry.js";
+import { ConfirmationOptions, ConfirmationService } from "../utils/confirmation-service.js";
+import { debugLog } from "../utils/debug.js";
+
+export type MCPServeConfirmationPolicy = "ask" | "allow" | "deny";
+
+export const MCP_SERVE_CONFIRMATION_POLICIES: MCPServeConfirmationPolicy[] = ["ask", "allow", "deny"];
+
+/**
+ * `mcpServe` in .grok/settings.json; command line options take precedence
+ */
+export interface MCPServeSettings {
+  /** Exported tool names; `*` matches any characters */
+  tools?: string[];
+  confirmation?: MCPServeConfirmationPolicy;
+}
+
+export interface GrokMCPServerOptions {
+  /** Allowlist of exported tools (default: the read-only tools) */
+  tools?: string[];
+  confirmation?: MCPServeConfirmationPolicy;
+  version?: string;
+}
+
+/**
+ * Every tool `grok mcp serve` can export
+ */
+export function createExportableToolRegistry(rootPath: string = process.cwd()): ToolRegistry {
+  const engine = new CodeIntelligenceEngine(rootPath);
+  const registry = new ToolRegistry();
+  registry.registerProvider(new TextEditorTool());
+  registry.registerProvider(new SearchTool());
+  registry.registerProvider(new SymbolSearchTool(engine));
+  registry.registerProvider(new DependencyAnalyzerTool(engine));
+  registry.registerProvider(new RefactoringAssistantTool(engine));
+  registry.registerProvider(new OperationHistoryTool());
+  return registry;
+}
+
+function formatConfirmationMessage(options: ConfirmationOptions): string {
+  const message = `Grok CLI wants to ${options.operation.toLowerCase()}: ${options.filename}`;
+  return options.content ? `${message}\n\n${options.content}` : message;
+}
+
+export class GrokMCPServer {
+  private server: Server;
+  private tools: ToolDefinition[];
+  private confirmationService = ConfirmationService.getInstance();
+  private confirmation: MCPServeConfirmationPolicy;
+  /** Tool calls run one at a time, as the confirmation service handles one request at a time */
+  private callQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: GrokMCPServerOptions = {}, registry: ToolRegistry = createExportableToolRegistry()) {
+    const available = registry.list();
+    this.tools = options.tools
+      ? available.filter((tool) => matchesToolPattern(tool.name, options.tools!))
+      : available.filter((tool) => tool.category === "read");
+    this.confirmation = options.confirmation || "ask";
+
+    this.server = new Server(
+      { name: "grok-cli", version: options.version || "1.0.0" },
+      { capabilities: { tools: {} } }
+    );
+    this.server.setRequestHandler(ListToolsRequestSchema, () => ({
+      tools: this.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.parameters as any,
+        annotations: { readOnlyHint: tool.category === "read" },
+      })),
+    }));
+    this.server.setRequestHandler(CallToolRequestSchema, (request, extra) => {
+      const call = this.callQueue.then(() => this.callTool(request.params.name, request.params.arguments || {}, extra.signal));
+      this.callQueue = call.catch(() => undefined);
+      return call;
+    });
+
+    if (this.confirmation === "allow") {
+      this.confirmationService.setSessionFlag("allOperations", true);
+    }
+    this.confirmationService.on("confirmation-requested", this.onConfirmationRequested);
+  }
+
+  getToolNames(): string[] {
+    return this.tools.map((tool) => tool.name);
+  }
+
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
+  }
+
+  async close(): Promise<void> {
+    this.confirmationService.off("confirmation-requested", this.onConfirmationRequested);
+    if (this.confirmationService.isPending()) {
+      this.confirmationService.rejectOperation("Server shutting down");
+    }
+    await this.server.close();
+  }
+
+  private async callTool(name: string, args: Record<string, unknown>, signal: AbortSignal): Promise<CallToolResult> {
+    const tool = this.tools.find((candidate) => candidate.name === name);
+    if (!tool) {
+      return { content: [{ type: "text", text: `Tool ${name} is not exported by this server` }], isError: true };
+    }
+
+    try {
+      const result = await tool.handler(args, { signal });
+      const text = result.success ? result.output || "Done" : result.error || "Tool failed";
+      return { content: [{ type: "text", text }], isError: !result.success };
+    } catch (error: any) {
+      return { content: [{ type: "text", text: error?.message || String(error) }], isError: true };
+    }
+  }
+
+  /**
+   * Reached only when no permission rule or session flag decided the
+   * operation; the client confirms it, or it is declined
+   */
+  private onConfirmationRequested = (options: ConfirmationOptions): void => {
+    if (this.confirmation === "deny") {
+      this.confirmationService.rejectOperation("Declined by the MCP server's confirmation policy");
+      return;
+    }
+    if (!this.server.getClientCapabilities()?.elicitation) {
+      this.confirmationService.rejectOperation(
+        "The MCP client cannot confirm operations; allow them with a permission rule or `grok mcp serve --confirm allow`"
+      );
+      return;
+    }
+
+    this.server
+      .elicitInput({
+        message: formatConfirmationMessage(options),
+        requestedSchema: { type: "object", properties: {} },
+      })
+      .then((result) => {
+        if (result.action === "accept") {
+          this.confirmationService.confirmOperation(true);
+        } else {
+          this.confirmationService.rejectOperation(`Operation ${result.action === "decline" ? "declined" : "cancelled"} by the MCP client`);
+        }
+      })
+      .catch((error) => {
+        debugLog("MCP confirmation request failed:", error);
+        this.confirmationService.rejectOperation(`Confirmation failed: ${error?.message || error}`);
+      });
+  };
+}
@@ -1,11 +1,29 @@
 import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport, StreamableHTTPReconnectionOptions } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
 import { ChildProcess } from "child_process";
-import { EventEmitter } from "events";
-import axios, { AxiosInstance } from "axios";
+import { Stream } from "stream";
 
 export type TransportType = 'stdio' | 'http' | 'sse' | 'streamable_http';
 
+/**
+ * OAuth client settings for a remote server. Without a client id, the client
+ * registers itself dynamically with the server's authorization server.
+ */
+export interface MCPOAuthConfig {
+  clientId?: string;
+  clientSecret?: string;
+  scope?: string;
+  /** Port of the local redirect URL (default 33418) */
+  callbackPort?: number;
+}
+
+/**
+ * String values may contain `${env:VAR}` and `${secret:name}` references,
+ * resolved when the server is connected (see secrets.ts)
+ */
 export interface TransportConfig {
   type: TransportType;
   command?: string;
@@ -13,12 +31,22 @@ export interface TransportConfig {
   env?: Record<string, string>;
   url?: string;
   headers?: Record<string, string>;
+  oauth?: MCPOAuthConfig;
+}
+
+export interface TransportOptions {
+  /** Signs requests of HTTP transports in with OAuth */
+  authProvider?: OAuthClientProvider;
 }
 
 export interface MCPTransport {
   connect(): Promise<Transport>;
   disconnect(): Promise<void>;
   getType(): TransportType;
+  /** Session id assigned by an HTTP server, once connected */
+  getSessionId?(): string | undefined;
+  /** What a stdio server writes to stderr */
+  getStderr?(): Stream | null;
 }
 
 export class StdioTransport implements MCPTransport {
@@ -46,12 +74,18 @@ export class StdioTransport implements MCPTransport {
     this.transport = new StdioClientTransport({
       command: this.config.command!,
       args: this.config.args || [],
-      env
+      env,
+      // Kept for the /mcp panel instead of being printed over the UI
+      stderr: 'pipe'
     });
 
     return this.transport;
   }
 
+  getStderr(): Stream | null {
+    return this.transport?.stderr ?? null;
+  }
+
   async disconnect(): Promise<void> {
     if (this.transport) {
       await this.transport.close();
@@ -69,197 +103,111 @@ export class StdioTransport implements MCPTransport {
   }
 }
 
-export class HttpTransport extends EventEmitter implements MCPTransport {
-  private client?: AxiosInstance;
-  private connected = false;
-
-  constructor(private config: TransportConfig) {
-    super();
-    if (!config.url) {
-      throw new Error('URL is required for HTTP transport');
-    }
-  }
-
-  async connect(): Promise<Transport> {
-    this.client = axios.create({
-      baseURL: this.config.url,
-      headers: {
-        'Content-Type': 'application/json',
-        ...this.config.headers
-      }
-    });
-
-    // Test connection
-    try {
-      await this.client.get('/health');
-      this.connected = true;
-    } catch {
-      // If health endpoint doesn't exist, try a basic request
-      this.connected = true;
-    }
-
-    return new HttpClientTransport(this.client);
-  }
-
-  async disconnect(): Promise<void> {
-    this.connected = false;
-    this.client = undefined;
-  }
-
-  getType(): TransportType {
-    return 'http';
+/**
+ * Backoff for reopening a dropped Streamable HTTP event stream; the stream
+ * resumes from the last event it received via `Last-Event-ID`
+ */
+const STREAMABLE_HTTP_RECONNECTION: StreamableHTTPReconnectionOptions = {
+  initialReconnectionDelay: 1000,
+  maxReconnectionDelay: 30000,
+  reconnectionDelayGrowFactor: 1.5,
+  maxRetries: 5,
+};
+
+function parseServerURL(url: string, type: TransportType): URL {
+  try {
+    return new URL(url);
+  } catch {
+    throw new Error(`Invalid URL for ${type} transport: ${url}`);
   }
 }
 
-export class SSETransport extends EventEmitter implements MCPTransport {
-  private connected = false;
+/**
+ * Streamable HTTP (MCP 2025-03-26 and later): requests are POSTed to one
+ * endpoint and answered with JSON or an event stream, while a GET event
+ * stream carries server-initiated messages. The server's `Mcp-Session-Id`
+ * is sent with every request once assigned.
+ */
+export class StreamableHttpTransport implements MCPTransport {
+  private transport?: StreamableHTTPClientTransport;
 
-  constructor(private config: TransportConfig) {
-    super();
+  constructor(private config: TransportConfig, private options: TransportOptions = {}) {
     if (!config.url) {
-      throw new Error('URL is required for SSE transport');
+      throw new Error(`URL is required for ${config.type} transport`);
     }
   }
 
   async connect(): Promise<Transport> {
-    return new Promise((resolve, reject) => {
-      try {
-        // For Node.js environment, we'll use a simple HTTP-based approach
-        // In a real implementation, you'd use a proper SSE library like 'eventsource'
-        this.connected = true;
-        resolve(new SSEClientTransport(this.config.url!));
-      } catch (error) {
-        reject(error);
-      }
+    this.transport = new StreamableHTTPClientTransport(parseServerURL(this.config.url!, this.config.type), {
+      authProvider: this.options.authProvider,
+      requestInit: { headers: this.config.headers },
+      reconnectionOptions: STREAMABLE_HTTP_RECONNECTION,
     });
+    return this.transport;
   }
 
   async disconnect(): Promise<void> {
-    this.connected = false;
-  }
-
-  getType(): TransportType {
-    return 'sse';
-  }
-}
-
-// Custom HTTP Transport implementation
-class HttpClientTransport extends EventEmitter implements Transport {
-  constructor(private client: AxiosInstance) {
-    super();
-  }
-
-  async start(): Promise<void> {
-    // HTTP transport is connection-less, so we're always "started"
-  }
-
-  async close(): Promise<void> {
-    // Nothing to close for HTTP transport
-  }
-
-  async send(message: any): Promise<any> {
-    try {
-      const response = await this.client.post('/rpc', message);
-      return response.data;
-    } catch (error) {
-      throw new Error(`HTTP transport error: ${error}`);
+    if (this.transport) {
+      // Ends the session on the server; servers without sessions answer 405
+      await this.transport.terminateSession().catch(() => undefined);
+      await this.transport.close();
+      this.transport = undefined;
     }
   }
-}
-
-// Custom SSE Transport implementation
-class SSEClientTransport extends EventEmitter implements Transport {
-  constructor(private url: string) {
-    super();
-  }
-
-  async start(): Promise<void> {
-    // SSE transport is event-driven, so we're always "started"
-  }
 
-  async close(): Promise<void> {
-    // Nothing to close for basic SSE transport
+  getType(): TransportType {
+    return this.config.type;
   }
 
-  async send(message: any): Promise<any> {
-    // For bidirectional communication over SSE, we typically use HTTP POST
-    // for sending messages and SSE for receiving
-    try {
-      const response = await axios.post(this.url.replace('/sse', '/rpc'), message, {
-        headers: { 'Content-Type': 'application/json' }
-      });
-      return response.data;
-    } catch (error) {
-      throw new Error(`SSE transport error: ${error}`);
-    }
+  getSessionId(): string | undefined {
+    return this.transport?.sessionId;
   }
 }
 
-export class StreamableHttpTransport extends EventEmitter implements MCPTransport {
-  private connected = false;
+/**
+ * Legacy HTTP+SSE (MCP 2024-11-05): a GET event stream that first names the
+ * endpoint messages are POSTed to, then carries every response
+ */
+export class SSETransport implements MCPTransport {
+  private transport?: SSEClientTransport;
 
-  constructor(private config: TransportConfig) {
-    super();
+  constructor(private config: TransportConfig, private options: TransportOptions = {}) {
     if (!config.url) {
-      throw new Error('URL is required for streamable_http transport');
+      throw new Error('URL is required for SSE transport');
     }
   }
 
   async connect(): Promise<Transport> {
-    return new Promise((resolve, reject) => {
-      try {
-        this.connected = true;
-        resolve(new StreamableHttpClientTransport(this.config.url!, this.config.headers));
-      } catch (error) {
-        reject(error);
-      }
+    // Headers are sent with the event stream request and with every POST
+    this.transport = new SSEClientTransport(parseServerURL(this.config.url!, 'sse'), {
+      authProvider: this.options.authProvider,
+      requestInit: { headers: this.config.headers },
     });
+    return this.transport;
   }
 
   async disconnect(): Promise<void> {
-    this.connected = false;
+    if (this.transport) {
+      await this.transport.close();
+      this.transport = undefined;
+    }
   }
 
   getType(): TransportType {
-    return 'streamable_http';
-  }
-}
-
-// Custom Streamable HTTP Transport implementation for GitHub Copilot MCP
-class StreamableHttpClientTransport extends EventEmitter implements Transport {
-  constructor(private url: string, private headers?: Record<string, string>) {
-    super();
-  }
-
-  async start(): Promise<void> {
-    // Streamable HTTP transport is connection-less, so we're always "started"
-  }
-
-  async close(): Promise<void> {
-    // Nothing to close for streamable HTTP transport
-  }
-
-  async send(message: any): Promise<any> {
-    console.log('StreamableHttpTransport: SSE endpoints require persistent connections, not suitable for MCP request-response pattern');
-    console.log('StreamableHttpTransport: Message that would be sent:', JSON.stringify(message));
-
-    // For now, return a mock response to indicate the transport type is not compatible
-    // with the MCP protocol's request-response pattern
-    throw new Error('StreamableHttpTransport: SSE endpoints are not compatible with MCP request-response pattern. GitHub Copilot MCP may require a different integration approach.');
+    return 'sse';
   }
 }
 
-export function createTransport(config: TransportConfig): MCPTransport {
+export function createTransport(config: TransportConfig, options: TransportOptions = {}): MCPTransport {
   switch (config.type) {
     case 'stdio':
       return new StdioTransport(config);
     case 'http':
-      return new HttpTransport(config);
-    case 'sse':
-      return new SSETransport(config);
     case 'streamable_http':
-      return new StreamableHttpTransport(config);
+      return new StreamableHttpTransport(config, options);
+    case 'sse':
+      return new SSETransport(config, options);
     default:
       throw new Error(`Unsupported transport type: ${config.type}`);
   }
-}
\ No newline at end of file
+}
@@ -247,17 +247,23 @@ export class PlanExecutor extends EventEmitter {
 
     const operationType = operationTypeMap[step.type] || 'bulk_operation';
 
+    // Files captured by the rollback point are the state before the step;
+    // affected files without a snapshot did not exist yet
+    const rollbackPoint = this.rollbackPoints.get(step.id);
+    const affectedFiles = this.getAffectedFiles(step);
+
     await this.operationHistory.recordOperation(
       operationType as any,
       step.description,
-      result.filesModified,
+      Array.from(new Set([...affectedFiles, ...result.filesModified])),
       {
         type: 'file_operations',
-        files: result.filesModified.map(f => ({
-          filePath: f,
-          existed: true,
-          content: ''
-        }))
+        files: affectedFiles.map(filePath => {
+          const content = rollbackPoint?.fileSnapshots.get(filePath);
+          return content !== undefined
+            ? { filePath, existed: true, content }
+            : { filePath, existed: false };
+        })
       },
       {
         tool: step.tool,
@@ -0,0 +1,88 @@
+/**
+ * Tests for translating OpenAI-style messages to Gemini contents
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GrokMessage } from '../../grok/client.js';
+import { toGeminiContents } from '../gemini.js';
+
+describe('toGeminiContents', () => {
+  it('should move system messages into the system instruction', () => {
+    const { systemInstruction, contents } = toGeminiContents([
+      { role: 'system', content: 'You are helpful.' },
+      { role: 'developer', content: 'Be brief.' },
+      { role: 'user', content: 'Hi' },
+    ]);
+
+    expect(systemInstruction).toBe('You are helpful.\n\nBe brief.');
+    expect(contents).toEqual([{ role: 'user', parts: [{ text: 'Hi' }] }]);
+  });
+
+  it('should send tool calls as function calls and name tool results after the call', () => {
+    const messages: GrokMessage[] = [
+      { role: 'user', content: 'Read the notes' },
+      {
+        role: 'assistant',
+        content: 'Reading them.',
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'view_file', arguments: '{"path":"notes.md"}' } }],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'The notes' },
+    ];
+
+    const { contents } = toGeminiContents(messages);
+
+    expect(contents).toEqual([
+      { role: 'user', parts: [{ text: 'Read the notes' }] },
+      {
+        role: 'model',
+        parts: [{ text: 'Reading them.' }, { functionCall: { name: 'view_file', args: { path: 'notes.md' } } }],
+      },
+      { role: 'user', parts: [{ functionResponse: { name: 'view_file', response: { content: 'The notes' } } }] },
+    ]);
+  });
+
+  it('should merge consecutive messages of the same role', () => {
+    const { contents } = toGeminiContents([
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'view_file', arguments: '{"path":"a.ts"}' } },
+          { id: 'call_2', type: 'function', function: { name: 'bash', arguments: 'not json' } },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: 'a' },
+      { role: 'tool', tool_call_id: 'call_2', content: 'b' },
+      { role: 'user', content: 'Continue' },
+    ]);
+
+    expect(contents.map((content) => content.role)).toEqual(['model', 'user']);
+    expect(contents[0].parts).toEqual([
+      { functionCall: { name: 'view_file', args: { path: 'a.ts' } } },
+      { functionCall: { name: 'bash', args: {} } },
+    ]);
+    expect(contents[1].parts).toEqual([
+      { functionResponse: { name: 'view_file', response: { content: 'a' } } },
+      { functionResponse: { name: 'bash', response: { content: 'b' } } },
+      { text: 'Continue' },
+    ]);
+  });
+
+  it('should send data URL images inline and leave out remote ones', () => {
+    const { contents } = toGeminiContents([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+          { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } },
+        ],
+      },
+    ]);
+
+    expect(contents).toEqual([{
+      role: 'user',
+      parts: [{ text: 'What is this?' }, { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } }],
+    }]);
+  });
+});
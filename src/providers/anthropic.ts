@@ -0,0 +1,326 @@
+import type { GrokMessage, GrokResponse, GrokTool, GrokToolCall, GrokUsage } from "../grok/client.js";
+import { getProviderApiKey } from "./config.js";
+import { postJSON, readServerSentEvents } from "./http.js";
+import { messageText, parseToolArguments } from "./messages.js";
+import { ChatRequest, GrokStreamChunk, ModelProvider, ProviderConfig } from "./types.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string } }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicRequest {
+  model: string;
+  max_tokens: number;
+  temperature: number;
+  messages: AnthropicMessage[];
+  system?: string;
+  stream?: boolean;
+  tools?: Array<{ name: string; description: string; input_schema: GrokTool["function"]["parameters"] }>;
+  tool_choice?: { type: "any" } | { type: "none" } | { type: "tool"; name: string };
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+interface AnthropicResponse {
+  content?: AnthropicContentBlock[];
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
+}
+
+/** Server-sent events of a streamed response; `ping` and `*_stop` events carry nothing used here */
+type AnthropicStreamEvent =
+  | { type: "message_start"; message?: { usage?: AnthropicUsage } }
+  | { type: "content_block_start"; index: number; content_block?: AnthropicContentBlock }
+  | {
+    type: "content_block_delta";
+    index: number;
+    delta?: { type: "text_delta"; text: string } | { type: "input_json_delta"; partial_json: string };
+  }
+  | { type: "message_delta"; delta?: { stop_reason?: string | null }; usage?: { output_tokens?: number } }
+  | { type: "error"; error?: { type?: string; message?: string } }
+  | { type: "ping" | "content_block_stop" | "message_stop" };
+
+/** HTTP status matching the error types reported inside a stream */
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+const STOP_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  tool_use: "tool_calls",
+  max_tokens: "length",
+};
+
+/**
+ * Anthropic Messages API. Requests and responses are translated from and to
+ * the OpenAI chat completions shape used by the rest of the CLI.
+ */
+export class AnthropicProvider implements ModelProvider {
+  readonly config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+  }
+
+  async chat(request: ChatRequest): Promise<GrokResponse> {
+    const response = await this.send(request, false);
+    const data = await response.json() as AnthropicResponse;
+
+    let content = "";
+    const toolCalls: GrokToolCall[] = [];
+    for (const block of data.content || []) {
+      if (block.type === "text") {
+        content += block.text;
+      } else if (block.type === "tool_use") {
+        toolCalls.push({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        });
+      }
+    }
+
+    return {
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: content || null,
+            tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+          },
+          finish_reason: toFinishReason(data.stop_reason) || "stop",
+        },
+      ],
+      usage: data.usage && toUsage(data.usage, data.usage.output_tokens || 0),
+    };
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<GrokStreamChunk, void, unknown> {
+    const response = await this.send(request, true);
+
+    // Content block index -> tool call index
+    const toolIndexes = new Map<number, number>();
+    let inputUsage: AnthropicUsage = {};
+
+    for await (const event of readServerSentEvents(response)) {
+      const data = JSON.parse(event.data) as AnthropicStreamEvent;
+
+      switch (data.type) {
+        case "message_start":
+          inputUsage = data.message?.usage || {};
+          break;
+
+        case "content_block_start": {
+          const block = data.content_block;
+          if (block?.type === "tool_use") {
+            const index = toolIndexes.size;
+            toolIndexes.set(data.index, index);
+            yield delta({
+              tool_calls: [{
+                index,
+                id: block.id,
+                type: "function",
+                function: { name: block.name, arguments: "" },
+              }],
+            });
+          } else if (block?.type === "text" && block.text) {
+            yield delta({ content: block.text });
+          }
+          break;
+        }
+
+        case "content_block_delta":
+          if (data.delta?.type === "text_delta") {
+            yield delta({ content: data.delta.text });
+          } else if (data.delta?.type === "input_json_delta" && toolIndexes.has(data.index)) {
+            yield delta({
+              tool_calls: [{ index: toolIndexes.get(data.index)!, function: { arguments: data.delta.partial_json } }],
+            });
+          }
+          break;
+
+        case "message_delta":
+          yield {
+            choices: [{
+              index: 0,
+              delta: {},
+              finish_reason: toFinishReason(data.delta?.stop_reason),
+            }],
+            usage: toUsage(inputUsage, data.usage?.output_tokens || 0),
+          };
+          break;
+
+
+        case "error": {
+          const error = new Error(data.error?.message || "Stream error") as Error & { status?: number };
+          error.status = data.error?.type ? STREAM_ERROR_STATUS[data.error.type] : undefined;
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async send(request: ChatRequest, stream: boolean): Promise<Response> {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const body: AnthropicRequest = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages,
+    };
+    if (system) {
+      body.system = system;
+    }
+    if (stream) {
+      body.stream = true;
+    }
+
+    if (this.config.capabilities.toolCalling && request.tools && request.tools.length > 0) {
+      body.tools = request.tools.map((tool) => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: tool.function.parameters,
+      }));
+
+      const choice = request.toolChoice;
+      if (choice === "required") {
+        body.tool_choice = { type: "any" };
+      } else if (choice === "none") {
+        body.tool_choice = { type: "none" };
+      } else if (typeof choice === "object") {
+        body.tool_choice = { type: "tool", name: choice.function.name };
+      }
+    }
+
+    return await postJSON(`${this.config.baseURL}/messages`, body, {
+      headers: {
+        "x-api-key": getProviderApiKey(this.config) || "",
+        "anthropic-version": ANTHROPIC_VERSION,
+        ...this.config.headers,
+      },
+      timeout: request.timeout,
+      signal: request.signal,
+    });
+  }
+}
+
+function toFinishReason(reason: string | null | undefined): string | null {
+  return reason ? STOP_REASONS[reason] || reason : null;
+}
+
+function delta(value: GrokStreamChunk["choices"][0]["delta"]): GrokStreamChunk {
+  return { choices: [{ index: 0, delta: value, finish_reason: null }] };
+}
+
+/**
+ * Anthropic reports cache reads and writes apart from `input_tokens`; the
+ * OpenAI shape counts them as prompt tokens with cache reads as cached tokens
+ */
+function toUsage(usage: AnthropicUsage, outputTokens: number): GrokUsage {
+  const cachedTokens = usage.cache_read_input_tokens || 0;
+  const promptTokens = (usage.input_tokens || 0) + cachedTokens + (usage.cache_creation_input_tokens || 0);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: outputTokens,
+    total_tokens: promptTokens + outputTokens,
+    prompt_tokens_details: { cached_tokens: cachedTokens },
+  };
+}
+
+/**
+ * Convert OpenAI-style messages: system messages become the `system` field,
+ * tool calls become `tool_use` blocks and tool results `tool_result` blocks
+ * in a user message. Consecutive messages with the same role are merged, as
+ * the API requires alternating roles.
+ */
+export function toAnthropicMessages(input: GrokMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const messages: AnthropicMessage[] = [];
+
+  const push = (role: AnthropicMessage["role"], content: AnthropicContentBlock[]) => {
+    if (content.length === 0) {
+      return;
+    }
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...content);
+    } else {
+      messages.push({ role, content });
+    }
+  };
+
+  for (const message of input) {
+    switch (message.role) {
+      case "system":
+      case "developer":
+        system.push(messageText(message.content));
+        break;
+
+      case "user":
+        push("user", toContentBlocks(message.content));
+        break;
+
+      case "assistant": {
+        const blocks = toContentBlocks(message.content);
+        for (const call of message.tool_calls || []) {
+          if (call.type !== "function") {
+            continue;
+          }
+          blocks.push({ type: "tool_use", id: call.id, name: call.function.name, input: parseToolArguments(call.function.arguments) });
+        }
+        push("assistant", blocks);
+        break;
+      }
+
+      case "tool":
+        push("user", [{ type: "tool_result", tool_use_id: message.tool_call_id, content: messageText(message.content) }]);
+        break;
+    }
+  }
+
+  return { system: system.join("\n\n"), messages };
+}
+
+function toContentBlocks(content: GrokMessage["content"]): AnthropicContentBlock[] {
+  if (typeof content === "string") {
+    return content ? [{ type: "text", text: content }] : [];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  const blocks: AnthropicContentBlock[] = [];
+  for (const part of content) {
+    if (part.type === "text" && part.text) {
+      blocks.push({ type: "text", text: part.text });
+    } else if (part.type === "image_url") {
+      const url = part.image_url.url;
+      const match = url.match(/^data:([^;]+);base64,(.*)$/);
+      blocks.push(match
+        ? { type: "image", source: { type: "base64", media_type: match[1], data: match[2] } }
+        : { type: "image", source: { type: "url", url } });
+    }
+  }
+  return blocks;
+}
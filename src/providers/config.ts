@@ -0,0 +1,193 @@
+import { getSettingsManager } from "../utils/settings-manager.js";
+import { ProviderCapabilities, ProviderConfig } from "./types.js";
+
+/**
+ * Entry in the `providers` settings. Entries for a predefined provider
+ * override its defaults; other names define a new provider and need at least
+ * `type` and `baseURL`. `enabled: false` hides a provider.
+ */
+export type ProviderSettings = Partial<Omit<ProviderConfig, "name" | "capabilities">> & {
+  capabilities?: Partial<ProviderCapabilities>;
+  enabled?: boolean;
+};
+
+/** Provider used for model names without a `provider/` prefix */
+export const DEFAULT_PROVIDER = "xai";
+
+const LOCAL_CAPABILITIES: ProviderCapabilities = {
+  toolCalling: true,
+  streaming: true,
+  liveSearch: false,
+  reasoning: false,
+};
+
+export const PREDEFINED_PROVIDERS: Record<string, Omit<ProviderConfig, "name">> = {
+  xai: {
+    type: "openai-compatible",
+    baseURL: "https://api.x.ai/v1",
+    apiKeyEnv: "GROK_API_KEY",
+    models: [],
+    capabilities: { toolCalling: true, streaming: true, liveSearch: true, reasoning: true },
+  },
+  openai: {
+    type: "openai-compatible",
+    baseURL: "https://api.openai.com/v1",
+    apiKeyEnv: "OPENAI_API_KEY",
+    models: [],
+    capabilities: { toolCalling: true, streaming: true, liveSearch: false, reasoning: true },
+  },
+  anthropic: {
+    type: "anthropic",
+    baseURL: "https://api.anthropic.com/v1",
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+    models: [],
+    capabilities: { toolCalling: true, streaming: true, liveSearch: false, reasoning: true },
+  },
+  gemini: {
+    type: "gemini",
+    baseURL: "https://generativelanguage.googleapis.com/v1beta",
+    apiKeyEnv: "GEMINI_API_KEY",
+    models: [],
+    capabilities: { toolCalling: true, streaming: true, liveSearch: false, reasoning: true },
+  },
+  ollama: {
+    type: "openai-compatible",
+    baseURL: "http://localhost:11434/v1",
+    models: [],
+    capabilities: LOCAL_CAPABILITIES,
+  },
+  llamacpp: {
+    type: "openai-compatible",
+    baseURL: "http://localhost:8080/v1",
+    models: [],
+    capabilities: LOCAL_CAPABILITIES,
+  },
+  vllm: {
+    type: "openai-compatible",
+    baseURL: "http://localhost:8000/v1",
+    models: [],
+    capabilities: LOCAL_CAPABILITIES,
+  },
+};
+
+/**
+ * Predefined providers merged with the `providers` entries of
+ * ~/.grok/user-settings.json and .grok/settings.json (project entries take
+ * precedence). The default provider's models come from the `models` setting.
+ */
+export function loadProviderConfigs(): ProviderConfig[] {
+  const manager = getSettingsManager();
+  const userEntries = manager.loadUserSettings().providers || {};
+  const projectEntries = manager.loadProjectSettings().providers || {};
+
+  const names = new Set([
+    ...Object.keys(PREDEFINED_PROVIDERS),
+    ...Object.keys(userEntries),
+    ...Object.keys(projectEntries),
+  ]);
+
+  const providers: ProviderConfig[] = [];
+  for (const name of names) {
+    const user = userEntries[name] || {};
+    const project = projectEntries[name] || {};
+    const entry: ProviderSettings = {
+      ...user,
+      ...project,
+      capabilities: { ...user.capabilities, ...project.capabilities },
+    };
+    const config = resolveProviderConfig(name, entry);
+    if (config) {
+      providers.push(config);
+    }
+  }
+
+  const defaultProvider = providers.find((provider) => provider.name === DEFAULT_PROVIDER);
+  if (defaultProvider && defaultProvider.models.length === 0) {
+    defaultProvider.models = manager.getAvailableModels();
+  }
+
+  return providers;
+}
+
+function resolveProviderConfig(name: string, entry: ProviderSettings): ProviderConfig | null {
+  if (entry.enabled === false) {
+    return null;
+  }
+
+  const preset = PREDEFINED_PROVIDERS[name];
+  const type = entry.type || preset?.type;
+  const baseURL = entry.baseURL || preset?.baseURL;
+  if (!type || !baseURL) {
+    return null;
+  }
+
+  return {
+    name,
+    type,
+    baseURL: baseURL.replace(/\/+$/, ""),
+    apiKey: entry.apiKey,
+    apiKeyEnv: entry.apiKeyEnv || preset?.apiKeyEnv,
+    models: entry.models || preset?.models || [],
+    capabilities: {
+      ...(preset?.capabilities || LOCAL_CAPABILITIES),
+      ...entry.capabilities,
+    },
+    headers: entry.headers,
+    reasoningEffort: entry.reasoningEffort,
+  };
+}
+
+/**
+ * API key for a provider: explicit setting, then its environment variable
+ */
+export function getProviderApiKey(config: ProviderConfig): string | undefined {
+  return config.apiKey || (config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined);
+}
+
+export interface ResolvedModel {
+  provider: ProviderConfig;
+  /** Model name as sent to the provider's API */
+  model: string;
+}
+
+/**
+ * Find the provider for a model. `provider/model` selects a provider
+ * explicitly; a bare name is looked up in each provider's model list and
+ * otherwise goes to the default provider. Names such as
+ * `meta-llama/Llama-3.1-8B` whose prefix is not a provider stay unqualified,
+ * and names listed in the `models` setting (e.g. OpenRouter's
+ * `anthropic/claude-3.5-sonnet`) always go to the default provider.
+ */
+export function resolveModel(model: string, providers: ProviderConfig[] = loadProviderConfigs()): ResolvedModel {
+  const defaultProvider = providers.find((provider) => provider.name === DEFAULT_PROVIDER);
+  if (defaultProvider?.models.includes(model)) {
+    return { provider: defaultProvider, model };
+  }
+
+  const slash = model.indexOf("/");
+  if (slash > 0) {
+    const provider = providers.find((candidate) => candidate.name === model.slice(0, slash));
+    if (provider) {
+      return { provider, model: model.slice(slash + 1) };
+    }
+  }
+
+  const provider = providers.find((candidate) => candidate.models.includes(model)) || defaultProvider;
+  if (!provider) {
+    throw new Error(`No provider configured for model '${model}'`);
+  }
+  return { provider, model };
+}
+
+/**
+ * Every model offered by the configured providers, qualified with the
+ * provider name except for the default provider
+ */
+export function listProviderModels(providers: ProviderConfig[] = loadProviderConfigs()): Array<{ model: string; provider: ProviderConfig }> {
+  return providers.flatMap((provider) =>
+    provider.models.map((model) => ({
+      model: provider.name === DEFAULT_PROVIDER ? model : `${provider.name}/${model}`,
+      provider,
+    }))
+  );
+}
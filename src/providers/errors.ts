@@ -0,0 +1,164 @@
+import { APIConnectionError, APIConnectionTimeoutError, APIUserAbortError } from "openai";
+import type { ApiErrorKind } from "../types/errors.js";
+
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "ENETUNREACH",
+  "EHOSTUNREACH",
+  "ETIMEDOUT",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/** Codes of connections that were established and then dropped */
+const DROPPED_CONNECTION_CODES = new Set([
+  "EPIPE",
+  "ECONNABORTED",
+  "UND_ERR_SOCKET",
+  "UND_ERR_BODY_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+]);
+
+const CONTEXT_OVERFLOW_PATTERN =
+  /context[ _](length|window)|maximum context|prompt is too long|too many tokens|input is too long|reduce the length|exceeds? the (maximum|max|context)|token limit/i;
+
+const QUOTA_PATTERN = /insufficient[ _]quota|exceeded your current quota|credit|billing|spending limit/i;
+
+/**
+ * Fields read from errors of the OpenAI SDK, the fetch helpers and Node
+ */
+interface ErrorLike {
+  name?: string;
+  message?: string;
+  code?: string;
+  status?: unknown;
+  cause?: unknown;
+  /** Error body of an API error response */
+  error?: { message?: string; code?: string };
+  headers?: Headers | Record<string, string | undefined>;
+}
+
+function asErrorLike(error: unknown): ErrorLike | undefined {
+  return error && typeof error === "object" ? error as ErrorLike : undefined;
+}
+
+/**
+ * True when a request failed because the provider could not be reached at
+ * all (offline, DNS failure, server not running), as opposed to an error
+ * response from the API
+ */
+export function isConnectionError(error: unknown): boolean {
+  let current = asErrorLike(error);
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (CONNECTION_ERROR_CODES.has(String(current.code))) {
+      return true;
+    }
+    // A request timeout means the server was reached but is slow
+    if (current instanceof APIConnectionError && !(current instanceof APIConnectionTimeoutError)) {
+      return true;
+    }
+    current = asErrorLike(current.cause);
+  }
+  return false;
+}
+
+/**
+ * HTTP status of a failed request, from the OpenAI SDK or the fetch helpers
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = asErrorLike(error)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Classify a failed model request so the client can decide whether to retry
+ */
+export function classifyError(error: unknown): ApiErrorKind {
+  const details = asErrorLike(error);
+  const message = String(details?.message || "") + " " + String(details?.error?.message || "");
+  const code = String(details?.code || details?.error?.code || "");
+
+  if (error instanceof APIUserAbortError || details?.name === "AbortError") {
+    return "aborted";
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    if (status === 401 || status === 403) {
+      return "auth";
+    }
+    if (status === 429) {
+      return QUOTA_PATTERN.test(message) || QUOTA_PATTERN.test(code) ? "auth" : "rate_limit";
+    }
+    if (status === 408) {
+      return "network";
+    }
+    if (status === 413 || (status === 400 && CONTEXT_OVERFLOW_PATTERN.test(message))) {
+      return "context_overflow";
+    }
+    if (status >= 500) {
+      return "server";
+    }
+    if (status >= 400) {
+      return CONTEXT_OVERFLOW_PATTERN.test(message) ? "context_overflow" : "invalid_request";
+    }
+  }
+
+  let current = details;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (CONNECTION_ERROR_CODES.has(String(current.code)) || DROPPED_CONNECTION_CODES.has(String(current.code))) {
+      return "network";
+    }
+    if (current instanceof APIConnectionError || current.name === "TimeoutError") {
+      return "network";
+    }
+    current = asErrorLike(current.cause);
+  }
+
+  // Errors reported inside an already open stream carry no status
+  if (CONTEXT_OVERFLOW_PATTERN.test(message)) {
+    return "context_overflow";
+  }
+  if (/rate limit|too many requests/i.test(message)) {
+    return "rate_limit";
+  }
+  if (/overloaded|temporarily unavailable|internal server error|bad gateway/i.test(message)) {
+    return "server";
+  }
+  // undici reports a connection closed mid-response as "terminated"
+  if (/^terminated$|socket hang up|other side closed|premature close/i.test(details?.message || "")) {
+    return "network";
+  }
+  return "unknown";
+}
+
+/**
+ * Delay in milliseconds requested by the server with `retry-after-ms` or
+ * `retry-after` (seconds or an HTTP date)
+ */
+export function getRetryAfter(error: unknown): number | undefined {
+  const headers = asErrorLike(error)?.headers;
+  if (!headers) {
+    return undefined;
+  }
+  const header = (name: string): string | null | undefined =>
+    headers instanceof Headers ? headers.get(name) : headers[name];
+
+  const milliseconds = header("retry-after-ms");
+  if (milliseconds && Number.isFinite(Number(milliseconds)) && Number(milliseconds) >= 0) {
+    return Number(milliseconds);
+  }
+
+  const value = header("retry-after");
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
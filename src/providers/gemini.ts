@@ -0,0 +1,315 @@
+import type { GrokMessage, GrokResponse, GrokTool, GrokToolCall } from "../grok/client.js";
+import { getProviderApiKey } from "./config.js";
+import { postJSON, readServerSentEvents } from "./http.js";
+import { messageText, parseToolArguments } from "./messages.js";
+import { ChatRequest, GrokStreamChunk, ModelProvider, ProviderConfig } from "./types.js";
+
+type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { functionCall: { name: string; args: Record<string, unknown> } }
+  | { functionResponse: { name: string; response: { content: string } } };
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+interface GeminiRequest {
+  contents: GeminiContent[];
+  generationConfig: { temperature: number; maxOutputTokens: number };
+  systemInstruction?: { parts: Array<{ text: string }> };
+  tools?: Array<{ functionDeclarations: Array<Record<string, unknown>> }>;
+  toolConfig?: { functionCallingConfig: { mode: "ANY" | "NONE"; allowedFunctionNames?: string[] } };
+}
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+  cachedContentTokenCount?: number;
+}
+
+/** Response, and each chunk of a streamed response */
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{ text?: string; thought?: boolean; functionCall?: { name: string; args?: Record<string, unknown> } }>;
+    };
+    finishReason?: string;
+  }>;
+  usageMetadata?: GeminiUsageMetadata;
+}
+
+const FINISH_REASONS: Record<string, string> = {
+  STOP: "stop",
+  MAX_TOKENS: "length",
+  SAFETY: "content_filter",
+  RECITATION: "content_filter",
+};
+
+/** JSON schema keywords the Gemini function declaration schema rejects */
+const UNSUPPORTED_SCHEMA_KEYS = new Set(["additionalProperties", "$schema", "default", "examples"]);
+
+/**
+ * Google Gemini generateContent API. Gemini function calls carry no id, so
+ * ids are generated and mapped back to function names for tool results.
+ */
+export class GeminiProvider implements ModelProvider {
+  readonly config: ProviderConfig;
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+  }
+
+  async chat(request: ChatRequest): Promise<GrokResponse> {
+    const response = await this.send(request, false);
+    const data = await response.json() as GeminiResponse;
+    const candidate = data.candidates?.[0];
+
+    let content = "";
+    const toolCalls: GrokToolCall[] = [];
+    for (const part of candidate?.content?.parts || []) {
+      if (typeof part.text === "string" && !part.thought) {
+        content += part.text;
+      } else if (part.functionCall) {
+        toolCalls.push({
+          id: createCallId(toolCalls.length),
+          type: "function",
+          function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) },
+        });
+      }
+    }
+
+    return {
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: content || null,
+            tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+          },
+          finish_reason: toolCalls.length > 0 ? "tool_calls" : toFinishReason(candidate?.finishReason),
+        },
+      ],
+      usage: toUsage(data.usageMetadata),
+    };
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<GrokStreamChunk, void, unknown> {
+    const response = await this.send(request, true);
+    let toolCallCount = 0;
+
+    for await (const event of readServerSentEvents(response)) {
+      const data = JSON.parse(event.data) as GeminiResponse;
+      const candidate = data.candidates?.[0];
+
+      for (const part of candidate?.content?.parts || []) {
+        if (typeof part.text === "string" && part.text && !part.thought) {
+          yield delta({ content: part.text });
+        } else if (part.functionCall) {
+          // Function calls arrive complete rather than as argument fragments
+          const index = toolCallCount++;
+          yield delta({
+            tool_calls: [{
+              index,
+              id: createCallId(index),
+              type: "function",
+              function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) },
+            }],
+          });
+        }
+      }
+
+      if (candidate?.finishReason) {
+        yield {
+          choices: [{
+            index: 0,
+            delta: {},
+            finish_reason: toolCallCount > 0 ? "tool_calls" : toFinishReason(candidate.finishReason),
+          }],
+          usage: toUsage(data.usageMetadata),
+        };
+      }
+    }
+  }
+
+  private async send(request: ChatRequest, stream: boolean): Promise<Response> {
+    const { systemInstruction, contents } = toGeminiContents(request.messages);
+    const body: GeminiRequest = {
+      contents,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+      },
+    };
+    if (systemInstruction) {
+      body.systemInstruction = { parts: [{ text: systemInstruction }] };
+    }
+
+    if (this.config.capabilities.toolCalling && request.tools && request.tools.length > 0) {
+      body.tools = [{ functionDeclarations: request.tools.map(toFunctionDeclaration) }];
+
+      const choice = request.toolChoice;
+      if (choice === "required") {
+        body.toolConfig = { functionCallingConfig: { mode: "ANY" } };
+      } else if (choice === "none") {
+        body.toolConfig = { functionCallingConfig: { mode: "NONE" } };
+      } else if (typeof choice === "object") {
+        body.toolConfig = { functionCallingConfig: { mode: "ANY", allowedFunctionNames: [choice.function.name] } };
+      }
+    }
+
+    const method = stream ? "streamGenerateContent?alt=sse" : "generateContent";
+    return await postJSON(`${this.config.baseURL}/models/${encodeURIComponent(request.model)}:${method}`, body, {
+      headers: {
+        "x-goog-api-key": getProviderApiKey(this.config) || "",
+        ...this.config.headers,
+      },
+      timeout: request.timeout,
+      signal: request.signal,
+    });
+  }
+}
+
+function delta(value: GrokStreamChunk["choices"][0]["delta"]): GrokStreamChunk {
+  return { choices: [{ index: 0, delta: value, finish_reason: null }] };
+}
+
+function toFinishReason(reason: string | undefined): string {
+  return (reason && FINISH_REASONS[reason]) || "stop";
+}
+
+function createCallId(index: number): string {
+  return `call_${Date.now().toString(36)}_${index}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function toUsage(metadata: GeminiUsageMetadata | undefined): GrokResponse["usage"] {
+  if (!metadata) {
+    return undefined;
+  }
+  const promptTokens = metadata.promptTokenCount || 0;
+  // Thinking tokens are billed as output
+  const completionTokens = (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: metadata.totalTokenCount || promptTokens + completionTokens,
+    prompt_tokens_details: { cached_tokens: metadata.cachedContentTokenCount || 0 },
+    completion_tokens_details: { reasoning_tokens: metadata.thoughtsTokenCount || 0 },
+  };
+}
+
+function toFunctionDeclaration(tool: GrokTool): Record<string, unknown> {
+  const declaration: Record<string, unknown> = {
+    name: tool.function.name,
+    description: tool.function.description,
+  };
+  // Gemini rejects object schemas without properties
+  if (Object.keys(tool.function.parameters.properties || {}).length > 0) {
+    declaration.parameters = cleanSchema(tool.function.parameters);
+  }
+  return declaration;
+}
+
+function cleanSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(cleanSchema);
+  }
+  if (!schema || typeof schema !== "object") {
+    return schema;
+  }
+  const cleaned: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (!UNSUPPORTED_SCHEMA_KEYS.has(key)) {
+      // `properties` maps names to schemas; clean the schemas, not the names
+      cleaned[key] = key === "properties" && value && typeof value === "object"
+        ? Object.fromEntries(Object.entries(value).map(([name, property]) => [name, cleanSchema(property)]))
+        : cleanSchema(value);
+    }
+  }
+  return cleaned;
+}
+
+/**
+ * Convert OpenAI-style messages: system messages become the system
+ * instruction, assistant messages use the `model` role, and tool results are
+ * `functionResponse` parts named after the call they answer
+ */
+export function toGeminiContents(input: GrokMessage[]): { systemInstruction: string; contents: GeminiContent[] } {
+  const system: string[] = [];
+  const contents: GeminiContent[] = [];
+  const callNames = new Map<string, string>();
+
+  const push = (role: GeminiContent["role"], parts: GeminiPart[]) => {
+    if (parts.length === 0) {
+      return;
+    }
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  for (const message of input) {
+    switch (message.role) {
+      case "system":
+      case "developer":
+        system.push(messageText(message.content));
+        break;
+
+      case "user":
+        push("user", toParts(message.content));
+        break;
+
+      case "assistant": {
+        const parts = toParts(message.content);
+        for (const call of message.tool_calls || []) {
+          if (call.type !== "function") {
+            continue;
+          }
+          callNames.set(call.id, call.function.name);
+          parts.push({ functionCall: { name: call.function.name, args: parseToolArguments(call.function.arguments) } });
+        }
+        push("model", parts);
+        break;
+      }
+
+      case "tool":
+        push("user", [{
+          functionResponse: {
+            name: callNames.get(message.tool_call_id) || "unknown",
+            response: { content: messageText(message.content) },
+          },
+        }]);
+        break;
+    }
+  }
+
+  return { systemInstruction: system.join("\n\n"), contents };
+}
+
+function toParts(content: GrokMessage["content"]): GeminiPart[] {
+  if (typeof content === "string") {
+    return content ? [{ text: content }] : [];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  const parts: GeminiPart[] = [];
+  for (const part of content) {
+    if (part.type === "text" && part.text) {
+      parts.push({ text: part.text });
+    } else if (part.type === "image_url") {
+      const match = part.image_url.url.match(/^data:([^;]+);base64,(.*)$/);
+      if (match) {
+        parts.push({ inlineData: { mimeType: match[1], data: match[2] } });
+      }
+    }
+  }
+  return parts;
+}
@@ -0,0 +1,88 @@
+/**
+ * Small fetch helpers shared by the providers that do not go through the
+ * OpenAI SDK (Anthropic Messages and Gemini)
+ */
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * POST a JSON body. Non-2xx responses are turned into errors carrying the
+ * HTTP status and the provider's error message.
+ */
+export async function postJSON(
+  url: string,
+  body: unknown,
+  options: { headers: Record<string, string>; timeout: number; signal?: AbortSignal }
+): Promise<Response> {
+  const signals = [AbortSignal.timeout(options.timeout)];
+  if (options.signal) {
+    signals.push(options.signal);
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...options.headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.any(signals),
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    let message = text || response.statusText;
+    try {
+      const parsed = JSON.parse(text);
+      message = parsed.error?.message || parsed.message || message;
+    } catch {
+      // Not JSON, keep the raw body
+    }
+    const error = new Error(`${response.status} ${message}`) as Error & { status?: number; headers?: Headers };
+    error.status = response.status;
+    error.headers = response.headers;
+    throw error;
+  }
+
+  return response;
+}
+
+/**
+ * Parse a text/event-stream response body into events
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<ServerSentEvent, void, unknown> {
+  if (!response.body) {
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, "");
+      buffer = buffer.slice(newline + 1);
+
+      if (line === "") {
+        if (data.length > 0) {
+          yield { event, data: data.join("\n") };
+        }
+        event = undefined;
+        data = [];
+      } else if (line.startsWith("event:")) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""));
+      }
+    }
+  }
+
+  if (data.length > 0) {
+    yield { event, data: data.join("\n") };
+  }
+}
@@ -0,0 +1,25 @@
+import { AnthropicProvider } from "./anthropic.js";
+import { GeminiProvider } from "./gemini.js";
+import { OpenAICompatibleProvider } from "./openai-compatible.js";
+import { ModelProvider, ProviderConfig } from "./types.js";
+
+export * from "./types.js";
+export * from "./config.js";
+export { classifyError, getErrorStatus, getRetryAfter, isConnectionError } from "./errors.js";
+export { AnthropicProvider, GeminiProvider, OpenAICompatibleProvider };
+
+/**
+ * Create the adapter for a provider's API
+ */
+export function createProvider(config: ProviderConfig, timeout: number): ModelProvider {
+  switch (config.type) {
+    case "openai-compatible":
+      return new OpenAICompatibleProvider(config, timeout);
+    case "anthropic":
+      return new AnthropicProvider(config);
+    case "gemini":
+      return new GeminiProvider(config);
+    default:
+      throw new Error(`Unknown provider type '${(config as ProviderConfig).type}' for provider ${config.name}`);
+  }
+}
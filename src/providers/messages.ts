@@ -0,0 +1,29 @@
+/**
+ * Helpers for translating OpenAI-style chat messages to other APIs
+ */
+
+import type { GrokMessage } from "../grok/client.js";
+
+/**
+ * Plain text of a message content (string or content parts)
+ */
+export function messageText(content: GrokMessage["content"]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map((part) => ("text" in part ? part.text : "")).join("");
+  }
+  return "";
+}
+
+/**
+ * Tool call arguments as an object; malformed JSON becomes an empty object
+ */
+export function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,80 @@
+import OpenAI from "openai";
+import type { ChatCompletionCreateParamsBase } from "openai/resources/chat/completions";
+import type { GrokResponse, SearchParameters } from "../grok/client.js";
+import { getProviderApiKey } from "./config.js";
+import { ChatRequest, GrokStreamChunk, ModelProvider, ProviderConfig } from "./types.js";
+
+/** Chat completions request with the xAI live search extension */
+type ChatPayload = ChatCompletionCreateParamsBase & { search_parameters?: SearchParameters };
+
+/**
+ * Any server speaking the OpenAI chat completions API: xAI, OpenAI and local
+ * servers such as llama.cpp, vLLM and Ollama
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly config: ProviderConfig;
+  private client: OpenAI;
+
+  constructor(config: ProviderConfig, timeout: number) {
+    this.config = config;
+    this.client = new OpenAI({
+      // Local servers usually accept any key, but the SDK requires one
+      apiKey: getProviderApiKey(config) || "not-needed",
+      baseURL: config.baseURL,
+      timeout,
+      defaultHeaders: config.headers,
+      // Retries are handled by GrokClient, which reports them to the UI
+      maxRetries: 0,
+    });
+  }
+
+  async chat(request: ChatRequest): Promise<GrokResponse> {
+    const response = await this.client.chat.completions.create({ ...this.buildPayload(request), stream: false }, {
+      timeout: request.timeout,
+      signal: request.signal,
+    });
+    return response as GrokResponse;
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<GrokStreamChunk, void, unknown> {
+    const stream = await this.client.chat.completions.create({
+      ...this.buildPayload(request),
+      stream: true,
+      // Token usage arrives in a final chunk without choices
+      stream_options: { include_usage: true },
+    }, {
+      timeout: request.timeout,
+      signal: request.signal,
+    });
+
+    for await (const chunk of stream) {
+      yield chunk as GrokStreamChunk;
+    }
+  }
+
+  private buildPayload(request: ChatRequest): ChatPayload {
+    const { capabilities } = this.config;
+    const payload: ChatPayload = {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    };
+
+    if (capabilities.toolCalling && request.tools && request.tools.length > 0) {
+      payload.tools = request.tools;
+      payload.tool_choice = request.toolChoice || "auto";
+    }
+
+    // Live search is an xAI extension to the chat completions API
+    if (capabilities.liveSearch && request.searchParameters) {
+      payload.search_parameters = request.searchParameters;
+    }
+
+    if (capabilities.reasoning && this.config.reasoningEffort) {
+      payload.reasoning_effort = this.config.reasoningEffort;
+    }
+
+    return payload;
+  }
+}
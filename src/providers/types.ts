@@ -0,0 +1,75 @@
+import type { GrokMessage, GrokResponse, GrokTool, SearchParameters } from "../grok/client.js";
+
+export type ProviderType = "openai-compatible" | "anthropic" | "gemini";
+
+/**
+ * What a provider's API supports. The agent only sends tools, streams, or
+ * requests live search when the provider declares it.
+ */
+export interface ProviderCapabilities {
+  toolCalling: boolean;
+  streaming: boolean;
+  liveSearch: boolean;
+  reasoning: boolean;
+}
+
+export interface ProviderConfig {
+  name: string;
+  type: ProviderType;
+  baseURL: string;
+  apiKey?: string;
+  /** Environment variable read when `apiKey` is not set */
+  apiKeyEnv?: string;
+  /** Models offered in /models for this provider */
+  models: string[];
+  capabilities: ProviderCapabilities;
+  headers?: Record<string, string>;
+  /** Sent as `reasoning_effort` by OpenAI-compatible providers that support reasoning */
+  reasoningEffort?: "low" | "medium" | "high";
+}
+
+export type ToolChoice = "auto" | "required" | "none" | { type: "function"; function: { name: string } };
+
+export interface ChatRequest {
+  model: string;
+  messages: GrokMessage[];
+  tools?: GrokTool[];
+  toolChoice?: ToolChoice;
+  temperature: number;
+  maxTokens: number;
+  timeout: number;
+  searchParameters?: SearchParameters;
+  signal?: AbortSignal;
+}
+
+/**
+ * Streaming chunk in the OpenAI chat completion chunk shape, which every
+ * provider adapter produces so the agent can accumulate them the same way
+ */
+export interface GrokStreamChunk {
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: "assistant";
+      content?: string;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: "function";
+        function: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: GrokResponse["usage"];
+  /** Client-side notice (e.g. a fallback to another model), not model output */
+  notice?: string;
+  /** The stream was interrupted and is sent again: discard the partial response */
+  restart?: boolean;
+}
+
+export interface ModelProvider {
+  readonly config: ProviderConfig;
+  chat(request: ChatRequest): Promise<GrokResponse>;
+  chatStream(request: ChatRequest): AsyncGenerator<GrokStreamChunk, void, unknown>;
+}
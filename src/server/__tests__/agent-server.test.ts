@@ -0,0 +1,46 @@
+/**
+ * Tests for the transport-independent `grok serve` methods
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentServer, RPC_ERRORS } from '../agent-server.js';
+
+describe('AgentServer', () => {
+  const originalCwd = process.cwd();
+  const originalHome = process.env.HOME;
+  let tempDir: string;
+  let server: AgentServer;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-server-'));
+    process.env.HOME = path.join(tempDir, 'home');
+    process.chdir(tempDir);
+    server = new AgentServer({ apiKey: 'test-key', baseURL: 'http://127.0.0.1:9' });
+  });
+
+  afterAll(() => {
+    server.close();
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('tools.list', () => {
+    it('should ask for a session instead of building an agent when none exists', async () => {
+      await expect(server.call('tools.list', {})).rejects.toMatchObject({ code: RPC_ERRORS.sessionNotFound });
+    });
+
+    it("should list the tools of the session's agent", async () => {
+      const { sessionId } = await server.call('session.create', {}) as { sessionId: string };
+
+      const tools = await server.call('tools.list', { sessionId }) as Array<{ name: string }>;
+      const anySession = await server.call('tools.list', {});
+
+      expect(tools.map((tool) => tool.name)).toContain('bash');
+      expect(anySession).toEqual(tools);
+    });
+  });
+});
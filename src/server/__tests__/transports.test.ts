@@ -0,0 +1,93 @@
+/**
+ * Tests for the `grok serve` HTTP transport
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type * as http from 'http';
+import { AgentServer } from '../agent-server.js';
+import { getServerURL, MAX_REQUEST_BODY_SIZE, startHttpServer } from '../transports.js';
+
+const TOKEN = 'test-token';
+
+describe('HTTP transport', () => {
+  let server: AgentServer;
+  let httpServer: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = new AgentServer({ apiKey: 'test-key', baseURL: 'http://127.0.0.1:9' });
+    httpServer = await startHttpServer(server, { port: 0, token: TOKEN });
+    url = getServerURL(httpServer);
+  });
+
+  afterAll(async () => {
+    server.close();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  function rpc(body: string, headers: Record<string, string> = { authorization: `Bearer ${TOKEN}` }) {
+    return fetch(`${url}/rpc`, { method: 'POST', headers: { 'content-type': 'application/json', ...headers }, body });
+  }
+
+  it('should refuse requests without the token', async () => {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'session.list' });
+
+    const attempts: Array<Record<string, string>> = [{}, { authorization: 'Bearer wrong-token' }, { authorization: `Bearer ${TOKEN}x` }, { authorization: TOKEN }];
+    for (const headers of attempts) {
+      const response = await rpc(body, headers);
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: 'Missing or invalid token' });
+    }
+    expect((await fetch(`${url}/events`)).status).toBe(401);
+    expect((await fetch(`${url}/rpc?token=wrong-token`, { method: 'POST', body })).status).toBe(401);
+  });
+
+  it('should answer requests with the token', async () => {
+    const response = await rpc(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'session.list' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 1, result: [] });
+    expect((await fetch(`${url}/unknown?token=${TOKEN}`)).status).toBe(404);
+  });
+
+  it('should accept the token as a query parameter for event streams', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${url}/events?token=${TOKEN}`, { signal: controller.signal });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const { value } = await response.body!.getReader().read();
+    expect(new TextDecoder().decode(value)).toContain(': connected');
+    controller.abort();
+  });
+
+  it('should answer request bodies over the size limit with 413', async () => {
+    const response = await rpc('x'.repeat(MAX_REQUEST_BODY_SIZE + 1));
+
+    expect(response.status).toBe(413);
+  });
+
+  it('should answer a chunked body with 413 once it passes the size limit', async () => {
+    const chunk = new TextEncoder().encode('x'.repeat(1024 * 1024));
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (sent++ < 20) {
+          controller.enqueue(chunk);
+        } else {
+          controller.close();
+        }
+      },
+    });
+
+    const response = await fetch(`${url}/rpc`, {
+      method: 'POST',
+      headers: { authorization: `Bearer ${TOKEN}` },
+      body,
+      duplex: 'half',
+    } as RequestInit);
+
+    expect(response.status).toBe(413);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Agent Server
+ *
+ * The transport-independent core of `grok serve`: agent sessions, the
+ * JSON-RPC methods editor frontends call, and notifications for agent events
+ * and confirmation requests. The HTTP and stdio transports only move messages.
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { GrokAgent } from '../agent/grok-agent.js';
+import type { RunBudget } from '../agent/run-budget.js';
+import { JsonRpcError } from '../types/errors.js';
+import { ConfirmationOptions, ConfirmationService } from '../utils/confirmation-service.js';
+import { HeadlessResult, streamAgentEvents } from '../utils/headless-output.js';
+
+export interface AgentServerOptions {
+  apiKey: string;
+  baseURL?: string;
+  model?: string;
+  maxToolRounds?: number;
+  budget?: RunBudget;
+  /** Approve every operation instead of asking clients */
+  autoApprove?: boolean;
+}
+
+/**
+ * Server-defined JSON-RPC error codes, next to the standard ones
+ */
+export const RPC_ERRORS = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603,
+  sessionNotFound: -32001,
+  sessionBusy: -32002,
+  noPendingConfirmation: -32003,
+} as const;
+
+/**
+ * Notifications sent to every client:
+ * - `session.event`: `{sessionId, event}` with a headless stream-json event
+ * - `confirmation.request`: `{requestId, sessionId, operation, filename, ...}`
+ * - `confirmation.resolved`: `{requestId, confirmed}`
+ */
+export interface AgentServerNotification {
+  method: string;
+  params: Record<string, unknown>;
+}
+
+interface ServerSession {
+  id: string;
+  agent: GrokAgent;
+  createdAt: Date;
+  running: boolean;
+}
+
+interface PendingConfirmation {
+  requestId: string;
+  sessionId: string | null;
+}
+
+function requireString(params: any, name: string): string {
+  const value = params?.[name];
+  if (typeof value !== 'string' || !value) {
+    throw new JsonRpcError({ message: `Missing string parameter "${name}"`, code: RPC_ERRORS.invalidParams });
+  }
+  return value;
+}
+
+export class AgentServer extends EventEmitter {
+  private sessions: Map<string, ServerSession> = new Map();
+  private confirmationService = ConfirmationService.getInstance();
+  private pendingConfirmation: PendingConfirmation | null = null;
+  /** Session whose message is being processed; runs are serialized */
+  private activeSessionId: string | null = null;
+  private runQueue: Promise<unknown> = Promise.resolve();
+  private methods: Record<string, (params: any) => Promise<unknown> | unknown>;
+
+  constructor(private options: AgentServerOptions) {
+    super();
+    this.methods = {
+      'session.create': (params) => this.createSession(params),
+      'session.list': () => this.listSessions(),
+      'session.close': (params) => this.closeSession(requireString(params, 'sessionId')),
+      'session.history': (params) => this.getSession(requireString(params, 'sessionId')).agent.getChatHistory(),
+      'message.send': (params) => this.sendMessage(requireString(params, 'sessionId'), requireString(params, 'content')),
+      'message.abort': (params) => this.abort(requireString(params, 'sessionId')),
+      'confirmation.respond': (params) => this.respondToConfirmation(params),
+      'tools.list': (params) => this.listTools(params),
+    };
+
+    if (options.autoApprove) {
+      this.confirmationService.setSessionFlag('allOperations', true);
+    }
+    this.confirmationService.on('confirmation-requested', this.onConfirmationRequested);
+  }
+
+  getMethodNames(): string[] {
+    return Object.keys(this.methods);
+  }
+
+  /**
+   * Call a method; failures are thrown as JsonRpcError
+   */
+  async call(method: string, params: unknown): Promise<unknown> {
+    const handler = this.methods[method];
+    if (!handler) {
+      throw new JsonRpcError({ message: `Method not found: ${method}`, code: RPC_ERRORS.methodNotFound });
+    }
+    try {
+      return (await handler(params ?? {})) ?? null;
+    } catch (error: any) {
+      if (error instanceof JsonRpcError) {
+        throw error;
+      }
+      throw new JsonRpcError({ message: error?.message || String(error), code: RPC_ERRORS.internalError });
+    }
+  }
+
+  /**
+   * Abort running work and stop listening for confirmations
+   */
+  close(): void {
+    this.confirmationService.off('confirmation-requested', this.onConfirmationRequested);
+    for (const session of this.sessions.values()) {
+      session.agent.abortCurrentOperation();
+    }
+    if (this.pendingConfirmation) {
+      this.confirmationService.rejectOperation('Server shutting down');
+      this.pendingConfirmation = null;
+    }
+    this.sessions.clear();
+  }
+
+  private notify(method: string, params: Record<string, unknown>): void {
+    this.emit('notification', { method, params } satisfies AgentServerNotification);
+  }
+
+  private createSession(params: { model?: string; resume?: string }) {
+    const agent = new GrokAgent(this.options.apiKey, this.options.baseURL, this.options.model, this.options.maxToolRounds);
+    if (params.resume) {
+      agent.resumeSession(params.resume);
+    }
+    if (params.model) {
+      agent.setModel(params.model);
+    }
+    if (this.options.budget) {
+      agent.setRunBudget(this.options.budget);
+    }
+
+    const session: ServerSession = { id: randomUUID(), agent, createdAt: new Date(), running: false };
+    this.sessions.set(session.id, session);
+    return this.describeSession(session);
+  }
+
+  private describeSession(session: ServerSession) {
+    return {
+      sessionId: session.id,
+      model: session.agent.getCurrentModel(),
+      /** Id of the saved conversation, usable with `--resume` */
+      savedSessionId: session.agent.getSessionId(),
+      createdAt: session.createdAt.toISOString(),
+      running: session.running,
+    };
+  }
+
+  private listSessions() {
+    return Array.from(this.sessions.values()).map((session) => this.describeSession(session));
+  }
+
+  private getSession(sessionId: string): ServerSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new JsonRpcError({ message: `Unknown session ${sessionId}`, code: RPC_ERRORS.sessionNotFound });
+    }
+    return session;
+  }
+
+  private closeSession(sessionId: string) {
+    const session = this.getSession(sessionId);
+    session.agent.abortCurrentOperation();
+    this.sessions.delete(sessionId);
+    return { closed: true };
+  }
+
+  /**
+   * Process a user message and resolve with the run's result. Progress is
+   * sent as `session.event` notifications meanwhile. The agent works in the
+   * server's directory with shared confirmation state, so messages from
+   * different sessions are processed one after another.
+   */
+  private async sendMessage(sessionId: string, content: string): Promise<HeadlessResult> {
+    const session = this.getSession(sessionId);
+    if (session.running) {
+      throw new JsonRpcError({ message: `Session ${sessionId} is already processing a message`, code: RPC_ERRORS.sessionBusy });
+    }
+    session.running = true;
+
+    const run = this.runQueue.then(async () => {
+      this.activeSessionId = sessionId;
+      try {
+        return await streamAgentEvents(session.agent, content, (event) => this.notify('session.event', { sessionId, event }));
+      } finally {
+        this.activeSessionId = null;
+        session.running = false;
+      }
+    });
+    this.runQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private abort(sessionId: string) {
+    const session = this.getSession(sessionId);
+    if (this.pendingConfirmation && this.pendingConfirmation.sessionId === sessionId) {
+      this.resolveConfirmation(false, { feedback: 'Operation cancelled' });
+    }
+    session.agent.abortCurrentOperation();
+    return { aborted: session.running };
+  }
+
+  /**
+   * Tools of a session's agent; any session will do when none is given, as
+   * every session has the same tools
+   */
+  private listTools(params: { sessionId?: string }) {
+    const session = params.sessionId
+      ? this.getSession(params.sessionId)
+      : this.sessions.values().next().value;
+    if (!session) {
+      throw new JsonRpcError({ message: 'No session exists; call session.create first', code: RPC_ERRORS.sessionNotFound });
+    }
+    return session.agent.getToolRegistry().getEnabledDefinitions().map((tool) => ({
+      name: tool.name,
+      description: tool.summary,
+      category: tool.category,
+      group: tool.group,
+      parameters: tool.parameters,
+    }));
+  }
+
+  private onConfirmationRequested = (options: ConfirmationOptions): void => {
+    const requestId = randomUUID();
+    this.pendingConfirmation = { requestId, sessionId: this.activeSessionId };
+    this.notify('confirmation.request', {
+      requestId,
+      sessionId: this.activeSessionId,
+      operation: options.operation,
+      filename: options.filename,
+      toolName: options.toolName,
+      target: options.target,
+      content: options.content,
+      suggestedRule: options.suggestedRule,
+    });
+  };
+
+  private respondToConfirmation(params: {
+    requestId?: string;
+    confirmed?: boolean;
+    dontAskAgain?: boolean;
+    alwaysAllow?: boolean;
+    feedback?: string;
+  }) {
+    const requestId = requireString(params, 'requestId');
+    if (typeof params.confirmed !== 'boolean') {
+      throw new JsonRpcError({ message: 'Missing boolean parameter "confirmed"', code: RPC_ERRORS.invalidParams });
+    }
+    if (this.pendingConfirmation?.requestId !== requestId) {
+      throw new JsonRpcError({ message: `No pending confirmation ${requestId}`, code: RPC_ERRORS.noPendingConfirmation });
+    }
+    this.resolveConfirmation(params.confirmed, params);
+    return { resolved: true };
+  }
+
+  private resolveConfirmation(
+    confirmed: boolean,
+    options: { dontAskAgain?: boolean; alwaysAllow?: boolean; feedback?: string }
+  ): void {
+    const { requestId } = this.pendingConfirmation!;
+    this.pendingConfirmation = null;
+    if (confirmed) {
+      this.confirmationService.confirmOperation(true, options.dontAskAgain, options.alwaysAllow);
+    } else {
+      this.confirmationService.rejectOperation(options.feedback);
+    }
+    this.notify('confirmation.resolved', { requestId, confirmed });
+  }
+}
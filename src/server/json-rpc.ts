@@ -0,0 +1,61 @@
+/**
+ * JSON-RPC 2.0 framing shared by the `grok serve` transports
+ */
+
+import { JsonRpcError } from '../types/errors.js';
+import { AgentServer, AgentServerNotification, RPC_ERRORS } from './agent-server.js';
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+function errorResponse(id: JsonRpcId, error: JsonRpcError): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    error: { code: error.code, message: error.message, ...(error.data !== undefined ? { data: error.data } : {}) },
+  };
+}
+
+/**
+ * Handle one request. Resolves with the response, or null for a
+ * notification (a request without an id), which gets no reply.
+ */
+export async function handleJsonRpcMessage(server: AgentServer, message: unknown): Promise<JsonRpcResponse | null> {
+  const request = message as { jsonrpc?: unknown; id?: unknown; method?: unknown; params?: unknown } | null;
+  const id = typeof request?.id === 'string' || typeof request?.id === 'number' ? request.id : null;
+
+  if (!request || typeof request !== 'object' || Array.isArray(request) || request.jsonrpc !== '2.0' || typeof request.method !== 'string') {
+    return errorResponse(id, new JsonRpcError({ message: 'Invalid JSON-RPC 2.0 request', code: RPC_ERRORS.invalidRequest }));
+  }
+
+  const isNotification = request.id === undefined;
+  try {
+    const result = await server.call(request.method, request.params);
+    return isNotification ? null : { jsonrpc: '2.0', id, result };
+  } catch (error) {
+    return isNotification ? null : errorResponse(id, error as JsonRpcError);
+  }
+}
+
+/**
+ * Parse a raw message, answering malformed JSON with a parse error
+ */
+export async function handleJsonRpcText(server: AgentServer, text: string): Promise<JsonRpcResponse | null> {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    return errorResponse(null, new JsonRpcError({ message: 'Parse error', code: RPC_ERRORS.parseError }));
+  }
+  return handleJsonRpcMessage(server, message);
+}
+
+export function toJsonRpcNotification(notification: AgentServerNotification) {
+  return { jsonrpc: '2.0' as const, method: notification.method, params: notification.params };
+}
@@ -0,0 +1,190 @@
+/**
+ * Transports for `grok serve`
+ *
+ * - stdio: newline-delimited JSON-RPC on stdin/stdout, for editors that
+ *   spawn the CLI as a child process
+ * - HTTP: JSON-RPC requests as `POST /rpc` and notifications as server-sent
+ *   events on `GET /events`, bound to localhost and protected by a token
+ */
+
+import { timingSafeEqual } from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as readline from 'readline';
+import { AgentServer, AgentServerNotification, RPC_ERRORS } from './agent-server.js';
+import { handleJsonRpcText, toJsonRpcNotification } from './json-rpc.js';
+
+/** Keeps idle event streams from being closed by proxies and clients */
+const SSE_KEEPALIVE_INTERVAL = 15000;
+
+/** Larger `POST /rpc` bodies are answered with 413 */
+export const MAX_REQUEST_BODY_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Serve JSON-RPC over stdio. Requests are handled concurrently, so a client
+ * can answer a confirmation or abort while `message.send` is pending.
+ * Resolves when stdin ends and every request has been answered.
+ */
+export async function serveStdio(
+  server: AgentServer,
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): Promise<void> {
+  const write = (message: unknown) => output.write(JSON.stringify(message) + '\n');
+  const onNotification = (notification: AgentServerNotification) => write(toJsonRpcNotification(notification));
+  server.on('notification', onNotification);
+
+  const pending = new Set<Promise<void>>();
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      const request = handleJsonRpcText(server, line).then((response) => {
+        if (response) {
+          write(response);
+        }
+      });
+      pending.add(request);
+      request.finally(() => pending.delete(request));
+    }
+    await Promise.all(pending);
+  } finally {
+    server.off('notification', onNotification);
+  }
+}
+
+export interface HttpServerOptions {
+  port: number;
+  /** Required as `Authorization: Bearer <token>`, or `?token=` for EventSource clients */
+  token: string;
+}
+
+function isAuthorized(req: http.IncomingMessage, url: URL, token: string): boolean {
+  const header = req.headers.authorization;
+  const given = header?.startsWith('Bearer ') ? header.slice(7) : url.searchParams.get('token') || '';
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(given);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sendJSON(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read a request body, or resolve with null once it grows past
+ * MAX_REQUEST_BODY_SIZE. The rest is discarded rather than buffered, so the
+ * client can finish sending and read the 413.
+ */
+function readBody(req: http.IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers['content-length']) > MAX_REQUEST_BODY_SIZE) {
+      req.resume();
+      resolve(null);
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_REQUEST_BODY_SIZE) {
+        req.off('data', onData);
+        req.resume();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Listen on 127.0.0.1 and resolve with the running server. Only local
+ * processes can connect, and the token keeps web pages in a local browser
+ * from driving the agent.
+ */
+export async function startHttpServer(server: AgentServer, options: HttpServerOptions): Promise<http.Server> {
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    if (!isAuthorized(req, url, options.token)) {
+      sendJSON(res, 401, { error: 'Missing or invalid token' });
+      return;
+    }
+
+    try {
+      if (req.method === 'POST' && url.pathname === '/rpc') {
+        const body = await readBody(req);
+        if (body === null) {
+          sendJSON(res, 413, { error: `Request body exceeds ${MAX_REQUEST_BODY_SIZE} bytes` });
+          return;
+        }
+        const response = await handleJsonRpcText(server, body);
+        if (response) {
+          sendJSON(res, 200, response);
+        } else {
+          res.writeHead(204).end();
+        }
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === '/events') {
+        streamEvents(server, req, res, url.searchParams.get('sessionId'));
+        return;
+      }
+
+      sendJSON(res, 404, { error: `Not found: ${req.method} ${url.pathname}`, methods: server.getMethodNames() });
+    } catch (error: any) {
+      sendJSON(res, 500, { jsonrpc: '2.0', id: null, error: { code: RPC_ERRORS.internalError, message: error.message } });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, '127.0.0.1', resolve);
+  });
+  return httpServer;
+}
+
+/**
+ * Send notifications as server-sent events named after the method. With a
+ * session id, events of other sessions are left out.
+ */
+function streamEvents(
+  server: AgentServer,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  sessionId: string | null
+): void {
+  res.writeHead(200, {
+    'content-type': 'text/event-stream',
+    'cache-control': 'no-cache',
+    connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+
+  const onNotification = (notification: AgentServerNotification) => {
+    const eventSessionId = notification.params.sessionId;
+    if (sessionId && eventSessionId && eventSessionId !== sessionId) {
+      return;
+    }
+    res.write(`event: ${notification.method}\ndata: ${JSON.stringify(notification.params)}\n\n`);
+  };
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), SSE_KEEPALIVE_INTERVAL);
+
+  server.on('notification', onNotification);
+  req.on('close', () => {
+    clearInterval(keepalive);
+    server.off('notification', onNotification);
+  });
+}
+
+export function getServerURL(httpServer: http.Server): string {
+  const address = httpServer.address() as AddressInfo;
+  return `http://127.0.0.1:${address.port}`;
+}
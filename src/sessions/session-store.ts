@@ -0,0 +1,354 @@
+/**
+ * Session Store
+ *
+ * Persists complete conversations (every GrokMessage including tool calls and
+ * tool results, plus the UI chat history) so they can be resumed after the
+ * terminal dies. Sessions are grouped per project under
+ * ~/.grok/sessions/<project-key>/<session-id>.jsonl and written append-only.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createHash, randomUUID } from 'node:crypto';
+import type { GrokMessage } from '../grok/client.js';
+import type { ChatEntry } from '../agent/grok-agent.js';
+import { debugLog } from '../utils/debug.js';
+
+export interface SessionMetadata {
+  id: string;
+  projectPath: string;
+  model: string;
+  createdAt: string;
+  updatedAt: string;
+  title?: string;
+  forkedFrom?: string;
+  messageCount: number;
+}
+
+export interface SessionData {
+  metadata: SessionMetadata;
+  messages: GrokMessage[];
+  chatHistory: ChatEntry[];
+}
+
+/**
+ * One line of a session file
+ */
+type SessionRecord =
+  | { type: 'session'; id: string; projectPath: string; model: string; createdAt: string; forkedFrom?: string }
+  | { type: 'metadata'; model?: string; title?: string; timestamp: string }
+  | { type: 'message'; message: GrokMessage; timestamp: string }
+  | { type: 'messages_replaced'; messages: GrokMessage[]; timestamp: string }
+  | { type: 'entry'; entry: Omit<ChatEntry, 'timestamp'> & { timestamp: string } };
+
+const MAX_TITLE_LENGTH = 80;
+
+/** Session ids are file names; anything else (separators, `..`) is rejected */
+const SESSION_ID_PATTERN = /^[\w-]+$/;
+
+export const CANCELLED_TOOL_RESULT = 'Tool call was cancelled before it finished';
+
+/**
+ * Make the message list acceptable to the API again after the session ended
+ * mid tool round: tool calls without a result get a "cancelled" result, and
+ * results without a matching call are dropped
+ */
+function repairToolCalls(messages: GrokMessage[]): GrokMessage[] {
+  const repaired: GrokMessage[] = [];
+  let pending: string[] = [];
+
+  const closeRound = () => {
+    for (const id of pending) {
+      repaired.push({ role: 'tool', tool_call_id: id, content: CANCELLED_TOOL_RESULT });
+    }
+    pending = [];
+  };
+
+  for (const message of messages) {
+    if (message.role === 'tool') {
+      if (pending.includes(message.tool_call_id)) {
+        pending = pending.filter((id) => id !== message.tool_call_id);
+        repaired.push(message);
+      }
+      continue;
+    }
+    closeRound();
+    repaired.push(message);
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      pending = message.tool_calls.map((call) => call.id);
+    }
+  }
+  closeRound();
+
+  return repaired;
+}
+
+export class SessionStore {
+  private readonly projectPath: string;
+  private readonly sessionsDir: string;
+
+  constructor(projectPath: string = process.cwd(), rootDir?: string) {
+    this.projectPath = path.resolve(projectPath);
+    const baseDir = rootDir || process.env.GROK_SESSIONS_DIR || path.join(os.homedir(), '.grok', 'sessions');
+    this.sessionsDir = path.join(baseDir, SessionStore.getProjectKey(this.projectPath));
+  }
+
+  /**
+   * Stable, filesystem-safe directory name for a project path
+   */
+  static getProjectKey(projectPath: string): string {
+    const readable = projectPath.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(-60);
+    const hash = createHash('sha256').update(projectPath).digest('hex').substring(0, 8);
+    return `${readable || 'root'}-${hash}`;
+  }
+
+  getSessionsDirectory(): string {
+    return this.sessionsDir;
+  }
+
+  /**
+   * Create a new, empty session and return its metadata
+   */
+  create(model: string, forkedFrom?: string): SessionMetadata {
+    const id = this.generateSessionId();
+    const createdAt = new Date().toISOString();
+
+    this.append(id, {
+      type: 'session',
+      id,
+      projectPath: this.projectPath,
+      model,
+      createdAt,
+      forkedFrom,
+    });
+
+    return {
+      id,
+      projectPath: this.projectPath,
+      model,
+      createdAt,
+      updatedAt: createdAt,
+      forkedFrom,
+      messageCount: 0,
+    };
+  }
+
+  appendMessage(sessionId: string, message: GrokMessage): void {
+    this.append(sessionId, { type: 'message', message, timestamp: new Date().toISOString() });
+  }
+
+  /**
+   * Replace the model-facing message list (e.g. after compaction) without
+   * touching the visible chat history
+   */
+  replaceMessages(sessionId: string, messages: GrokMessage[]): void {
+    this.append(sessionId, { type: 'messages_replaced', messages, timestamp: new Date().toISOString() });
+  }
+
+  appendChatEntry(sessionId: string, entry: ChatEntry): void {
+    this.append(sessionId, {
+      type: 'entry',
+      entry: { ...entry, isStreaming: undefined, timestamp: entry.timestamp.toISOString() },
+    });
+  }
+
+  updateMetadata(sessionId: string, update: { model?: string; title?: string }): void {
+    this.append(sessionId, { type: 'metadata', ...update, timestamp: new Date().toISOString() });
+  }
+
+  exists(sessionId: string): boolean {
+    return SESSION_ID_PATTERN.test(sessionId) && fs.existsSync(this.getSessionPath(sessionId));
+  }
+
+  /**
+   * Load a full session. Accepts a unique id prefix for convenience.
+   */
+  load(sessionId: string): SessionData | null {
+    const resolvedId = this.resolveId(sessionId);
+    if (!resolvedId) {
+      return null;
+    }
+
+    const filePath = this.getSessionPath(resolvedId);
+    let content: string;
+    try {
+      content = fs.readFileSync(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    let metadata: SessionMetadata | null = null;
+    let messages: GrokMessage[] = [];
+    const chatHistory: ChatEntry[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      let record: SessionRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A torn final line (e.g. the process died mid-write) is skipped
+        debugLog(`Skipping malformed session record in ${filePath}`);
+        continue;
+      }
+
+      switch (record.type) {
+        case 'session':
+          metadata = {
+            id: record.id,
+            projectPath: record.projectPath,
+            model: record.model,
+            createdAt: record.createdAt,
+            updatedAt: record.createdAt,
+            forkedFrom: record.forkedFrom,
+            messageCount: 0,
+          };
+          break;
+        case 'metadata':
+          if (metadata) {
+            if (record.model) metadata.model = record.model;
+            if (record.title) metadata.title = record.title;
+            metadata.updatedAt = record.timestamp;
+          }
+          break;
+        case 'message':
+          messages.push(record.message);
+          if (metadata) metadata.updatedAt = record.timestamp;
+          break;
+        case 'messages_replaced':
+          messages = [...record.messages];
+          if (metadata) metadata.updatedAt = record.timestamp;
+          break;
+        case 'entry':
+          chatHistory.push({ ...record.entry, timestamp: new Date(record.entry.timestamp) });
+          if (metadata) metadata.updatedAt = record.entry.timestamp;
+          break;
+      }
+    }
+
+    if (!metadata) {
+      return null;
+    }
+
+    messages = repairToolCalls(messages);
+    metadata.messageCount = messages.filter((m) => m.role !== 'system').length;
+    if (!metadata.title) {
+      metadata.title = this.deriveTitle(chatHistory);
+    }
+
+    return { metadata, messages, chatHistory };
+  }
+
+  /**
+   * List sessions for this project, most recently updated first
+   */
+  list(): SessionMetadata[] {
+    if (!fs.existsSync(this.sessionsDir)) {
+      return [];
+    }
+
+    const sessions: SessionMetadata[] = [];
+    for (const file of fs.readdirSync(this.sessionsDir)) {
+      if (!file.endsWith('.jsonl')) continue;
+      const data = this.load(path.basename(file, '.jsonl'));
+      if (data) {
+        sessions.push(data.metadata);
+      }
+    }
+
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  getMostRecent(): SessionMetadata | null {
+    return this.list()[0] || null;
+  }
+
+  /**
+   * Copy a session into a new one so the original stays untouched
+   */
+  fork(sessionId: string): SessionData | null {
+    const source = this.load(sessionId);
+    if (!source) {
+      return null;
+    }
+
+    const metadata = this.create(source.metadata.model, source.metadata.id);
+    if (source.metadata.title) {
+      this.updateMetadata(metadata.id, { title: `${source.metadata.title} (fork)` });
+    }
+    this.replaceMessages(metadata.id, source.messages);
+    for (const entry of source.chatHistory) {
+      this.appendChatEntry(metadata.id, entry);
+    }
+
+    return this.load(metadata.id);
+  }
+
+  delete(sessionId: string): boolean {
+    const resolvedId = this.resolveId(sessionId);
+    if (!resolvedId) {
+      return false;
+    }
+
+    try {
+      fs.unlinkSync(this.getSessionPath(resolvedId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve a full id or unique prefix to a session id
+   */
+  private resolveId(sessionId: string): string | null {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return null;
+    }
+    if (this.exists(sessionId)) {
+      return sessionId;
+    }
+    if (!fs.existsSync(this.sessionsDir)) {
+      return null;
+    }
+
+    const matches = fs.readdirSync(this.sessionsDir)
+      .filter((file) => file.endsWith('.jsonl') && file.startsWith(sessionId))
+      .map((file) => path.basename(file, '.jsonl'));
+
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  private deriveTitle(chatHistory: ChatEntry[]): string | undefined {
+    const firstUserEntry = chatHistory.find((entry) => entry.type === 'user');
+    if (!firstUserEntry) {
+      return undefined;
+    }
+    const singleLine = firstUserEntry.content.replace(/\s+/g, ' ').trim();
+    return singleLine.length > MAX_TITLE_LENGTH
+      ? `${singleLine.substring(0, MAX_TITLE_LENGTH - 3)}...`
+      : singleLine;
+  }
+
+  private append(sessionId: string, record: SessionRecord): void {
+    if (!fs.existsSync(this.sessionsDir)) {
+      fs.mkdirSync(this.sessionsDir, { recursive: true, mode: 0o700 });
+    }
+    fs.appendFileSync(this.getSessionPath(sessionId), JSON.stringify(record) + '\n', { mode: 0o600 });
+  }
+
+  private getSessionPath(sessionId: string): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session id: ${sessionId}`);
+    }
+    return path.join(this.sessionsDir, `${sessionId}.jsonl`);
+  }
+
+  private generateSessionId(): string {
+    // Sortable by creation time, unique enough to use short prefixes
+    const timestamp = new Date().toISOString().replace(/[-:T]/g, '').substring(0, 14);
+    return `${timestamp}-${randomUUID().substring(0, 8)}`;
+  }
+}
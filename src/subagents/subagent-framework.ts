@@ -1,8 +1,31 @@
+import { GrokClient, GrokMessage, GrokTool, GrokToolCall } from '../grok/client.js';
+import { DEFAULT_PROVIDER, resolveModel } from '../providers/config.js';
+import { routeModel } from '../agent/model-router.js';
+import { ToolResult } from '../types/index.js';
+import { getSettingsManager } from '../utils/settings-manager.js';
+import { createTokenCounter } from '../utils/token-counter.js';
+import { debugLog } from '../utils/debug.js';
+
 export interface SubagentConfig {
   type: 'docgen' | 'prd-assistant' | 'delta' | 'token-optimizer' | 'summarizer' | 'sentinel' | 'regression-hunter' | 'guardrail';
+  description: string;
+  /** Token budget for the whole subagent conversation (prompt + completion, all rounds) */
   contextLimit: number;
   timeout: number;
   maxRetries: number;
+  /** Tools the subagent may call; everything else is hidden from it */
+  allowedTools: string[];
+  /** JSON shape the subagent must answer with */
+  outputFormat: string;
+}
+
+export interface SubagentFrameworkOptions {
+  /** Creates a fresh client per run so subagent conversations stay isolated */
+  createClient?: () => GrokClient;
+  /** Executes a tool call on behalf of a subagent; without it subagents run tool-less */
+  executeTool?: (toolCall: GrokToolCall) => Promise<ToolResult>;
+  /** Tool schemas subagents pick their allowed tools from */
+  getTools?: () => GrokTool[];
 }
 
 export interface SubagentTask {
@@ -33,64 +56,137 @@ export interface SubagentContext {
   tokenBudget: number;
 }
 
+export const SUBAGENT_TYPES: SubagentConfig['type'][] = [
+  'docgen',
+  'prd-assistant',
+  'delta',
+  'token-optimizer',
+  'summarizer',
+  'sentinel',
+  'regression-hunter',
+  'guardrail',
+];
+
+const MAX_SUBAGENT_TOOL_ROUNDS = 15;
+const MAX_TOOL_OUTPUT_CHARS = 8000;
+
+/**
+ * Raised when a subagent runs out of its token budget; not retried
+ */
+class SubagentBudgetError extends Error {
+  constructor(tokensUsed: number, budget: number) {
+    super(`Token budget exceeded (${tokensUsed}/${budget} tokens)`);
+    this.name = 'SubagentBudgetError';
+  }
+}
+
 export class SubagentFramework {
   private activeTasks: Map<string, SubagentTask> = new Map();
   private results: Map<string, SubagentResult> = new Map();
   private configs: Map<SubagentConfig['type'], SubagentConfig> = new Map();
-
-  constructor() {
+  private createClient: () => GrokClient;
+  private executeTool?: (toolCall: GrokToolCall) => Promise<ToolResult>;
+  private getTools: () => GrokTool[];
+
+  constructor(options: SubagentFrameworkOptions = {}) {
+    this.createClient = options.createClient || SubagentFramework.createDefaultClient;
+    this.executeTool = options.executeTool;
+    this.getTools = options.getTools || (() => []);
     this.initializeConfigs();
   }
 
+  private static createDefaultClient(): GrokClient {
+    const manager = getSettingsManager();
+    const apiKey = manager.getApiKey();
+    const model = routeModel(manager.getModelRouting(), 'subagent', manager.getCurrentModel()).model;
+    if (!apiKey && resolveModel(model).provider.name === DEFAULT_PROVIDER) {
+      throw new Error('API key required to run subagents');
+    }
+    return new GrokClient(apiKey || '', model, manager.getBaseURL(), {
+      timeout: manager.getTimeout(),
+      temperature: manager.getTemperature(),
+      maxTokens: manager.getMaxTokens(),
+      fallbackModel: manager.getFallbackModel(),
+    });
+  }
+
+  getConfig(type: SubagentConfig['type']): SubagentConfig | undefined {
+    return this.configs.get(type);
+  }
+
   private initializeConfigs(): void {
     const defaultConfigs: Record<SubagentConfig['type'], SubagentConfig> = {
       'docgen': {
         type: 'docgen',
-        contextLimit: 2000,
-        timeout: 30000,
-        maxRetries: 2
+        description: 'Writes documentation for a project, module or file',
+        contextLimit: 32000,
+        timeout: 120000,
+        maxRetries: 2,
+        allowedTools: ['view_file', 'search'],
+        outputFormat: '{"documentType": string, "content": string (markdown), "metadata": {"wordCount": number}}'
       },
       'prd-assistant': {
         type: 'prd-assistant',
-        contextLimit: 2000,
-        timeout: 20000,
-        maxRetries: 1
+        description: 'Reviews a PRD against the existing codebase for gaps and conflicts',
+        contextLimit: 16000,
+        timeout: 60000,
+        maxRetries: 1,
+        allowedTools: ['view_file', 'search'],
+        outputFormat: '{"suggestions": string[], "conflicts": string[], "similarTasks": string[], "architectureImpact": string}'
       },
       'delta': {
         type: 'delta',
-        contextLimit: 1500,
-        timeout: 15000,
-        maxRetries: 1
+        description: 'Summarizes the impact of changes between two git revisions',
+        contextLimit: 16000,
+        timeout: 60000,
+        maxRetries: 1,
+        allowedTools: ['bash', 'view_file'],
+        outputFormat: '{"filesChanged": string[], "architectureChanges": boolean, "newFeatures": string[], "impact": string}'
       },
       'token-optimizer': {
         type: 'token-optimizer',
-        contextLimit: 1000,
-        timeout: 10000,
-        maxRetries: 1
+        description: 'Suggests ways to reduce token usage of a conversation or prompt',
+        contextLimit: 8000,
+        timeout: 30000,
+        maxRetries: 1,
+        allowedTools: [],
+        outputFormat: '{"currentUsage": number, "optimizedUsage": number, "reduction": number, "suggestions": string[]}'
       },
       'summarizer': {
         type: 'summarizer',
-        contextLimit: 2000,
-        timeout: 25000,
-        maxRetries: 2
+        description: 'Compresses long content while keeping the key information',
+        contextLimit: 24000,
+        timeout: 90000,
+        maxRetries: 2,
+        allowedTools: [],
+        outputFormat: '{"summary": string, "keyPoints": string[], "compressionRatio": number (0-1, fraction of content removed)}'
       },
       'sentinel': {
         type: 'sentinel',
-        contextLimit: 1000,
-        timeout: 10000,
-        maxRetries: 1
+        description: 'Looks for error patterns in logs and recent commands',
+        contextLimit: 8000,
+        timeout: 30000,
+        maxRetries: 1,
+        allowedTools: ['view_file', 'search'],
+        outputFormat: '{"errorsDetected": number, "patternsFound": string[], "recommendations": string[], "alertLevel": "green" | "yellow" | "red"}'
       },
       'regression-hunter': {
         type: 'regression-hunter',
-        contextLimit: 1500,
-        timeout: 15000,
-        maxRetries: 1
+        description: 'Checks proposed changes against known failure patterns',
+        contextLimit: 16000,
+        timeout: 60000,
+        maxRetries: 1,
+        allowedTools: ['view_file', 'search', 'bash'],
+        outputFormat: '{"riskLevel": "low" | "medium" | "high", "potentialIssues": string[], "recommendations": string[], "testsSuggested": string[]}'
       },
       'guardrail': {
         type: 'guardrail',
-        contextLimit: 1000,
-        timeout: 10000,
-        maxRetries: 1
+        description: 'Validates a plan against project rules and constraints',
+        contextLimit: 8000,
+        timeout: 30000,
+        maxRetries: 1,
+        allowedTools: ['view_file', 'search'],
+        outputFormat: '{"violationsFound": string[], "warnings": string[], "compliance": "passed" | "failed", "newRuleSuggestions": string[]}'
       }
     };
 
@@ -109,12 +205,23 @@ export class SubagentFramework {
 
     this.activeTasks.set(taskId, fullTask);
 
-    // Execute subagent in background (simulated)
+    // Execute subagent in background
     this.executeSubagent(fullTask);
 
     return taskId;
   }
 
+  /**
+   * Spawn a subagent and wait for its result
+   */
+  async runSubagent(task: Omit<SubagentTask, 'id' | 'createdAt'>): Promise<SubagentResult> {
+    const config = this.configs.get(task.type);
+    const attempts = (config?.maxRetries ?? 0) + 1;
+    const taskId = await this.spawnSubagent(task);
+    // Each attempt has its own timeout, plus the backoff between attempts
+    return this.waitForResult(taskId, (config?.timeout ?? 30000) * attempts + attempts * 1000);
+  }
+
   private async executeSubagent(task: SubagentTask): Promise<void> {
     const config = this.configs.get(task.type);
     if (!config) {
@@ -131,8 +238,14 @@ export class SubagentFramework {
     }
 
     const startTime = Date.now();
+    let tokensUsed = 0;
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await this.delay(1000 * attempt);
+      }
 
-    try {
       // Create isolated context for subagent
       const context: SubagentContext = {
         id: this.generateContextId(),
@@ -143,28 +256,40 @@ export class SubagentFramework {
         tokenBudget: config.contextLimit
       };
 
-      // Simulate subagent execution
-      const result = await this.executeInIsolatedContext(context, config);
-
-      this.setResult(task.id, {
-        taskId: task.id,
-        type: task.type,
-        success: true,
-        output: result.output,
-        tokensUsed: result.tokensUsed,
-        executionTime: Date.now() - startTime,
-        summary: result.summary
-      });
+      try {
+        const result = await this.executeInIsolatedContext(context, config);
+        tokensUsed += result.tokensUsed;
+
+        this.setResult(task.id, {
+          taskId: task.id,
+          type: task.type,
+          success: true,
+          output: result.output,
+          tokensUsed,
+          executionTime: Date.now() - startTime,
+          summary: result.summary
+        });
+        lastError = null;
+        break;
+      } catch (error: any) {
+        tokensUsed += error.tokensUsed || 0;
+        lastError = error;
+        debugLog(`Subagent ${task.type} attempt ${attempt + 1} failed:`, error.message);
+        if (error instanceof SubagentBudgetError) {
+          break;
+        }
+      }
+    }
 
-    } catch (error: any) {
+    if (lastError) {
       this.setResult(task.id, {
         taskId: task.id,
         type: task.type,
         success: false,
-        error: error.message,
-        tokensUsed: 0,
+        error: lastError.message,
+        tokensUsed,
         executionTime: Date.now() - startTime,
-        summary: `Failed: ${error.message}`
+        summary: `Failed: ${lastError.message}`
       });
     }
 
@@ -174,187 +299,129 @@ export class SubagentFramework {
 
   private async executeInIsolatedContext(
     context: SubagentContext,
-    _config: SubagentConfig
+    config: SubagentConfig
   ): Promise<{ output: any; tokensUsed: number; summary: string }> {
-
-    // This is where we would integrate with the actual AI model
-    // For now, we'll simulate the execution based on the subagent type
-
-    switch (context.type) {
-      case 'docgen':
-        return this.simulateDocGenAgent(context);
-      case 'prd-assistant':
-        return this.simulatePRDAssistantAgent(context);
-      case 'delta':
-        return this.simulateDeltaAgent(context);
-      case 'token-optimizer':
-        return this.simulateTokenOptimizerAgent(context);
-      case 'summarizer':
-        return this.simulateSummarizerAgent(context);
-      case 'sentinel':
-        return this.simulateSentinelAgent(context);
-      case 'regression-hunter':
-        return this.simulateRegressionHunterAgent(context);
-      case 'guardrail':
-        return this.simulateGuardrailAgent(context);
-      default:
-        throw new Error(`Unsupported subagent type: ${context.type}`);
-    }
-  }
-
-  private async simulateDocGenAgent(context: SubagentContext): Promise<{ output: any; tokensUsed: number; summary: string }> {
-    const { projectPath, docType } = context.data;
-
-    // Simulate document generation
-    await this.delay(2000); // Simulate processing time
-
-    return {
-      output: {
-        documentType: docType,
-        content: `# Generated ${docType}\n\nThis is a generated document for ${projectPath}.\n\n*Generated by DocGenAgent*`,
-        metadata: {
-          projectPath,
-          generatedAt: new Date().toISOString(),
-          wordCount: 150
+    const client = this.createClient();
+    const tokenCounter = createTokenCounter(client.getCurrentModel());
+    const tools = this.executeTool
+      ? this.getTools().filter(tool => config.allowedTools.includes(tool.function.name))
+      : [];
+    const messages: GrokMessage[] = [
+      { role: 'system', content: this.generateSystemPrompt(config, tools) },
+      { role: 'user', content: context.prompt },
+    ];
+
+    let tokensUsed = 0;
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const run = async (): Promise<{ output: any; tokensUsed: number; summary: string }> => {
+      for (let round = 0; round <= MAX_SUBAGENT_TOOL_ROUNDS; round++) {
+        const promptTokens = tokenCounter.countMessageTokens(messages as any);
+        if (tokensUsed + promptTokens > context.tokenBudget) {
+          throw Object.assign(new SubagentBudgetError(tokensUsed + promptTokens, context.tokenBudget), { tokensUsed });
         }
-      },
-      tokensUsed: 1500,
-      summary: `Generated ${docType} documentation (150 words)`
-    };
-  }
-
-  private async simulatePRDAssistantAgent(context: SubagentContext): Promise<{ output: any; tokensUsed: number; summary: string }> {
-    const { prdPath: _prdPath, prdContent: _prdContent } = context.data;
 
-    await this.delay(1500);
+        // On the last round, withhold tools so the subagent has to answer
+        const roundTools = round < MAX_SUBAGENT_TOOL_ROUNDS ? tools : [];
+        const response = await client.chat(messages, roundTools);
+        const message = response.choices[0]?.message;
+        tokensUsed += response.usage?.total_tokens
+          ?? promptTokens + tokenCounter.countTokens(message?.content || '');
 
-    return {
-      output: {
-        suggestions: [
-          'Consider existing MCP integration patterns',
-          'Reference user-settings.json structure',
-          'Check CLI command naming conventions'
-        ],
-        conflicts: [],
-        similarTasks: ['user-management-prd.md'],
-        architectureImpact: 'May need new tools/ folder'
-      },
-      tokensUsed: 1200,
-      summary: `Analyzed PRD: 3 suggestions, 1 similar task found`
-    };
-  }
-
-  private async simulateDeltaAgent(context: SubagentContext): Promise<{ output: any; tokensUsed: number; summary: string }> {
-    const { fromCommit, toCommit: _toCommit } = context.data;
-
-    await this.delay(1000);
-
-    return {
-      output: {
-        filesChanged: ['src/tools/documentation/', 'src/hooks/use-input-handler.ts'],
-        architectureChanges: true,
-        newFeatures: ['documentation system'],
-        impact: 'Major feature addition - documentation generation'
-      },
-      tokensUsed: 800,
-      summary: `Analyzed changes from ${fromCommit}: 2 files, architecture changes detected`
-    };
-  }
-
-  private async simulateTokenOptimizerAgent(context: SubagentContext): Promise<{ output: any; tokensUsed: number; summary: string }> {
-    const { currentTokens, targetReduction: _targetReduction } = context.data;
-
-    await this.delay(500);
-
-    return {
-      output: {
-        currentUsage: currentTokens,
-        optimizedUsage: Math.floor(currentTokens * 0.3),
-        reduction: Math.floor(currentTokens * 0.7),
-        suggestions: [
-          'Compress conversation history',
-          'Archive old tool results',
-          'Summarize repeated patterns'
-        ]
-      },
-      tokensUsed: 300,
-      summary: `Token optimization: ${Math.floor(currentTokens * 0.7)} tokens can be saved (70% reduction)`
-    };
-  }
-
-  private async simulateSummarizerAgent(context: SubagentContext): Promise<{ output: any; tokensUsed: number; summary: string }> {
-    const { content, compressionTarget } = context.data;
+        if (timedOut) {
+          throw new Error(`Subagent timed out after ${config.timeout}ms`);
+        }
+        if (!message) {
+          throw new Error('No response from model');
+        }
 
-    await this.delay(2500);
+        if (!message.tool_calls || message.tool_calls.length === 0 || roundTools.length === 0) {
+          return { ...this.parseFinalAnswer(message.content || ''), tokensUsed };
+        }
 
-    const originalLength = content.length;
-    const targetLength = Math.floor(originalLength * (compressionTarget || 0.3));
+        messages.push({
+          role: 'assistant',
+          content: message.content || '',
+          tool_calls: message.tool_calls,
+        } as any);
+
+        for (const toolCall of message.tool_calls) {
+          const result = config.allowedTools.includes(toolCall.function.name)
+            ? await this.executeTool!(toolCall)
+            : { success: false, error: `Tool ${toolCall.function.name} is not available to the ${config.type} subagent` };
+          const content = result.success ? result.output || 'Success' : result.error || 'Error';
+          messages.push({
+            role: 'tool',
+            tool_call_id: toolCall.id,
+            content: content.length > MAX_TOOL_OUTPUT_CHARS
+              ? `${content.substring(0, MAX_TOOL_OUTPUT_CHARS)}\n... [truncated]`
+              : content,
+          });
+        }
+      }
 
-    return {
-      output: {
-        originalLength,
-        compressedLength: targetLength,
-        compressionRatio: 1 - (compressionTarget || 0.3),
-        summary: content.substring(0, targetLength) + '...',
-        keyPoints: [
-          'Main objectives completed',
-          'Documentation system implemented',
-          'Multiple commands added'
-        ]
-      },
-      tokensUsed: 1800,
-      summary: `Compressed content from ${originalLength} to ${targetLength} chars (${Math.round((1 - (compressionTarget || 0.3)) * 100)}% reduction)`
+      throw new Error(`Subagent exceeded ${MAX_SUBAGENT_TOOL_ROUNDS} tool rounds`);
     };
-  }
-
-  private async simulateSentinelAgent(context: SubagentContext): Promise<{ output: any; tokensUsed: number; summary: string }> {
-    const { errorLogs: _errorLogs, recentCommands: _recentCommands } = context.data;
 
-    await this.delay(800);
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        reject(Object.assign(new Error(`Subagent timed out after ${config.timeout}ms`), { tokensUsed }));
+      }, config.timeout);
+    });
 
-    return {
-      output: {
-        errorsDetected: 0,
-        patternsFound: [],
-        recommendations: ['System running normally'],
-        alertLevel: 'green'
-      },
-      tokensUsed: 400,
-      summary: 'System monitoring: No issues detected'
-    };
+    try {
+      return await Promise.race([run(), timeout]);
+    } catch (error: any) {
+      // Keep track of tokens spent by failed attempts
+      if (error && error.tokensUsed === undefined) {
+        error.tokensUsed = tokensUsed;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      tokenCounter.dispose();
+    }
   }
 
-  private async simulateRegressionHunterAgent(context: SubagentContext): Promise<{ output: any; tokensUsed: number; summary: string }> {
-    const { proposedChanges: _proposedChanges, knownFailures: _knownFailures } = context.data;
+  private generateSystemPrompt(config: SubagentConfig, tools: GrokTool[]): string {
+    const toolList = tools.length > 0
+      ? `You may use these tools to gather information: ${tools.map(tool => tool.function.name).join(', ')}.`
+      : 'You have no tools; work only from the input you are given.';
 
-    await this.delay(1200);
+    return `You are a focused ${config.type} subagent working for a coding assistant in ${process.cwd()}.
+Your job: ${config.description}.
+${toolList}
+Your token budget is ${config.contextLimit} tokens for the whole task, so read only what you need.
 
-    return {
-      output: {
-        riskLevel: 'low',
-        potentialIssues: [],
-        recommendations: ['Changes appear safe to proceed'],
-        testsSuggested: []
-      },
-      tokensUsed: 900,
-      summary: 'Regression analysis: Low risk, no conflicts with known failures'
-    };
+When you are done, reply with ONLY a JSON object of this shape:
+{"summary": string (one sentence describing the result), "output": ${config.outputFormat}}`;
   }
 
-  private async simulateGuardrailAgent(context: SubagentContext): Promise<{ output: any; tokensUsed: number; summary: string }> {
-    const { planDescription: _planDescription, rules: _rules } = context.data;
+  /**
+   * Parse the subagent's final JSON answer, falling back to plain text
+   */
+  private parseFinalAnswer(content: string): { output: any; summary: string } {
+    const trimmed = content.trim();
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1] : trimmed.substring(trimmed.indexOf('{'), trimmed.lastIndexOf('}') + 1);
 
-    await this.delay(600);
+    try {
+      const parsed = JSON.parse(candidate);
+      if (parsed && typeof parsed === 'object') {
+        return {
+          output: parsed.output ?? parsed,
+          summary: typeof parsed.summary === 'string' ? parsed.summary : 'Subagent completed',
+        };
+      }
+    } catch {
+      // Not JSON - return the raw text below
+    }
 
     return {
-      output: {
-        violationsFound: [],
-        warnings: [],
-        compliance: 'passed',
-        newRuleSuggestions: []
-      },
-      tokensUsed: 350,
-      summary: 'Guardrail check: All rules satisfied'
+      output: { text: trimmed },
+      summary: trimmed.split('\n')[0].substring(0, 200) || 'Subagent completed',
     };
   }
 
@@ -371,6 +438,9 @@ export class SubagentFramework {
   }
 
   private generatePromptForType(type: SubagentConfig['type'], input: any): string {
+    if (typeof input === 'string') {
+      input = { task: input };
+    }
     const prompts: Record<SubagentConfig['type'], string> = {
       'docgen': `Generate documentation for the provided project. Focus on clarity and completeness. Input: ${JSON.stringify(input)}`,
       'prd-assistant': `Analyze this PRD for potential issues, suggestions, and conflicts with existing project context. Input: ${JSON.stringify(input)}`,
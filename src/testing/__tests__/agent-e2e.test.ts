@@ -0,0 +1,467 @@
+/**
+ * End-to-End Tests for the Agent Loop
+ *
+ * Runs GrokAgent against the local mock API server, so tool calls,
+ * confirmations, self-correction and record/replay are tested offline
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GrokAgent, StreamingChunk } from '../../agent/grok-agent.js';
+import { CANCELLED_TOOL_RESULT, SessionStore } from '../../sessions/session-store.js';
+import { OperationHistoryTool } from '../../tools/advanced/operation-history.js';
+import { generateCommitMessage } from '../../utils/commit-message.js';
+import { ConfirmationService } from '../../utils/confirmation-service.js';
+import { HeadlessEvent, streamAgentEvents } from '../../utils/headless-output.js';
+import { MockGrokServer, MockScript, loadMockScript } from '../mock-server.js';
+import { RecordingProxy } from '../recorder.js';
+
+describe('Agent End-to-End - Mock API Server', () => {
+  const originalCwd = process.cwd();
+  const originalHome = process.env.HOME;
+  let tempDir: string;
+  let projectDir: string;
+  let server: MockGrokServer | null = null;
+  const confirmationService = ConfirmationService.getInstance();
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-e2e-'));
+    projectDir = path.join(tempDir, 'project');
+    fs.mkdirSync(projectDir);
+    // Settings, sessions and the usage ledger stay inside the temp dir
+    process.env.HOME = path.join(tempDir, 'home');
+    process.chdir(projectDir);
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+    server = null;
+    confirmationService.resetSession();
+    confirmationService.removeAllListeners('confirmation-requested');
+  });
+
+  async function runAgent(baseURL: string, prompt: string): Promise<{ chunks: StreamingChunk[]; content: string }> {
+    const agent = new GrokAgent('test-key', baseURL, 'grok-code-fast-1', 10);
+    const chunks: StreamingChunk[] = [];
+    for await (const chunk of agent.processUserMessageStream(prompt)) {
+      chunks.push(chunk);
+    }
+    const content = chunks.filter((chunk) => chunk.type === 'content').map((chunk) => chunk.content).join('');
+    return { chunks, content };
+  }
+
+  async function startServer(script: MockScript): Promise<string> {
+    server = new MockGrokServer(script);
+    return server.start();
+  }
+
+  function toolResults(chunks: StreamingChunk[]) {
+    return chunks.filter((chunk) => chunk.type === 'tool_result' && !chunk.isPartial).map((chunk) => chunk.toolResult!);
+  }
+
+  describe('Tool Loop', () => {
+    it('should run streamed tool calls and send the results back', async () => {
+      confirmationService.setSessionFlag('allOperations', true);
+      const baseURL = await startServer({
+        version: 1,
+        responses: [
+          { toolCalls: [{ name: 'create_file', arguments: { path: 'hello.txt', content: 'Hello from the mock server\n' } }] },
+          { content: 'Created hello.txt with a greeting.' },
+        ],
+      });
+
+      const { chunks, content } = await runAgent(baseURL, 'create hello.txt');
+
+      expect(fs.readFileSync(path.join(projectDir, 'hello.txt'), 'utf-8')).toBe('Hello from the mock server\n');
+      expect(toolResults(chunks).map((result) => result.success)).toEqual([true]);
+      expect(content).toContain('Created hello.txt with a greeting.');
+
+      expect(server!.requests).toHaveLength(2);
+      expect(server!.requests[0].stream).toBe(true);
+      const toolMessage = server!.requests[1].messages.at(-1);
+      expect(toolMessage.role).toBe('tool');
+      expect(toolMessage.tool_call_id).toBe('call_mock-1_1');
+      expect(server!.getRemainingResponses()).toBe(0);
+    });
+
+    it('should fail the run when the script runs out', async () => {
+      const baseURL = await startServer({ version: 1, responses: [] });
+
+      const { content } = await runAgent(baseURL, 'hello');
+
+      expect(content).toContain('Mock script exhausted');
+    });
+  });
+
+  describe('Confirmation Flow', () => {
+    it('should apply an edit once the user confirms it', async () => {
+      confirmationService.on('confirmation-requested', () => confirmationService.confirmOperation(true));
+      const baseURL = await startServer({
+        version: 1,
+        responses: [
+          { toolCalls: [{ name: 'create_file', arguments: { path: 'approved.txt', content: 'approved' } }] },
+          { content: 'Done.' },
+        ],
+      });
+
+      await runAgent(baseURL, 'create approved.txt');
+
+      expect(fs.readFileSync(path.join(projectDir, 'approved.txt'), 'utf-8')).toBe('approved');
+    });
+
+    it('should report a rejected edit to the model without applying it', async () => {
+      confirmationService.on('confirmation-requested', () => confirmationService.rejectOperation('Use a different name'));
+      const baseURL = await startServer({
+        version: 1,
+        responses: [
+          { toolCalls: [{ name: 'create_file', arguments: { path: 'rejected.txt', content: 'rejected' } }] },
+          { content: 'Understood.' },
+        ],
+      });
+
+      const { chunks } = await runAgent(baseURL, 'create rejected.txt');
+
+      expect(fs.existsSync(path.join(projectDir, 'rejected.txt'))).toBe(false);
+      expect(toolResults(chunks)[0]).toMatchObject({ success: false, error: 'Use a different name' });
+      expect(server!.requests[1].messages.at(-1)).toMatchObject({ role: 'tool', content: 'Use a different name' });
+    });
+  });
+
+  describe('Headless Confirmations', () => {
+    const settingsPath = () => path.join(projectDir, '.grok', 'settings.json');
+
+    afterEach(() => {
+      fs.rmSync(settingsPath(), { force: true });
+    });
+
+    it('should decline an operation an ask rule holds when nothing can confirm it', async () => {
+      // Headless mode approves everything, but ask rules still need an answer
+      confirmationService.setSessionFlag('allOperations', true);
+      fs.mkdirSync(path.dirname(settingsPath()), { recursive: true });
+      fs.writeFileSync(settingsPath(), JSON.stringify({ permissions: { ask: ['create_file(secret/**)'] } }));
+      const baseURL = await startServer({
+        version: 1,
+        responses: [
+          { toolCalls: [{ name: 'create_file', arguments: { path: 'secret/key.txt', content: 'key' } }] },
+          { content: 'Could not create it.' },
+        ],
+      });
+
+      const { chunks, content } = await runAgent(baseURL, 'create secret/key.txt');
+
+      expect(fs.existsSync(path.join(projectDir, 'secret', 'key.txt'))).toBe(false);
+      expect(toolResults(chunks)[0].success).toBe(false);
+      expect(toolResults(chunks)[0].error).toContain('requires confirmation');
+      expect(content).toContain('Could not create it.');
+    });
+
+    it('should keep the permission rules a command removes from the project settings', async () => {
+      confirmationService.setSessionFlag('allOperations', true);
+      fs.mkdirSync(path.dirname(settingsPath()), { recursive: true });
+      fs.writeFileSync(settingsPath(), JSON.stringify({ permissions: { ask: ['create_file(secret/**)'] } }));
+      const baseURL = await startServer({
+        version: 1,
+        responses: [
+          { toolCalls: [{ name: 'bash', arguments: { command: `echo '{}' > ${settingsPath()}` } }] },
+          { toolCalls: [{ name: 'create_file', arguments: { path: 'secret/key.txt', content: 'key' } }] },
+          { content: 'Done.' },
+        ],
+      });
+
+      const { chunks } = await runAgent(baseURL, 'create secret/key.txt');
+
+      expect(fs.readFileSync(settingsPath(), 'utf-8').trim()).toBe('{}');
+      expect(fs.existsSync(path.join(projectDir, 'secret', 'key.txt'))).toBe(false);
+      expect(toolResults(chunks)[1].error).toContain('requires confirmation');
+    });
+  });
+
+  describe('Run Budget', () => {
+    const settingsPath = () => path.join(projectDir, '.grok', 'settings.json');
+
+    afterEach(() => {
+      fs.rmSync(settingsPath(), { force: true });
+    });
+
+    it('should count every file of a multi_file_edit against the files-changed budget', async () => {
+      confirmationService.setSessionFlag('allOperations', true);
+      fs.mkdirSync(path.dirname(settingsPath()), { recursive: true });
+      fs.writeFileSync(settingsPath(), JSON.stringify({ budget: { maxFilesChanged: 1 } }));
+      const baseURL = await startServer({
+        version: 1,
+        responses: [
+          {
+            toolCalls: [{
+              name: 'multi_file_edit',
+              arguments: {
+                operation: 'execute_multi_file',
+                operations: [
+                  { type: 'create', filePath: 'budget-a.txt', content: 'a' },
+                  { type: 'create', filePath: 'budget-b.txt', content: 'b' },
+                ],
+              },
+            }],
+          },
+          { content: 'Created both files.' },
+        ],
+      });
+
+      const { chunks, content } = await runAgent(baseURL, 'create two files');
+
+      expect(fs.existsSync(path.join(projectDir, 'budget-a.txt'))).toBe(false);
+      expect(fs.existsSync(path.join(projectDir, 'budget-b.txt'))).toBe(false);
+      expect(toolResults(chunks)[0].error).toContain('Files-changed budget exceeded: 2 files of 1 file max');
+      expect(content).not.toContain('Created both files.');
+    });
+
+    it('should count the files a rename moves, although its arguments only name the directory', async () => {
+      confirmationService.setSessionFlag('allOperations', true);
+      fs.mkdirSync(path.dirname(settingsPath()), { recursive: true });
+      fs.writeFileSync(settingsPath(), JSON.stringify({ budget: { maxFilesChanged: 2 } }));
+      fs.mkdirSync(path.join(projectDir, 'rename-src'));
+      fs.writeFileSync(path.join(projectDir, 'rename-src', 'a.ts'), 'a');
+      fs.writeFileSync(path.join(projectDir, 'rename-src', 'b.ts'), 'b');
+      const baseURL = await startServer({
+        version: 1,
+        responses: [
+          {
+            toolCalls: [{
+              name: 'file_tree_ops',
+              arguments: { operation: 'bulk_operations', operations: [{ type: 'rename', source: 'rename-src', destination: 'rename-dst' }] },
+            }],
+          },
+          { content: 'Renamed the directory.' },
+        ],
+      });
+
+      const { content } = await runAgent(baseURL, 'rename rename-src');
+
+      expect(fs.existsSync(path.join(projectDir, 'rename-dst', 'a.ts'))).toBe(true);
+      expect(content).toContain('Files-changed budget exceeded: 4 files of 2 files max');
+      expect(content).not.toContain('Renamed the directory.');
+    });
+
+    it('should count the files an undo restores', async () => {
+      confirmationService.setSessionFlag('allOperations', true);
+      fs.mkdirSync(path.dirname(settingsPath()), { recursive: true });
+      fs.writeFileSync(settingsPath(), JSON.stringify({ budget: { maxFilesChanged: 1 } }));
+      const history = new OperationHistoryTool();
+      const files = ['undo-a.txt', 'undo-b.txt'].map((file) => path.join(projectDir, file));
+      const before = await history.captureSnapshots(files);
+      files.forEach((file) => fs.writeFileSync(file, 'created'));
+      await history.recordOperation('multi_file_edit', 'Create two files', files, { type: 'multi_file', files: before });
+      const baseURL = await startServer({
+        version: 1,
+        responses: [
+          { toolCalls: [{ name: 'operation_history', arguments: { operation: 'undo' } }] },
+          { content: 'Undid the change.' },
+        ],
+      });
+
+      const { content } = await runAgent(baseURL, 'undo that');
+
+      expect(files.some((file) => fs.existsSync(file))).toBe(false);
+      expect(content).toContain('Files-changed budget exceeded: 2 files of 1 file max');
+      expect(content).not.toContain('Undid the change.');
+    });
+  });
+
+  describe('Model Routing', () => {
+    const settingsPath = () => path.join(projectDir, '.grok', 'settings.json');
+
+    afterEach(() => {
+      fs.rmSync(settingsPath(), { force: true });
+    });
+
+    it('should generate headless commit messages with the commitMessage model', async () => {
+      fs.mkdirSync(path.dirname(settingsPath()), { recursive: true });
+      fs.writeFileSync(settingsPath(), JSON.stringify({ modelRouting: { commitMessage: 'commit-model' } }));
+      const baseURL = await startServer({
+        version: 1,
+        responses: [{ content: '"fix: handle empty input"' }],
+      });
+
+      const agent = new GrokAgent('test-key', baseURL, 'grok-code-fast-1', 10);
+      const message = await generateCommitMessage(agent, 'M src/index.ts', 'diff --git a/src/index.ts b/src/index.ts');
+
+      expect(message).toBe('fix: handle empty input');
+      expect(server!.requests[0].model).toBe('commit-model');
+    });
+  });
+
+  describe('Subagents', () => {
+    const settingsPath = () => path.join(projectDir, '.grok', 'settings.json');
+
+    afterEach(() => {
+      fs.rmSync(settingsPath(), { force: true });
+    });
+
+    it('should run a delegated task on the subagent model with only its allowed tools', async () => {
+      confirmationService.setSessionFlag('allOperations', true);
+      fs.mkdirSync(path.dirname(settingsPath()), { recursive: true });
+      fs.writeFileSync(settingsPath(), JSON.stringify({ modelRouting: { subagent: 'subagent-model' } }));
+      const baseURL = await startServer({
+        version: 1,
+        responses: [
+          { toolCalls: [{ name: 'spawn_subagent', arguments: { type: 'guardrail', task: 'Check the plan' } }] },
+          { toolCalls: [{ name: 'bash', arguments: { command: 'touch subagent-escape.txt' } }] },
+          { content: '{"summary": "Plan complies", "output": {"violationsFound": [], "warnings": [], "compliance": "passed", "newRuleSuggestions": []}}' },
+          { content: 'The plan passed the guardrail check.' },
+        ],
+      });
+
+      const { chunks, content } = await runAgent(baseURL, 'check my plan');
+
+      const [main, subagent, subagentFollowUp] = server!.requests;
+      expect(main.model).toBe('grok-code-fast-1');
+      expect(subagent.model).toBe('subagent-model');
+      expect(subagent.tools!.map((tool) => tool.function.name).sort()).toEqual(['search', 'view_file']);
+      expect(subagent.messages.some((message) => message.content === 'check my plan')).toBe(false);
+
+      // A tool outside the allowlist is refused rather than run
+      expect(fs.existsSync(path.join(projectDir, 'subagent-escape.txt'))).toBe(false);
+      expect(subagentFollowUp.messages.at(-1).content).toContain('Tool bash is not available to the guardrail subagent');
+
+      expect(toolResults(chunks)[0].success).toBe(true);
+      expect(toolResults(chunks)[0].output).toContain('Plan complies');
+      expect(content).toContain('The plan passed the guardrail check.');
+    });
+  });
+
+  describe('Headless Output', () => {
+    it('should stream long live tool output once, without repeating it', async () => {
+      confirmationService.setSessionFlag('allOperations', true);
+      // Three bursts of 5000 characters, past the 8000-character live preview
+      const command = "for i in 1 2 3; do head -c 5000 /dev/zero | tr '\\0' x; sleep 0.3; done";
+      const baseURL = await startServer({
+        version: 1,
+        responses: [
+          { toolCalls: [{ name: 'bash', arguments: { command } }] },
+          { content: 'Done.' },
+        ],
+      });
+
+      const events: HeadlessEvent[] = [];
+      const agent = new GrokAgent('test-key', baseURL, 'grok-code-fast-1', 10);
+      await streamAgentEvents(agent, 'print a lot', (event) => events.push(event));
+
+      const streamed = events
+        .filter((event) => event.type === 'tool_output')
+        .map((event) => (event as Extract<HeadlessEvent, { type: 'tool_output' }>).text)
+        .join('');
+      expect(streamed).toBe('x'.repeat(15000));
+    });
+  });
+
+  describe('Self-Correction', () => {
+    it('should ask the model to retry after a recoverable tool failure', async () => {
+      fs.writeFileSync(path.join(projectDir, 'notes.md'), '# Notes\n');
+      const baseURL = await startServer({
+        version: 1,
+        responses: [
+          { toolCalls: [{ name: 'view_file', arguments: { path: 'note.md' } }] },
+          { toolCalls: [{ name: 'view_file', arguments: { path: 'notes.md' } }] },
+          { content: 'The notes file has a single heading.' },
+        ],
+      });
+
+      const { chunks, content } = await runAgent(baseURL, 'read my notes');
+
+      expect(content).toContain('Self-correction triggered');
+      expect(content).toContain('The notes file has a single heading.');
+      const retryPrompt = server!.requests[1].messages.at(-1);
+      expect(retryPrompt.role).toBe('user');
+      expect(retryPrompt.content).toContain('Previous approach failed');
+      expect(toolResults(chunks).at(-1)).toMatchObject({ success: true });
+    });
+  });
+
+  describe('Session Resume', () => {
+    it('should resume a session that ended in the middle of a tool round', async () => {
+      const store = new SessionStore(projectDir);
+      const { id } = store.create('grok-code-fast-1');
+      store.appendMessage(id, { role: 'user', content: 'create two files' });
+      store.appendMessage(id, {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'call_a', type: 'function', function: { name: 'create_file', arguments: '{"path":"a.txt","content":"a"}' } },
+          { id: 'call_b', type: 'function', function: { name: 'create_file', arguments: '{"path":"b.txt","content":"b"}' } },
+        ],
+      });
+      // The process died after the first result
+      store.appendMessage(id, { role: 'tool', tool_call_id: 'call_a', content: 'Created a.txt' });
+
+      const baseURL = await startServer({ version: 1, responses: [{ content: 'Resumed.' }] });
+      const agent = new GrokAgent('test-key', baseURL, 'grok-code-fast-1', 10);
+      agent.resumeSession(id);
+      for await (const chunk of agent.processUserMessageStream('continue')) {
+        void chunk;
+      }
+
+      const messages = server!.requests[0].messages;
+      const assistantIndex = messages.findIndex((message: any) => message.tool_calls);
+      expect(messages.slice(assistantIndex + 1, assistantIndex + 4)).toEqual([
+        { role: 'tool', tool_call_id: 'call_a', content: 'Created a.txt' },
+        { role: 'tool', tool_call_id: 'call_b', content: CANCELLED_TOOL_RESULT },
+        expect.objectContaining({ role: 'user' }),
+      ]);
+    });
+
+    it('should reject session ids that are not file names', () => {
+      const store = new SessionStore(projectDir);
+
+      expect(store.load('../../outside')).toBeNull();
+      expect(store.exists('a/b')).toBe(false);
+      expect(store.delete('..')).toBe(false);
+    });
+  });
+
+  describe('Record and Replay', () => {
+    it('should replay a recorded session with the same results', async () => {
+      confirmationService.setSessionFlag('allOperations', true);
+      const upstreamURL = await startServer({
+        version: 1,
+        model: 'grok-code-fast-1',
+        responses: [
+          { toolCalls: [{ name: 'view_file', arguments: { path: 'notes.md' } }], usage: { prompt_tokens: 120, completion_tokens: 12 } },
+          { content: 'Recorded answer.', usage: { prompt_tokens: 150, completion_tokens: 4 } },
+        ],
+      });
+      const fixturePath = path.join(tempDir, 'session.json');
+      const proxy = new RecordingProxy(upstreamURL, fixturePath);
+      const proxyURL = await proxy.start();
+
+      let recorded: Awaited<ReturnType<typeof runAgent>>;
+      try {
+        recorded = await runAgent(proxyURL, 'read my notes');
+      } finally {
+        await proxy.stop();
+      }
+
+      const fixture = loadMockScript(fixturePath);
+      expect(fixture.responses).toEqual([
+        {
+          toolCalls: [{ id: 'call_mock-1_1', name: 'view_file', arguments: { path: 'notes.md' } }],
+          usage: { prompt_tokens: 120, completion_tokens: 12 },
+        },
+        { content: 'Recorded answer.', usage: { prompt_tokens: 150, completion_tokens: 4 } },
+      ]);
+
+      await server!.stop();
+      const replayURL = await startServer(fixture);
+      const replayed = await runAgent(replayURL, 'read my notes');
+
+      expect(replayed.content).toBe(recorded.content);
+      expect(toolResults(replayed.chunks)).toEqual(toolResults(recorded.chunks));
+    });
+  });
+});
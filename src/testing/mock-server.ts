@@ -0,0 +1,259 @@
+/**
+ * Mock Grok API Server
+ *
+ * A local OpenAI-compatible chat completions server that answers from a
+ * script instead of a model. Point the CLI at it with `GROK_BASE_URL` to run
+ * the agent loop, tools and confirmation flows offline and deterministically.
+ * Scripts are written by hand or recorded from a real API (see recorder.ts).
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface MockToolCall {
+  /** Generated from the response and call index when left out */
+  id?: string;
+  name: string;
+  /** An object, or a raw string to test malformed arguments */
+  arguments: Record<string, unknown> | string;
+}
+
+/**
+ * One scripted model response, used for one request
+ */
+export interface MockResponse {
+  content?: string;
+  toolCalls?: MockToolCall[];
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens?: number };
+  /** Respond with this HTTP error instead, e.g. 429 or 503 to exercise retries */
+  error?: { status: number; message: string };
+  /** Milliseconds to wait before responding */
+  delay?: number;
+}
+
+export interface MockScript {
+  version: 1;
+  /** Model reported by /models and in responses when set */
+  model?: string;
+  responses: MockResponse[];
+}
+
+/**
+ * A chat completions request received by the mock server
+ */
+export interface MockRequest {
+  model: string;
+  messages: any[];
+  tools?: any[];
+  stream: boolean;
+  body: any;
+}
+
+/** Size of streamed content and argument fragments, so clients must reassemble them */
+const STREAM_CHUNK_SIZE = 16;
+
+export function loadMockScript(filePath: string): MockScript {
+  const script = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (script?.version !== 1 || !Array.isArray(script.responses)) {
+    throw new Error(`${filePath} is not a mock script (expected {"version": 1, "responses": [...]})`);
+  }
+  return script;
+}
+
+export function saveMockScript(filePath: string, script: MockScript): void {
+  const { version, model, responses } = script;
+  fs.writeFileSync(filePath, JSON.stringify({ version, model, responses }, null, 2) + '\n');
+}
+
+export function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+export function sendJSON(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+export function sendError(res: http.ServerResponse, status: number, message: string): void {
+  sendJSON(res, status, { error: { message, type: status >= 500 ? 'server_error' : 'invalid_request_error' } });
+}
+
+function splitText(text: string): string[] {
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+    pieces.push(text.slice(i, i + STREAM_CHUNK_SIZE));
+  }
+  return pieces;
+}
+
+function toolCallArguments(toolCall: MockToolCall): string {
+  return typeof toolCall.arguments === 'string' ? toolCall.arguments : JSON.stringify(toolCall.arguments);
+}
+
+function withTotal(usage: NonNullable<MockResponse['usage']>) {
+  return { ...usage, total_tokens: usage.total_tokens ?? usage.prompt_tokens + usage.completion_tokens };
+}
+
+export class MockGrokServer {
+  /** Requests received so far, for assertions */
+  readonly requests: MockRequest[] = [];
+  private server: http.Server | null = null;
+  private next = 0;
+
+  constructor(private script: MockScript) {}
+
+  static fromFile(filePath: string): MockGrokServer {
+    return new MockGrokServer(loadMockScript(filePath));
+  }
+
+  /**
+   * Listen on 127.0.0.1 (a free port by default) and resolve with the base
+   * URL to use as `GROK_BASE_URL`
+   */
+  async start(port = 0): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => sendError(res, 500, error.message));
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', resolve);
+    });
+    return this.getBaseURL();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  getBaseURL(): string {
+    const address = this.server?.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('Mock server is not running');
+    }
+    return `http://127.0.0.1:${address.port}/v1`;
+  }
+
+  /** Scripted responses not yet used */
+  getRemainingResponses(): number {
+    return this.script.responses.length - this.next;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = req.url || '';
+
+    if (req.method === 'GET' && url.endsWith('/models')) {
+      const models = this.script.model ? [this.script.model] : [];
+      sendJSON(res, 200, { object: 'list', data: models.map((id) => ({ id, object: 'model', owned_by: 'mock' })) });
+      return;
+    }
+    if (req.method !== 'POST' || !url.endsWith('/chat/completions')) {
+      sendError(res, 404, `Mock server does not handle ${req.method} ${url}`);
+      return;
+    }
+
+    const body = JSON.parse(await readRequestBody(req));
+    this.requests.push({
+      model: body.model,
+      messages: body.messages || [],
+      tools: body.tools,
+      stream: !!body.stream,
+      body,
+    });
+
+    const index = this.next++;
+    const response = this.script.responses[index];
+    if (!response) {
+      // 400 is not retried, so an exhausted script fails the run at once
+      sendError(res, 400, `Mock script exhausted: no response scripted for request ${index + 1}`);
+      return;
+    }
+
+    if (response.delay) {
+      await new Promise((resolve) => setTimeout(resolve, response.delay));
+    }
+    if (response.error) {
+      sendError(res, response.error.status, response.error.message);
+      return;
+    }
+
+    const model = this.script.model || body.model;
+    const id = `mock-${index + 1}`;
+    if (body.stream) {
+      this.sendStream(res, response, { id, model, includeUsage: !!body.stream_options?.include_usage });
+    } else {
+      this.sendCompletion(res, response, { id, model });
+    }
+  }
+
+  private toolCalls(response: MockResponse, id: string) {
+    return response.toolCalls?.map((toolCall, i) => ({
+      id: toolCall.id || `call_${id}_${i + 1}`,
+      type: 'function' as const,
+      function: { name: toolCall.name, arguments: toolCallArguments(toolCall) },
+    }));
+  }
+
+  private sendCompletion(res: http.ServerResponse, response: MockResponse, meta: { id: string; model: string }): void {
+    const toolCalls = this.toolCalls(response, meta.id);
+    sendJSON(res, 200, {
+      id: meta.id,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model: meta.model,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: response.content ?? null, ...(toolCalls ? { tool_calls: toolCalls } : {}) },
+        finish_reason: toolCalls ? 'tool_calls' : 'stop',
+      }],
+      ...(response.usage ? { usage: withTotal(response.usage) } : {}),
+    });
+  }
+
+  /**
+   * Stream the response the way OpenAI does: content and tool call arguments
+   * in small fragments, tool calls identified by index after their first chunk
+   */
+  private sendStream(
+    res: http.ServerResponse,
+    response: MockResponse,
+    meta: { id: string; model: string; includeUsage: boolean }
+  ): void {
+    res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+    const created = Math.floor(Date.now() / 1000);
+    const send = (delta: unknown, finishReason: string | null = null) => {
+      const chunk = { id: meta.id, object: 'chat.completion.chunk', created, model: meta.model, choices: [{ index: 0, delta, finish_reason: finishReason }] };
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    };
+
+    send({ role: 'assistant', content: '' });
+    for (const piece of splitText(response.content || '')) {
+      send({ content: piece });
+    }
+
+    const toolCalls = this.toolCalls(response, meta.id) || [];
+    toolCalls.forEach((toolCall, index) => {
+      send({ tool_calls: [{ index, id: toolCall.id, type: 'function', function: { name: toolCall.function.name, arguments: '' } }] });
+      for (const piece of splitText(toolCall.function.arguments)) {
+        send({ tool_calls: [{ index, function: { arguments: piece } }] });
+      }
+    });
+
+    send({}, toolCalls.length > 0 ? 'tool_calls' : 'stop');
+    if (meta.includeUsage && response.usage) {
+      res.write(`data: ${JSON.stringify({ id: meta.id, object: 'chat.completion.chunk', created, model: meta.model, choices: [], usage: withTotal(response.usage) })}\n\n`);
+    }
+    res.end('data: [DONE]\n\n');
+  }
+}
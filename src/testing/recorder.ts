@@ -0,0 +1,175 @@
+/**
+ * Session Recorder
+ *
+ * A proxy between the CLI and a real OpenAI-compatible API that passes every
+ * response through unchanged and saves it to a mock script, so a live session
+ * can be replayed offline by MockGrokServer. The fixture holds model responses
+ * only; API keys and request bodies are never written.
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { MockResponse, MockScript, MockToolCall, readRequestBody, saveMockScript, sendError } from './mock-server.js';
+
+/** Headers copied from the client to the upstream API */
+const FORWARDED_HEADERS = ['authorization', 'x-api-key', 'content-type', 'accept'];
+
+function parseArguments(text: string): Record<string, unknown> | string {
+  try {
+    const parsed = JSON.parse(text || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : text;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Reassemble a recorded chat completion (JSON or event stream) into a
+ * scripted response
+ */
+export function responseFromCompletion(body: string, streamed: boolean): MockResponse {
+  let content = '';
+  let usage: MockResponse['usage'];
+  const toolCalls: Array<{ id?: string; name: string; arguments: string }> = [];
+
+  if (!streamed) {
+    const completion = JSON.parse(body);
+    const message = completion.choices?.[0]?.message || {};
+    content = message.content || '';
+    for (const toolCall of message.tool_calls || []) {
+      toolCalls.push({ id: toolCall.id, name: toolCall.function.name, arguments: toolCall.function.arguments });
+    }
+    usage = completion.usage;
+  } else {
+    for (const line of body.split('\n')) {
+      const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+      if (!data || data === '[DONE]') {
+        continue;
+      }
+      const chunk = JSON.parse(data);
+      if (chunk.usage) {
+        usage = chunk.usage;
+      }
+      const delta = chunk.choices?.[0]?.delta || {};
+      content += delta.content || '';
+      for (const fragment of delta.tool_calls || []) {
+        const toolCall = (toolCalls[fragment.index] ||= { name: '', arguments: '' });
+        toolCall.id = fragment.id || toolCall.id;
+        toolCall.name += fragment.function?.name || '';
+        toolCall.arguments += fragment.function?.arguments || '';
+      }
+    }
+  }
+
+  const response: MockResponse = {};
+  if (content) {
+    response.content = content;
+  }
+  if (toolCalls.length > 0) {
+    response.toolCalls = toolCalls.map((toolCall): MockToolCall => ({
+      id: toolCall.id,
+      name: toolCall.name,
+      arguments: parseArguments(toolCall.arguments),
+    }));
+  }
+  if (usage) {
+    response.usage = { prompt_tokens: usage.prompt_tokens, completion_tokens: usage.completion_tokens };
+  }
+  return response;
+}
+
+export class RecordingProxy {
+  private server: http.Server | null = null;
+  private script: MockScript = { version: 1, responses: [] };
+
+  /**
+   * @param upstream Base URL of the real API, e.g. https://api.x.ai/v1
+   * @param fixturePath Mock script file, rewritten after every response
+   */
+  constructor(private upstream: string, private fixturePath: string) {}
+
+  async start(port = 0): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        if (!res.headersSent) {
+          sendError(res, 502, `Recording proxy: ${error.message}`);
+        } else {
+          res.end();
+        }
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', resolve);
+    });
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}/v1`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    const server = this.server;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  getScript(): MockScript {
+    return this.script;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    // Paths are relative to the base URL, whose /v1 prefix the client already added
+    const path = (req.url || '').replace(/^\/v1/, '');
+    const body = req.method === 'POST' ? await readRequestBody(req) : undefined;
+
+    const headers: Record<string, string> = {};
+    for (const name of FORWARDED_HEADERS) {
+      const value = req.headers[name];
+      if (typeof value === 'string') {
+        headers[name] = value;
+      }
+    }
+
+    const upstreamResponse = await fetch(this.upstream.replace(/\/$/, '') + path, {
+      method: req.method,
+      headers,
+      body,
+    });
+
+    res.writeHead(upstreamResponse.status, {
+      'content-type': upstreamResponse.headers.get('content-type') || 'application/json',
+    });
+    let text = '';
+    const decoder = new TextDecoder();
+    if (upstreamResponse.body) {
+      for await (const chunk of upstreamResponse.body as unknown as AsyncIterable<Uint8Array>) {
+        text += decoder.decode(chunk, { stream: true });
+        res.write(chunk);
+      }
+    }
+    res.end();
+
+    if (req.method !== 'POST' || !path.endsWith('/chat/completions')) {
+      return;
+    }
+
+    const request = body ? JSON.parse(body) : {};
+    this.script.model ||= request.model;
+    if (!upstreamResponse.ok) {
+      let message = text;
+      try {
+        message = JSON.parse(text).error?.message || text;
+      } catch {
+        // Not JSON, keep the raw body
+      }
+      this.script.responses.push({ error: { status: upstreamResponse.status, message } });
+    } else {
+      const streamed = (upstreamResponse.headers.get('content-type') || '').includes('text/event-stream');
+      this.script.responses.push(responseFromCompletion(text, streamed));
+    }
+    saveMockScript(this.fixturePath, this.script);
+  }
+}
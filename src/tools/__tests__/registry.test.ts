@@ -0,0 +1,125 @@
+/**
+ * Tests for the tool registry: schemas, the prompt tool list and dispatch
+ * all come from the registered definitions
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GrokAgent } from '../../agent/grok-agent.js';
+import { ToolDefinition, ToolRegistry, matchesToolPattern } from '../registry.js';
+
+function definition(name: string, group: ToolDefinition['group'], output = name): ToolDefinition {
+  return {
+    name,
+    description: `${name} description`,
+    summary: `${name} summary`,
+    parameters: { type: 'object', properties: {}, required: [] },
+    category: 'read',
+    group,
+    handler: async () => ({ success: true, output }),
+  };
+}
+
+describe('ToolRegistry', () => {
+  const originalAdvanced = process.env.GROK_ENABLE_ADVANCED_TOOLS;
+
+  afterEach(() => {
+    if (originalAdvanced === undefined) {
+      delete process.env.GROK_ENABLE_ADVANCED_TOOLS;
+    } else {
+      process.env.GROK_ENABLE_ADVANCED_TOOLS = originalAdvanced;
+    }
+  });
+
+  function createRegistry(): ToolRegistry {
+    const registry = new ToolRegistry();
+    registry.register(definition('view_file', 'core'));
+    registry.register(definition('multi_file_edit', 'advanced'));
+    return registry;
+  }
+
+  it('should only expose advanced tools when they are enabled', () => {
+    delete process.env.GROK_ENABLE_ADVANCED_TOOLS;
+    const registry = createRegistry();
+
+    expect(registry.toGrokTools().map((tool) => tool.function.name)).toEqual(['view_file']);
+    expect(registry.describeForPrompt()).toBe('CORE TOOLS:\n- view_file: view_file summary');
+    expect(registry.isEnabled('multi_file_edit')).toBe(false);
+
+    process.env.GROK_ENABLE_ADVANCED_TOOLS = '1';
+
+    expect(registry.toGrokTools().map((tool) => tool.function.name)).toEqual(['view_file', 'multi_file_edit']);
+    expect(registry.describeForPrompt()).toContain('ADVANCED TOOLS:\n- multi_file_edit: multi_file_edit summary');
+  });
+
+  it('should send the full description and schema with each tool', () => {
+    const [tool] = createRegistry().toGrokTools();
+
+    expect(tool).toEqual({
+      type: 'function',
+      function: {
+        name: 'view_file',
+        description: 'view_file description',
+        parameters: { type: 'object', properties: {}, required: [] },
+      },
+    });
+  });
+
+  it('should dispatch to the registered handler and replace tools registered again', async () => {
+    const registry = createRegistry();
+    registry.register(definition('view_file', 'core', 'replaced'));
+
+    expect(await registry.execute('view_file', {})).toEqual({ success: true, output: 'replaced' });
+    expect(await registry.execute('missing_tool', {})).toEqual({ success: false, error: 'Unknown tool: missing_tool' });
+  });
+
+  it('should match tool names against wildcard patterns', () => {
+    expect(matchesToolPattern('mcp__github__create_issue', ['mcp__github__*'])).toBe(true);
+    expect(matchesToolPattern('mcp__gitlab__create_issue', ['mcp__github__*'])).toBe(false);
+    expect(matchesToolPattern('view_file', ['view.file'])).toBe(false);
+  });
+});
+
+describe('GrokAgent tool registry', () => {
+  const originalCwd = process.cwd();
+  const originalHome = process.env.HOME;
+  let tempDir: string;
+  let registry: ToolRegistry;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-registry-'));
+    process.env.HOME = path.join(tempDir, 'home');
+    process.chdir(tempDir);
+    registry = new GrokAgent('test-key', 'http://127.0.0.1:9').getToolRegistry();
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should register every shipped tool with a schema and handler', () => {
+    const names = registry.list().map((tool) => tool.name);
+
+    for (const name of ['multi_file_edit', 'advanced_search', 'file_tree_ops', 'code_analysis', 'operation_history', 'ast_parser']) {
+      expect(names).toContain(name);
+    }
+    for (const tool of registry.list()) {
+      expect(tool.parameters.type).toBe('object');
+      expect(tool.summary).not.toBe('');
+      expect(typeof tool.handler).toBe('function');
+      for (const required of tool.parameters.required) {
+        expect(Object.keys(tool.parameters.properties)).toContain(required);
+      }
+    }
+  });
+
+  it('should route an advanced tool call to its handler', async () => {
+    const result = await registry.execute('operation_history', { operation: 'show_history' });
+
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for the bash sandbox: namespace backends must keep the command from
+ * lifting its own restrictions, and settings are fixed when BashTool starts
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BashSandbox } from '../sandbox.js';
+import { BashTool } from '../bash.js';
+import { ConfirmationService } from '../../utils/confirmation-service.js';
+
+describe('BashSandbox', () => {
+  const originalCwd = process.cwd();
+  const originalHome = process.env.HOME;
+  const originalSandbox = process.env.GROK_SANDBOX;
+  let tempDir: string;
+  let projectDir: string;
+  let sandbox: BashSandbox;
+
+  function runSandboxed(command: string) {
+    return spawnSync('/bin/bash', ['-c', sandbox.wrapCommand(command, projectDir)], {
+      cwd: projectDir,
+      encoding: 'utf-8',
+      timeout: 10000,
+    });
+  }
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-sandbox-'));
+    projectDir = path.join(tempDir, 'project');
+    fs.mkdirSync(path.join(projectDir, '.grok'), { recursive: true });
+    process.env.HOME = path.join(tempDir, 'home');
+    delete process.env.GROK_SANDBOX;
+    process.chdir(projectDir);
+    sandbox = new BashSandbox({ projectRoot: projectDir });
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    if (originalSandbox === undefined) {
+      delete process.env.GROK_SANDBOX;
+    } else {
+      process.env.GROK_SANDBOX = originalSandbox;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('namespace backends', () => {
+    const hasNamespaces = () => sandbox.getBackend() !== 'policy';
+
+    it('should not let a command remount the file system read-write', ({ skip }) => {
+      if (!hasNamespaces()) skip();
+
+      const escapePath = '/grok-sandbox-escape';
+      const result = runSandboxed(`mount -o remount,bind,rw / && touch ${escapePath}`);
+      const escaped = fs.existsSync(escapePath);
+      fs.rmSync(escapePath, { force: true });
+
+      expect(result.status).not.toBe(0);
+      expect(escaped).toBe(false);
+    });
+
+    it('should not let a command regain privileges in a nested namespace', ({ skip }) => {
+      if (!hasNamespaces()) skip();
+
+      const result = runSandboxed('unshare --user --map-root-user --mount mount -o remount,bind,rw /');
+      expect(result.status).not.toBe(0);
+    });
+
+    it('should still allow writes inside the project root', ({ skip }) => {
+      if (!hasNamespaces()) skip();
+
+      const result = runSandboxed('echo ok > inside.txt');
+      expect(result.status).toBe(0);
+      expect(fs.readFileSync(path.join(projectDir, 'inside.txt'), 'utf-8')).toBe('ok\n');
+    });
+  });
+
+  describe('settings', () => {
+    const confirmationService = ConfirmationService.getInstance();
+
+    afterAll(() => {
+      confirmationService.resetSession();
+    });
+
+    it('should keep the sandbox when a command turns it off in the project settings', async () => {
+      const settingsPath = path.join(projectDir, '.grok', 'settings.json');
+      fs.writeFileSync(settingsPath, JSON.stringify({ sandbox: { enabled: true } }));
+      confirmationService.setSessionFlag('allOperations', true);
+      const bash = new BashTool();
+
+      await bash.execute(`echo '{"sandbox":{"enabled":false}}' > ${settingsPath}`);
+      const result = await bash.execute('echo "active=$GROK_SANDBOX_ACTIVE"');
+
+      expect(result.output).toContain('active=1');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for undoing and redoing operations: redo restores the file state
+ * recorded after the operation, not the state before it
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfirmationService } from '../../../utils/confirmation-service.js';
+import { OperationHistoryTool } from '../operation-history.js';
+
+describe('OperationHistoryTool redo', () => {
+  let tempDir: string;
+  let file: string;
+  let history: OperationHistoryTool;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-history-'));
+    file = path.join(tempDir, 'notes.txt');
+    fs.writeFileSync(file, 'original');
+    ConfirmationService.getInstance().setSessionFlag('allOperations', true);
+    history = new OperationHistoryTool({ historyDir: path.join(tempDir, 'history') });
+  });
+
+  afterEach(() => {
+    ConfirmationService.getInstance().resetSession();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function editFile(content: string, description: string) {
+    const before = await history.captureSnapshots([file]);
+    fs.writeFileSync(file, content);
+    await history.recordOperation('multi_file_edit', description, [file], { type: 'multi_file', files: before });
+  }
+
+  it('should restore the edited content after an undo', async () => {
+    await editFile('edited', 'Edit notes');
+
+    const undo = await history.undo();
+    expect(undo.success).toBe(true);
+    expect(fs.readFileSync(file, 'utf-8')).toBe('original');
+
+    const redo = await history.redo();
+    expect(redo.success).toBe(true);
+    expect(fs.readFileSync(file, 'utf-8')).toBe('edited');
+    expect(redo.metadata?.filesChanged).toContain(file);
+  });
+
+  it('should fail when there is nothing to redo', async () => {
+    await editFile('edited', 'Edit notes');
+
+    expect(await history.redo()).toEqual({ success: false, error: 'No operations to redo' });
+  });
+
+  it('should discard undone operations when a new one is recorded', async () => {
+    await editFile('first', 'First edit');
+    await history.undo();
+    await editFile('second', 'Second edit');
+
+    expect((await history.redo()).success).toBe(false);
+    expect(fs.readFileSync(file, 'utf-8')).toBe('second');
+
+    await history.undo();
+    expect(fs.readFileSync(file, 'utf-8')).toBe('original');
+  });
+
+  it('should redo from a new instance reading the saved history', async () => {
+    await editFile('edited', 'Edit notes');
+    await history.undo();
+
+    const reloaded = new OperationHistoryTool({ historyDir: path.join(tempDir, 'history') });
+    const redo = await reloaded.redo();
+
+    expect(redo.success).toBe(true);
+    expect(fs.readFileSync(file, 'utf-8')).toBe('edited');
+  });
+});
@@ -14,6 +14,7 @@ const pathExists = async (filePath: string): Promise<boolean> => {
 import * as path from "path";
 import { ToolResult } from "../../types/index.js";
 import { ConfirmationService } from "../../utils/confirmation-service.js";
+import { ToolDefinition, ToolProvider } from "../registry.js";
 
 export interface SearchOptions {
   pattern: string;
@@ -54,7 +55,7 @@ export interface ReplaceResult {
   error?: string;
 }
 
-export class AdvancedSearchTool {
+export class AdvancedSearchTool implements ToolProvider {
   private confirmationService = ConfirmationService.getInstance();
 
   /**
@@ -147,17 +148,20 @@ export class AdvancedSearchTool {
       if (totalReplacements === 0) {
         return {
           success: true,
-          output: "No matches found for replacement"
+          output: "No matches found for replacement",
+          metadata: { filesChanged: [] }
         };
       }
 
       // Show preview and request confirmation if not in dry run mode
+      const filesChanged: string[] = [];
       if (!options.dryRun) {
-        const sessionFlags = this.confirmationService.getSessionFlags();
-        if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+        if (this.confirmationService.needsConfirmation({ toolName: "advanced_search", target: results.map(r => r.filePath) }, "file")) {
           const preview = this.formatReplaceResults(results, true);
           const confirmationResult = await this.confirmationService.requestConfirmation(
             {
+              toolName: "advanced_search",
+              target: results.map(r => r.filePath),
               operation: `Replace in ${results.length} file(s) (${totalReplacements} replacements)`,
               filename: results.map(r => r.filePath).join(', '),
               showVSCodeOpen: false,
@@ -178,13 +182,15 @@ export class AdvancedSearchTool {
         for (const result of results) {
           if (result.success && result.preview) {
             await ops.promises.writeFile(result.filePath, result.preview, 'utf-8');
+            filesChanged.push(result.filePath);
           }
         }
       }
 
       return {
         success: true,
-        output: this.formatReplaceResults(results, options.dryRun || false)
+        output: this.formatReplaceResults(results, options.dryRun || false),
+        metadata: { filesChanged }
       };
     } catch (error: any) {
       return {
@@ -528,4 +534,92 @@ export class AdvancedSearchTool {
 
     return output.trim();
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: "advanced_search",
+        description: "Regex-capable search across files with context lines, bulk search-and-replace (with dry run) and file finding by name pattern.",
+        summary: "Enhanced search with regex patterns, context, and bulk replace capabilities",
+        category: "write",
+        group: "advanced",
+        parameters: {
+          type: "object",
+          properties: {
+            operation: {
+              type: "string",
+              enum: ["search", "search_replace", "find_files"],
+              description: "Operation to perform"
+            },
+            path: {
+              type: "string",
+              description: "File or directory to search in"
+            },
+            pattern: {
+              type: "string",
+              description: "File name pattern (for find_files)"
+            },
+            options: {
+              type: "object",
+              description: "Search options",
+              properties: {
+                pattern: {
+                  type: "string",
+                  description: "Text or regex to search for (for search and search_replace)"
+                },
+                replacement: {
+                  type: "string",
+                  description: "Replacement text (for search_replace)"
+                },
+                isRegex: { type: "boolean" },
+                caseSensitive: { type: "boolean" },
+                wholeWord: { type: "boolean" },
+                includeFiles: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Glob patterns of files to include"
+                },
+                excludeFiles: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Glob patterns of files to exclude"
+                },
+                maxResults: { type: "number" },
+                showContext: {
+                  type: "number",
+                  description: "Lines of context around each match"
+                },
+                dryRun: {
+                  type: "boolean",
+                  description: "Preview replacements without writing (for search_replace)"
+                }
+              }
+            }
+          },
+          required: ["operation", "path"]
+        },
+        handler: (args) => this.executeToolCall(args),
+      },
+    ];
+  }
+
+  /**
+   * Dispatch a advanced_search tool call to the matching operation
+   */
+  private async executeToolCall(args: any): Promise<ToolResult> {
+    switch (args.operation) {
+      // `path` is where to search, not a file that is changed
+      case "search":
+        return { ...(await this.search(args.path, args.options)), metadata: { filesChanged: [] } };
+      case "search_replace":
+        return await this.searchAndReplace(args.path, args.options);
+      case "find_files":
+        return { ...(await this.findFiles(args.path, args.pattern, args.options)), metadata: { filesChanged: [] } };
+      default:
+        return { success: false, error: `Unknown advanced_search operation: ${args.operation}` };
+    }
+  }
 }
\ No newline at end of file
@@ -14,6 +14,7 @@ const pathExists = async (filePath: string): Promise<boolean> => {
 import * as path from "path";
 import { ToolResult } from "../../types/index.js";
 import { ConfirmationService } from "../../utils/confirmation-service.js";
+import { ToolDefinition, ToolProvider } from "../registry.js";
 
 export interface CodeContext {
   language: string;
@@ -72,7 +73,7 @@ export interface RefactorOperation {
   importPath?: string;
 }
 
-export class CodeAwareEditorTool {
+export class CodeAwareEditorTool implements ToolProvider {
   private confirmationService = ConfirmationService.getInstance();
 
   /**
@@ -97,7 +98,8 @@ export class CodeAwareEditorTool {
 
       return {
         success: true,
-        output
+        output,
+        metadata: { filesChanged: [] }
       };
     } catch (error: any) {
       return {
@@ -132,11 +134,12 @@ export class CodeAwareEditorTool {
       }
 
       // Request confirmation
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "code_analysis", target: filePath }, "file")) {
         const preview = this.generateRefactorPreview(content, result.newContent!, operation);
         const confirmationResult = await this.confirmationService.requestConfirmation(
           {
+            toolName: "code_analysis",
+            target: filePath,
             operation: `Refactor: ${operation.type} (${operation.target})`,
             filename: filePath,
             showVSCodeOpen: false,
@@ -158,7 +161,8 @@ export class CodeAwareEditorTool {
 
       return {
         success: true,
-        output: result.output!
+        output: result.output!,
+        metadata: { filesChanged: [resolvedPath] }
       };
     } catch (error: any) {
       return {
@@ -203,11 +207,12 @@ export class CodeAwareEditorTool {
       const newContent = lines.join('\n');
 
       // Request confirmation
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "code_analysis", target: filePath }, "file")) {
         const preview = this.generateInsertionPreview(content, newContent, insertionPoint.line!);
         const confirmationResult = await this.confirmationService.requestConfirmation(
           {
+            toolName: "code_analysis",
+            target: filePath,
             operation: `Insert code at ${location}${target ? ` (${target})` : ''}`,
             filename: filePath,
             showVSCodeOpen: false,
@@ -228,7 +233,8 @@ export class CodeAwareEditorTool {
 
       return {
         success: true,
-        output: `Code inserted at line ${insertionPoint.line! + 1} in ${filePath}`
+        output: `Code inserted at line ${insertionPoint.line! + 1} in ${filePath}`,
+        metadata: { filesChanged: [resolvedPath] }
       };
     } catch (error: any) {
       return {
@@ -265,11 +271,12 @@ export class CodeAwareEditorTool {
       }
 
       // Request confirmation
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "code_analysis", target: filePath }, "file")) {
         const preview = this.generateFormatPreview(content, formattedContent);
         const confirmationResult = await this.confirmationService.requestConfirmation(
           {
+            toolName: "code_analysis",
+            target: filePath,
             operation: "Format code",
             filename: filePath,
             showVSCodeOpen: false,
@@ -290,7 +297,8 @@ export class CodeAwareEditorTool {
 
       return {
         success: true,
-        output: `Code formatted in ${filePath}`
+        output: `Code formatted in ${filePath}`,
+        metadata: { filesChanged: [resolvedPath] }
       };
     } catch (error: any) {
       return {
@@ -340,11 +348,12 @@ export class CodeAwareEditorTool {
       }
 
       // Request confirmation
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "code_analysis", target: filePath }, "file")) {
         const preview = `Adding imports for: ${missingImports.join(', ')}\n\n${importsToAdd.join('\n')}`;
         const confirmationResult = await this.confirmationService.requestConfirmation(
           {
+            toolName: "code_analysis",
+            target: filePath,
             operation: `Add ${missingImports.length} missing imports`,
             filename: filePath,
             showVSCodeOpen: false,
@@ -365,7 +374,8 @@ export class CodeAwareEditorTool {
 
       return {
         success: true,
-        output: `Added ${missingImports.length} missing imports to ${filePath}`
+        output: `Added ${missingImports.length} missing imports to ${filePath}`,
+        metadata: { filesChanged: [resolvedPath] }
       };
     } catch (error: any) {
       return {
@@ -1193,4 +1203,94 @@ export class CodeAwareEditorTool {
   private isValidIdentifier(name: string): boolean {
     return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name);
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: "code_analysis",
+        description: "Analyze a file's structure (functions, classes, imports, exports), perform structural refactors, insert code at a structural location, format code and add missing imports.",
+        summary: "Analyze code structure, perform refactoring, and smart code operations",
+        category: "write",
+        group: "advanced",
+        parameters: {
+          type: "object",
+          properties: {
+            operation: {
+              type: "string",
+              enum: ["analyze", "refactor", "smart_insert", "format_code", "add_imports"],
+              description: "Operation to perform"
+            },
+            file_path: {
+              type: "string",
+              description: "File to operate on"
+            },
+            refactor_operation: {
+              type: "object",
+              description: "Refactor to apply (for refactor)",
+              properties: {
+                type: {
+                  type: "string",
+                  enum: ["rename", "extract_function", "extract_variable", "inline", "move_function", "add_import"]
+                },
+                target: { type: "string" },
+                newName: { type: "string" },
+                startLine: { type: "number" },
+                endLine: { type: "number" },
+                destinationFile: { type: "string" },
+                importPath: { type: "string" }
+              },
+              required: ["type", "target"]
+            },
+            code: {
+              type: "string",
+              description: "Code to insert (for smart_insert)"
+            },
+            location: {
+              type: "string",
+              enum: ["top", "bottom", "before_function", "after_function", "in_class"],
+              description: "Where to insert (for smart_insert)"
+            },
+            target: {
+              type: "string",
+              description: "Function or class name the location refers to (for smart_insert)"
+            },
+            symbols: {
+              type: "array",
+              items: { type: "string" },
+              description: "Symbols to import (for add_imports)"
+            },
+            options: {
+              type: "object",
+              description: "Formatting options (for format_code): {preserveComments, indentSize}"
+            }
+          },
+          required: ["operation", "file_path"]
+        },
+        handler: (args) => this.executeToolCall(args),
+      },
+    ];
+  }
+
+  /**
+   * Dispatch a code_analysis tool call to the matching operation
+   */
+  private async executeToolCall(args: any): Promise<ToolResult> {
+    switch (args.operation) {
+      case "analyze":
+        return await this.analyzeCode(args.file_path);
+      case "refactor":
+        return await this.refactor(args.file_path, args.refactor_operation);
+      case "smart_insert":
+        return await this.smartInsert(args.file_path, args.code, args.location, args.target);
+      case "format_code":
+        return await this.formatCode(args.file_path, args.options);
+      case "add_imports":
+        return await this.addMissingImports(args.file_path, args.symbols);
+      default:
+        return { success: false, error: `Unknown code_analysis operation: ${args.operation}` };
+    }
+  }
 }
\ No newline at end of file
@@ -14,6 +14,7 @@ const pathExists = async (filePath: string): Promise<boolean> => {
 import * as path from "path";
 import { ToolResult } from "../../types/index.js";
 import { ConfirmationService } from "../../utils/confirmation-service.js";
+import { ToolDefinition, ToolProvider } from "../registry.js";
 
 export interface FileTreeNode {
   name: string;
@@ -45,7 +46,7 @@ export interface TreeFilterOptions {
   fileTypes?: string[];
 }
 
-export class FileTreeOperationsTool {
+export class FileTreeOperationsTool implements ToolProvider {
   private confirmationService = ConfirmationService.getInstance();
 
   /**
@@ -97,10 +98,12 @@ export class FileTreeOperationsTool {
       const preview = this.generateOperationsPreview(operations);
 
       // Request confirmation
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      const targets = operations.flatMap(op => op.destination ? [op.source, op.destination] : [op.source]);
+      if (this.confirmationService.needsConfirmation({ toolName: "file_tree_ops", target: targets }, "file")) {
         const confirmationResult = await this.confirmationService.requestConfirmation(
           {
+            toolName: "file_tree_ops",
+            target: targets,
             operation: `Bulk operations (${operations.length} operations)`,
             filename: operations.map(op => op.source).join(', '),
             showVSCodeOpen: false,
@@ -119,9 +122,10 @@ export class FileTreeOperationsTool {
 
       // Execute operations
       const results: string[] = [];
+      const filesChanged: string[] = [];
       for (const [index, op] of operations.entries()) {
         try {
-          const result = await this.executeBulkOperation(op);
+          const result = await this.executeBulkOperation(op, filesChanged);
           results.push(`✓ Operation ${index + 1}: ${result}`);
         } catch (error: any) {
           results.push(`✗ Operation ${index + 1}: ${error.message}`);
@@ -130,7 +134,8 @@ export class FileTreeOperationsTool {
 
       return {
         success: true,
-        output: `Bulk operations completed:\n${results.join('\n')}`
+        output: `Bulk operations completed:\n${results.join('\n')}`,
+        metadata: { filesChanged }
       };
     } catch (error: any) {
       return {
@@ -166,10 +171,11 @@ export class FileTreeOperationsTool {
         };
       }
 
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "file_tree_ops", target: [sourcePath, destinationPath] }, "file")) {
         const confirmationResult = await this.confirmationService.requestConfirmation(
           {
+            toolName: "file_tree_ops",
+            target: [sourcePath, destinationPath],
             operation: `Copy structure from ${sourcePath} to ${destinationPath}`,
             filename: `${sourcePath} → ${destinationPath}`,
             showVSCodeOpen: false,
@@ -186,11 +192,13 @@ export class FileTreeOperationsTool {
         }
       }
 
+      const filesChanged = options.includeFiles ? (await this.mapFiles(resolvedSource, resolvedDest)).destinations : [];
       await this.copyStructureRecursive(resolvedSource, resolvedDest, options);
 
       return {
         success: true,
-        output: `Structure copied from ${sourcePath} to ${destinationPath}`
+        output: `Structure copied from ${sourcePath} to ${destinationPath}`,
+        metadata: { filesChanged }
       };
     } catch (error: any) {
       return {
@@ -236,10 +244,11 @@ export class FileTreeOperationsTool {
       }
 
       // Request confirmation
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "file_tree_ops", target: sourcePath }, "file")) {
         const confirmationResult = await this.confirmationService.requestConfirmation(
           {
+            toolName: "file_tree_ops",
+            target: sourcePath,
             operation: `Organize files by ${organizationType}`,
             filename: sourcePath,
             showVSCodeOpen: false,
@@ -258,6 +267,7 @@ export class FileTreeOperationsTool {
 
       // Execute organization
       let movedFiles = 0;
+      const filesChanged: string[] = [];
       for (const [category, fileList] of Object.entries(organization)) {
         const categoryDir = path.join(destBase, category);
         await ops.promises.mkdir(categoryDir, { recursive: true });
@@ -266,13 +276,15 @@ export class FileTreeOperationsTool {
           const fileName = path.basename(filePath);
           const destPath = path.join(categoryDir, fileName);
           await ops.move(filePath, destPath);
+          filesChanged.push(filePath, destPath);
           movedFiles++;
         }
       }
 
       return {
         success: true,
-        output: `Organized ${movedFiles} files into ${Object.keys(organization).length} categories by ${organizationType}`
+        output: `Organized ${movedFiles} files into ${Object.keys(organization).length} categories by ${organizationType}`,
+        metadata: { filesChanged }
       };
     } catch (error: any) {
       return {
@@ -306,11 +318,12 @@ export class FileTreeOperationsTool {
       }
 
       // Request confirmation
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "file_tree_ops", target: rootPath }, "file")) {
         const preview = `Empty directories to remove:\n${emptyDirs.map(dir => `- ${path.relative(rootPath, dir)}`).join('\n')}`;
         const confirmationResult = await this.confirmationService.requestConfirmation(
           {
+            toolName: "file_tree_ops",
+            target: rootPath,
             operation: `Remove ${emptyDirs.length} empty directories`,
             filename: rootPath,
             showVSCodeOpen: false,
@@ -556,22 +569,32 @@ export class FileTreeOperationsTool {
   /**
    * Execute a single bulk operation
    */
-  private async executeBulkOperation(operation: BulkOperation): Promise<string> {
+  /**
+   * Execute one bulk operation, adding the files it changes to `filesChanged`
+   */
+  private async executeBulkOperation(operation: BulkOperation, filesChanged: string[]): Promise<string> {
     const sourcePath = path.resolve(operation.source);
 
     switch (operation.type) {
-      case 'copy':
+      case 'copy': {
         const copyDest = path.resolve(operation.destination!);
+        const { destinations } = await this.mapFiles(sourcePath, copyDest);
         await ops.copy(sourcePath, copyDest);
+        filesChanged.push(...destinations);
         return `Copied ${operation.source} to ${operation.destination}`;
+      }
 
-      case 'move':
+      case 'move': {
         const moveDest = path.resolve(operation.destination!);
+        const { sources, destinations } = await this.mapFiles(sourcePath, moveDest);
         await ops.move(sourcePath, moveDest);
+        filesChanged.push(...sources, ...destinations);
         return `Moved ${operation.source} to ${operation.destination}`;
+      }
 
       case 'delete':
         await ops.promises.rm(sourcePath);
+        filesChanged.push(sourcePath);
         return `Deleted ${operation.source}`;
 
       case 'create_dir':
@@ -580,12 +603,16 @@ export class FileTreeOperationsTool {
 
       case 'chmod':
         await ops.promises.chmod(sourcePath, operation.mode!);
+        filesChanged.push(sourcePath);
         return `Changed permissions of ${operation.source} to ${operation.mode}`;
 
-      case 'rename':
+      case 'rename': {
         const renameDest = path.resolve(operation.destination!);
+        const { sources, destinations } = await this.mapFiles(sourcePath, renameDest);
         await ops.move(sourcePath, renameDest);
+        filesChanged.push(...sources, ...destinations);
         return `Renamed ${operation.source} to ${operation.destination}`;
+      }
 
       default:
         throw new Error(`Unknown operation type: ${operation.type}`);
@@ -636,6 +663,16 @@ export class FileTreeOperationsTool {
     }
   }
 
+  /**
+   * The files at or under `sourcePath` and the paths they get under `destinationPath`
+   */
+  private async mapFiles(sourcePath: string, destinationPath: string): Promise<{ sources: string[]; destinations: string[] }> {
+    const stats = await ops.promises.stat(sourcePath);
+    const sources = stats.isDirectory() ? await this.getFilesRecursively(sourcePath) : [sourcePath];
+    const destinations = sources.map(file => path.join(destinationPath, path.relative(sourcePath, file)));
+    return { sources, destinations };
+  }
+
   /**
    * Get all files recursively
    */
@@ -751,4 +788,93 @@ export class FileTreeOperationsTool {
     await checkDirectory(dirPath);
     return emptyDirs;
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: "file_tree_ops",
+        description: "Generate directory trees, run bulk file operations (copy, move, delete, create_dir, chmod, rename), copy directory structures, organize files by type/size/date and clean up empty directories.",
+        summary: "Generate directory trees, bulk operations, and file organization",
+        category: "write",
+        group: "advanced",
+        parameters: {
+          type: "object",
+          properties: {
+            operation: {
+              type: "string",
+              enum: ["generate_tree", "bulk_operations", "copy_structure", "organize_files", "cleanup_empty_dirs"],
+              description: "Operation to perform"
+            },
+            path: {
+              type: "string",
+              description: "Root directory (for generate_tree and cleanup_empty_dirs)"
+            },
+            source: {
+              type: "string",
+              description: "Source directory (for copy_structure and organize_files)"
+            },
+            destination: {
+              type: "string",
+              description: "Destination directory (for copy_structure and organize_files)"
+            },
+            organization_type: {
+              type: "string",
+              enum: ["type", "size", "date"],
+              description: "How to organize files (for organize_files)"
+            },
+            operations: {
+              type: "array",
+              description: "Bulk operations (for bulk_operations)",
+              items: {
+                type: "object",
+                properties: {
+                  type: {
+                    type: "string",
+                    enum: ["copy", "move", "delete", "create_dir", "chmod", "rename"]
+                  },
+                  source: { type: "string" },
+                  destination: { type: "string" },
+                  recursive: { type: "boolean" },
+                  mode: {
+                    type: "string",
+                    description: "File mode for chmod, e.g. 755"
+                  }
+                },
+                required: ["type", "source"]
+              }
+            },
+            options: {
+              type: "object",
+              description: "generate_tree: {includeHidden, maxDepth, includePatterns, excludePatterns, fileTypes}; copy_structure: {includeFiles, overwrite}"
+            }
+          },
+          required: ["operation"]
+        },
+        handler: (args) => this.executeToolCall(args),
+      },
+    ];
+  }
+
+  /**
+   * Dispatch a file_tree_ops tool call to the matching operation
+   */
+  private async executeToolCall(args: any): Promise<ToolResult> {
+    switch (args.operation) {
+      case "generate_tree":
+        return await this.generateTree(args.path, args.options);
+      case "bulk_operations":
+        return await this.bulkOperations(args.operations);
+      case "copy_structure":
+        return await this.copyStructure(args.source, args.destination, args.options);
+      case "organize_files":
+        return await this.organizeFiles(args.source, args.organization_type, args.destination);
+      case "cleanup_empty_dirs":
+        return await this.cleanupEmptyDirectories(args.path);
+      default:
+        return { success: false, error: `Unknown file_tree_ops operation: ${args.operation}` };
+    }
+  }
 }
\ No newline at end of file
@@ -16,6 +16,7 @@ import { writeFile as writeFilePromise } from "fs/promises";
 import { ToolResult } from "../../types/index.js";
 import { ConfirmationService } from "../../utils/confirmation-service.js";
 import { ConcurrencyPool } from "../../utils/concurrency.js";
+import { ToolDefinition, ToolProvider } from "../registry.js";
 
 export interface FileOperation {
   type: 'create' | 'edit' | 'delete' | 'rename' | 'move';
@@ -43,7 +44,7 @@ export interface MultiFileTransaction {
   rollbackData?: any[];
 }
 
-export class MultiFileEditorTool {
+export class MultiFileEditorTool implements ToolProvider {
   private confirmationService = ConfirmationService.getInstance();
   private concurrency = ConcurrencyPool.getInstance();
   private transactions: Map<string, MultiFileTransaction> = new Map();
@@ -215,11 +216,12 @@ export class MultiFileEditorTool {
       }
 
       // Request confirmation for the entire transaction
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "multi_file_edit", target: transaction.operations.map(op => op.filePath) }, "file")) {
         const preview = await this.previewTransaction();
         const confirmationResult = await this.confirmationService.requestConfirmation(
           {
+            toolName: "multi_file_edit",
+            target: transaction.operations.map(op => op.filePath),
             operation: `Multi-file transaction (${transaction.operations.length} operations)`,
             filename: transaction.operations.map(op => op.filePath).join(', '),
             showVSCodeOpen: false,
@@ -659,4 +661,89 @@ export class MultiFileEditorTool {
   getCurrentTransactionId(): string | null {
     return this.currentTransactionId;
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: "multi_file_edit",
+        description: "Perform atomic edits across multiple files with transaction support. Use execute_multi_file to apply a batch of operations in one step (rolled back if any fails), or begin_transaction/add_operations/preview_transaction/commit_transaction to stage changes first.",
+        summary: "Perform atomic operations across multiple files with transaction support",
+        category: "write",
+        group: "advanced",
+        parameters: {
+          type: "object",
+          properties: {
+            operation: {
+              type: "string",
+              enum: ["execute_multi_file", "begin_transaction", "add_operations", "preview_transaction", "commit_transaction", "rollback_transaction"],
+              description: "Operation to perform"
+            },
+            operations: {
+              type: "array",
+              description: "File operations (for execute_multi_file and add_operations)",
+              items: {
+                type: "object",
+                properties: {
+                  type: {
+                    type: "string",
+                    enum: ["create", "edit", "delete", "rename", "move"]
+                  },
+                  filePath: { type: "string" },
+                  content: {
+                    type: "string",
+                    description: "Full content for create"
+                  },
+                  newFilePath: {
+                    type: "string",
+                    description: "Target path for rename/move"
+                  },
+                  operations: {
+                    type: "array",
+                    description: "Edits for edit: {type: 'replace' | 'insert' | 'delete_lines', oldStr, newStr, startLine, endLine, content}",
+                    items: { type: "object" }
+                  }
+                },
+                required: ["type", "filePath"]
+              }
+            },
+            description: {
+              type: "string",
+              description: "Short description of the change set"
+            },
+            transaction_id: {
+              type: "string",
+              description: "Transaction to roll back (defaults to the last committed one)"
+            }
+          },
+          required: ["operation"]
+        },
+        handler: (args) => this.executeToolCall(args),
+      },
+    ];
+  }
+
+  /**
+   * Dispatch a multi_file_edit tool call to the matching operation
+   */
+  private async executeToolCall(args: any): Promise<ToolResult> {
+    switch (args.operation) {
+      case "begin_transaction":
+        return await this.beginTransaction(args.description);
+      case "add_operations":
+        return await this.addOperations(args.operations);
+      case "preview_transaction":
+        return await this.previewTransaction();
+      case "commit_transaction":
+        return await this.commitTransaction();
+      case "rollback_transaction":
+        return await this.rollbackTransaction(args.transaction_id);
+      case "execute_multi_file":
+        return await this.executeMultiFileOperation(args.operations, args.description);
+      default:
+        return { success: false, error: `Unknown multi_file_edit operation: ${args.operation}` };
+    }
+  }
 }
\ No newline at end of file
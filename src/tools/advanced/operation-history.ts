@@ -1,8 +1,8 @@
-import * as ops from "fs-extra";
+import * as fs from "fs";
 
 const pathExists = async (filePath: string): Promise<boolean> => {
   try {
-    await ops.promises.access(filePath, ops.constants.F_OK);
+    await fs.promises.access(filePath, fs.constants.F_OK);
     return true;
   } catch {
     return false;
@@ -14,6 +14,9 @@ const pathExists = async (filePath: string): Promise<boolean> => {
 import * as path from "path";
 import { ToolResult } from "../../types/index.js";
 import { ConfirmationService } from "../../utils/confirmation-service.js";
+import { countLineChanges, formatUnifiedDiff } from "../../utils/line-diff.js";
+import { ToolDefinition, ToolProvider } from "../registry.js";
+import { SnapshotStore } from "./snapshot-store.js";
 
 export interface HistoryEntry {
   id: string;
@@ -35,7 +38,10 @@ export interface OperationMetadata {
 
 export interface RollbackData {
   type: 'file_operations' | 'multi_file' | 'refactor' | 'search_replace';
+  /** State of the affected files before the operation, restored by undo */
   files: FileSnapshot[];
+  /** State of the affected files after the operation, restored by redo */
+  forwardFiles?: FileSnapshot[];
   directories?: DirectorySnapshot[];
   customData?: any;
 }
@@ -43,7 +49,10 @@ export interface RollbackData {
 export interface FileSnapshot {
   filePath: string;
   existed: boolean;
+  /** Inline content; only kept for entries recorded before snapshots were content-addressed */
   content?: string;
+  /** SHA-256 of the content, stored in the snapshot store */
+  contentHash?: string;
   permissions?: string;
   lastModified?: Date;
   size?: number;
@@ -74,14 +83,31 @@ export interface HistoryOptions {
   maxAge?: number; // in milliseconds
   excludePatterns?: string[];
   autoCleanup?: boolean;
+  maxSnapshotSize?: number; // in bytes
+  historyDir?: string; // defaults to ~/.grok
 }
 
-export class OperationHistoryTool {
+const ROLLBACK_TYPES: RollbackData['type'][] = ['file_operations', 'multi_file', 'refactor', 'search_replace'];
+
+/** Unreferenced snapshot objects younger than this are kept, they may belong to an operation in progress */
+const SNAPSHOT_PRUNE_GRACE = 10 * 60 * 1000;
+
+interface FileChange {
+  filePath: string;
+  change: 'created' | 'deleted' | 'modified' | 'unchanged' | 'unknown';
+  before?: string;
+  after?: string;
+}
+
+export class OperationHistoryTool implements ToolProvider {
   private history: HistoryEntry[] = [];
   private confirmationService = ConfirmationService.getInstance();
   private currentPosition = -1; // For undo/redo navigation
   private options: HistoryOptions;
   private historyFile: string;
+  private snapshotStore: SnapshotStore;
+  private historyMtime = 0;
+  private ready: Promise<void>;
 
   constructor(options: HistoryOptions = {}) {
     this.options = {
@@ -89,22 +115,35 @@ export class OperationHistoryTool {
       maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
       excludePatterns: ['node_modules/**', '.git/**', 'dist/**', 'build/**'],
       autoCleanup: true,
+      maxSnapshotSize: 10 * 1024 * 1024,
       ...options
     };
 
-    // History file in user's home directory
+    // History file and snapshot objects in user's home directory
     const homeDir = process.env.HOME || process.env.USERPROFILE || '';
-    this.historyFile = path.join(homeDir, '.grok', 'operation-history.json');
+    const historyDir = this.options.historyDir || path.join(homeDir, '.grok');
+    this.historyFile = path.join(historyDir, 'operation-history.json');
+    this.snapshotStore = new SnapshotStore(path.join(historyDir, 'operation-history', 'objects'));
 
-    this.loadHistory();
+    this.ready = this.loadHistory().then(async () => {
+      if (this.options.autoCleanup) {
+        await this.cleanupOldEntries();
+      }
+    });
+  }
 
-    if (this.options.autoCleanup) {
-      this.cleanupOldEntries();
-    }
+  /**
+   * Snapshot files before changing them. Pass the result as
+   * `rollbackData.files` to recordOperation once the change is applied.
+   */
+  async captureSnapshots(files: string[]): Promise<FileSnapshot[]> {
+    return await this.createFileSnapshots(files);
   }
 
   /**
-   * Record a new operation in history
+   * Record an operation that has just been applied. `rollbackData.files`
+   * describes the files before the operation (see captureSnapshots); their
+   * state after the operation is read from disk now so the entry can be redone.
    */
   async recordOperation(
     operation: OperationType,
@@ -114,8 +153,10 @@ export class OperationHistoryTool {
     metadata: Partial<OperationMetadata> = {}
   ): Promise<ToolResult> {
     try {
-      // Create snapshots of affected files before recording
-      const fileSnapshots = await this.createFileSnapshots(files);
+      await this.syncHistory();
+
+      const beforeSnapshots = await this.storeSnapshots(rollbackData.files);
+      const afterSnapshots = await this.createFileSnapshots(files);
 
       const entry: HistoryEntry = {
         id: this.generateId(),
@@ -124,7 +165,8 @@ export class OperationHistoryTool {
         description,
         rollbackData: {
           ...rollbackData,
-          files: fileSnapshots
+          files: beforeSnapshots,
+          forwardFiles: afterSnapshots
         },
         metadata: {
           tool: 'grok-cli',
@@ -134,6 +176,8 @@ export class OperationHistoryTool {
         }
       };
 
+      const previousLength = this.history.length;
+
       // Remove any entries after current position (when undoing and then making new changes)
       if (this.currentPosition < this.history.length - 1) {
         this.history = this.history.slice(0, this.currentPosition + 1);
@@ -149,6 +193,9 @@ export class OperationHistoryTool {
       }
 
       await this.saveHistory();
+      if (this.history.length <= previousLength) {
+        await this.pruneSnapshots();
+      }
 
       return {
         success: true,
@@ -167,6 +214,8 @@ export class OperationHistoryTool {
    */
   async undo(): Promise<ToolResult> {
     try {
+      await this.syncHistory();
+
       if (this.currentPosition < 0) {
         return {
           success: false,
@@ -178,11 +227,12 @@ export class OperationHistoryTool {
 
       // Request confirmation for potentially dangerous operations
       if (this.isDangerousOperation(entry.operation)) {
-        const sessionFlags = this.confirmationService.getSessionFlags();
-        if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+        if (this.confirmationService.needsConfirmation({ toolName: "operation_history", target: entry.metadata.filesAffected }, "file")) {
           const preview = this.generateUndoPreview(entry);
           const confirmationResult = await this.confirmationService.requestConfirmation(
             {
+              toolName: "operation_history",
+              target: entry.metadata.filesAffected,
               operation: `Undo: ${entry.description}`,
               filename: entry.metadata.filesAffected.join(', '),
               showVSCodeOpen: false,
@@ -201,16 +251,18 @@ export class OperationHistoryTool {
       }
 
       // Perform the undo
-      const result = await this.performUndo(entry);
+      const result = await this.applyEntry(entry, 'undo');
       if (!result.success) {
         return result;
       }
 
       this.currentPosition--;
+      await this.saveHistory();
 
       return {
         success: true,
-        output: `Undone: ${entry.description} (${new Date(entry.timestamp).toLocaleString()})`
+        output: `Undone: ${entry.description} (${new Date(entry.timestamp).toLocaleString()})\n${result.output}`,
+        metadata: result.metadata
       };
     } catch (error: any) {
       return {
@@ -225,6 +277,8 @@ export class OperationHistoryTool {
    */
   async redo(): Promise<ToolResult> {
     try {
+      await this.syncHistory();
+
       if (this.currentPosition >= this.history.length - 1) {
         return {
           success: false,
@@ -237,11 +291,12 @@ export class OperationHistoryTool {
 
       // Request confirmation for potentially dangerous operations
       if (this.isDangerousOperation(entry.operation)) {
-        const sessionFlags = this.confirmationService.getSessionFlags();
-        if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+        if (this.confirmationService.needsConfirmation({ toolName: "operation_history", target: entry.metadata.filesAffected }, "file")) {
           const preview = this.generateRedoPreview(entry);
           const confirmationResult = await this.confirmationService.requestConfirmation(
             {
+              toolName: "operation_history",
+              target: entry.metadata.filesAffected,
               operation: `Redo: ${entry.description}`,
               filename: entry.metadata.filesAffected.join(', '),
               showVSCodeOpen: false,
@@ -259,17 +314,19 @@ export class OperationHistoryTool {
         }
       }
 
-      // Perform the redo (which is actually re-applying the original operation)
-      const result = await this.performRedo(entry);
+      // Perform the redo by restoring the state recorded after the operation
+      const result = await this.applyEntry(entry, 'redo');
       if (!result.success) {
         return result;
       }
 
       this.currentPosition = nextPosition;
+      await this.saveHistory();
 
       return {
         success: true,
-        output: `Redone: ${entry.description} (${new Date(entry.timestamp).toLocaleString()})`
+        output: `Redone: ${entry.description} (${new Date(entry.timestamp).toLocaleString()})\n${result.output}`,
+        metadata: result.metadata
       };
     } catch (error: any) {
       return {
@@ -284,6 +341,8 @@ export class OperationHistoryTool {
    */
   async showHistory(limit: number = 10): Promise<ToolResult> {
     try {
+      await this.syncHistory();
+
       if (this.history.length === 0) {
         return {
           success: true,
@@ -333,6 +392,8 @@ export class OperationHistoryTool {
    */
   async goToHistoryPoint(entryId: string): Promise<ToolResult> {
     try {
+      await this.syncHistory();
+
       const entryIndex = this.history.findIndex(entry => entry.id === entryId);
       if (entryIndex === -1) {
         return {
@@ -352,14 +413,16 @@ export class OperationHistoryTool {
 
       // Determine if we need to undo or redo operations
       const operations: string[] = [];
+      const filesChanged = new Set<string>();
 
       if (targetPosition < this.currentPosition) {
         // Need to undo operations
         for (let i = this.currentPosition; i > targetPosition; i--) {
           const undoResult = await this.undo();
           if (!undoResult.success) {
-            return undoResult;
+            return { ...undoResult, metadata: { filesChanged: Array.from(filesChanged) } };
           }
+          undoResult.metadata?.filesChanged?.forEach((file: string) => filesChanged.add(file));
           operations.push(`Undone: ${this.history[i].description}`);
         }
       } else {
@@ -367,15 +430,17 @@ export class OperationHistoryTool {
         for (let i = this.currentPosition; i < targetPosition; i++) {
           const redoResult = await this.redo();
           if (!redoResult.success) {
-            return redoResult;
+            return { ...redoResult, metadata: { filesChanged: Array.from(filesChanged) } };
           }
+          redoResult.metadata?.filesChanged?.forEach((file: string) => filesChanged.add(file));
           operations.push(`Redone: ${this.history[i + 1].description}`);
         }
       }
 
       return {
         success: true,
-        output: `Moved to history point ${entryId}:\n${operations.join('\n')}`
+        output: `Moved to history point ${entryId}:\n${operations.join('\n')}`,
+        metadata: { filesChanged: Array.from(filesChanged) }
       };
     } catch (error: any) {
       return {
@@ -385,16 +450,136 @@ export class OperationHistoryTool {
     }
   }
 
+  /**
+   * Show the history as a chronological timeline with per-file line changes
+   */
+  async showTimeline(limit: number = 20): Promise<ToolResult> {
+    try {
+      await this.syncHistory();
+
+      if (this.history.length === 0) {
+        return {
+          success: true,
+          output: "No operations in history"
+        };
+      }
+
+      const start = Math.max(0, this.history.length - limit);
+      let output = `Operation Timeline (${this.history.length - start} of ${this.history.length} entries):\n\n`;
+
+      if (this.currentPosition === -1) {
+        output += `→ 0. (before all recorded operations)\n\n`;
+      }
+
+      for (let index = start; index < this.history.length; index++) {
+        const entry = this.history[index];
+        const marker = index === this.currentPosition ? '→ ' : '  ';
+        const status = index > this.currentPosition ? ' (undone)' : '';
+
+        output += `${marker}${index + 1}. ${new Date(entry.timestamp).toLocaleString()}  ${entry.description}${status}\n`;
+        output += `   ${entry.operation} | ID: ${entry.id}\n`;
+
+        if (!entry.rollbackData.forwardFiles) {
+          output += `   Files: ${entry.metadata.filesAffected.join(', ')} (no forward snapshots, cannot be redone)\n\n`;
+          continue;
+        }
+
+        for (const change of await this.getFileChanges(entry)) {
+          const filePath = this.displayPath(change.filePath);
+          if (change.change === 'unknown') {
+            output += `   ? ${filePath} (content not captured)\n`;
+          } else if (change.change === 'unchanged') {
+            output += `     ${filePath} (unchanged)\n`;
+          } else {
+            const stats = countLineChanges(change.before!, change.after!);
+            const symbol = change.change === 'created' ? 'A' : change.change === 'deleted' ? 'D' : 'M';
+            output += `   ${symbol} ${filePath} (+${stats.added} -${stats.removed})\n`;
+          }
+        }
+        output += '\n';
+      }
+
+      output += `Current position: ${this.currentPosition + 1}/${this.history.length}`;
+
+      return {
+        success: true,
+        output
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Error showing timeline: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Show the unified diff of the changes made by a history entry
+   */
+  async showEntryDiff(entryId: string): Promise<ToolResult> {
+    try {
+      await this.syncHistory();
+
+      const entry = this.history.find(candidate => candidate.id === entryId);
+      if (!entry) {
+        return {
+          success: false,
+          error: `Operation with ID ${entryId} not found in history`
+        };
+      }
+
+      if (!entry.rollbackData.forwardFiles) {
+        return {
+          success: false,
+          error: `Operation ${entryId} was recorded without forward snapshots, no diff is available`
+        };
+      }
+
+      const diffs: string[] = [];
+      for (const change of await this.getFileChanges(entry)) {
+        const filePath = this.displayPath(change.filePath);
+        if (change.change === 'unknown') {
+          diffs.push(`${filePath}: content not captured (binary or too large)`);
+          continue;
+        }
+        if (change.change === 'unchanged') {
+          continue;
+        }
+
+        const label = (prefix: string) => path.isAbsolute(filePath) ? filePath : `${prefix}/${filePath}`;
+        diffs.push(formatUnifiedDiff(
+          change.before!,
+          change.after!,
+          change.change === 'created' ? '/dev/null' : label('a'),
+          change.change === 'deleted' ? '/dev/null' : label('b')
+        ));
+      }
+
+      const header = `${entry.description} (${entry.operation}, ${new Date(entry.timestamp).toLocaleString()})`;
+      return {
+        success: true,
+        output: diffs.length > 0 ? `${header}\n\n${diffs.join('\n\n')}` : `${header}\n\nNo changes recorded`
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `Error showing diff: ${error.message}`
+      };
+    }
+  }
+
   /**
    * Clear operation history
    */
   async clearHistory(): Promise<ToolResult> {
     try {
+      await this.syncHistory();
+
       // Request confirmation
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "operation_history" }, "file")) {
         const confirmationResult = await this.confirmationService.requestConfirmation(
           {
+            toolName: "operation_history",
             operation: `Clear operation history (${this.history.length} entries)`,
             filename: 'operation history',
             showVSCodeOpen: false,
@@ -414,6 +599,7 @@ export class OperationHistoryTool {
       this.history = [];
       this.currentPosition = -1;
       await this.saveHistory();
+      await this.pruneSnapshots();
 
       return {
         success: true,
@@ -428,7 +614,7 @@ export class OperationHistoryTool {
   }
 
   /**
-   * Create snapshots of files before operation
+   * Snapshot the current state of files, storing their content in the snapshot store
    */
   private async createFileSnapshots(files: string[]): Promise<FileSnapshot[]> {
     const snapshots: FileSnapshot[] = [];
@@ -444,10 +630,11 @@ export class OperationHistoryTool {
         };
 
         if (exists) {
-          const stats = await ops.promises.stat(resolvedPath);
+          const stats = await fs.promises.stat(resolvedPath);
 
-          if (stats.isFile() && this.shouldSnapshotFile(resolvedPath)) {
-            snapshot.content = await ops.promises.readFile(resolvedPath, 'utf-8');
+          if (stats.isFile() && this.shouldSnapshotFile(resolvedPath, stats.size)) {
+            const content = await fs.promises.readFile(resolvedPath, 'utf-8');
+            snapshot.contentHash = await this.snapshotStore.put(content);
             snapshot.size = stats.size;
             snapshot.lastModified = stats.mtime;
             snapshot.permissions = stats.mode.toString(8);
@@ -468,16 +655,41 @@ export class OperationHistoryTool {
   }
 
   /**
-   * Check if file should be snapshotted (based on size and type)
+   * Move inline snapshot content supplied by callers into the snapshot store
    */
-  private shouldSnapshotFile(filePath: string): boolean {
-    // Skip large files (> 1MB)
-    try {
-      const stats = ops.statSync(filePath);
-      if (stats.size > 1024 * 1024) {
-        return false;
+  private async storeSnapshots(snapshots: FileSnapshot[]): Promise<FileSnapshot[]> {
+    const stored: FileSnapshot[] = [];
+
+    for (const { content, ...snapshot } of snapshots) {
+      snapshot.filePath = path.resolve(snapshot.filePath);
+      if (content !== undefined) {
+        snapshot.contentHash = await this.snapshotStore.put(content);
       }
-    } catch {
+      stored.push(snapshot);
+    }
+
+    return stored;
+  }
+
+  /**
+   * Content of a snapshot, or undefined when it was not captured (binary or too large)
+   */
+  private async readSnapshotContent(snapshot: FileSnapshot): Promise<string | undefined> {
+    if (snapshot.content !== undefined) {
+      return snapshot.content;
+    }
+    if (snapshot.contentHash) {
+      return await this.snapshotStore.get(snapshot.contentHash);
+    }
+    return undefined;
+  }
+
+  /**
+   * Check if file should be snapshotted (based on size and type)
+   */
+  private shouldSnapshotFile(filePath: string, size: number): boolean {
+    // Skip large files
+    if (size > this.options.maxSnapshotSize!) {
       return false;
     }
 
@@ -506,77 +718,73 @@ export class OperationHistoryTool {
   }
 
   /**
-   * Perform undo operation
+   * Undo or redo an entry by restoring its before or after snapshots. All
+   * rollback types (file, multi-file, refactor, search-replace) record whole
+   * file snapshots, so both directions are handled the same way.
    */
-  private async performUndo(entry: HistoryEntry): Promise<ToolResult> {
+  private async applyEntry(entry: HistoryEntry, direction: 'undo' | 'redo'): Promise<ToolResult> {
     try {
       const rollbackData = entry.rollbackData;
 
-      switch (rollbackData.type) {
-        case 'file_operations':
-          return await this.undoFileOperations(rollbackData.files);
-
-        case 'multi_file':
-          return await this.undoMultiFileOperation(rollbackData.files);
-
-        case 'refactor':
-          return await this.undoRefactorOperation(rollbackData.files, rollbackData.customData);
-
-        case 'search_replace':
-          return await this.undoSearchReplaceOperation(rollbackData.files);
+      if (!ROLLBACK_TYPES.includes(rollbackData.type)) {
+        return {
+          success: false,
+          error: `Unknown rollback type: ${rollbackData.type}`
+        };
+      }
 
-        default:
-          return {
-            success: false,
-            error: `Unknown rollback type: ${rollbackData.type}`
-          };
+      if (direction === 'redo' && !rollbackData.forwardFiles) {
+        return {
+          success: false,
+          error: `Cannot redo "${entry.description}": it was recorded without forward snapshots`
+        };
       }
+
+      const snapshots = direction === 'undo' ? rollbackData.files : rollbackData.forwardFiles!;
+      return await this.restoreSnapshots(snapshots, direction);
     } catch (error: any) {
       return {
         success: false,
-        error: `Error performing undo: ${error.message}`
+        error: `Error performing ${direction}: ${error.message}`
       };
     }
   }
 
   /**
-   * Perform redo operation
+   * Bring files back to the state described by their snapshots
    */
-  private async performRedo(_entry: HistoryEntry): Promise<ToolResult> {
-    // For redo, we need to re-apply the changes
-    // This is complex because we need to store the "forward" changes as well
-    // For now, this is a simplified implementation
-    return {
-      success: false,
-      error: "Redo functionality requires storing forward changes - not yet implemented"
-    };
-  }
-
-  /**
-   * Undo file operations
-   */
-  private async undoFileOperations(fileSnapshots: FileSnapshot[]): Promise<ToolResult> {
+  private async restoreSnapshots(fileSnapshots: FileSnapshot[], direction: 'undo' | 'redo'): Promise<ToolResult> {
+    const label = direction === 'undo' ? 'Undo' : 'Redo';
     const restored: string[] = [];
+    const filesChanged: string[] = [];
     const errors: string[] = [];
 
     for (const snapshot of fileSnapshots) {
       try {
         const currentExists = await pathExists(snapshot.filePath);
 
-        if (snapshot.existed && snapshot.content !== undefined) {
+        if (snapshot.existed) {
+          const content = await this.readSnapshotContent(snapshot);
+          if (content === undefined) {
+            errors.push(`Skipped ${snapshot.filePath}: content was not captured (binary or too large)`);
+            continue;
+          }
+
           // Restore file content
-          await ops.ensureDir(path.dirname(snapshot.filePath));
-          await ops.promises.writeFile(snapshot.filePath, snapshot.content, 'utf-8');
+          await fs.promises.mkdir(path.dirname(snapshot.filePath), { recursive: true });
+          await fs.promises.writeFile(snapshot.filePath, content, 'utf-8');
 
           if (snapshot.permissions) {
-            await ops.promises.chmod(snapshot.filePath, parseInt(snapshot.permissions, 8));
+            await fs.promises.chmod(snapshot.filePath, parseInt(snapshot.permissions, 8));
           }
 
           restored.push(`Restored: ${snapshot.filePath}`);
-        } else if (!snapshot.existed && currentExists) {
-          // Remove file that didn't exist before
-          await ops.promises.rm(snapshot.filePath);
+          filesChanged.push(snapshot.filePath);
+        } else if (currentExists) {
+          // Remove file that didn't exist in this state
+          await fs.promises.rm(snapshot.filePath);
           restored.push(`Removed: ${snapshot.filePath}`);
+          filesChanged.push(snapshot.filePath);
         }
       } catch (error: any) {
         errors.push(`Failed to restore ${snapshot.filePath}: ${error.message}`);
@@ -586,42 +794,65 @@ export class OperationHistoryTool {
     if (errors.length > 0 && restored.length === 0) {
       return {
         success: false,
-        error: `Undo failed:\n${errors.join('\n')}`
+        error: `${label} failed:\n${errors.join('\n')}`
       };
     }
 
-    let output = `Undo completed:\n${restored.join('\n')}`;
+    let output = `${label} completed:\n${restored.join('\n')}`;
     if (errors.length > 0) {
       output += `\n\nWarnings:\n${errors.join('\n')}`;
     }
 
     return {
       success: true,
-      output
+      output,
+      metadata: { filesChanged }
     };
   }
 
   /**
-   * Undo multi-file operation
+   * Pair the before and after snapshots of an entry per file
    */
-  private async undoMultiFileOperation(fileSnapshots: FileSnapshot[]): Promise<ToolResult> {
-    // Similar to undoFileOperations but with transaction-like behavior
-    return await this.undoFileOperations(fileSnapshots);
-  }
+  private async getFileChanges(entry: HistoryEntry): Promise<FileChange[]> {
+    const before = new Map(entry.rollbackData.files.map(snapshot => [snapshot.filePath, snapshot]));
+    const after = new Map((entry.rollbackData.forwardFiles || []).map(snapshot => [snapshot.filePath, snapshot]));
+    const filePaths = Array.from(new Set([...before.keys(), ...after.keys()]));
+    const changes: FileChange[] = [];
+
+    for (const filePath of filePaths) {
+      const beforeSnapshot = before.get(filePath);
+      const afterSnapshot = after.get(filePath);
+
+      if (!beforeSnapshot || !afterSnapshot) {
+        changes.push({ filePath, change: 'unknown' });
+        continue;
+      }
 
-  /**
-   * Undo refactor operation
-   */
-  private async undoRefactorOperation(fileSnapshots: FileSnapshot[], _customData: any): Promise<ToolResult> {
-    // Refactor operations can be more complex and might need custom undo logic
-    return await this.undoFileOperations(fileSnapshots);
-  }
+      if (!beforeSnapshot.existed && !afterSnapshot.existed) {
+        changes.push({ filePath, change: 'unchanged' });
+        continue;
+      }
 
-  /**
-   * Undo search and replace operation
-   */
-  private async undoSearchReplaceOperation(fileSnapshots: FileSnapshot[]): Promise<ToolResult> {
-    return await this.undoFileOperations(fileSnapshots);
+      const beforeContent = beforeSnapshot.existed ? await this.readSnapshotContent(beforeSnapshot) : '';
+      const afterContent = afterSnapshot.existed ? await this.readSnapshotContent(afterSnapshot) : '';
+
+      if (beforeContent === undefined || afterContent === undefined) {
+        changes.push({ filePath, change: 'unknown' });
+      } else if (!beforeSnapshot.existed) {
+        changes.push({ filePath, change: 'created', before: beforeContent, after: afterContent });
+      } else if (!afterSnapshot.existed) {
+        changes.push({ filePath, change: 'deleted', before: beforeContent, after: afterContent });
+      } else {
+        changes.push({
+          filePath,
+          change: beforeContent === afterContent ? 'unchanged' : 'modified',
+          before: beforeContent,
+          after: afterContent
+        });
+      }
+    }
+
+    return changes;
   }
 
   /**
@@ -658,14 +889,19 @@ export class OperationHistoryTool {
     preview += `Timestamp: ${new Date(entry.timestamp).toLocaleString()}\n`;
     preview += `Files affected: ${entry.metadata.filesAffected.length}\n\n`;
 
+    const forwardFiles = entry.rollbackData.forwardFiles || [];
     preview += "This will re-apply the original operation.\n";
     preview += "Files to be modified:\n";
-    for (const filePath of entry.metadata.filesAffected.slice(0, 10)) {
-      preview += `  - ${filePath}\n`;
+    for (const file of forwardFiles.slice(0, 10)) {
+      if (file.existed) {
+        preview += `  - Restore: ${file.filePath}\n`;
+      } else {
+        preview += `  - Remove: ${file.filePath}\n`;
+      }
     }
 
-    if (entry.metadata.filesAffected.length > 10) {
-      preview += `  ... and ${entry.metadata.filesAffected.length - 10} more files\n`;
+    if (forwardFiles.length > 10) {
+      preview += `  ... and ${forwardFiles.length - 10} more files\n`;
     }
 
     return preview;
@@ -709,10 +945,18 @@ export class OperationHistoryTool {
     return regex.test(filePath);
   }
 
+  /**
+   * Display path relative to the working directory when inside it
+   */
+  private displayPath(filePath: string): string {
+    const relative = path.relative(process.cwd(), filePath);
+    return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : filePath;
+  }
+
   /**
    * Clean up old entries
    */
-  private cleanupOldEntries(): void {
+  private async cleanupOldEntries(): Promise<void> {
     if (!this.options.maxAge) return;
 
     const cutoffTime = Date.now() - this.options.maxAge;
@@ -725,6 +969,28 @@ export class OperationHistoryTool {
     // Adjust current position
     const removedCount = originalLength - this.history.length;
     this.currentPosition = Math.max(-1, this.currentPosition - removedCount);
+
+    if (removedCount > 0) {
+      await this.saveHistory();
+      await this.pruneSnapshots();
+    }
+  }
+
+  /**
+   * Reload the history when another instance or process has saved it since
+   * this instance last read or wrote it
+   */
+  private async syncHistory(): Promise<void> {
+    await this.ready;
+
+    try {
+      const stats = await fs.promises.stat(this.historyFile);
+      if (stats.mtimeMs !== this.historyMtime) {
+        await this.loadHistory();
+      }
+    } catch {
+      // No history file yet
+    }
   }
 
   /**
@@ -733,7 +999,8 @@ export class OperationHistoryTool {
   private async loadHistory(): Promise<void> {
     try {
       if (await pathExists(this.historyFile)) {
-        const data = await ops.promises.readFile(this.historyFile, 'utf-8');
+        const stats = await fs.promises.stat(this.historyFile);
+        const data = await fs.promises.readFile(this.historyFile, 'utf-8');
         const parsed = JSON.parse(data);
 
         this.history = parsed.entries.map((entry: any) => ({
@@ -741,7 +1008,10 @@ export class OperationHistoryTool {
           timestamp: new Date(entry.timestamp)
         }));
 
-        this.currentPosition = parsed.currentPosition || this.history.length - 1;
+        this.currentPosition = typeof parsed.currentPosition === 'number'
+          ? Math.min(parsed.currentPosition, this.history.length - 1)
+          : this.history.length - 1;
+        this.historyMtime = stats.mtimeMs;
       }
     } catch {
       // If we can't load history, start fresh
@@ -755,7 +1025,7 @@ export class OperationHistoryTool {
    */
   private async saveHistory(): Promise<void> {
     try {
-      await ops.ensureDir(path.dirname(this.historyFile));
+      await fs.promises.mkdir(path.dirname(this.historyFile), { recursive: true });
 
       const data = {
         entries: this.history,
@@ -763,12 +1033,36 @@ export class OperationHistoryTool {
         lastUpdated: new Date().toISOString()
       };
 
-      await ops.promises.writeFile(this.historyFile, JSON.stringify(data, null, 2), 'utf-8');
+      // Write atomically so a concurrent reader never sees a partial file
+      const tmpFile = `${this.historyFile}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpFile, JSON.stringify(data, null, 2), 'utf-8');
+      await fs.promises.rename(tmpFile, this.historyFile);
+      this.historyMtime = (await fs.promises.stat(this.historyFile)).mtimeMs;
     } catch {
       // Silently ignore save errors to avoid disrupting operations
     }
   }
 
+  /**
+   * Delete snapshot objects no longer referenced by any history entry
+   */
+  private async pruneSnapshots(): Promise<void> {
+    const referenced = new Set<string>();
+    for (const entry of this.history) {
+      for (const snapshot of [...entry.rollbackData.files, ...(entry.rollbackData.forwardFiles || [])]) {
+        if (snapshot.contentHash) {
+          referenced.add(snapshot.contentHash);
+        }
+      }
+    }
+
+    try {
+      await this.snapshotStore.prune(referenced, SNAPSHOT_PRUNE_GRACE);
+    } catch {
+      // Unreferenced objects are retried on the next prune
+    }
+  }
+
   /**
    * Get current history status
    */
@@ -780,4 +1074,63 @@ export class OperationHistoryTool {
       canRedo: this.currentPosition < this.history.length - 1
     };
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: "operation_history",
+        description: "Show the history of file operations as a list or a timeline, view the diff of an entry, and undo, redo or jump to a point in that history.",
+        summary: "Track, undo, and redo operations with comprehensive history management",
+        category: "write",
+        group: "advanced",
+        parameters: {
+          type: "object",
+          properties: {
+            operation: {
+              type: "string",
+              enum: ["show_history", "timeline", "show_diff", "undo", "redo", "goto_point", "clear_history"],
+              description: "Operation to perform"
+            },
+            limit: {
+              type: "number",
+              description: "Number of entries to show (for show_history, default: 10; for timeline, default: 20)"
+            },
+            entry_id: {
+              type: "string",
+              description: "History entry to jump to (for goto_point) or to diff (for show_diff)"
+            }
+          },
+          required: ["operation"]
+        },
+        handler: (args) => this.executeToolCall(args),
+      },
+    ];
+  }
+
+  /**
+   * Dispatch a operation_history tool call to the matching operation
+   */
+  private async executeToolCall(args: any): Promise<ToolResult> {
+    switch (args.operation) {
+      case "show_history":
+        return await this.showHistory(args.limit);
+      case "timeline":
+        return await this.showTimeline(args.limit);
+      case "show_diff":
+        return await this.showEntryDiff(args.entry_id);
+      case "undo":
+        return await this.undo();
+      case "redo":
+        return await this.redo();
+      case "goto_point":
+        return await this.goToHistoryPoint(args.entry_id);
+      case "clear_history":
+        return await this.clearHistory();
+      default:
+        return { success: false, error: `Unknown operation_history operation: ${args.operation}` };
+    }
+  }
 }
\ No newline at end of file
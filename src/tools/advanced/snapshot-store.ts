@@ -0,0 +1,103 @@
+/**
+ * Snapshot Store
+ *
+ * Content-addressed storage for operation history snapshots. File contents
+ * are written once under `objects/<first two hash chars>/<sha256>` and
+ * snapshots only keep the hash, so a large file that appears in many
+ * history entries is stored a single time.
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+export class SnapshotStore {
+  readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  static hash(content: string): string {
+    return createHash("sha256").update(content, "utf-8").digest("hex");
+  }
+
+  /**
+   * Store content and return its hash. Existing objects are not rewritten,
+   * only touched so that prune() treats them as recently used.
+   */
+  async put(content: string): Promise<string> {
+    const hash = SnapshotStore.hash(content);
+    const objectPath = this.objectPath(hash);
+
+    if (fs.existsSync(objectPath)) {
+      const now = new Date();
+      await fs.promises.utimes(objectPath, now, now);
+    } else {
+      await fs.promises.mkdir(path.dirname(objectPath), { recursive: true });
+      const tmpPath = `${objectPath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpPath, content, "utf-8");
+      await fs.promises.rename(tmpPath, objectPath);
+    }
+
+    return hash;
+  }
+
+  async get(hash: string): Promise<string> {
+    try {
+      return await fs.promises.readFile(this.objectPath(hash), "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        throw new Error(`Snapshot ${hash.slice(0, 12)} is missing from ${this.directory}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete objects that are not in the referenced set and were not written
+   * within the last `minAge` milliseconds. Returns the number of objects removed.
+   */
+  async prune(referenced: Set<string>, minAge: number = 0): Promise<number> {
+    const cutoff = Date.now() - minAge;
+    let removed = 0;
+    let prefixes: string[];
+    try {
+      prefixes = await fs.promises.readdir(this.directory);
+    } catch {
+      return 0;
+    }
+
+    for (const prefix of prefixes) {
+      const prefixDir = path.join(this.directory, prefix);
+      let objects: string[];
+      try {
+        objects = await fs.promises.readdir(prefixDir);
+      } catch {
+        continue;
+      }
+
+      for (const object of objects) {
+        if (referenced.has(object)) {
+          continue;
+        }
+        const objectPath = path.join(prefixDir, object);
+        const stats = await fs.promises.stat(objectPath).catch(() => null);
+        if (stats && stats.mtimeMs <= cutoff) {
+          await fs.promises.rm(objectPath, { force: true });
+          removed++;
+        }
+      }
+
+      if (objects.length > 0 && (await fs.promises.readdir(prefixDir)).length === 0) {
+        await fs.promises.rmdir(prefixDir).catch(() => undefined);
+      }
+    }
+
+    return removed;
+  }
+
+  private objectPath(hash: string): string {
+    return path.join(this.directory, hash.slice(0, 2), hash);
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Shell Processes
+ *
+ * Spawns shell commands with live output for BashTool. Foreground commands
+ * stream their output through a callback and resolve like `exec` does;
+ * background commands keep running after the tool call returns and are
+ * polled with `bash_output` and stopped with `bash_kill`.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import * as os from 'os';
+
+export interface ShellCommandOptions {
+  cwd: string;
+  shell: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+export interface RunCommandOptions extends ShellCommandOptions {
+  timeout?: number;
+  maxBuffer?: number;
+  onOutput?: (chunk: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Rejection shape of runCommand, matching the fields of child_process.exec errors
+ */
+export interface CommandError extends Error {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  killed: boolean;
+  stdout: string;
+  stderr: string;
+}
+
+export type BackgroundProcessStatus = 'running' | 'exited' | 'killed';
+
+export interface BackgroundProcessInfo {
+  id: string;
+  command: string;
+  pid?: number;
+  status: BackgroundProcessStatus;
+  exitCode: number | null;
+  startedAt: Date;
+  endedAt?: Date;
+}
+
+interface BackgroundProcess extends BackgroundProcessInfo {
+  child: ChildProcess;
+  output: string;
+  /** Offset into `output` of the last bash_output read */
+  readOffset: number;
+  /** Characters dropped from the start of `output` to respect the buffer limit */
+  droppedChars: number;
+}
+
+const DEFAULT_MAX_BUFFER = 1024 * 1024 * 10;
+const MAX_BACKGROUND_OUTPUT = 1024 * 1024;
+const KILL_GRACE_PERIOD_MS = 2000;
+const isWindows = os.platform() === 'win32';
+
+function spawnShell(command: string, options: ShellCommandOptions): ChildProcess {
+  return spawn(options.shell, ['-c', command], {
+    cwd: options.cwd,
+    env: options.env || process.env,
+    // Own process group so the whole tree (e.g. `npm run dev` and its children) can be killed
+    detached: !isWindows,
+    windowsHide: true,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+}
+
+function killTree(child: ChildProcess, signal: NodeJS.Signals = 'SIGTERM'): void {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+  try {
+    if (isWindows) {
+      child.kill(signal);
+    } else {
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Run a command to completion, streaming output as it arrives
+ */
+export function runCommand(command: string, options: RunCommandOptions): Promise<{ stdout: string; stderr: string }> {
+  const maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER;
+
+  return new Promise((resolve, reject) => {
+    const child = spawnShell(command, options);
+    let stdout = '';
+    let stderr = '';
+    let killed = false;
+    let timedOut = false;
+    let bufferExceeded = false;
+
+    const stop = () => {
+      killed = true;
+      killTree(child, 'SIGTERM');
+      setTimeout(() => killTree(child, 'SIGKILL'), KILL_GRACE_PERIOD_MS).unref();
+    };
+
+    const timer = options.timeout
+      ? setTimeout(() => {
+        timedOut = true;
+        stop();
+      }, options.timeout)
+      : null;
+
+    const onAbort = () => stop();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const collect = (stream: 'stdout' | 'stderr') => (data: Buffer) => {
+      const text = data.toString();
+      if (stdout.length + stderr.length + text.length > maxBuffer) {
+        bufferExceeded = true;
+        stop();
+        return;
+      }
+      if (stream === 'stdout') {
+        stdout += text;
+      } else {
+        stderr += text;
+      }
+      options.onOutput?.(text);
+    };
+    child.stdout?.on('data', collect('stdout'));
+    child.stderr?.on('data', collect('stderr'));
+
+    const finish = (code: number | null, signal: NodeJS.Signals | null, spawnError?: Error) => {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+
+      if (!spawnError && code === 0 && !killed) {
+        resolve({ stdout, stderr });
+        return;
+      }
+
+      let reason = spawnError?.message || stderr;
+      if (timedOut) {
+        reason = `Timed out after ${options.timeout}ms\n${stderr}`;
+      } else if (bufferExceeded) {
+        reason = `Output exceeded ${maxBuffer} bytes\n${stderr}`;
+      } else if (options.signal?.aborted) {
+        reason = 'Cancelled';
+      }
+
+      const error = new Error(`Command failed: ${command}\n${reason}`) as CommandError;
+      error.code = code;
+      error.signal = signal;
+      error.killed = killed;
+      error.stdout = stdout;
+      error.stderr = stderr;
+      reject(error);
+    };
+
+    child.on('error', (error) => finish(null, null, error));
+    child.on('close', (code, signal) => finish(code, signal));
+  });
+}
+
+/** Every manager, so background jobs can be killed when the CLI exits */
+const managers = new Set<BackgroundProcessManager>();
+let exitHookInstalled = false;
+
+export class BackgroundProcessManager {
+  private processes: Map<string, BackgroundProcess> = new Map();
+  private nextId = 1;
+
+  constructor() {
+    managers.add(this);
+    if (!exitHookInstalled) {
+      exitHookInstalled = true;
+      process.once('exit', () => {
+        for (const manager of managers) {
+          manager.killAll();
+        }
+      });
+    }
+  }
+
+  /**
+   * Start a command in the background and return its id
+   */
+  start(command: string, options: ShellCommandOptions): BackgroundProcessInfo {
+    const child = spawnShell(command, options);
+    const entry: BackgroundProcess = {
+      id: `bash_${this.nextId++}`,
+      command,
+      pid: child.pid,
+      status: 'running',
+      exitCode: null,
+      startedAt: new Date(),
+      child,
+      output: '',
+      readOffset: 0,
+      droppedChars: 0,
+    };
+
+    const append = (data: Buffer) => {
+      entry.output += data.toString();
+      if (entry.output.length > MAX_BACKGROUND_OUTPUT) {
+        const overflow = entry.output.length - MAX_BACKGROUND_OUTPUT;
+        entry.output = entry.output.slice(overflow);
+        entry.droppedChars += overflow;
+        entry.readOffset = Math.max(0, entry.readOffset - overflow);
+      }
+    };
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+
+    child.on('error', (error) => {
+      entry.output += `\n${error.message}`;
+      entry.status = 'exited';
+      entry.endedAt = new Date();
+    });
+    child.on('close', (code) => {
+      if (entry.status === 'running') {
+        entry.status = 'exited';
+      }
+      entry.exitCode = code;
+      entry.endedAt = new Date();
+    });
+
+    this.processes.set(entry.id, entry);
+    return this.toInfo(entry);
+  }
+
+  /**
+   * Output produced since the previous call for this process
+   */
+  readOutput(id: string): { info: BackgroundProcessInfo; output: string; truncated: boolean } | null {
+    const entry = this.processes.get(id);
+    if (!entry) {
+      return null;
+    }
+    const output = entry.output.slice(entry.readOffset);
+    const truncated = entry.readOffset === 0 && entry.droppedChars > 0;
+    entry.readOffset = entry.output.length;
+    return { info: this.toInfo(entry), output, truncated };
+  }
+
+  kill(id: string): BackgroundProcessInfo | null {
+    const entry = this.processes.get(id);
+    if (!entry) {
+      return null;
+    }
+    if (entry.status === 'running') {
+      entry.status = 'killed';
+      killTree(entry.child, 'SIGTERM');
+      setTimeout(() => killTree(entry.child, 'SIGKILL'), KILL_GRACE_PERIOD_MS).unref();
+    }
+    return this.toInfo(entry);
+  }
+
+  killAll(): void {
+    for (const entry of this.processes.values()) {
+      if (entry.status === 'running') {
+        entry.status = 'killed';
+        killTree(entry.child, 'SIGKILL');
+      }
+    }
+  }
+
+  list(): BackgroundProcessInfo[] {
+    return Array.from(this.processes.values()).map((entry) => this.toInfo(entry));
+  }
+
+  private toInfo(entry: BackgroundProcess): BackgroundProcessInfo {
+    return {
+      id: entry.id,
+      command: entry.command,
+      pid: entry.pid,
+      status: entry.status,
+      exitCode: entry.exitCode,
+      startedAt: entry.startedAt,
+      endedAt: entry.endedAt,
+    };
+  }
+}
@@ -1,19 +1,26 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { ToolResult } from '../types/index.js';
 import { ConfirmationService } from '../utils/confirmation-service.js';
-import { SelfCorrectError } from '../types/errors.js';
+import { SelfCorrectError, isSelfCorrectError } from '../types/errors.js';
+import { getSettingsManager } from '../utils/settings-manager.js';
+import { ToolDefinition, ToolExecutionContext, ToolProvider } from './registry.js';
+import { BashSandbox } from './sandbox.js';
+import { BackgroundProcessManager, runCommand } from './background-processes.js';
 
-const execAsync = promisify(exec);
-
-export class BashTool {
+export class BashTool implements ToolProvider {
   private currentDirectory: string = process.cwd();
   private confirmationService = ConfirmationService.getInstance();
   private readonly isWindows: boolean = os.platform() === 'win32';
   private readonly shell: string = this.isWindows ? 'powershell.exe' : '/bin/bash';
+  private readonly projectRoot: string = process.cwd();
+  /**
+   * Read once at startup: `.grok/settings.json` is inside the writable project
+   * root, so a sandboxed command must not be able to loosen its own policy
+   */
+  private readonly sandboxSettings = getSettingsManager().getSandboxSettings();
+  private backgroundProcesses = new BackgroundProcessManager();
 
   /**
    * Translate common Unix commands to Windows equivalents
@@ -89,16 +96,38 @@ export class BashTool {
     return command;
   }
 
-  async execute(command: string, timeout: number = 60000): Promise<ToolResult> {
+  /**
+   * Sandbox for this command, or null when sandbox mode is off
+   */
+  private getSandbox(): BashSandbox | null {
+    const settings = this.sandboxSettings;
+    if (!settings.enabled || this.isWindows) {
+      return null;
+    }
+    return new BashSandbox({
+      projectRoot: this.projectRoot,
+      writablePaths: settings.writablePaths,
+      allowNetwork: settings.allowNetwork,
+    });
+  }
+
+  async execute(
+    command: string,
+    timeout: number = 60000,
+    options: ToolExecutionContext & { runInBackground?: boolean } = {}
+  ): Promise<ToolResult> {
+    const sandbox = this.getSandbox();
+
     try {
       // Translate Unix commands to Windows equivalents if needed
       const translatedCommand = this.translateCommand(command);
 
-      // Check if user has already accepted bash commands for this session
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.bashCommands && !sessionFlags.allOperations) {
+      // Check permission rules and whether bash commands were accepted for this session
+      if (this.confirmationService.needsConfirmation({ toolName: 'bash', target: command }, 'bash')) {
         // Request confirmation showing the command
         const confirmationResult = await this.confirmationService.requestConfirmation({
+          toolName: 'bash',
+          target: command,
           operation: 'Run bash command',
           filename: translatedCommand,
           showVSCodeOpen: false,
@@ -130,11 +159,35 @@ export class BashTool {
         }
       }
 
-      const { stdout, stderr } = await execAsync(translatedCommand, {
+      let commandToRun = translatedCommand;
+      if (sandbox) {
+        if (sandbox.getBackend() === 'policy') {
+          sandbox.checkCommand(translatedCommand, this.currentDirectory);
+        }
+        commandToRun = sandbox.wrapCommand(translatedCommand, this.currentDirectory);
+      }
+
+      const shellOptions = {
         cwd: this.currentDirectory,
+        shell: this.shell,
+        env: sandbox ? sandbox.sanitizeEnvironment() : process.env
+      };
+
+      if (options.runInBackground) {
+        const info = this.backgroundProcesses.start(commandToRun, shellOptions);
+        return {
+          success: true,
+          output: `Started background process ${info.id}${info.pid ? ` (pid ${info.pid})` : ''}: ${command}\nUse bash_output with id "${info.id}" to read its output and bash_kill to stop it.`,
+          data: { id: info.id, pid: info.pid }
+        };
+      }
+
+      const { stdout, stderr } = await runCommand(commandToRun, {
+        ...shellOptions,
         timeout,
         maxBuffer: 1024 * 1024 * 10,
-        shell: this.shell
+        onOutput: options.onOutput,
+        signal: options.signal
       });
 
       const output = stdout + (stderr ? `\nSTDERR: ${stderr}` : '');
@@ -144,6 +197,18 @@ export class BashTool {
         output: output.trim() || 'Command executed successfully (no output)'
       };
     } catch (error: any) {
+      if (isSelfCorrectError(error)) {
+        throw error;
+      }
+
+      // Surface sandbox policy violations so the model can adapt
+      if (sandbox) {
+        const violation = sandbox.detectViolation(command, `${error.stderr || ''}\n${error.stdout || ''}`);
+        if (violation) {
+          throw violation;
+        }
+      }
+
       // If command failed and we're on Windows, suggest using Node.js helpers
       if (this.isWindows && error.message.includes('is not recognized')) {
         const originalCmd = command.split(' ')[0];
@@ -161,6 +226,15 @@ export class BashTool {
         });
       }
 
+      if (sandbox) {
+        // error.message would contain the whole sandbox wrapper command
+        const details = (error.stderr || error.stdout || '').trim();
+        return {
+          success: false,
+          error: `Command failed${typeof error.code === 'number' ? ` with exit code ${error.code}` : ''}${details ? `: ${details}` : ''}`
+        };
+      }
+
       return {
         success: false,
         error: `Command failed: ${error.message}`
@@ -172,6 +246,58 @@ export class BashTool {
     return this.currentDirectory;
   }
 
+  /**
+   * New output of a background process since the last read
+   */
+  getBackgroundOutput(id: string): ToolResult {
+    const result = this.backgroundProcesses.readOutput(id);
+    if (!result) {
+      return {
+        success: false,
+        error: `No background process with id "${id}". Running processes: ${this.describeBackgroundProcesses()}`
+      };
+    }
+
+    const { info, output, truncated } = result;
+    const status = info.status === 'running'
+      ? 'running'
+      : `${info.status}${info.exitCode !== null ? ` (exit code ${info.exitCode})` : ''}`;
+
+    return {
+      success: true,
+      output: `[${info.id}] ${status}\n${truncated ? '[earlier output truncated]\n' : ''}${output.trim() || '(no new output)'}`,
+      data: info
+    };
+  }
+
+  killBackgroundProcess(id: string): ToolResult {
+    const info = this.backgroundProcesses.kill(id);
+    if (!info) {
+      return {
+        success: false,
+        error: `No background process with id "${id}". Running processes: ${this.describeBackgroundProcesses()}`
+      };
+    }
+    return {
+      success: true,
+      output: info.status === 'killed'
+        ? `Killed background process ${info.id}: ${info.command}`
+        : `Background process ${info.id} already ${info.status}${info.exitCode !== null ? ` (exit code ${info.exitCode})` : ''}`
+    };
+  }
+
+  /**
+   * Stop every background process (on abort and exit)
+   */
+  killAllBackgroundProcesses(): void {
+    this.backgroundProcesses.killAll();
+  }
+
+  private describeBackgroundProcesses(): string {
+    const running = this.backgroundProcesses.list().filter(info => info.status === 'running');
+    return running.length > 0 ? running.map(info => `${info.id} (${info.command})`).join(', ') : 'none';
+  }
+
   /**
    * List files in a directory (Windows-compatible using Node APIs)
    */
@@ -418,4 +544,73 @@ export class BashTool {
     const i = Math.floor(Math.log(bytes) / Math.log(k));
     return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'bash',
+        description: 'Execute a bash command',
+        summary: 'Execute bash commands (use for searching, file discovery, navigation, and system operations)',
+        category: 'execute',
+        group: 'core',
+        parameters: {
+          type: 'object',
+          properties: {
+            command: {
+              type: 'string',
+              description: 'The bash command to execute',
+            },
+            run_in_background: {
+              type: 'boolean',
+              description: 'Run the command in the background (for dev servers, watchers and long test runs) and return a process id',
+            },
+          },
+          required: ['command'],
+        },
+        handler: (args, context) => this.execute(args.command, undefined, {
+          ...context,
+          runInBackground: args.run_in_background === true,
+        }),
+      },
+      {
+        name: 'bash_output',
+        description: 'Read new output from a background bash process started with run_in_background',
+        summary: 'Read new output and status of a background bash process',
+        category: 'read',
+        group: 'core',
+        parameters: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Background process id returned by bash (e.g. "bash_1")',
+            },
+          },
+          required: ['id'],
+        },
+        handler: async (args) => this.getBackgroundOutput(args.id),
+      },
+      {
+        name: 'bash_kill',
+        description: 'Stop a background bash process',
+        summary: 'Stop a background bash process',
+        category: 'execute',
+        group: 'core',
+        parameters: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Background process id returned by bash (e.g. "bash_1")',
+            },
+          },
+          required: ['id'],
+        },
+        handler: async (args) => this.killBackgroundProcess(args.id),
+      },
+    ];
+  }
 }
\ No newline at end of file
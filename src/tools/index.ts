@@ -20,5 +20,7 @@ export {
   SymbolSearchTool,
   DependencyAnalyzerTool,
   CodeContextTool,
-  RefactoringAssistantTool
+  RefactoringAssistantTool,
+  ASTParserTool,
+  LanguageServerTool
 } from "./intelligence/index.js";
@@ -0,0 +1,93 @@
+/**
+ * Tests for the persisted code intelligence index: a restart loads
+ * `.grok/index/` and only parses files whose content changed
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeIntelligenceEngine } from '../engine.js';
+import { CodeIndexStore } from '../index-store.js';
+
+type ParseFile = (filePath: string, content: string, language: string) => Promise<unknown>;
+
+describe('Persisted code index', () => {
+  let projectDir: string;
+  let engines: CodeIntelligenceEngine[];
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-index-'));
+    engines = [];
+    fs.writeFileSync(path.join(projectDir, 'math.ts'), 'export function add(a: number, b: number) {\n  return a + b;\n}\n');
+    fs.writeFileSync(path.join(projectDir, 'main.ts'), "import { add } from './math';\n\nexport function main() {\n  return add(1, 2);\n}\n");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    engines.forEach((engine) => engine.dispose());
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  function createEngine(): CodeIntelligenceEngine {
+    const engine = new CodeIntelligenceEngine(projectDir, { watch: false });
+    engines.push(engine);
+    return engine;
+  }
+
+  /** Files parsed by engines from now on */
+  function spyOnParsedFiles(): () => string[] {
+    const spy = vi.spyOn(CodeIntelligenceEngine.prototype as unknown as { parseFile: ParseFile }, 'parseFile');
+    return () => spy.mock.calls.map(([filePath]) => path.basename(filePath));
+  }
+
+  it('should save the index and load it without parsing unchanged files', async () => {
+    await createEngine().initialize();
+    expect(new CodeIndexStore(projectDir).load()?.manifest.fileCount).toBe(2);
+
+    const parsedFiles = spyOnParsedFiles();
+    const engine = createEngine();
+    await engine.initialize();
+
+    expect(parsedFiles()).toEqual([]);
+    expect(engine.findSymbol('add').map((ref) => path.basename(ref.filePath))).toContain('math.ts');
+  });
+
+  it('should re-parse only files whose content changed, and drop deleted files', async () => {
+    await createEngine().initialize();
+    fs.writeFileSync(path.join(projectDir, 'math.ts'), 'export function subtract(a: number, b: number) {\n  return a - b;\n}\n');
+    fs.rmSync(path.join(projectDir, 'main.ts'));
+
+    const parsedFiles = spyOnParsedFiles();
+    const engine = createEngine();
+    await engine.initialize();
+
+    expect(parsedFiles()).toEqual(['math.ts']);
+    expect(engine.findSymbol('subtract')).toHaveLength(1);
+    expect(engine.findSymbol('add')).toHaveLength(0);
+    expect(engine.findSymbol('main')).toHaveLength(0);
+  });
+
+  it('should report changed, new and deleted files without loading the index', async () => {
+    await createEngine().initialize();
+    fs.appendFileSync(path.join(projectDir, 'math.ts'), 'export const zero = 0;\n');
+    fs.writeFileSync(path.join(projectDir, 'extra.ts'), 'export const extra = 1;\n');
+    fs.rmSync(path.join(projectDir, 'main.ts'));
+
+    const status = await createEngine().getIndexStatus();
+
+    expect(status).toMatchObject({ exists: true, totalFiles: 2, changedFiles: 1, newFiles: 1, deletedFiles: 1 });
+  });
+
+  it('should parse every file on rebuild and delete the index on clear', async () => {
+    const engine = createEngine();
+    await engine.initialize();
+
+    const result = await engine.rebuildIndex();
+    expect(result).toMatchObject({ totalFiles: 2, reindexedFiles: 2, fromCache: false });
+
+    engine.clearIndex();
+    expect(new CodeIndexStore(projectDir).exists()).toBe(false);
+    expect(engine.findSymbol('add')).not.toHaveLength(0);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Tests for lsp_rename without a language server: the name-based engine
+ * cannot tell same-named symbols apart, so it lists matches and edits nothing
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LSPManager } from '../../../lsp/manager.js';
+import { CodeIntelligenceEngine } from '../engine.js';
+import { LanguageServerTool } from '../language-server.js';
+
+describe('LanguageServerTool rename fallback', () => {
+  let projectDir: string;
+  let engine: CodeIntelligenceEngine;
+  let sources: Record<string, string>;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-lsp-'));
+    sources = {
+      'runner.ts': 'export class Runner {\n  execute() {\n    return 1;\n  }\n}\n',
+      'job.ts': 'export class Job {\n  execute() {\n    return 2;\n  }\n}\n',
+    };
+    for (const [file, content] of Object.entries(sources)) {
+      fs.writeFileSync(path.join(projectDir, file), content);
+    }
+    engine = new CodeIntelligenceEngine(projectDir, { watch: false, persistIndex: false });
+  });
+
+  afterEach(() => {
+    engine.dispose();
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  function expectFilesUnchanged() {
+    for (const [file, content] of Object.entries(sources)) {
+      expect(fs.readFileSync(path.join(projectDir, file), 'utf-8')).toBe(content);
+    }
+  }
+
+  it('should list name-based matches and change no files when no server is configured', async () => {
+    const tool = new LanguageServerTool(engine, new LSPManager(projectDir, []));
+
+    const result = await tool.rename({ filePath: path.join(projectDir, 'runner.ts'), symbol: 'execute', newName: 'run' });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toContain('so no files were changed');
+    expect(result.output).toContain('job.ts');
+    expect(result.metadata?.filesChanged).toEqual([]);
+    expectFilesUnchanged();
+  });
+
+  it('should fall back to the engine when the configured server cannot start', async () => {
+    const manager = new LSPManager(projectDir, [
+      { name: 'missing-ts-server', command: path.join(projectDir, 'no-such-server'), extensions: ['ts'] },
+    ]);
+    const tool = new LanguageServerTool(engine, manager);
+
+    const result = await tool.rename({ filePath: path.join(projectDir, 'job.ts'), symbol: 'execute', newName: 'run' });
+
+    expect(result.success).toBe(true);
+    expect(result.output).toContain('using the code intelligence engine instead');
+    expect(result.metadata?.filesChanged).toEqual([]);
+    expectFilesUnchanged();
+  });
+});
@@ -0,0 +1,174 @@
+import { ToolResult } from "../../types/index.js";
+import { SymbolInfo } from "./types.js";
+import { CodeIntelligenceEngine } from "./engine.js";
+import { ToolDefinition, ToolParameters, ToolProvider } from "../registry.js";
+
+const DEFAULT_SYMBOL_TYPES: SymbolInfo['type'][] = ["function", "class", "variable", "interface", "enum", "type"];
+
+export class ASTParserTool implements ToolProvider {
+  name = "ast_parser";
+  description = "Parse source code files to extract AST, symbols, imports, exports, and structural information";
+
+  private intelligenceEngine: CodeIntelligenceEngine;
+
+  constructor(intelligenceEngine: CodeIntelligenceEngine) {
+    this.intelligenceEngine = intelligenceEngine;
+  }
+
+  async execute(args: any): Promise<ToolResult> {
+    try {
+      const {
+        filePath,
+        includeSymbols = true,
+        includeImports = true,
+        includeTree = false,
+        symbolTypes = DEFAULT_SYMBOL_TYPES,
+        scope = "all"
+      } = args;
+
+      if (!filePath) {
+        return { success: false, error: "filePath is required" };
+      }
+
+      const parsed = await this.intelligenceEngine.parseFileStructure(filePath);
+
+      const symbols = parsed.symbols.filter(symbol => {
+        if (!symbolTypes.includes(symbol.type)) return false;
+        if (scope === "global") return symbol.scope === "global";
+        if (scope === "local") return symbol.scope !== "global";
+        return true;
+      });
+
+      const result: Record<string, any> = {
+        filePath,
+        language: parsed.language,
+        errors: parsed.errors
+      };
+      if (includeSymbols) result.symbols = symbols;
+      if (includeImports) {
+        result.imports = parsed.imports;
+        result.exports = parsed.exports;
+      }
+      if (includeTree) result.tree = parsed.tree;
+
+      return {
+        success: parsed.errors.length === 0 || parsed.symbols.length > 0,
+        output: this.formatOutput(filePath, parsed.language, symbols, parsed, { includeSymbols, includeImports, includeTree }),
+        error: parsed.errors.length > 0 && parsed.symbols.length === 0
+          ? `Failed to parse ${filePath}: ${parsed.errors.map(e => e.message).join("; ")}`
+          : undefined,
+        data: result
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: `AST parsing failed: ${error.message}`
+      };
+    }
+  }
+
+  private formatOutput(
+    filePath: string,
+    language: string,
+    symbols: SymbolInfo[],
+    parsed: Awaited<ReturnType<CodeIntelligenceEngine['parseFileStructure']>>,
+    options: { includeSymbols: boolean; includeImports: boolean; includeTree: boolean }
+  ): string {
+    let output = `📄 ${filePath} (${language})\n`;
+
+    if (options.includeSymbols) {
+      output += `\n🔣 Symbols (${symbols.length}):\n`;
+      for (const symbol of symbols) {
+        const line = symbol.startPosition.row + 1;
+        const scope = symbol.scope !== "global" ? ` in ${symbol.scope}` : "";
+        output += `  ${symbol.type} ${symbol.name} (line ${line})${scope}\n`;
+      }
+    }
+
+    if (options.includeImports) {
+      output += `\n📥 Imports (${parsed.imports.length}):\n`;
+      for (const imp of parsed.imports) {
+        const names = imp.specifiers.map(s => s.alias ? `${s.name} as ${s.alias}` : s.name).join(", ");
+        output += `  ${imp.source}${names ? `: ${names}` : ""}\n`;
+      }
+
+      output += `\n📤 Exports (${parsed.exports.length}):\n`;
+      for (const exp of parsed.exports) {
+        output += `  ${exp.type} ${exp.name}${exp.source ? ` from ${exp.source}` : ""}\n`;
+      }
+    }
+
+    if (parsed.errors.length > 0) {
+      output += `\n⚠️ Parse errors (${parsed.errors.length}):\n`;
+      for (const error of parsed.errors) {
+        output += `  line ${error.line}: ${error.message}\n`;
+      }
+    }
+
+    if (options.includeTree) {
+      output += `\n🌳 AST:\n${JSON.stringify(parsed.tree, null, 2)}\n`;
+    }
+
+    return output.trim();
+  }
+
+  getSchema(): ToolParameters {
+    return {
+      type: "object",
+      properties: {
+        filePath: {
+          type: "string",
+          description: "Path to the source code file to parse"
+        },
+        includeSymbols: {
+          type: "boolean",
+          description: "Whether to extract symbols (functions, classes, variables, etc.)",
+          default: true
+        },
+        includeImports: {
+          type: "boolean",
+          description: "Whether to extract import/export information",
+          default: true
+        },
+        includeTree: {
+          type: "boolean",
+          description: "Whether to include the full AST tree in response",
+          default: false
+        },
+        symbolTypes: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["function", "class", "variable", "interface", "enum", "type", "method", "property"]
+          },
+          description: "Types of symbols to extract",
+          default: ["function", "class", "variable", "interface", "enum", "type"]
+        },
+        scope: {
+          type: "string",
+          enum: ["all", "global", "local"],
+          description: "Scope of symbols to extract",
+          default: "all"
+        }
+      },
+      required: ["filePath"]
+    };
+  }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: this.name,
+        description: this.description,
+        summary: "Parse a source file into symbols, imports and exports",
+        category: "read",
+        group: "core",
+        parameters: this.getSchema(),
+        handler: (args) => this.execute(args),
+      },
+    ];
+  }
+}
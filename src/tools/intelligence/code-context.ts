@@ -17,6 +17,7 @@ const pathExists = async (filePath: string): Promise<boolean> => {
 
 
 import path from "path";
+import { ToolDefinition, ToolParameters, ToolProvider } from "../registry.js";
 
 export interface CodeContext {
   filePath: string;
@@ -162,9 +163,9 @@ export interface FindUsagesResult {
   usages: UsageLocation[];
 }
 
-export class CodeContextTool {
+export class CodeContextTool implements ToolProvider {
   name = "code_context";
-  description = "Build intelligent code context, analyze relationships, and provide semantic understanding";
+  description = "Build intelligent code context, analyze relationships, navigate to definitions, and find symbol usages. Supports three operations: analyze_context (default), go_to_definition, and find_usages";
 
   private intelligenceEngine: CodeIntelligenceEngine;
   private symbolSearch: SymbolSearchTool;
@@ -1009,15 +1010,14 @@ export class CodeContextTool {
     }
   }
 
-  getSchema() {
+  getSchema(): ToolParameters {
     return {
       type: "object",
       properties: {
         operation: {
           type: "string",
           enum: ["analyze_context", "go_to_definition", "find_usages"],
-          description: "Operation to perform: analyze_context (default), go_to_definition, or find_usages",
-          default: "analyze_context"
+          description: "Operation to perform: analyze_context (default), go_to_definition (jump to symbol definition), or find_usages (find all symbol usages)"
         },
         filePath: {
           type: "string",
@@ -1025,12 +1025,11 @@ export class CodeContextTool {
         },
         symbolName: {
           type: "string",
-          description: "Name of the symbol (required for go_to_definition and find_usages operations)"
+          description: "Name of the symbol to find (required for go_to_definition and find_usages operations)"
         },
         rootPath: {
           type: "string",
-          description: "Root path of the project for relative path resolution",
-          default: "current working directory"
+          description: "Root path of the project for relative path resolution"
         },
         includeDefinition: {
           type: "boolean",
@@ -1058,15 +1057,26 @@ export class CodeContextTool {
           default: 10,
           minimum: 1,
           maximum: 50
-        },
-        contextDepth: {
-          type: "integer",
-          description: "Depth of context analysis (for analyze_context)",
-          default: 2,
-          minimum: 1,
-          maximum: 5
         }
-      }
+      },
+      required: []
     };
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: this.name,
+        description: this.description,
+        summary: "Analyze code context, go to definitions and find symbol usages",
+        category: "read",
+        group: "advanced",
+        parameters: this.getSchema(),
+        handler: (args) => this.execute(args),
+      },
+    ];
+  }
 }
\ No newline at end of file
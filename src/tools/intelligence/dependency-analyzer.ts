@@ -16,6 +16,7 @@ const pathExists = async (filePath: string): Promise<boolean> => {
 
 import path from "path";
 import { glob } from "glob";
+import { ToolDefinition, ToolParameters, ToolProvider } from "../registry.js";
 
 export interface DependencyNode {
   filePath: string;
@@ -63,7 +64,7 @@ export interface ModuleAnalysis {
   duplicateImports: string[];
 }
 
-export class DependencyAnalyzerTool {
+export class DependencyAnalyzerTool implements ToolProvider {
   name = "dependency_analyzer";
   description = "Analyze import/export dependencies, detect circular dependencies, and generate dependency graphs";
 
@@ -548,7 +549,7 @@ export class DependencyAnalyzerTool {
     };
   }
 
-  getSchema() {
+  getSchema(): ToolParameters {
     return {
       type: "object",
       properties: {
@@ -588,21 +589,26 @@ export class DependencyAnalyzerTool {
           type: "boolean",
           description: "Generate serialized dependency graph",
           default: false
-        },
-        entryPoints: {
-          type: "array",
-          items: { type: "string" },
-          description: "Explicit entry point files (if not provided, will be inferred)",
-          default: []
-        },
-        maxDepth: {
-          type: "integer",
-          description: "Maximum dependency depth to analyze",
-          default: 50,
-          minimum: 1,
-          maximum: 1000
         }
-      }
+      },
+      required: []
     };
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: this.name,
+        description: this.description,
+        summary: "Analyze import/export dependencies and detect circular dependencies",
+        category: "read",
+        group: "core",
+        parameters: this.getSchema(),
+        handler: (args) => this.execute(args),
+      },
+    ];
+  }
 }
\ No newline at end of file
@@ -3,7 +3,9 @@ import chokidar, { FSWatcher } from "chokidar";
 import * as ops from "fs";
 import path from "path";
 import { glob } from "glob";
+import { minimatch } from "minimatch";
 import { SymbolInfo, ImportInfo, ExportInfo, ParseError } from "./types.js";
+import { CodeIndexStore, IndexManifest, StoredIndex, INDEX_DIRECTORY, INDEX_FORMAT_VERSION } from "./index-store.js";
 import { debugLog } from "../../utils/debug.js";
 
 
@@ -77,6 +79,26 @@ export interface EngineStatistics {
   averageParseTime: number;
 }
 
+export interface IndexSyncResult {
+  totalFiles: number;
+  reindexedFiles: number;
+  removedFiles: number;
+  /** Whether a persisted index was loaded before syncing */
+  fromCache: boolean;
+  duration: number;
+}
+
+export interface IndexStatus {
+  directory: string;
+  exists: boolean;
+  manifest?: IndexManifest;
+  size: number;
+  totalFiles: number;
+  changedFiles: number;
+  newFiles: number;
+  deletedFiles: number;
+}
+
 // ==================== Code Intelligence Engine ====================
 
 export class CodeIntelligenceEngine {
@@ -117,10 +139,22 @@ export class CodeIntelligenceEngine {
   private pendingUpdates: Map<string, NodeJS.Timeout> = new Map();
   private updateDebounceMs: number = 300;
 
+  // On-disk index (.grok/index/)
+  private indexStore: CodeIndexStore | null;
+  private indexCreatedAt: number = 0;
+  private indexDirty: boolean = false;
+  private indexSaveTimer: NodeJS.Timeout | null = null;
+  private indexSaveDebounceMs: number = 2000;
+  private watchFiles: boolean = true;
+
   constructor(rootPath: string, options?: {
     filePatterns?: string[];
     excludePatterns?: string[];
     updateDebounceMs?: number;
+    /** Load and save the index under .grok/index/ (default: true) */
+    persistIndex?: boolean;
+    /** Keep the index current with a file watcher after initialize() (default: true) */
+    watch?: boolean;
   }) {
     this.rootPath = path.resolve(rootPath);
 
@@ -133,6 +167,10 @@ export class CodeIntelligenceEngine {
     if (options?.updateDebounceMs !== undefined) {
       this.updateDebounceMs = options.updateDebounceMs;
     }
+    if (options?.watch !== undefined) {
+      this.watchFiles = options.watch;
+    }
+    this.indexStore = options?.persistIndex === false ? null : new CodeIndexStore(this.rootPath);
 
     this.initializeParsers();
   }
@@ -183,23 +221,13 @@ export class CodeIntelligenceEngine {
     const startTime = Date.now();
 
     try {
-      // 1. Scan all source files
-      const sourceFiles = await this.scanSourceFiles();
-      debugLog(`   Found ${sourceFiles.length} source files`);
-
-      // 2. Index all files
-      this.isIndexing = true;
-      await this.indexFiles(sourceFiles);
-      this.isIndexing = false;
-
-      // 3. Build cross-references
-      this.buildCrossReferences();
+      // 1. Load the persisted index and re-index what changed since it was saved
+      await this.syncIndex(true);
 
-      // 4. Start file watcher
-      this.startFileWatcher();
-
-      // 5. Update statistics
-      this.updateStatistics();
+      // 2. Start file watcher
+      if (this.watchFiles) {
+        this.startFileWatcher();
+      }
 
       this.isInitialized = true;
       const duration = Date.now() - startTime;
@@ -211,6 +239,69 @@ export class CodeIntelligenceEngine {
     }
   }
 
+  /**
+   * Bring the in-memory index in line with the files on disk. With `useCache`,
+   * the persisted index is loaded first so only files whose hash changed are
+   * parsed again; otherwise every file is parsed.
+   */
+  private async syncIndex(useCache: boolean): Promise<IndexSyncResult> {
+    const startTime = Date.now();
+
+    // 1. Scan all source files
+    const sourceFiles = await this.scanSourceFiles();
+    debugLog(`   Found ${sourceFiles.length} source files`);
+
+    const fromCache = useCache && this.loadPersistedIndex();
+    if (fromCache) {
+      debugLog(`   Loaded ${this.fileMetadata.size} files from ${this.indexStore?.directory}`);
+    }
+
+    // 2. Index new and changed files
+    this.isIndexing = true;
+    let indexResult: { reindexed: number; affectedSymbols: Set<string> };
+    try {
+      indexResult = await this.indexFiles(sourceFiles);
+    } finally {
+      this.isIndexing = false;
+    }
+    const affectedSymbols = indexResult.affectedSymbols;
+
+    // 3. Drop files deleted since the index was saved
+    const scanned = new Set(sourceFiles);
+    let removedFiles = 0;
+    for (const filePath of Array.from(this.fileMetadata.keys())) {
+      if (!scanned.has(filePath)) {
+        for (const symbolName of this.removeFileFromIndex(filePath)) {
+          affectedSymbols.add(symbolName);
+        }
+        removedFiles++;
+      }
+    }
+
+    // 4. Build cross-references
+    if (fromCache) {
+      this.refreshCrossReferences(affectedSymbols);
+    } else {
+      this.buildCrossReferences();
+    }
+
+    // 5. Update statistics and persist
+    this.updateStatistics();
+    if (!fromCache || indexResult.reindexed > 0 || removedFiles > 0) {
+      this.indexDirty = true;
+      this.saveIndex();
+    }
+
+    debugLog(`   Re-indexed ${indexResult.reindexed} files, removed ${removedFiles}`);
+    return {
+      totalFiles: sourceFiles.length,
+      reindexedFiles: indexResult.reindexed,
+      removedFiles,
+      fromCache,
+      duration: Date.now() - startTime
+    };
+  }
+
   private async scanSourceFiles(): Promise<string[]> {
     const allFiles: string[] = [];
 
@@ -227,24 +318,38 @@ export class CodeIntelligenceEngine {
     return [...new Set(allFiles)]; // Remove duplicates
   }
 
-  private async indexFiles(files: string[]): Promise<void> {
+  private async indexFiles(files: string[]): Promise<{ reindexed: number; affectedSymbols: Set<string> }> {
     const total = files.length;
     let indexed = 0;
+    let reindexed = 0;
+    const affectedSymbols = new Set<string>();
     const batchSize = 10;
 
     // Process in batches to avoid overwhelming the system
     for (let i = 0; i < files.length; i += batchSize) {
       const batch = files.slice(i, i + batchSize);
-      await Promise.all(batch.map(file => this.indexFile(file)));
+      const results = await Promise.all(batch.map(file => this.indexFile(file)));
+      for (const symbolNames of results) {
+        if (symbolNames) {
+          reindexed++;
+          symbolNames.forEach(name => affectedSymbols.add(name));
+        }
+      }
       indexed += batch.length;
 
       if (indexed % 50 === 0 || indexed === total) {
         debugLog(`   Indexing progress: ${indexed}/${total}`);
       }
     }
+
+    return { reindexed, affectedSymbols };
   }
 
-  private async indexFile(filePath: string): Promise<void> {
+  /**
+   * Parse and index a file if its content hash changed. Returns the names of
+   * the symbols it defined before and after, or null when it was unchanged.
+   */
+  private async indexFile(filePath: string): Promise<Set<string> | null> {
     try {
       const parseStart = Date.now();
 
@@ -257,13 +362,17 @@ export class CodeIntelligenceEngine {
       // Check if file needs reindexing
       const existing = this.fileMetadata.get(filePath);
       if (existing && existing.hash === hash) {
-        return; // No changes, skip reindexing
+        return null; // No changes, skip reindexing
       }
 
       // Parse file
       const parseResult = await this.parseFile(filePath, content, language);
       const parseTime = Date.now() - parseStart;
 
+      // Drop what the previous version of the file contributed
+      const affectedSymbols = existing ? this.removeFileFromIndex(filePath, true) : new Set<string>();
+      parseResult.symbols.forEach(symbol => affectedSymbols.add(symbol.name));
+
       // Store AST
       if (parseResult.tree) {
         this.fileAsts.set(filePath, parseResult.tree);
@@ -293,6 +402,7 @@ export class CodeIntelligenceEngine {
         this.parseErrors.delete(filePath);
       }
 
+      return affectedSymbols;
     } catch (error) {
       debugLog(`Failed to index ${filePath}:`, error);
       this.parseErrors.set(filePath, [{
@@ -301,6 +411,7 @@ export class CodeIntelligenceEngine {
         column: 0,
         severity: 'error'
       }]);
+      return null;
     }
   }
 
@@ -869,77 +980,99 @@ export class CodeIntelligenceEngine {
     this.crossReferences.clear();
 
     for (const [symbolName, symbolRefs] of this.symbolIndex) {
-      // Find the definition (usually the first occurrence)
-      const definition = symbolRefs.find(ref =>
-        ref.symbol.startPosition.row >= 0
-      );
+      this.rebuildSymbolCrossReference(symbolName, symbolRefs);
+    }
+  }
+
+  /**
+   * Rebuild the cross-references of the given symbols, e.g. after the files
+   * defining them changed
+   */
+  private refreshCrossReferences(symbolNames: Iterable<string>): void {
+    for (const symbolName of symbolNames) {
+      const refs = this.symbolIndex.get(symbolName);
+      if (refs) {
+        this.rebuildSymbolCrossReference(symbolName, refs);
+      } else {
+        this.crossReferences.delete(symbolName);
+      }
+    }
+  }
 
-      if (!definition) continue;
+  private rebuildSymbolCrossReference(symbolName: string, symbolRefs: SymbolReference[]): void {
+    // Find the definition (usually the first occurrence)
+    const definition = symbolRefs.find(ref =>
+      ref.symbol.startPosition.row >= 0
+    );
 
-      const crossRef: CrossReference = {
-        symbolName,
-        definitionFile: definition.filePath,
-        definitionLocation: {
-          line: definition.symbol.startPosition.row,
-          column: definition.symbol.startPosition.column
-        },
-        references: []
-      };
+    if (!definition) {
+      this.crossReferences.delete(symbolName);
+      return;
+    }
 
-      // Find all usages across files
-      for (const ref of symbolRefs) {
-        // Add definition as a reference
-        if (ref.filePath === definition.filePath) {
-          crossRef.references.push({
-            file: ref.filePath,
-            line: ref.symbol.startPosition.row,
-            column: ref.symbol.startPosition.column,
-            type: 'definition'
-          });
-        }
+    const crossRef: CrossReference = {
+      symbolName,
+      definitionFile: definition.filePath,
+      definitionLocation: {
+        line: definition.symbol.startPosition.row,
+        column: definition.symbol.startPosition.column
+      },
+      references: []
+    };
 
-        // Find usages in file content
-        try {
-          const content = ops.readFileSync(ref.filePath, 'utf-8');
-          const lines = content.split('\n');
-
-          for (let i = 0; i < lines.length; i++) {
-            const line = lines[i];
-            const regex = new RegExp(`\\b${symbolName}\\b`, 'g');
-            let match;
-
-            while ((match = regex.exec(line)) !== null) {
-              // Skip if this is the definition itself
-              if (ref.filePath === definition.filePath &&
-                i === definition.symbol.startPosition.row) {
-                continue;
-              }
+    // Find all usages across files
+    for (const ref of symbolRefs) {
+      // Add definition as a reference
+      if (ref.filePath === definition.filePath) {
+        crossRef.references.push({
+          file: ref.filePath,
+          line: ref.symbol.startPosition.row,
+          column: ref.symbol.startPosition.column,
+          type: 'definition'
+        });
+      }
 
-              let usageType: SymbolUsage['type'] = 'reference';
+      // Find usages in file content
+      try {
+        const content = ops.readFileSync(ref.filePath, 'utf-8');
+        const lines = content.split('\n');
+
+        for (let i = 0; i < lines.length; i++) {
+          const line = lines[i];
+          const regex = new RegExp(`\\b${symbolName}\\b`, 'g');
+          let match;
+
+          while ((match = regex.exec(line)) !== null) {
+            // Skip if this is the definition itself
+            if (ref.filePath === definition.filePath &&
+              i === definition.symbol.startPosition.row) {
+              continue;
+            }
 
-              if (line.includes('import') && line.includes(symbolName)) {
-                usageType = 'import';
-              } else if (line.includes('export') && line.includes(symbolName)) {
-                usageType = 'export';
-              } else if (line.includes(symbolName + '(')) {
-                usageType = 'call';
-              }
+            let usageType: SymbolUsage['type'] = 'reference';
 
-              crossRef.references.push({
-                file: ref.filePath,
-                line: i,
-                column: match.index,
-                type: usageType
-              });
+            if (line.includes('import') && line.includes(symbolName)) {
+              usageType = 'import';
+            } else if (line.includes('export') && line.includes(symbolName)) {
+              usageType = 'export';
+            } else if (line.includes(symbolName + '(')) {
+              usageType = 'call';
             }
+
+            crossRef.references.push({
+              file: ref.filePath,
+              line: i,
+              column: match.index,
+              type: usageType
+            });
           }
-        } catch {
-          // Skip if file can't be read
         }
+      } catch {
+        // Skip if file can't be read
       }
-
-      this.crossReferences.set(symbolName, crossRef);
     }
+
+    this.crossReferences.set(symbolName, crossRef);
   }
 
   // ==================== File Watching ====================
@@ -947,9 +1080,15 @@ export class CodeIntelligenceEngine {
   private startFileWatcher(): void {
     debugLog('   Starting file watcher...');
 
-    this.watcher = chokidar.watch(this.filePatterns, {
+    // chokidar 4 no longer expands globs, so watch the root and filter here
+    this.watcher = chokidar.watch('.', {
       cwd: this.rootPath,
-      ignored: this.excludePatterns,
+      ignored: (watchedPath: string, stats?: ops.Stats) => {
+        const relPath = path.relative(this.rootPath, path.resolve(this.rootPath, watchedPath));
+        if (!relPath) return false;
+        if (this.isExcludedPath(relPath)) return true;
+        return stats?.isFile() === true && !this.isSourceFile(relPath);
+      },
       persistent: true,
       ignoreInitial: true, // Don't fire events for existing files
       awaitWriteFinish: {
@@ -976,6 +1115,19 @@ export class CodeIntelligenceEngine {
       });
   }
 
+  private isSourceFile(relPath: string): boolean {
+    const posixPath = relPath.split(path.sep).join('/');
+    return this.filePatterns.some(pattern => minimatch(posixPath, pattern)) && !this.isExcludedPath(relPath);
+  }
+
+  private isExcludedPath(relPath: string): boolean {
+    const posixPath = relPath.split(path.sep).join('/');
+    // The trailing slash lets `**/node_modules/**` exclude the directory itself
+    return this.excludePatterns.some(pattern =>
+      minimatch(posixPath, pattern) || minimatch(`${posixPath}/`, pattern)
+    );
+  }
+
   private scheduleFileUpdate(filePath: string, event: 'add' | 'change'): void {
     // Debounce updates to avoid excessive reindexing
     const existing = this.pendingUpdates.get(filePath);
@@ -998,29 +1150,18 @@ export class CodeIntelligenceEngine {
     }
 
     try {
-      // Get affected symbols before reindexing
-      const oldSymbols = this.getFileSymbols(filePath);
-
       // Reindex the file
-      await this.indexFile(filePath);
-
-      // Rebuild cross-references for affected symbols
-      const newSymbols = this.getFileSymbols(filePath);
-      const affectedSymbols = new Set([
-        ...oldSymbols.map(s => s.name),
-        ...newSymbols.map(s => s.name)
-      ]);
+      const affectedSymbols = await this.indexFile(filePath);
+      if (!affectedSymbols) {
+        return;
+      }
 
       // Rebuild cross-references only for affected symbols
-      for (const symbolName of affectedSymbols) {
-        const refs = this.symbolIndex.get(symbolName);
-        if (refs) {
-          this.rebuildSymbolCrossReference(symbolName, refs);
-        }
-      }
+      this.refreshCrossReferences(affectedSymbols);
 
       // Update statistics
       this.updateStatistics();
+      this.scheduleIndexSave();
 
       debugLog(`   Updated: ${path.relative(this.rootPath, filePath)}`);
     } catch (error) {
@@ -1029,67 +1170,225 @@ export class CodeIntelligenceEngine {
   }
 
   private handleFileDelete(filePath: string): void {
-    // Remove from all data structures
+    const affectedSymbols = this.removeFileFromIndex(filePath);
+    this.refreshCrossReferences(affectedSymbols);
+
+    this.updateStatistics();
+    this.scheduleIndexSave();
+    debugLog(`   Deleted: ${path.relative(this.rootPath, filePath)}`);
+  }
+
+  /**
+   * Remove everything a file contributed to the index and return the names of
+   * the symbols it defined. When the file is about to be re-indexed, the files
+   * that depend on it stay recorded.
+   */
+  private removeFileFromIndex(filePath: string, keepDependents: boolean = false): Set<string> {
     this.fileAsts.delete(filePath);
     this.fileMetadata.delete(filePath);
     this.parseErrors.delete(filePath);
 
     // Remove symbols
-    const symbols = this.getFileSymbols(filePath);
-    for (const symbol of symbols) {
-      const refs = this.symbolIndex.get(symbol.name);
-      if (refs) {
-        const filtered = refs.filter(ref => ref.filePath !== filePath);
-        if (filtered.length > 0) {
-          this.symbolIndex.set(symbol.name, filtered);
-        } else {
-          this.symbolIndex.delete(symbol.name);
-        }
+    const removedSymbols = new Set<string>();
+    for (const [symbolName, refs] of this.symbolIndex) {
+      const filtered = refs.filter(ref => ref.filePath !== filePath);
+      if (filtered.length === refs.length) {
+        continue;
+      }
+      removedSymbols.add(symbolName);
+      if (filtered.length > 0) {
+        this.symbolIndex.set(symbolName, filtered);
+      } else {
+        this.symbolIndex.delete(symbolName);
       }
-      this.crossReferences.delete(symbol.name);
     }
 
     // Remove from dependency graph
-    this.dependencyGraph.delete(filePath);
-    this.reverseDependencies.delete(filePath);
-
-    // Remove from reverse dependencies
-    for (const [file, dependents] of this.reverseDependencies) {
-      if (dependents.has(filePath)) {
+    for (const dependency of this.dependencyGraph.get(filePath) || []) {
+      const dependents = this.reverseDependencies.get(dependency);
+      if (dependents) {
         dependents.delete(filePath);
         if (dependents.size === 0) {
-          this.reverseDependencies.delete(file);
+          this.reverseDependencies.delete(dependency);
         }
       }
     }
+    this.dependencyGraph.delete(filePath);
+    if (!keepDependents) {
+      this.reverseDependencies.delete(filePath);
+    }
 
-    this.updateStatistics();
-    debugLog(`   Deleted: ${path.relative(this.rootPath, filePath)}`);
+    return removedSymbols;
   }
 
-  private rebuildSymbolCrossReference(symbolName: string, refs: SymbolReference[]): void {
-    const definition = refs.find(ref =>
-      ref.symbol.startPosition.row >= 0
-    );
+  // ==================== Index Persistence ====================
 
-    if (!definition) return;
+  /**
+   * Populate the in-memory index from .grok/index/. Returns false when there
+   * is no usable index, e.g. it was built with different file patterns.
+   */
+  private loadPersistedIndex(): boolean {
+    const stored = this.loadStoredIndex();
+    if (!stored) {
+      return false;
+    }
 
-    const crossRef: CrossReference = {
-      symbolName,
-      definitionFile: definition.filePath,
-      definitionLocation: {
-        line: definition.symbol.startPosition.row,
-        column: definition.symbol.startPosition.column
+    const toAbsolute = (relativePath: string) => path.resolve(this.rootPath, relativePath);
+
+    for (const [relativePath, entry] of Object.entries(stored.files)) {
+      const absolutePath = toAbsolute(relativePath);
+      this.fileMetadata.set(absolutePath, {
+        filePath: path.relative(this.rootPath, absolutePath),
+        absolutePath,
+        language: entry.language,
+        lastModified: entry.lastModified,
+        hash: entry.hash,
+        parseTime: entry.parseTime,
+        indexed: true
+      });
+      if (entry.errors && entry.errors.length > 0) {
+        this.parseErrors.set(absolutePath, entry.errors);
+      }
+    }
+
+    for (const [symbolName, refs] of Object.entries(stored.symbols)) {
+      this.symbolIndex.set(symbolName, refs.map(ref => ({
+        symbol: ref.symbol,
+        filePath: toAbsolute(ref.file),
+        usages: []
+      })));
+    }
+
+    for (const [relativePath, dependencies] of Object.entries(stored.dependencies)) {
+      const filePath = toAbsolute(relativePath);
+      const resolved = new Set(dependencies.map(toAbsolute));
+      this.dependencyGraph.set(filePath, resolved);
+      for (const dependency of resolved) {
+        const dependents = this.reverseDependencies.get(dependency) || new Set();
+        dependents.add(filePath);
+        this.reverseDependencies.set(dependency, dependents);
+      }
+    }
+
+    for (const [symbolName, crossRef] of Object.entries(stored.crossReferences)) {
+      this.crossReferences.set(symbolName, {
+        symbolName,
+        definitionFile: toAbsolute(crossRef.definitionFile),
+        definitionLocation: crossRef.definitionLocation,
+        references: crossRef.references.map(ref => ({ ...ref, file: toAbsolute(ref.file) }))
+      });
+    }
+
+    this.indexCreatedAt = stored.manifest.createdAt;
+    return true;
+  }
+
+  private loadStoredIndex(): StoredIndex | null {
+    const stored = this.indexStore?.load() ?? null;
+    if (!stored) {
+      return null;
+    }
+    const { filePatterns, excludePatterns } = stored.manifest;
+    if (JSON.stringify(filePatterns) !== JSON.stringify(this.filePatterns) ||
+      JSON.stringify(excludePatterns) !== JSON.stringify(this.excludePatterns)) {
+      debugLog('   Ignoring persisted index built with different file patterns');
+      return null;
+    }
+    return stored;
+  }
+
+  private scheduleIndexSave(): void {
+    if (!this.indexStore) {
+      return;
+    }
+    this.indexDirty = true;
+    if (this.indexSaveTimer) {
+      clearTimeout(this.indexSaveTimer);
+    }
+    this.indexSaveTimer = setTimeout(() => this.saveIndex(), this.indexSaveDebounceMs);
+    // Startup re-hashes every file anyway, so a save lost on exit only costs a re-parse
+    this.indexSaveTimer.unref();
+  }
+
+  private saveIndex(): void {
+    if (this.indexSaveTimer) {
+      clearTimeout(this.indexSaveTimer);
+      this.indexSaveTimer = null;
+    }
+    if (!this.indexStore || !this.indexDirty) {
+      return;
+    }
+
+    const toRelative = (filePath: string) => path.relative(this.rootPath, filePath).split(path.sep).join('/');
+    const index: StoredIndex = {
+      manifest: {
+        version: INDEX_FORMAT_VERSION,
+        filePatterns: this.filePatterns,
+        excludePatterns: this.excludePatterns,
+        fileCount: this.fileMetadata.size,
+        symbolCount: this.statistics.totalSymbols,
+        createdAt: this.indexCreatedAt || Date.now(),
+        updatedAt: Date.now()
       },
-      references: []
+      // Null-prototype records, since symbol names like `__proto__` are valid keys
+      files: Object.create(null),
+      symbols: Object.create(null),
+      dependencies: Object.create(null),
+      crossReferences: Object.create(null)
     };
 
-    // Simplified cross-reference rebuilding (full implementation similar to buildCrossReferences)
-    this.crossReferences.set(symbolName, crossRef);
+    for (const [filePath, metadata] of this.fileMetadata) {
+      index.files[toRelative(filePath)] = {
+        language: metadata.language,
+        lastModified: metadata.lastModified,
+        hash: metadata.hash,
+        parseTime: metadata.parseTime,
+        errors: this.parseErrors.get(filePath)
+      };
+    }
+    for (const [symbolName, refs] of this.symbolIndex) {
+      index.symbols[symbolName] = refs.map(ref => ({ file: toRelative(ref.filePath), symbol: ref.symbol }));
+    }
+    for (const [filePath, dependencies] of this.dependencyGraph) {
+      index.dependencies[toRelative(filePath)] = Array.from(dependencies, toRelative);
+    }
+    for (const [symbolName, crossRef] of this.crossReferences) {
+      index.crossReferences[symbolName] = {
+        definitionFile: toRelative(crossRef.definitionFile),
+        definitionLocation: crossRef.definitionLocation,
+        references: crossRef.references.map(ref => ({ ...ref, file: toRelative(ref.file) }))
+      };
+    }
+
+    try {
+      this.indexStore.save(index);
+      this.indexCreatedAt = index.manifest.createdAt;
+      this.indexDirty = false;
+    } catch (error) {
+      debugLog('Failed to save code index:', error);
+    }
   }
 
   // ==================== Public Query API ====================
 
+  /**
+   * Parse a single file on demand, without touching the index
+   */
+  async parseFileStructure(filePath: string): Promise<{
+    language: string;
+    tree: any;
+    symbols: SymbolInfo[];
+    imports: ImportInfo[];
+    exports: ExportInfo[];
+    errors: ParseError[];
+  }> {
+    const absolutePath = path.resolve(this.rootPath, filePath);
+    const content = await ops.promises.readFile(absolutePath, 'utf-8');
+    const language = this.detectLanguage(absolutePath);
+    const result = await this.parseFile(absolutePath, content, language);
+    return { language, ...result };
+  }
+
   getAST(filePath: string): any | undefined {
     return this.fileAsts.get(filePath);
   }
@@ -1252,6 +1551,74 @@ export class CodeIntelligenceEngine {
     return this.isInitialized && !this.isIndexing;
   }
 
+  /**
+   * Compare the persisted index with the files on disk, without parsing
+   * anything or loading the index into memory
+   */
+  async getIndexStatus(): Promise<IndexStatus> {
+    const stored = this.loadStoredIndex();
+    const sourceFiles = await this.scanSourceFiles();
+    let changedFiles = 0;
+    let newFiles = 0;
+
+    const storedFiles = new Set(Object.keys(stored?.files || {}));
+    for (const filePath of sourceFiles) {
+      const relativePath = path.relative(this.rootPath, filePath).split(path.sep).join('/');
+      const entry = stored?.files[relativePath];
+      storedFiles.delete(relativePath);
+      if (!entry) {
+        newFiles++;
+        continue;
+      }
+      try {
+        const content = await ops.promises.readFile(filePath, 'utf-8');
+        if (this.computeHash(content) !== entry.hash) {
+          changedFiles++;
+        }
+      } catch {
+        changedFiles++;
+      }
+    }
+
+    return {
+      directory: this.getIndexDirectory(),
+      exists: stored !== null,
+      manifest: stored?.manifest,
+      size: this.indexStore?.getSize() ?? 0,
+      totalFiles: sourceFiles.length,
+      changedFiles,
+      newFiles,
+      deletedFiles: storedFiles.size
+    };
+  }
+
+  /**
+   * Discard the in-memory and persisted index and parse every file again
+   */
+  async rebuildIndex(): Promise<IndexSyncResult> {
+    this.clearIndexData();
+    this.indexCreatedAt = 0;
+    this.indexStore?.clear();
+    return await this.syncIndex(false);
+  }
+
+  /**
+   * Delete the persisted index; the in-memory index is left as is
+   */
+  clearIndex(): void {
+    if (this.indexSaveTimer) {
+      clearTimeout(this.indexSaveTimer);
+      this.indexSaveTimer = null;
+    }
+    this.indexDirty = false;
+    this.indexCreatedAt = 0;
+    this.indexStore?.clear();
+  }
+
+  getIndexDirectory(): string {
+    return path.join(this.rootPath, INDEX_DIRECTORY);
+  }
+
   // ==================== Utility Methods ====================
 
   private detectLanguage(filePath: string): string {
@@ -1351,7 +1718,17 @@ export class CodeIntelligenceEngine {
     }
     this.pendingUpdates.clear();
 
+    // Flush watcher updates that are still waiting to be saved
+    this.saveIndex();
+
     // Clear data structures
+    this.clearIndexData();
+
+    this.isInitialized = false;
+    debugLog('   Engine disposed');
+  }
+
+  private clearIndexData(): void {
     this.fileAsts.clear();
     this.fileMetadata.clear();
     this.symbolIndex.clear();
@@ -1359,8 +1736,5 @@ export class CodeIntelligenceEngine {
     this.reverseDependencies.clear();
     this.crossReferences.clear();
     this.parseErrors.clear();
-
-    this.isInitialized = false;
-    debugLog('   Engine disposed');
   }
 }
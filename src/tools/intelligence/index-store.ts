@@ -0,0 +1,153 @@
+/**
+ * Code Index Store
+ *
+ * Persists the CodeIntelligenceEngine index under `<project>/.grok/index/` so
+ * that a restart only re-parses files whose content hash changed. Paths are
+ * stored relative to the project root; ASTs are not persisted and are
+ * rebuilt on demand when a file is re-indexed.
+ *
+ *   manifest.json          version, file patterns, counts, timestamps
+ *   files.json             FileMetadata (minus absolute path) and parse errors
+ *   symbols.json           symbol name -> defining files
+ *   dependencies.json      file -> internal dependencies
+ *   cross-references.json  symbol name -> CrossReference
+ */
+
+import * as fs from "fs";
+import path from "path";
+import { SymbolInfo, ParseError } from "./types.js";
+import { debugLog } from "../../utils/debug.js";
+
+/** Bump when the on-disk layout or the extracted data changes */
+export const INDEX_FORMAT_VERSION = 1;
+
+export const INDEX_DIRECTORY = path.join(".grok", "index");
+
+const INDEX_FILES = {
+  manifest: "manifest.json",
+  files: "files.json",
+  symbols: "symbols.json",
+  dependencies: "dependencies.json",
+  crossReferences: "cross-references.json",
+} as const;
+
+export interface IndexManifest {
+  version: number;
+  filePatterns: string[];
+  excludePatterns: string[];
+  fileCount: number;
+  symbolCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface StoredFileEntry {
+  language: string;
+  lastModified: number;
+  hash: string;
+  parseTime: number;
+  errors?: ParseError[];
+}
+
+export interface StoredCrossReference {
+  definitionFile: string;
+  definitionLocation: { line: number; column: number };
+  references: Array<{
+    file: string;
+    line: number;
+    column: number;
+    type: 'definition' | 'call' | 'reference' | 'import' | 'export';
+  }>;
+}
+
+export interface StoredIndex {
+  manifest: IndexManifest;
+  files: Record<string, StoredFileEntry>;
+  symbols: Record<string, Array<{ file: string; symbol: SymbolInfo }>>;
+  dependencies: Record<string, string[]>;
+  crossReferences: Record<string, StoredCrossReference>;
+}
+
+export class CodeIndexStore {
+  readonly directory: string;
+
+  constructor(rootPath: string) {
+    this.directory = path.join(rootPath, INDEX_DIRECTORY);
+  }
+
+  exists(): boolean {
+    return fs.existsSync(path.join(this.directory, INDEX_FILES.manifest));
+  }
+
+  readManifest(): IndexManifest | null {
+    return this.readJson<IndexManifest>(INDEX_FILES.manifest);
+  }
+
+  /**
+   * Load the stored index, or null when it is missing, unreadable or was
+   * written by an incompatible version
+   */
+  load(): StoredIndex | null {
+    const manifest = this.readManifest();
+    if (!manifest || manifest.version !== INDEX_FORMAT_VERSION) {
+      return null;
+    }
+
+    const files = this.readJson<StoredIndex['files']>(INDEX_FILES.files);
+    const symbols = this.readJson<StoredIndex['symbols']>(INDEX_FILES.symbols);
+    const dependencies = this.readJson<StoredIndex['dependencies']>(INDEX_FILES.dependencies);
+    const crossReferences = this.readJson<StoredIndex['crossReferences']>(INDEX_FILES.crossReferences);
+    if (!files || !symbols || !dependencies || !crossReferences) {
+      return null;
+    }
+
+    return { manifest, files, symbols, dependencies, crossReferences };
+  }
+
+  save(index: StoredIndex): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+    // Manifest last: load() ignores a directory without one
+    this.writeJson(INDEX_FILES.files, index.files);
+    this.writeJson(INDEX_FILES.symbols, index.symbols);
+    this.writeJson(INDEX_FILES.dependencies, index.dependencies);
+    this.writeJson(INDEX_FILES.crossReferences, index.crossReferences);
+    this.writeJson(INDEX_FILES.manifest, index.manifest);
+  }
+
+  clear(): void {
+    fs.rmSync(this.directory, { recursive: true, force: true });
+  }
+
+  /**
+   * Total size of the index files in bytes
+   */
+  getSize(): number {
+    let size = 0;
+    for (const fileName of Object.values(INDEX_FILES)) {
+      try {
+        size += fs.statSync(path.join(this.directory, fileName)).size;
+      } catch {
+        // Missing file
+      }
+    }
+    return size;
+  }
+
+  private readJson<T>(fileName: string): T | null {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.directory, fileName), "utf-8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        debugLog(`Ignoring unreadable index file ${fileName}:`, error);
+      }
+      return null;
+    }
+  }
+
+  private writeJson(fileName: string, data: unknown): void {
+    const target = path.join(this.directory, fileName);
+    const temp = `${target}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(data));
+    fs.renameSync(temp, target);
+  }
+}
@@ -2,6 +2,8 @@ export { SymbolSearchTool } from "./symbol-search.js";
 export { DependencyAnalyzerTool } from "./dependency-analyzer.js";
 export { CodeContextTool } from "./code-context.js";
 export { RefactoringAssistantTool } from "./refactoring-assistant.js";
+export { ASTParserTool } from "./ast-parser.js";
+export { LanguageServerTool } from "./language-server.js";
 
 // Export types
 export type {
@@ -0,0 +1,539 @@
+import * as ops from "fs";
+import path from "path";
+import { writeFile as writeFilePromise } from "fs/promises";
+import { fileURLToPath } from "url";
+import { ToolResult } from "../../types/index.js";
+import { CodeIntelligenceEngine } from "./engine.js";
+import { LSPManager } from "../../lsp/manager.js";
+import { LSPClient } from "../../lsp/client.js";
+import { applyTextEdits, collectTextEdits } from "../../lsp/edits.js";
+import { Diagnostic, Hover, Location, Position } from "../../lsp/types.js";
+import { ConfirmationService } from "../../utils/confirmation-service.js";
+import { OperationTracker } from "../../utils/operation-tracker.js";
+import { ToolDefinition, ToolParameters, ToolProvider } from "../registry.js";
+
+/**
+ * Position arguments shared by the LSP tools. Lines and columns are 1-based;
+ * with only `symbol`, its definition in `filePath` (or first occurrence) is used.
+ */
+interface PositionArgs {
+  filePath: string;
+  line?: number;
+  column?: number;
+  symbol?: string;
+}
+
+interface ResolvedPosition {
+  absolutePath: string;
+  position: Position;
+  /** Identifier at the position, used by the engine fallback */
+  symbolName?: string;
+}
+
+const SEVERITY_NAMES: Record<number, string> = { 1: "error", 2: "warning", 3: "info", 4: "hint" };
+const MAX_LOCATIONS = 100;
+
+/**
+ * Precise navigation, type info, diagnostics and rename through language
+ * servers (see src/lsp/). Files without a configured server fall back to the
+ * name-based CodeIntelligenceEngine.
+ */
+export class LanguageServerTool implements ToolProvider {
+  private intelligenceEngine: CodeIntelligenceEngine;
+  private lspManager: LSPManager;
+  private confirmationService = ConfirmationService.getInstance();
+  private operationTracker = OperationTracker.getInstance();
+
+  constructor(intelligenceEngine: CodeIntelligenceEngine, lspManager: LSPManager = new LSPManager()) {
+    this.intelligenceEngine = intelligenceEngine;
+    this.lspManager = lspManager;
+  }
+
+  getManager(): LSPManager {
+    return this.lspManager;
+  }
+
+  // ==================== Operations ====================
+
+  async definition(args: PositionArgs): Promise<ToolResult> {
+    return this.run(args, async (client, target) => {
+      const locations = await client.definition(target.absolutePath, target.position);
+      if (locations.length === 0) {
+        return { success: false, error: `No definition found at ${this.describePosition(target)}` };
+      }
+      return { success: true, output: `Definition:\n${this.formatLocations(locations)}` };
+    }, async (target) => {
+      const refs = this.intelligenceEngine.findSymbol(target.symbolName!);
+      if (refs.length === 0) {
+        return { success: false, error: `Symbol '${target.symbolName}' not found` };
+      }
+      const lines = refs.map(ref =>
+        this.formatLocation(ref.filePath, ref.symbol.startPosition.row, ref.symbol.startPosition.column, `${ref.symbol.type} ${ref.symbol.name}`)
+      );
+      return { success: true, output: `Definitions named '${target.symbolName}':\n${lines.join("\n")}` };
+    });
+  }
+
+  async references(args: PositionArgs & { includeDeclaration?: boolean }): Promise<ToolResult> {
+    const includeDeclaration = args.includeDeclaration !== false;
+    return this.run(args, async (client, target) => {
+      const locations = await client.references(target.absolutePath, target.position, includeDeclaration);
+      if (locations.length === 0) {
+        return { success: true, output: `No references found at ${this.describePosition(target)}` };
+      }
+      return { success: true, output: `${locations.length} reference(s):\n${this.formatLocations(locations)}` };
+    }, async (target) => {
+      const crossRef = this.intelligenceEngine.findReferences(target.symbolName!);
+      const references = (crossRef?.references || [])
+        .filter(ref => includeDeclaration || ref.type !== 'definition');
+      if (references.length === 0) {
+        return { success: true, output: `No references found for '${target.symbolName}'` };
+      }
+      const lines = references.slice(0, MAX_LOCATIONS).map(ref => this.formatLocation(ref.file, ref.line, ref.column, ref.type));
+      return { success: true, output: `${references.length} reference(s) to '${target.symbolName}':\n${lines.join("\n")}` };
+    });
+  }
+
+  async hover(args: PositionArgs): Promise<ToolResult> {
+    return this.run(args, async (client, target) => {
+      const hover = await client.hover(target.absolutePath, target.position);
+      const text = hover ? this.formatHover(hover) : "";
+      if (!text) {
+        return { success: false, error: `No type information at ${this.describePosition(target)}` };
+      }
+      return { success: true, output: text };
+    }, async (target) => {
+      const refs = this.intelligenceEngine.findSymbol(target.symbolName!);
+      if (refs.length === 0) {
+        return { success: false, error: `Symbol '${target.symbolName}' not found` };
+      }
+      const output = refs.map(ref => {
+        const { symbol } = ref;
+        const params = symbol.parameters?.map(p => `${p.name}${p.optional ? "?" : ""}${p.type ? `: ${p.type}` : ""}`).join(", ");
+        const signature = [
+          symbol.isAsync ? "async" : "",
+          symbol.isStatic ? "static" : "",
+          symbol.type,
+          params !== undefined ? `${symbol.name}(${params})` : symbol.name,
+          symbol.returnType ? `: ${symbol.returnType}` : ""
+        ].filter(Boolean).join(" ");
+        return `${signature}\n  scope: ${symbol.scope}\n  ${this.formatLocation(ref.filePath, symbol.startPosition.row, symbol.startPosition.column)}`;
+      });
+      return { success: true, output: output.join("\n\n") };
+    });
+  }
+
+  async diagnostics(args: { filePath: string }): Promise<ToolResult> {
+    if (!args.filePath) {
+      return { success: false, error: "filePath is required" };
+    }
+    const absolutePath = path.resolve(args.filePath);
+    if (!ops.existsSync(absolutePath)) {
+      return { success: false, error: `File not found: ${args.filePath}` };
+    }
+
+    return this.withClient(absolutePath, async (client) => {
+      const diagnostics = await client.getDiagnostics(absolutePath);
+      if (diagnostics.length === 0) {
+        return { success: true, output: `No diagnostics for ${this.relative(absolutePath)}` };
+      }
+      return { success: true, output: this.formatDiagnostics(absolutePath, diagnostics) };
+    }, async () => {
+      const structure = await this.intelligenceEngine.parseFileStructure(absolutePath);
+      if (structure.errors.length === 0) {
+        return { success: true, output: `No parse errors in ${this.relative(absolutePath)} (syntax only; no language server for type checking)` };
+      }
+      const lines = structure.errors.map(error =>
+        `${this.relative(absolutePath)}:${error.line + 1}:${error.column + 1} ${error.severity}: ${error.message}`
+      );
+      return { success: true, output: lines.join("\n") };
+    });
+  }
+
+  async rename(args: PositionArgs & { newName: string }): Promise<ToolResult> {
+    if (!args.newName) {
+      return { success: false, error: "newName is required" };
+    }
+
+    return this.run(args, async (client, target) => {
+      const edit = await client.rename(target.absolutePath, target.position, args.newName);
+      const editsByFile = edit ? collectTextEdits(edit) : new Map();
+      if (editsByFile.size === 0) {
+        return { success: false, error: `Nothing to rename at ${this.describePosition(target)}` };
+      }
+
+      // Compute every file's new content before touching any of them
+      const updates: Array<{ filePath: string; before: string; after: string; editCount: number }> = [];
+      for (const [filePath, edits] of editsByFile) {
+        const before = await ops.promises.readFile(filePath, "utf-8");
+        updates.push({ filePath, before, after: applyTextEdits(before, edits), editCount: edits.length });
+      }
+
+      const files = updates.map(update => update.filePath);
+      const totalEdits = updates.reduce((sum, update) => sum + update.editCount, 0);
+      const summary = `Rename to '${args.newName}': ${totalEdits} edit(s) in ${files.length} file(s)`;
+
+      if (this.confirmationService.needsConfirmation({ toolName: "lsp_rename", target: files }, "file")) {
+        const confirmationResult = await this.confirmationService.requestConfirmation(
+          {
+            toolName: "lsp_rename",
+            target: files,
+            operation: summary,
+            filename: files.map(file => this.relative(file)).join(", "),
+            showVSCodeOpen: false,
+            content: updates.map(update => this.previewChanges(update.filePath, update.before, update.after)).join("\n\n")
+          },
+          "file"
+        );
+        if (!confirmationResult.confirmed) {
+          return { success: false, error: confirmationResult.feedback || "Rename cancelled by user" };
+        }
+      }
+
+      for (const update of updates) {
+        await writeFilePromise(update.filePath, update.after, "utf-8");
+        await this.operationTracker.recordOperation('edit', update.filePath, {
+          rename: args.newName,
+          edits: update.editCount
+        });
+      }
+
+      const lines = updates.map(update => `  ${this.relative(update.filePath)} (${update.editCount} edit(s))`);
+      return { success: true, output: `${summary}\n${lines.join("\n")}`, metadata: { filesChanged: files } };
+    }, async (target) => {
+      // Name matching cannot tell same-named symbols apart, so only preview
+      const crossRef = this.intelligenceEngine.findReferences(target.symbolName!);
+      const references = crossRef?.references || [];
+      if (references.length === 0) {
+        return { success: false, error: `Symbol '${target.symbolName}' not found` };
+      }
+      const lines = references.slice(0, MAX_LOCATIONS).map(ref => this.formatLocation(ref.file, ref.line, ref.column, ref.type));
+      return {
+        success: true,
+        output: `No language server for ${this.relative(target.absolutePath)}, so no files were changed. ` +
+          `Name-based matches for '${target.symbolName}' (may include unrelated symbols with the same name); ` +
+          `edit the ones that refer to this symbol:\n${lines.join("\n")}`,
+        metadata: { filesChanged: [] }
+      };
+    });
+  }
+
+  // ==================== Dispatch ====================
+
+  /**
+   * Resolve the position, then use the file's language server or the engine
+   */
+  private async run(
+    args: PositionArgs,
+    withServer: (client: LSPClient, target: ResolvedPosition) => Promise<ToolResult>,
+    withEngine: (target: ResolvedPosition) => Promise<ToolResult>
+  ): Promise<ToolResult> {
+    let target: ResolvedPosition;
+    try {
+      target = await this.resolvePosition(args);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    return this.withClient(target.absolutePath, (client) => withServer(client, target), async () => {
+      if (!target.symbolName) {
+        return { success: false, error: `No identifier at ${this.describePosition(target)}` };
+      }
+      if (!this.intelligenceEngine.isReady()) {
+        await this.intelligenceEngine.initialize();
+      }
+      return withEngine(target);
+    });
+  }
+
+  private async withClient(
+    absolutePath: string,
+    withServer: (client: LSPClient) => Promise<ToolResult>,
+    withEngine: () => Promise<ToolResult>
+  ): Promise<ToolResult> {
+    try {
+      let client: LSPClient | null = null;
+      let fallbackReason = "";
+      try {
+        client = await this.lspManager.getClientForFile(absolutePath);
+      } catch (error) {
+        fallbackReason = error instanceof Error ? error.message : String(error);
+      }
+
+      if (client) {
+        return await withServer(client);
+      }
+
+      const result = await withEngine();
+      if (fallbackReason && result.success) {
+        result.output = `${fallbackReason}; using the code intelligence engine instead.\n\n${result.output}`;
+      }
+      return result;
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async resolvePosition(args: PositionArgs): Promise<ResolvedPosition> {
+    if (!args.filePath) {
+      throw new Error("filePath is required");
+    }
+    const absolutePath = path.resolve(args.filePath);
+    const content = await ops.promises.readFile(absolutePath, "utf-8").catch(() => {
+      throw new Error(`File not found: ${args.filePath}`);
+    });
+    const lines = content.split("\n");
+
+    let line: number;
+    let character: number;
+
+    if (args.line !== undefined) {
+      line = args.line - 1;
+      if (line < 0 || line >= lines.length) {
+        throw new Error(`Line ${args.line} is outside ${args.filePath} (${lines.length} lines)`);
+      }
+      if (args.column !== undefined) {
+        character = Math.max(0, args.column - 1);
+      } else if (args.symbol) {
+        const index = findIdentifier(lines[line], args.symbol);
+        if (index === -1) {
+          throw new Error(`'${args.symbol}' does not appear on line ${args.line} of ${args.filePath}`);
+        }
+        character = index;
+      } else {
+        character = lines[line].search(/\S/);
+        character = character === -1 ? 0 : character;
+      }
+    } else if (args.symbol) {
+      // Prefer the symbol's definition in this file, then its first occurrence
+      if (!this.intelligenceEngine.isReady()) {
+        await this.intelligenceEngine.initialize();
+      }
+      const definition = this.intelligenceEngine.findSymbol(args.symbol).find(ref => ref.filePath === absolutePath);
+      let found: Position | null = null;
+      if (definition) {
+        const row = definition.symbol.startPosition.row;
+        const index = findIdentifier(lines[row] || "", args.symbol);
+        if (index !== -1) {
+          found = { line: row, character: index };
+        }
+      }
+      if (!found) {
+        for (let i = 0; i < lines.length && !found; i++) {
+          const index = findIdentifier(lines[i], args.symbol);
+          if (index !== -1) {
+            found = { line: i, character: index };
+          }
+        }
+      }
+      if (!found) {
+        throw new Error(`'${args.symbol}' does not appear in ${args.filePath}`);
+      }
+      line = found.line;
+      character = found.character;
+    } else {
+      throw new Error("Either line (optionally with column or symbol) or symbol is required");
+    }
+
+    return {
+      absolutePath,
+      position: { line, character },
+      symbolName: args.symbol || identifierAt(lines[line] || "", character)
+    };
+  }
+
+  // ==================== Formatting ====================
+
+  private relative(filePath: string): string {
+    return path.relative(process.cwd(), filePath) || filePath;
+  }
+
+  private describePosition(target: ResolvedPosition): string {
+    return `${this.relative(target.absolutePath)}:${target.position.line + 1}:${target.position.character + 1}`;
+  }
+
+  private formatLocation(filePath: string, line: number, column: number, label?: string): string {
+    let preview = "";
+    try {
+      preview = ops.readFileSync(filePath, "utf-8").split("\n")[line]?.trim() || "";
+    } catch {
+      // Preview is optional
+    }
+    const location = `${this.relative(filePath)}:${line + 1}:${column + 1}`;
+    return `${location}${label ? ` (${label})` : ""}${preview ? `  ${preview}` : ""}`;
+  }
+
+  private formatLocations(locations: Location[]): string {
+    const lines = locations.slice(0, MAX_LOCATIONS).map(location => {
+      const filePath = location.uri.startsWith("file:") ? fileURLToPath(location.uri) : location.uri;
+      return this.formatLocation(filePath, location.range.start.line, location.range.start.character);
+    });
+    if (locations.length > MAX_LOCATIONS) {
+      lines.push(`... and ${locations.length - MAX_LOCATIONS} more`);
+    }
+    return lines.join("\n");
+  }
+
+  private formatHover(hover: Hover): string {
+    const parts = Array.isArray(hover.contents) ? hover.contents : [hover.contents];
+    return parts
+      .map(part => {
+        if (typeof part === "string") return part;
+        if ("kind" in part) return part.value;
+        return "```" + part.language + "\n" + part.value + "\n```";
+      })
+      .filter(Boolean)
+      .join("\n\n")
+      .trim();
+  }
+
+  private formatDiagnostics(absolutePath: string, diagnostics: Diagnostic[]): string {
+    return diagnostics
+      .map(diagnostic => {
+        const { line, character } = diagnostic.range.start;
+        const severity = SEVERITY_NAMES[diagnostic.severity || 1];
+        const source = [diagnostic.source, diagnostic.code].filter(value => value !== undefined && value !== "").join(" ");
+        return `${this.relative(absolutePath)}:${line + 1}:${character + 1} ${severity}${source ? ` [${source}]` : ""}: ${diagnostic.message}`;
+      })
+      .join("\n");
+  }
+
+  private previewChanges(filePath: string, before: string, after: string): string {
+    const oldLines = before.split("\n");
+    const newLines = after.split("\n");
+    const lines = [`--- ${this.relative(filePath)}`];
+    // Renames rarely change the line count; show changed lines side by side
+    for (let i = 0; i < Math.max(oldLines.length, newLines.length); i++) {
+      if (oldLines[i] !== newLines[i]) {
+        if (oldLines[i] !== undefined) lines.push(`${i + 1}: - ${oldLines[i]}`);
+        if (newLines[i] !== undefined) lines.push(`${i + 1}: + ${newLines[i]}`);
+      }
+    }
+    return lines.join("\n");
+  }
+
+  // ==================== Tool Definitions ====================
+
+  private positionProperties(): ToolParameters["properties"] {
+    return {
+      filePath: {
+        type: "string",
+        description: "File containing the symbol"
+      },
+      line: {
+        type: "integer",
+        description: "1-based line of the symbol occurrence"
+      },
+      column: {
+        type: "integer",
+        description: "1-based column on that line (optional when symbol is given)"
+      },
+      symbol: {
+        type: "string",
+        description: "Symbol name; locates the column on `line`, or without `line` its definition in the file"
+      }
+    };
+  }
+
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: "lsp_definition",
+        description: "Go to the definition of the symbol at a position, resolved by the project's language server (type-aware, so same-named symbols in other classes are not confused). Falls back to name-based lookup when no server is configured.",
+        summary: "Find where the symbol at a file position is defined (language server)",
+        category: "read",
+        group: "core",
+        parameters: {
+          type: "object",
+          properties: this.positionProperties(),
+          required: ["filePath"]
+        },
+        handler: (args) => this.definition(args),
+      },
+      {
+        name: "lsp_references",
+        description: "Find all references to the symbol at a position using the project's language server. Falls back to name-based cross-references when no server is configured.",
+        summary: "Find every reference to the symbol at a file position (language server)",
+        category: "read",
+        group: "core",
+        parameters: {
+          type: "object",
+          properties: {
+            ...this.positionProperties(),
+            includeDeclaration: {
+              type: "boolean",
+              description: "Include the declaration itself (default: true)"
+            }
+          },
+          required: ["filePath"]
+        },
+        handler: (args) => this.references(args),
+      },
+      {
+        name: "lsp_hover",
+        description: "Show type information and documentation for the symbol at a position, as an editor hover would.",
+        summary: "Show the type and docs of the symbol at a file position (language server)",
+        category: "read",
+        group: "core",
+        parameters: {
+          type: "object",
+          properties: this.positionProperties(),
+          required: ["filePath"]
+        },
+        handler: (args) => this.hover(args),
+      },
+      {
+        name: "lsp_diagnostics",
+        description: "Report compiler/type-checker errors and warnings for a file from the project's language server. Without a server only syntax errors are reported.",
+        summary: "List type errors and warnings for a file (language server)",
+        category: "read",
+        group: "core",
+        parameters: {
+          type: "object",
+          properties: {
+            filePath: {
+              type: "string",
+              description: "File to check"
+            }
+          },
+          required: ["filePath"]
+        },
+        handler: (args) => this.diagnostics(args),
+      },
+      {
+        name: "lsp_rename",
+        description: "Rename the symbol at a position across the workspace using the language server, updating only real references to that symbol. Without a server, lists name-based matches instead of editing files.",
+        summary: "Rename the symbol at a file position across the workspace (language server)",
+        category: "write",
+        group: "core",
+        parameters: {
+          type: "object",
+          properties: {
+            ...this.positionProperties(),
+            newName: {
+              type: "string",
+              description: "New name for the symbol"
+            }
+          },
+          required: ["filePath", "newName"]
+        },
+        handler: (args) => this.rename(args),
+      },
+    ];
+  }
+}
+
+function findIdentifier(line: string, name: string): number {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).exec(line);
+  return match ? match.index : -1;
+}
+
+function identifierAt(line: string, character: number): string | undefined {
+  const isIdentifierChar = (char: string | undefined) => !!char && /[\w$]/.test(char);
+  let start = character;
+  let end = character;
+  while (start > 0 && isIdentifierChar(line[start - 1])) start--;
+  while (isIdentifierChar(line[end])) end++;
+  return end > start ? line.slice(start, end) : undefined;
+}
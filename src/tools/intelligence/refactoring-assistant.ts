@@ -18,6 +18,8 @@ const pathExists = async (filePath: string): Promise<boolean> => {
 
 
 import path from "path";
+import { ToolDefinition, ToolParameters, ToolProvider } from "../registry.js";
+import { debugLog } from "../../utils/debug.js";
 
 export interface RefactoringOperation {
   type: 'rename' | 'extract_function' | 'extract_variable' | 'inline_function' | 'inline_variable' | 'move_function' | 'move_class';
@@ -90,7 +92,7 @@ export interface InlineRequest {
   preserveComments: boolean;
 }
 
-export class RefactoringAssistantTool {
+export class RefactoringAssistantTool implements ToolProvider {
   name = "refactoring_assistant";
   description = "Perform safe code refactoring operations including rename, extract, inline, and move operations";
 
@@ -140,9 +142,11 @@ export class RefactoringAssistantTool {
           throw new Error(`Unsupported refactoring operation: ${operation}`);
       }
 
+      // The changes are returned for review; no file is written
       return {
         success: true,
-        output: JSON.stringify(result, null, 2)
+        output: JSON.stringify(result, null, 2),
+        metadata: { filesChanged: [] }
       };
 
     } catch (error) {
@@ -1299,7 +1303,7 @@ export class RefactoringAssistantTool {
     return preview;
   }
 
-  getSchema() {
+  getSchema(): ToolParameters {
     return {
       type: "object",
       properties: {
@@ -1344,14 +1348,6 @@ export class RefactoringAssistantTool {
           type: "integer",
           description: "End line for extract operations"
         },
-        startColumn: {
-          type: "integer",
-          description: "Start column for extract variable operation"
-        },
-        endColumn: {
-          type: "integer",
-          description: "End column for extract variable operation"
-        },
         functionName: {
           type: "string",
           description: "Name for extracted function"
@@ -1359,44 +1355,52 @@ export class RefactoringAssistantTool {
         variableName: {
           type: "string",
           description: "Name for extracted variable"
-        },
-        variableType: {
-          type: "string",
-          description: "Type annotation for extracted variable"
-        },
-        parameters: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              name: { type: "string" },
-              type: { type: "string" },
-              defaultValue: { type: "string" }
-            },
-            required: ["name"]
-          },
-          description: "Parameters for extracted function"
-        },
-        returnType: {
-          type: "string",
-          description: "Return type for extracted function"
-        },
-        targetFile: {
-          type: "string",
-          description: "Target file for move operations"
-        },
-        createTargetFile: {
-          type: "boolean",
-          description: "Create target file if it doesn't exist",
-          default: false
-        },
-        preserveComments: {
-          type: "boolean",
-          description: "Preserve comments in inline operations",
-          default: true
         }
       },
       required: ["operation"]
     };
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: this.name,
+        description: this.description,
+        summary: "Safe rename, extract, inline and move refactorings across the project",
+        category: "write",
+        group: "advanced",
+        parameters: this.getSchema(),
+        handler: (args) => this.executeWithSelfCorrection(args),
+      },
+    ];
+  }
+
+  /**
+   * Turn refactoring failures into a self-correction signal so the model
+   * falls back to explicit multi-file edits
+   */
+  private async executeWithSelfCorrection(args: any): Promise<ToolResult> {
+    try {
+      return await this.execute(args);
+    } catch (error: any) {
+      debugLog(`refactoring_assistant failed: ${error.message}`);
+
+      return {
+        success: false,
+        error: `SELF_CORRECT_ATTEMPT: The refactoring operation failed with error: "${error.message}". ` +
+          `Please generate a new plan using the 'multi_file_edit' tool for more direct text manipulation ` +
+          `across multiple files. Break down the refactoring into smaller, explicit file edits with ` +
+          `specific line ranges and content replacements.`,
+        metadata: {
+          originalTool: 'refactoring_assistant',
+          originalError: error.message,
+          suggestedApproach: 'multi_file_edit',
+          fallbackTools: ['multi_file_edit', 'code_analysis', 'str_replace_editor']
+        }
+      };
+    }
+  }
 }
\ No newline at end of file
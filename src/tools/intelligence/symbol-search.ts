@@ -4,6 +4,7 @@ import { CodeIntelligenceEngine } from "./engine.js";
 import Fuse from "fuse.js";
 import * as ops from "fs";
 import { glob } from "glob";
+import { ToolDefinition, ToolParameters, ToolProvider } from "../registry.js";
 
 export interface SymbolReference {
   symbol: SymbolInfo;
@@ -37,7 +38,7 @@ export interface CrossReference {
   exportedTo: string[];
 }
 
-export class SymbolSearchTool {
+export class SymbolSearchTool implements ToolProvider {
   name = "symbol_search";
   description = "Search for symbols (functions, classes, variables) across the codebase with fuzzy matching and cross-references";
 
@@ -380,7 +381,7 @@ export class SymbolSearchTool {
     };
   }
 
-  getSchema() {
+  getSchema(): ToolParameters {
     return {
       type: "object",
       properties: {
@@ -423,26 +424,26 @@ export class SymbolSearchTool {
           default: 50,
           minimum: 1,
           maximum: 1000
-        },
-        filePatterns: {
-          type: "array",
-          items: { type: "string" },
-          description: "Glob patterns for files to search",
-          default: ["**/*.{ts,tsx,js,jsx,py}"]
-        },
-        excludePatterns: {
-          type: "array",
-          items: { type: "string" },
-          description: "Glob patterns for files to exclude",
-          default: ["**/node_modules/**", "**/dist/**", "**/.git/**"]
-        },
-        indexCache: {
-          type: "boolean",
-          description: "Use cached symbol index if available",
-          default: true
         }
       },
       required: ["query"]
     };
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: this.name,
+        description: this.description,
+        summary: "Search for symbols (functions, classes, variables) across the codebase with fuzzy matching",
+        category: "read",
+        group: "core",
+        parameters: this.getSchema(),
+        handler: (args) => this.execute(args),
+      },
+    ];
+  }
 }
\ No newline at end of file
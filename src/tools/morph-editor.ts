@@ -15,8 +15,9 @@ import * as path from "path";
 import axios from "axios";
 import { ToolResult } from "../types/index.js";
 import { ConfirmationService } from "../utils/confirmation-service.js";
+import { ToolDefinition, ToolProvider } from "./registry.js";
 
-export class MorphEditorTool {
+export class MorphEditorTool implements ToolProvider {
   private confirmationService = ConfirmationService.getInstance();
   private morphApiKey: string;
   private morphBaseUrl: string = "https://api.morphllm.com/v1";
@@ -77,10 +78,11 @@ export class MorphEditorTool {
       const initialCode = await ops.promises.readFile(resolvedPath, "utf-8");
 
       // Check user confirmation before proceeding
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "edit_file", target: targetFile }, "file")) {
         const confirmationResult = await this.confirmationService.requestConfirmation(
           {
+            toolName: "edit_file",
+            target: targetFile,
             operation: "Edit file with Morph Fast Apply",
             filename: targetFile,
             showVSCodeOpen: false,
@@ -402,4 +404,38 @@ export class MorphEditorTool {
   getApiKey(): string {
     return this.morphApiKey;
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: "edit_file",
+        description: "Use this tool to make an edit to an existing file.\n\nThis will be read by a less intelligent model, which will quickly apply the edit. You should make it clear what the edit is, while also minimizing the unchanged code you write.\nWhen writing the edit, you should specify each edit in sequence, with the special comment // ... existing code ... to represent unchanged code in between edited lines.\n\nFor example:\n\n// ... existing code ...\nFIRST_EDIT\n// ... existing code ...\nSECOND_EDIT\n// ... existing code ...\nTHIRD_EDIT\n// ... existing code ...\n\nYou should still bias towards repeating as few lines of the original file as possible to convey the change.\nBut, each edit should contain sufficient context of unchanged lines around the code you're editing to resolve ambiguity.\nDO NOT omit spans of pre-existing code (or comments) without using the // ... existing code ... comment to indicate its absence. If you omit the existing code comment, the model may inadvertently delete these lines.\nIf you plan on deleting a section, you must provide context before and after to delete it. If the initial code is ```code \\n Block 1 \\n Block 2 \\n Block 3 \\n code```, and you want to remove Block 2, you would output ```// ... existing code ... \\n Block 1 \\n  Block 3 \\n // ... existing code ...```.\nMake sure it is clear what the edit should be, and where it should be applied.\nMake edits to a file in a single edit_file call instead of multiple edit_file calls to the same file. The apply model can handle many distinct edits at once.",
+        summary: "High-speed file editing with Morph Fast Apply (4,500+ tokens/sec with 98% accuracy)",
+        category: "write",
+        group: "core",
+        parameters: {
+        type: "object",
+        properties: {
+          target_file: {
+            type: "string",
+            description: "The target file to modify."
+          },
+          instructions: {
+            type: "string",
+            description: "A single sentence instruction describing what you are going to do for the sketched edit. This is used to assist the less intelligent model in applying the edit. Use the first person to describe what you are going to do. Use it to disambiguate uncertainty in the edit."
+          },
+          code_edit: {
+            type: "string",
+            description: "Specify ONLY the precise lines of code that you wish to edit. NEVER specify or write out unchanged code. Instead, represent all unchanged code using the comment of the language you're editing in - example: // ... existing code ..."
+          }
+        },
+        required: ["target_file", "instructions", "code_edit"]
+      },
+        handler: (args) => this.editFile(args.target_file, args.instructions, args.code_edit),
+      },
+    ];
+  }
 }
\ No newline at end of file
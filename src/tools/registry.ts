@@ -0,0 +1,158 @@
+/**
+ * Tool Registry
+ *
+ * Single source of truth for the tools exposed to the model. Each tool class
+ * declares its own definitions (schema, handler and permission category); the
+ * tool schemas sent to the API, the tool list in the system prompt and tool
+ * dispatch are all generated from the registry.
+ */
+
+import type { GrokTool } from '../grok/client.js';
+import { ToolResult } from '../types/index.js';
+
+/**
+ * What a tool can do to the user's machine; used for confirmations and permission rules
+ */
+export type ToolPermissionCategory = 'read' | 'write' | 'execute' | 'internal';
+
+/**
+ * Core tools are always sent to the model. Advanced tools are only sent when
+ * GROK_ENABLE_ADVANCED_TOOLS=1, because large tool grammars can be rejected by
+ * the Grok API ("Grammar is too complex").
+ */
+export type ToolGroup = 'core' | 'advanced';
+
+export type ToolParameters = GrokTool['function']['parameters'];
+
+/**
+ * Per-call hooks passed from the agent to tool handlers
+ */
+export interface ToolExecutionContext {
+  /** Live output while the tool is still running (e.g. bash stdout) */
+  onOutput?: (chunk: string) => void;
+  /** Aborted when the user cancels the current operation */
+  signal?: AbortSignal;
+}
+
+export interface ToolDefinition<TArgs = any> {
+  name: string;
+  /** Full description sent to the model with the schema */
+  description: string;
+  /** One-line description used in the system prompt tool list */
+  summary: string;
+  parameters: ToolParameters;
+  category: ToolPermissionCategory;
+  group: ToolGroup;
+  handler: (args: TArgs, context?: ToolExecutionContext) => Promise<ToolResult>;
+}
+
+/**
+ * Implemented by tool classes that expose one or more tools to the model
+ */
+export interface ToolProvider {
+  getToolDefinitions(): ToolDefinition[];
+}
+
+/**
+ * Whether a tool name matches one of the patterns, where `*` matches any
+ * characters (e.g. `mcp__github__*`)
+ */
+export function matchesToolPattern(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const regex = new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+    return regex.test(name);
+  });
+}
+
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  /**
+   * Register a tool. Registering a name again replaces the earlier definition.
+   */
+  register(definition: ToolDefinition): void {
+    this.tools.set(definition.name, definition);
+  }
+
+  registerProvider(provider: ToolProvider): void {
+    for (const definition of provider.getToolDefinitions()) {
+      this.register(definition);
+    }
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * All registered tools, in registration order
+   */
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Tools currently exposed to the model
+   */
+  getEnabledDefinitions(): ToolDefinition[] {
+    const advancedEnabled = process.env.GROK_ENABLE_ADVANCED_TOOLS === '1';
+    return this.list().filter(tool => tool.group === 'core' || advancedEnabled);
+  }
+
+  isEnabled(name: string): boolean {
+    return this.getEnabledDefinitions().some(tool => tool.name === name);
+  }
+
+  getCategory(name: string): ToolPermissionCategory | undefined {
+    return this.tools.get(name)?.category;
+  }
+
+  toGrokTools(): GrokTool[] {
+    return this.getEnabledDefinitions().map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * Tool list for the system prompt, grouped like the tool schemas
+   */
+  describeForPrompt(): string {
+    const enabled = this.getEnabledDefinitions();
+    const sections: string[] = [];
+
+    const core = enabled.filter(tool => tool.group === 'core');
+    if (core.length > 0) {
+      sections.push(`CORE TOOLS:\n${core.map(tool => `- ${tool.name}: ${tool.summary}`).join('\n')}`);
+    }
+
+    const advanced = enabled.filter(tool => tool.group === 'advanced');
+    if (advanced.length > 0) {
+      sections.push(`ADVANCED TOOLS:\n${advanced.map(tool => `- ${tool.name}: ${tool.summary}`).join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Dispatch a tool call to its handler
+   */
+  async execute(name: string, args: any, context?: ToolExecutionContext): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return {
+        success: false,
+        error: `Unknown tool: ${name}`,
+      };
+    }
+    return tool.handler(args, context);
+  }
+}
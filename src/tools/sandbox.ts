@@ -0,0 +1,355 @@
+/**
+ * Bash Sandbox
+ *
+ * Opt-in isolation for commands run by BashTool. Writes are limited to the
+ * project root, the temp directory and any extra writable paths, secrets are
+ * stripped from the child environment, and network access is blocked unless
+ * explicitly allowed.
+ *
+ * Backends, in order of preference:
+ * - bwrap: bubblewrap with a read-only root, writable binds and --unshare-net
+ * - unshare: user + mount (+ net) namespaces, remounting everything read-only
+ *   except the writable roots; the command then runs in a nested user
+ *   namespace as an unprivileged user, so it cannot remount anything
+ * - policy: static checks of the command (redirections, file-modifying
+ *   commands, network tools) for platforms without namespaces
+ */
+
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SelfCorrectError } from '../types/errors.js';
+
+export type SandboxBackend = 'bwrap' | 'unshare' | 'policy';
+
+export interface SandboxOptions {
+  projectRoot: string;
+  /** Extra directories the command may write to */
+  writablePaths?: string[];
+  allowNetwork?: boolean;
+}
+
+/**
+ * Environment variables that are never passed to sandboxed commands
+ */
+const SECRET_ENV_VARS = new Set([
+  'GROK_API_KEY',
+  'MORPH_API_KEY',
+  'XAI_API_KEY',
+  'OPENAI_API_KEY',
+  'ANTHROPIC_API_KEY',
+  'GEMINI_API_KEY',
+  'GITHUB_TOKEN',
+  'NPM_TOKEN',
+  'AWS_ACCESS_KEY_ID',
+  'AWS_SECRET_ACCESS_KEY',
+  'AWS_SESSION_TOKEN',
+]);
+const SECRET_ENV_PATTERN = /(_API_KEY|_TOKEN|_SECRET|_SECRET_KEY|_PASSWORD|_CREDENTIALS)$/i;
+
+const NETWORK_COMMANDS = new Set(['curl', 'wget', 'ssh', 'scp', 'sftp', 'ftp', 'telnet', 'nc', 'ncat', 'rsync']);
+const NETWORK_SUBCOMMANDS: Record<string, string[]> = {
+  git: ['clone', 'fetch', 'pull', 'push', 'ls-remote', 'submodule'],
+  npm: ['install', 'i', 'ci', 'add', 'publish', 'update'],
+  pnpm: ['install', 'i', 'add', 'publish', 'update'],
+  yarn: ['install', 'add', 'publish', 'upgrade'],
+  pip: ['install', 'download'],
+  pip3: ['install', 'download'],
+  cargo: ['install', 'fetch', 'publish'],
+  go: ['get', 'install'],
+};
+
+/** Every path argument is modified */
+const WRITE_COMMANDS = new Set(['rm', 'rmdir', 'mkdir', 'touch', 'chmod', 'chown', 'truncate', 'mv', 'unlink']);
+/** Only the last path argument (the destination) is modified */
+const COPY_COMMANDS = new Set(['cp', 'ln', 'install']);
+const ALWAYS_WRITABLE = new Set(['/dev/null', '/dev/stdout', '/dev/stderr', '/dev/tty']);
+
+const READ_ONLY_PATTERN = /Read-only file system/i;
+const NETWORK_FAILURE_PATTERN =
+  /Could not resolve host|Temporary failure in name resolution|Network is unreachable|getaddrinfo (?:EAI_AGAIN|ENOTFOUND)|ENETUNREACH/i;
+
+/** User the unshare backend runs commands as when grok itself runs as root */
+const UNPRIVILEGED_ID = 65534;
+
+/**
+ * Remounts every mount read-only, re-binds the writable roots read-write and
+ * runs the command from its working directory as an unprivileged user.
+ * Arguments: cwd, uid, gid, command, roots...
+ */
+const UNSHARE_SETUP_SCRIPT = [
+  'cwd="$1"; uid="$2"; gid="$3"; cmd="$4"; shift 4',
+  'for m in $(awk \'{print $5}\' /proc/self/mountinfo | sort -u); do',
+  '  case "$m" in /proc|/proc/*|/dev|/dev/*|/sys|/sys/*) continue;; esac',
+  '  mount -o remount,bind,ro "$m" 2>/dev/null',
+  'done',
+  'for r in "$@"; do mount --bind "$r" "$r" && mount -o remount,bind,rw "$r" || exit 125; done',
+  'cd "$cwd" && exec unshare --user --map-user="$uid" --map-group="$gid" /bin/bash -c "$cmd"',
+].join('\n');
+
+export class BashSandbox {
+  private static detectedBackend: SandboxBackend | null = null;
+
+  private readonly projectRoot: string;
+  private readonly writableRoots: string[];
+  private readonly allowNetwork: boolean;
+
+  constructor(options: SandboxOptions) {
+    this.projectRoot = this.realpath(path.resolve(options.projectRoot));
+    this.allowNetwork = options.allowNetwork ?? false;
+
+    const roots = [this.projectRoot, os.tmpdir(), ...(options.writablePaths || [])]
+      .map(root => this.realpath(path.resolve(this.projectRoot, this.expandHome(root))));
+    this.writableRoots = Array.from(new Set(roots));
+  }
+
+  /**
+   * Best isolation available on this machine (detected once per process)
+   */
+  getBackend(): SandboxBackend {
+    if (BashSandbox.detectedBackend === null) {
+      BashSandbox.detectedBackend = BashSandbox.detectBackend();
+    }
+    return BashSandbox.detectedBackend;
+  }
+
+  getWritableRoots(): string[] {
+    return [...this.writableRoots];
+  }
+
+  /**
+   * Copy of the environment without API keys, tokens and other secrets
+   */
+  sanitizeEnvironment(env: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+    const sanitized: NodeJS.ProcessEnv = {};
+    for (const [key, value] of Object.entries(env)) {
+      if (SECRET_ENV_VARS.has(key) || SECRET_ENV_PATTERN.test(key)) {
+        continue;
+      }
+      sanitized[key] = value;
+    }
+    sanitized.GROK_SANDBOX_ACTIVE = '1';
+    return sanitized;
+  }
+
+  /**
+   * Static enforcement for the policy backend: reject redirections and
+   * file-modifying commands that target paths outside the writable roots, and
+   * known network commands. Namespace backends are enforced by the kernel.
+   */
+  checkCommand(command: string, cwd: string): void {
+    for (const segment of this.splitCommand(command)) {
+      const words = this.tokenize(segment);
+      if (words.length === 0) continue;
+
+      if (!this.allowNetwork && this.isNetworkCommand(words)) {
+        throw this.networkViolation(command);
+      }
+
+      for (const target of this.getWriteTargets(segment, words)) {
+        if (!this.isWritable(target, cwd)) {
+          throw this.writeViolation(command, path.resolve(cwd, this.expandHome(target)));
+        }
+      }
+    }
+  }
+
+  /**
+   * Wrap a command so it runs inside the sandbox backend
+   */
+  wrapCommand(command: string, cwd: string): string {
+    switch (this.getBackend()) {
+      case 'bwrap': {
+        const args = ['bwrap', '--ro-bind', '/', '/', '--dev', '/dev', '--proc', '/proc'];
+        for (const root of this.writableRoots) {
+          args.push('--bind', root, root);
+        }
+        if (!this.allowNetwork) {
+          args.push('--unshare-net');
+        }
+        args.push('--unshare-pid', '--die-with-parent', '--chdir', cwd, '/bin/bash', '-c', command);
+        return args.map(arg => this.quote(arg)).join(' ');
+      }
+      case 'unshare': {
+        const args = ['unshare', '--user', '--map-root-user', '--mount', '--propagation', 'private'];
+        if (!this.allowNetwork) {
+          args.push('--net');
+        }
+        const [uid, gid] = BashSandbox.getUnprivilegedIds();
+        args.push('/bin/bash', '-c', UNSHARE_SETUP_SCRIPT, 'grok-sandbox', cwd, String(uid), String(gid), command, ...this.writableRoots);
+        return args.map(arg => this.quote(arg)).join(' ');
+      }
+      default:
+        return command;
+    }
+  }
+
+  /**
+   * Turn the output of a failed sandboxed command into a policy violation
+   */
+  detectViolation(command: string, output: string): SelfCorrectError | null {
+    if (READ_ONLY_PATTERN.test(output)) {
+      return this.writeViolation(command);
+    }
+    if (!this.allowNetwork) {
+      // Network tools often fail silently (e.g. `curl -s`), so a failed
+      // network command counts as a violation even without a telltale message
+      const usesNetwork = this.splitCommand(command).some(segment => this.isNetworkCommand(this.tokenize(segment)));
+      if (usesNetwork || NETWORK_FAILURE_PATTERN.test(output)) {
+        return this.networkViolation(command);
+      }
+    }
+    return null;
+  }
+
+  private static detectBackend(): SandboxBackend {
+    if (os.platform() !== 'linux') {
+      return 'policy';
+    }
+    const probe = (file: string, args: string[]) => {
+      try {
+        return spawnSync(file, args, { stdio: 'ignore', timeout: 5000 }).status === 0;
+      } catch {
+        return false;
+      }
+    };
+    if (probe('bwrap', ['--ro-bind', '/', '/', '--unshare-net', 'true'])) {
+      return 'bwrap';
+    }
+    const [uid, gid] = BashSandbox.getUnprivilegedIds();
+    const dropPrivileges = ['unshare', '--user', `--map-user=${uid}`, `--map-group=${gid}`, 'true'];
+    if (probe('unshare', ['--user', '--map-root-user', '--mount', '--net', ...dropPrivileges])) {
+      return 'unshare';
+    }
+    return 'policy';
+  }
+
+  /**
+   * Ids commands run as in the unshare backend: the caller's own, or nobody's
+   * when that is root
+   */
+  private static getUnprivilegedIds(): [number, number] {
+    const uid = process.getuid?.() ?? UNPRIVILEGED_ID;
+    const gid = process.getgid?.() ?? UNPRIVILEGED_ID;
+    return uid === 0 ? [UNPRIVILEGED_ID, UNPRIVILEGED_ID] : [uid, gid];
+  }
+
+  private isNetworkCommand(words: string[]): boolean {
+    if (words.length === 0) {
+      return false;
+    }
+    const [program, subcommand] = words;
+    const name = path.basename(program);
+    if (NETWORK_COMMANDS.has(name)) {
+      return true;
+    }
+    return NETWORK_SUBCOMMANDS[name]?.includes(subcommand) ?? false;
+  }
+
+  private getWriteTargets(segment: string, words: string[]): string[] {
+    const targets: string[] = [];
+
+    // Output redirections: `> file`, `>> file`, `2> file`, `&> file`
+    for (const match of segment.matchAll(/(?:^|[^<>])(?:\d|&)?>>?\s*([^\s<>&|;]+)/g)) {
+      if (!match[1].startsWith('&')) {
+        targets.push(this.unquote(match[1]));
+      }
+    }
+
+    const name = path.basename(words[0]);
+    const pathArgs = words.slice(1).filter(word => !word.startsWith('-'));
+
+    if (name === 'tee') {
+      targets.push(...pathArgs);
+    } else if (WRITE_COMMANDS.has(name)) {
+      targets.push(...pathArgs);
+    } else if (COPY_COMMANDS.has(name) && pathArgs.length > 1) {
+      targets.push(pathArgs[pathArgs.length - 1]);
+    } else if (name === 'dd') {
+      const output = words.find(word => word.startsWith('of='));
+      if (output) targets.push(output.substring(3));
+    }
+
+    return targets;
+  }
+
+  private isWritable(target: string, cwd: string): boolean {
+    const resolved = path.resolve(cwd, this.expandHome(target));
+    if (ALWAYS_WRITABLE.has(resolved)) {
+      return true;
+    }
+    const real = this.realpath(resolved);
+    return this.writableRoots.some(root => real === root || real.startsWith(root + path.sep));
+  }
+
+  private writeViolation(command: string, target?: string): SelfCorrectError {
+    return new SelfCorrectError({
+      message: `Sandbox violation: ${target ? `writing to ${target}` : 'the command tried to write'} outside the project is not allowed`,
+      originalTool: 'bash',
+      suggestedFallbacks: [
+        `Write files inside the project root (${this.projectRoot})`,
+        `Use ${os.tmpdir()} for temporary files`,
+        'Use relative paths from the project root',
+      ],
+      hint: `Bash is running in sandbox mode. Writable locations: ${this.writableRoots.join(', ')}`,
+      metadata: { sandbox: true, violation: 'write', command, target },
+    });
+  }
+
+  private networkViolation(command: string): SelfCorrectError {
+    return new SelfCorrectError({
+      message: 'Sandbox violation: network access is blocked',
+      originalTool: 'bash',
+      suggestedFallbacks: [
+        'Use dependencies and files that are already available locally',
+        'Ask the user to run the network command outside the sandbox',
+      ],
+      hint: 'Bash is running in sandbox mode without network access (set sandbox.allowNetwork to permit it).',
+      metadata: { sandbox: true, violation: 'network', command },
+    });
+  }
+
+  private splitCommand(command: string): string[] {
+    return command.split(/&&|\|\||[;|\n]/).map(part => part.trim()).filter(Boolean);
+  }
+
+  private tokenize(segment: string): string[] {
+    const words = segment.match(/"[^"]*"|'[^']*'|\S+/g) || [];
+    // Skip leading VAR=value assignments
+    const start = words.findIndex(word => !/^\w+=/.test(word));
+    return start === -1 ? [] : words.slice(start).map(word => this.unquote(word));
+  }
+
+  private unquote(word: string): string {
+    return word.replace(/^(['"])(.*)\1$/s, '$2');
+  }
+
+  private expandHome(target: string): string {
+    if (target === '~' || target.startsWith('~/')) {
+      return path.join(os.homedir(), target.substring(1));
+    }
+    return target.replace(/^\$HOME(?=\/|$)/, os.homedir());
+  }
+
+  /**
+   * Resolve symlinks for the longest existing prefix of a path
+   */
+  private realpath(target: string): string {
+    let existing = target;
+    const missing: string[] = [];
+    while (!fs.existsSync(existing) && path.dirname(existing) !== existing) {
+      missing.unshift(path.basename(existing));
+      existing = path.dirname(existing);
+    }
+    try {
+      return path.join(fs.realpathSync(existing), ...missing);
+    } catch {
+      return target;
+    }
+  }
+
+  private quote(arg: string): string {
+    return `'${arg.replace(/'/g, `'\\''`)}'`;
+  }
+}
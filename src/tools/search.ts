@@ -16,6 +16,7 @@ const _pathExists = async (filePath: string): Promise<boolean> => {
 
 
 import * as path from "path";
+import { ToolDefinition, ToolProvider } from "./registry.js";
 
 export interface SearchResult {
   file: string;
@@ -41,7 +42,7 @@ export interface UnifiedSearchResult {
   score?: number;
 }
 
-export class SearchTool {
+export class SearchTool implements ToolProvider {
   private confirmationService = ConfirmationService.getInstance();
   private currentDirectory: string = process.cwd();
   private ripgrepAvailable: boolean | null = null;
@@ -497,4 +498,46 @@ export class SearchTool {
   getCurrentDirectory(): string {
     return this.currentDirectory;
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: "search",
+        description: "Search for text in files or find files by name",
+        summary: "Unified search tool for finding text content or files (similar to Cursor's search functionality)",
+        category: "read",
+        group: "core",
+        parameters: {
+          type: "object",
+          properties: {
+            query: {
+              type: "string",
+              description: "Text to search for or file name pattern",
+            },
+            search_type: {
+              type: "string",
+              enum: ["text", "files", "both"],
+              description: "Type: 'text', 'files', or 'both' (default: 'both')",
+            },
+          },
+          required: ["query"],
+        },
+        handler: (args) =>
+          this.search(args.query, {
+            searchType: args.search_type,
+            includePattern: args.include_pattern,
+            excludePattern: args.exclude_pattern,
+            caseSensitive: args.case_sensitive,
+            wholeWord: args.whole_word,
+            regex: args.regex,
+            maxResults: args.max_results,
+            fileTypes: args.file_types,
+            includeHidden: args.include_hidden,
+          }),
+      },
+    ];
+  }
 }
@@ -6,8 +6,9 @@
 
 import { ToolResult } from '../types/index.js';
 import { TaskOrchestrator } from '../planning/index.js';
+import { ToolDefinition, ToolProvider } from './registry.js';
 
-export class TaskPlannerTool {
+export class TaskPlannerTool implements ToolProvider {
   private orchestrator: TaskOrchestrator;
 
   constructor(rootPath: string = process.cwd()) {
@@ -179,5 +180,52 @@ export class TaskPlannerTool {
   getOrchestrator(): TaskOrchestrator {
     return this.orchestrator;
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'task_planner',
+        description: 'Intelligent multi-step task planning and execution. Automatically breaks down complex tasks into steps, analyzes dependencies, assesses risks, and creates executable plans. Use this for complex refactoring, multi-file operations, or any task requiring multiple coordinated steps.',
+        summary: 'Intelligent multi-step task planning with automatic decomposition and execution',
+        category: 'write',
+        group: 'advanced',
+        parameters: {
+          type: 'object',
+          properties: {
+            operation: {
+              type: 'string',
+              enum: ['create_plan', 'preview_plan', 'validate_plan'],
+              description: 'Operation to perform: create_plan (generate and return plan), preview_plan (show formatted preview), validate_plan (check plan validity)'
+            },
+            userRequest: {
+              type: 'string',
+              description: "Natural language description of the task to plan (e.g., 'Refactor authentication module to use dependency injection', 'Move all utility functions to a shared folder')"
+            },
+            currentDirectory: {
+              type: 'string',
+              description: 'Current working directory for context (optional)'
+            },
+            allowRisky: {
+              type: 'boolean',
+              description: 'Allow high-risk operations (default: false)'
+            },
+            autoRollback: {
+              type: 'boolean',
+              description: 'Automatically rollback on failure (default: true)'
+            },
+            autoExecute: {
+              type: 'boolean',
+              description: 'Automatically execute the plan after creation (only for create_plan operation). User will be prompted for confirmation if the plan is high-risk. (default: false)'
+            }
+          },
+          required: ['operation', 'userRequest']
+        },
+        handler: (args) => this.execute(args),
+      },
+    ];
+  }
 }
 
@@ -18,8 +18,28 @@ import { writeFile as writeFilePromise } from "fs/promises";
 import { ToolResult, EditorCommand } from "../types/index.js";
 import { ConfirmationService } from "../utils/confirmation-service.js";
 import { OperationTracker } from "../utils/operation-tracker.js";
+import { debugLog } from "../utils/debug.js";
+import { ToolDefinition, ToolProvider } from "./registry.js";
 
-export class TextEditorTool {
+interface ViewFileArgs {
+  path: string;
+  start_line?: number;
+  end_line?: number;
+}
+
+interface CreateFileArgs {
+  path: string;
+  content: string;
+}
+
+interface StrReplaceArgs {
+  path: string;
+  old_str: string;
+  new_str: string;
+  replace_all?: boolean;
+}
+
+export class TextEditorTool implements ToolProvider {
   private editHistory: EditorCommand[] = [];
   private confirmationService = ConfirmationService.getInstance();
   private operationTracker = OperationTracker.getInstance();
@@ -157,8 +177,7 @@ export class TextEditorTool {
 
       const occurrences = (content.match(new RegExp(oldStr.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')) || []).length;
 
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "str_replace_editor", target: filePath }, "file")) {
         const previewContent = replaceAll
           ? content.split(oldStr).join(newStr)
           : content.replace(oldStr, newStr);
@@ -169,6 +188,8 @@ export class TextEditorTool {
         const confirmationResult =
           await this.confirmationService.requestConfirmation(
             {
+              toolName: "str_replace_editor",
+              target: filePath,
               operation: `Edit file${replaceAll && occurrences > 1 ? ` (${occurrences} occurrences)` : ''}`,
               filename: filePath,
               showVSCodeOpen: false,
@@ -249,8 +270,7 @@ export class TextEditorTool {
       }
 
       // Check if user has already accepted file operations for this session
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "create_file", target: filePath }, "file")) {
         // Create a diff-style preview for file creation
         const contentLines = content.split("\n");
         const diffContent = [
@@ -264,6 +284,8 @@ export class TextEditorTool {
         const confirmationResult =
           await this.confirmationService.requestConfirmation(
             {
+              toolName: "create_file",
+              target: filePath,
               operation: "Write",
               filename: filePath,
               showVSCodeOpen: false,
@@ -347,8 +369,7 @@ export class TextEditorTool {
         };
       }
 
-      const sessionFlags = this.confirmationService.getSessionFlags();
-      if (!sessionFlags.fileOperations && !sessionFlags.allOperations) {
+      if (this.confirmationService.needsConfirmation({ toolName: "str_replace_editor", target: filePath }, "file")) {
         const newLines = [...lines];
         const replacementLines = newContent.split("\n");
         newLines.splice(startLine - 1, endLine - startLine + 1, ...replacementLines);
@@ -358,6 +379,8 @@ export class TextEditorTool {
         const confirmationResult =
           await this.confirmationService.requestConfirmation(
             {
+              toolName: "str_replace_editor",
+              target: filePath,
               operation: `Replace lines ${startLine}-${endLine}`,
               filename: filePath,
               showVSCodeOpen: false,
@@ -868,4 +891,239 @@ export class TextEditorTool {
   getEditHistory(): EditorCommand[] {
     return [...this.editHistory];
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: "view_file",
+        description: "View contents of a file or list directory contents",
+        summary: "View file contents or directory listings",
+        category: "read",
+        group: "core",
+        parameters: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: "Path to file or directory to view",
+            },
+            start_line: {
+              type: "number",
+              description:
+                "Starting line number for partial file view (optional)",
+            },
+            end_line: {
+              type: "number",
+              description: "Ending line number for partial file view (optional)",
+            },
+          },
+          required: ["path"],
+        },
+        handler: (args) => this.handleView(args),
+      },
+      {
+        name: "create_file",
+        description: "Create a new file with specified content",
+        summary: "Create new files with content (ONLY use this for files that don't exist yet)",
+        category: "write",
+        group: "core",
+        parameters: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: "Path where the file should be created",
+            },
+            content: {
+              type: "string",
+              description: "Content to write to the file",
+            },
+          },
+          required: ["path", "content"],
+        },
+        handler: (args) => this.handleCreate(args),
+      },
+      {
+        name: "str_replace_editor",
+        description: "Replace specific text in a file. Use this for single line edits only",
+        summary: "Replace text in existing files (ALWAYS use this to edit or update existing files)",
+        category: "write",
+        group: "core",
+        parameters: {
+          type: "object",
+          properties: {
+            path: {
+              type: "string",
+              description: "Path to the file to edit",
+            },
+            old_str: {
+              type: "string",
+              description:
+                "Text to replace (must match exactly, or will use fuzzy matching for multi-line strings)",
+            },
+            new_str: {
+              type: "string",
+              description: "Text to replace with",
+            },
+            replace_all: {
+              type: "boolean",
+              description:
+                "Replace all occurrences (default: false, only replaces first occurrence)",
+            },
+          },
+          required: ["path", "old_str", "new_str"],
+        },
+        handler: (args) => this.handleStrReplace(args),
+      },
+    ];
+  }
+
+  /**
+   * view_file handler: turns "not found" into a self-correction hint
+   */
+  private async handleView(args: ViewFileArgs): Promise<ToolResult> {
+    try {
+      const range: [number, number] | undefined =
+        args.start_line && args.end_line
+          ? [args.start_line, args.end_line]
+          : undefined;
+      const viewResult = await this.view(args.path, range);
+
+      // If file not found, provide helpful error
+      if (!viewResult.success && viewResult.error?.includes('not found')) {
+        return {
+          success: false,
+          error: `SELF_CORRECT_ATTEMPT: File not found: ${args.path}. ` +
+            `Please verify the file path is correct. Try one of these:\n` +
+            `1. Use 'search' to find the file in the project\n` +
+            `2. Check if the file was moved or renamed\n` +
+            `3. Verify you're in the correct directory\n` +
+            `4. Use 'bash' with 'find' or 'ls' to locate the file`,
+          metadata: {
+            originalTool: 'view_file',
+            originalError: viewResult.error,
+            suggestedApproach: 'search_for_file',
+            fallbackTools: ['search', 'bash']
+          }
+        };
+      }
+
+      return viewResult;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      debugLog(`view_file tool failed: ${message}`);
+
+      return {
+        success: false,
+        error: `SELF_CORRECT_ATTEMPT: Failed to view file: ${message}. ` +
+          `Please verify the file exists and is accessible.`,
+        metadata: {
+          originalTool: 'view_file',
+          originalError: message,
+          suggestedApproach: 'verify_file_exists',
+          fallbackTools: ['bash', 'search']
+        }
+      };
+    }
+  }
+
+  /**
+   * create_file handler: points the model at str_replace_editor for existing files
+   */
+  private async handleCreate(args: CreateFileArgs): Promise<ToolResult> {
+    try {
+      const result = await this.create(args.path, args.content);
+
+      // If file already exists, provide helpful error
+      if (!result.success && result.error?.includes('already exists')) {
+        return {
+          success: false,
+          error: `SELF_CORRECT_ATTEMPT: File already exists: ${args.path}. ` +
+            `Please try one of these approaches:\n` +
+            `1. Use 'view_file' to see the current content\n` +
+            `2. Use 'str_replace_editor' to modify the existing file\n` +
+            `3. Choose a different file name\n` +
+            `4. Delete the existing file first if you want to replace it`,
+          metadata: {
+            originalTool: 'create_file',
+            originalError: result.error,
+            suggestedApproach: 'view_then_edit',
+            fallbackTools: ['view_file', 'str_replace_editor']
+          }
+        };
+      }
+
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      debugLog(`create_file tool failed: ${message}`);
+
+      return {
+        success: false,
+        error: `SELF_CORRECT_ATTEMPT: Failed to create file: ${message}. ` +
+          `Please verify the directory exists and you have write permissions.`,
+        metadata: {
+          originalTool: 'create_file',
+          originalError: message,
+          suggestedApproach: 'verify_directory',
+          fallbackTools: ['bash']
+        }
+      };
+    }
+  }
+
+  /**
+   * str_replace_editor handler: triggers self-correction when the string is not found
+   */
+  private async handleStrReplace(args: StrReplaceArgs): Promise<ToolResult> {
+    try {
+      const result = await this.strReplace(
+        args.path,
+        args.old_str,
+        args.new_str,
+        args.replace_all
+      );
+
+      // Check if string not found - trigger self-correction
+      if (!result.success && result.error?.includes('String not found')) {
+        return {
+          success: false,
+          error: `SELF_CORRECT_ATTEMPT: The exact string was not found in the file. ` +
+            `This often happens due to whitespace differences or formatting. ` +
+            `Please try one of these approaches:\n` +
+            `1. Use 'view_file' to see the exact current content first\n` +
+            `2. Use 'multi_file_edit' with line-based operations instead\n` +
+            `3. Use 'code_analysis' to analyze the file structure first\n` +
+            `4. Break the edit into smaller, more specific single-line changes`,
+          metadata: {
+            originalTool: 'str_replace_editor',
+            originalError: result.error,
+            suggestedApproach: 'view_file_then_retry',
+            fallbackTools: ['view_file', 'multi_file_edit', 'code_analysis']
+          }
+        };
+      }
+
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      debugLog(`str_replace_editor tool failed: ${message}`);
+
+      // Return self-correction signal instead of bash fallback
+      return {
+        success: false,
+        error: `SELF_CORRECT_ATTEMPT: File operation failed: ${message}. ` +
+          `Please use 'view_file' to check the current state and try again with the exact content.`,
+        metadata: {
+          originalTool: 'str_replace_editor',
+          originalError: message,
+          suggestedApproach: 'view_file_then_retry',
+          fallbackTools: ['view_file', 'multi_file_edit']
+        }
+      };
+    }
+  }
 }
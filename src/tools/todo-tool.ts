@@ -1,4 +1,5 @@
 import { ToolResult } from '../types/index.js';
+import { ToolDefinition, ToolProvider } from './registry.js';
 
 export interface TodoItem {
   id: string;
@@ -7,7 +8,7 @@ export interface TodoItem {
   priority: 'high' | 'medium' | 'low';
 }
 
-export class TodoTool {
+export class TodoTool implements ToolProvider {
   private todos: TodoItem[] = [];
 
   async createTodoList(todos: TodoItem[]): Promise<ToolResult> {
@@ -101,6 +102,13 @@ export class TodoTool {
     }
   }
 
+  /**
+   * Todos that are not completed yet
+   */
+  getOpenTodos(): TodoItem[] {
+    return this.todos.filter(todo => todo.status !== 'completed');
+  }
+
   async viewTodoList(): Promise<ToolResult> {
     return {
       success: true,
@@ -110,4 +118,48 @@ export class TodoTool {
       data: this.todos
     };
   }
+
+  /**
+   * Tool definitions exposed to the model
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return [
+      {
+        name: 'create_todo_list',
+        description: 'Create a todo list for task planning',
+        summary: 'Create a visual todo list for planning and tracking tasks',
+        category: 'internal',
+        group: 'core',
+        parameters: {
+          type: 'object',
+          properties: {
+            todos: {
+              type: 'array',
+              description: 'Array of todo items with id, content, status, priority',
+            },
+          },
+          required: ['todos'],
+        },
+        handler: (args) => this.createTodoList(args.todos),
+      },
+      {
+        name: 'update_todo_list',
+        description: 'Update existing todos',
+        summary: 'Update existing todos in your todo list',
+        category: 'internal',
+        group: 'core',
+        parameters: {
+          type: 'object',
+          properties: {
+            updates: {
+              type: 'array',
+              description: 'Array of updates with id and new values',
+            },
+          },
+          required: ['updates'],
+        },
+        handler: (args) => this.updateTodoList(args.updates),
+      },
+    ];
+  }
 }
\ No newline at end of file
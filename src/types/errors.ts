@@ -103,3 +103,115 @@ export function extractSelfCorrectError(result: { success: boolean; error?: stri
   return null;
 }
 
+
+/**
+ * Classes of model API failures, used to decide whether a request is retried
+ */
+export type ApiErrorKind =
+  | 'auth' // Invalid key, missing permission or exhausted credits
+  | 'rate_limit'
+  | 'context_overflow' // Prompt longer than the model's context window
+  | 'network' // Connection failures, dropped streams and timeouts
+  | 'server' // 5xx and overloaded responses
+  | 'invalid_request'
+  | 'aborted' // Cancelled by the user
+  | 'unknown';
+
+/**
+ * Typed error for failed model API requests
+ */
+export class GrokAPIError extends Error {
+  public readonly kind: ApiErrorKind;
+  public readonly provider: string;
+  public readonly status?: number;
+  /** Retries made before giving up */
+  public readonly retries: number;
+
+  constructor(options: {
+    message: string;
+    kind: ApiErrorKind;
+    provider: string;
+    status?: number;
+    retries?: number;
+    cause?: unknown;
+  }) {
+    super(options.message, { cause: options.cause });
+    this.name = 'GrokAPIError';
+    this.kind = options.kind;
+    this.provider = options.provider;
+    this.status = options.status;
+    this.retries = options.retries || 0;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, GrokAPIError);
+    }
+  }
+}
+
+/**
+ * Helper to check if a request failed because the prompt exceeds the context window
+ */
+export function isContextOverflowError(error: unknown): error is GrokAPIError {
+  return error instanceof GrokAPIError && error.kind === 'context_overflow';
+}
+
+/**
+ * Raised (or used as the abort reason) when an autonomous run reaches one of
+ * its budget limits
+ */
+export class BudgetExceededError extends Error {
+  /** Name of the limit setting, e.g. `maxCost` */
+  public readonly limit: string;
+  public readonly max: number;
+  public readonly actual: number;
+
+  constructor(options: { message: string; limit: string; max: number; actual: number }) {
+    super(options.message);
+    this.name = 'BudgetExceededError';
+    this.limit = options.limit;
+    this.max = options.max;
+    this.actual = options.actual;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, BudgetExceededError);
+    }
+  }
+}
+
+/**
+ * JSON-RPC error returned to clients of `grok serve`
+ */
+export class JsonRpcError extends Error {
+  /** JSON-RPC 2.0 error code; -32000 to -32099 are server-defined */
+  public readonly code: number;
+  public readonly data?: unknown;
+
+  constructor(options: { message: string; code: number; data?: unknown }) {
+    super(options.message);
+    this.name = 'JsonRpcError';
+    this.code = options.code;
+    this.data = options.data;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, JsonRpcError);
+    }
+  }
+}
+
+/**
+ * A remote MCP server requires the user to sign in with OAuth before it can
+ * be used; raised instead of opening a browser from a background connection
+ */
+export class MCPAuthorizationRequiredError extends Error {
+  public readonly serverName: string;
+
+  constructor(options: { message: string; serverName: string }) {
+    super(options.message);
+    this.name = 'MCPAuthorizationRequiredError';
+    this.serverName = options.serverName;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, MCPAuthorizationRequiredError);
+    }
+  }
+}
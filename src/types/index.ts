@@ -3,6 +3,10 @@ export interface ToolResult {
   output?: string;
   error?: string;
   data?: any; // Structured data for UI rendering (e.g., TodoItem[], search results, etc.)
+  /**
+   * `filesChanged`: paths of the files a write tool created, modified or
+   * deleted, counted for the files-changed budget
+   */
   metadata?: Record<string, any>;
 }
 
@@ -18,6 +18,9 @@ interface ChatHistoryProps {
 const SHOW_FILE_CONTENT = process.env.SHOW_FILE_CONTENT === '1' || false;
 const SHOW_DIFFS = process.env.SHOW_DIFFS === '1' || false;
 
+// Number of trailing output lines shown while a tool (e.g. bash) is running
+const LIVE_OUTPUT_LINES = 5;
+
 // Helper to truncate content for better readability
 const truncateContent = (content: string, maxLines: number = 15): string => {
   const lines = content.split('\n');
@@ -139,6 +142,10 @@ const MemoizedChatEntry = React.memo(
               return "Create";
             case "bash":
               return "Bash";
+            case "bash_output":
+              return "BashOutput";
+            case "bash_kill":
+              return "KillBash";
             case "search":
               return "Search";
             case "create_todo_list":
@@ -147,6 +154,16 @@ const MemoizedChatEntry = React.memo(
               return "Updated Todo";
             case "view_todo_list":
               return "View Todo";
+            case "lsp_definition":
+              return "Definition";
+            case "lsp_references":
+              return "References";
+            case "lsp_hover":
+              return "Hover";
+            case "lsp_diagnostics":
+              return "Diagnostics";
+            case "lsp_rename":
+              return "Rename";
             default:
               return "Tool";
           }
@@ -162,7 +179,7 @@ const MemoizedChatEntry = React.memo(
               if (toolCall.function.name === "search") {
                 return args.query;
               }
-              return args.path || args.file_path || args.command || "";
+              return args.path || args.file_path || args.filePath || args.command || args.id || "";
             } catch {
               return "";
             }
@@ -232,7 +249,15 @@ const MemoizedChatEntry = React.memo(
               </Text>
             </Box>
             <Box marginLeft={2} flexDirection="column">
-              {isExecuting ? (
+              {isExecuting && entry.content !== "Executing..." ? (
+                // Live output streamed while the tool is still running
+                <Box flexDirection="column">
+                  <Text color="cyan">⎿ Running...</Text>
+                  <Box marginLeft={2} flexDirection="column">
+                    <Text color="gray">{entry.content.trimEnd().split("\n").slice(-LIVE_OUTPUT_LINES).join("\n")}</Text>
+                  </Box>
+                </Box>
+              ) : isExecuting ? (
                 <Text color="cyan">⎿ Executing...</Text>
               ) : isTodoTool ? (
                 <Box flexDirection="column">
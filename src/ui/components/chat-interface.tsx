@@ -3,12 +3,18 @@ import React, { useState, useEffect, useRef, useCallback } from "react";
 import { Box, Text, DOMElement } from "ink";
 import { GrokAgent, ChatEntry } from "../../agent/grok-agent.js";
 import { useInputHandler } from "../../hooks/use-input-handler.js";
-import { LoadingSpinner } from "./loading-spinner.js";
+import { LoadingSpinner, RetryStatus } from "./loading-spinner.js";
+import type { RetryEvent } from "../../grok/retry.js";
+import type { UsageTotals } from "../../utils/usage-tracker.js";
+import { formatCost } from "../../utils/model-pricing.js";
+import { formatTokenCount } from "../../utils/token-counter.js";
 import { CommandSuggestions } from "./command-suggestions.js";
 import { ModelSelection } from "./model-selection.js";
 import { ChatHistory } from "./chat-history.js";
 import { ChatInput } from "./chat-input.js";
 import { MCPStatus } from "./mcp-status.js";
+import { MCPPanel } from "./mcp-panel.js";
+import { getMCPManager } from "../../grok/tools.js";
 import ConfirmationDialog from "./confirmation-dialog.js";
 import {
   ConfirmationService,
@@ -71,6 +77,8 @@ function ChatInterfaceWithAgent({
   const [processingTime, setProcessingTime] = useState(0);
   const [tokenCount, setTokenCount] = useState(0);
   const [isStreaming, setIsStreaming] = useState(false);
+  const [retryStatus, setRetryStatus] = useState<RetryStatus | null>(null);
+  const [usage, setUsage] = useState<UsageTotals>(() => agent.getUsageTotals());
   const [confirmationOptions, setConfirmationOptions] =
     useState<ConfirmationOptions | null>(null);
   const scrollRef = useRef<DOMElement | null>(null);
@@ -85,7 +93,10 @@ function ChatInterfaceWithAgent({
     selectedCommandIndex,
     showModelSelection,
     selectedModelIndex,
+    showMCPPanel,
+    selectedMCPIndex,
     commandSuggestions,
+    suggestionQuery,
     availableModels,
     autoEditEnabled,
   } = useInputHandler({
@@ -102,9 +113,45 @@ function ChatInterfaceWithAgent({
     isConfirmationActive: !!confirmationOptions,
   });
 
-  // Initialize chat history on mount
+  // Initialize chat history on mount (non-empty when a session was resumed)
   useEffect(() => {
-    setChatHistory([]);
+    setChatHistory(agent.getChatHistory());
+  }, []);
+
+  // Show "retrying in Ns" while a failed model request waits for its retry
+  useEffect(() => {
+    const handleRetry = (event: RetryEvent) => {
+      setRetryStatus({ event, retryAt: Date.now() + event.delay });
+    };
+    agent.on("api_retry", handleRetry);
+    return () => {
+      agent.off("api_retry", handleRetry);
+    };
+  }, [agent]);
+
+  // Keep the session cost in the status bar current
+  useEffect(() => {
+    agent.on("usage", setUsage);
+    return () => {
+      agent.off("usage", setUsage);
+    };
+  }, [agent]);
+
+  // Tell the user when a resource they referenced changes on its MCP server
+  useEffect(() => {
+    const manager = getMCPManager();
+    const handleResourceUpdated = (serverName: string, uri: string) => {
+      const updateEntry: ChatEntry = {
+        type: "assistant",
+        content: `↻ MCP resource @${serverName}:${uri} was updated; reference it again to send the new version`,
+        timestamp: new Date(),
+      };
+      setChatHistory((prev) => [...prev, updateEntry]);
+    };
+    manager.on("resourceUpdated", handleResourceUpdated);
+    return () => {
+      manager.off("resourceUpdated", handleResourceUpdated);
+    };
   }, []);
 
   // Process initial message if provided (streaming for faster feedback)
@@ -179,6 +226,14 @@ function ChatInterfaceWithAgent({
                   break;
 
                 case "tool_result":
+                  if (chunk.toolCall && chunk.toolResult && chunk.isPartial) {
+                    // Live output of a running tool
+                    return prev.map((entry) =>
+                      entry.type === "tool_call" && entry.toolCall?.id === chunk.toolCall?.id
+                        ? { ...entry, content: chunk.toolResult?.output || entry.content }
+                        : entry
+                    );
+                  }
                   if (chunk.toolCall && chunk.toolResult) {
                     // Update matching tool_call entry with result
                     return prev.map((entry) => {
@@ -268,8 +323,8 @@ function ChatInterfaceWithAgent({
     return () => clearInterval(interval);
   }, [isProcessing, isStreaming]);
 
-  const handleConfirmation = useCallback((dontAskAgain?: boolean) => {
-    confirmationService.confirmOperation(true, dontAskAgain);
+  const handleConfirmation = useCallback((dontAskAgain?: boolean, alwaysAllow?: boolean) => {
+    confirmationService.confirmOperation(true, dontAskAgain, alwaysAllow);
     setConfirmationOptions(null);
   }, [confirmationService]);
 
@@ -311,6 +366,7 @@ function ChatInterfaceWithAgent({
           filename={confirmationOptions.filename}
           showVSCodeOpen={confirmationOptions.showVSCodeOpen}
           content={confirmationOptions.content}
+          suggestedRule={confirmationOptions.suggestedRule}
           onConfirm={handleConfirmation}
           onReject={handleRejection}
         />
@@ -322,6 +378,7 @@ function ChatInterfaceWithAgent({
             isActive={isProcessing || isStreaming}
             processingTime={processingTime}
             tokenCount={tokenCount}
+            retryStatus={retryStatus}
           />
 
           <ChatInput
@@ -345,16 +402,30 @@ function ChatInterfaceWithAgent({
             <Box marginRight={2}>
               <Text color="yellow">≋ {agent.getCurrentModel()}</Text>
             </Box>
+            {usage.requests > 0 && (
+              <Box marginRight={2}>
+                <Text color="green">
+                  {formatCost(usage.cost)}
+                  {usage.unpricedModels.length > 0 ? "+" : ""}
+                </Text>
+                <Text color="gray" dimColor>
+                  {" "}
+                  ({formatTokenCount(usage.promptTokens + usage.completionTokens)} tokens)
+                </Text>
+              </Box>
+            )}
             <MCPStatus />
           </Box>
 
           <CommandSuggestions
             suggestions={commandSuggestions}
-            input={input}
+            input={suggestionQuery}
             selectedIndex={selectedCommandIndex}
             isVisible={showCommandSuggestions}
           />
 
+          <MCPPanel selectedIndex={selectedMCPIndex} isVisible={showMCPPanel} />
+
           <ModelSelection
             models={availableModels}
             selectedIndex={selectedModelIndex}
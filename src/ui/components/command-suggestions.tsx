@@ -4,6 +4,7 @@ import { Box, Text } from "ink";
 interface CommandSuggestion {
   command: string;
   description: string;
+  argumentHint?: string;
 }
 
 interface CommandSuggestionsProps {
@@ -48,6 +49,11 @@ export function CommandSuggestions({
           >
             {suggestion.command}
           </Text>
+          {suggestion.argumentHint && (
+            <Box marginLeft={1}>
+              <Text color="gray" dimColor>{suggestion.argumentHint}</Text>
+            </Box>
+          )}
           <Box marginLeft={1}>
             <Text color="gray">{suggestion.description}</Text>
           </Box>
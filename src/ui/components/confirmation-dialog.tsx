@@ -5,12 +5,15 @@ import { DiffRenderer } from "./diff-renderer.js";
 interface ConfirmationDialogProps {
   operation: string;
   filename: string;
-  onConfirm: (dontAskAgain?: boolean) => void;
+  onConfirm: (dontAskAgain?: boolean, alwaysAllow?: boolean) => void;
   onReject: (feedback?: string) => void;
   showVSCodeOpen?: boolean;
   content?: string; // Optional content to show (file content or command)
+  suggestedRule?: string; // Permission rule offered as "always allow"
 }
 
+type ConfirmationChoice = "yes" | "session" | "always" | "no" | "feedback";
+
 export default function ConfirmationDialog({
   operation,
   filename,
@@ -18,16 +21,20 @@ export default function ConfirmationDialog({
   onReject,
   showVSCodeOpen = false,
   content,
+  suggestedRule,
 }: ConfirmationDialogProps) {
   const [selectedOption, setSelectedOption] = useState(0);
   const [feedbackMode, setFeedbackMode] = useState(false);
   const [feedback, setFeedback] = useState("");
 
-  const options = [
-    "Yes",
-    "Yes, and don't ask again this session",
-    "No",
-    "No, with feedback",
+  const options: { choice: ConfirmationChoice; label: string }[] = [
+    { choice: "yes", label: "Yes" },
+    { choice: "session", label: "Yes, and don't ask again this session" },
+    ...(suggestedRule
+      ? [{ choice: "always" as const, label: `Yes, and always allow ${suggestedRule} in this project` }]
+      : []),
+    { choice: "no", label: "No" },
+    { choice: "feedback", label: "No, with feedback" },
   ];
 
   useInput((input, key) => {
@@ -57,11 +64,14 @@ export default function ConfirmationDialog({
     }
 
     if (key.return) {
-      if (selectedOption === 0) {
+      const { choice } = options[selectedOption];
+      if (choice === "yes") {
         onConfirm(false);
-      } else if (selectedOption === 1) {
+      } else if (choice === "session") {
         onConfirm(true);
-      } else if (selectedOption === 2) {
+      } else if (choice === "always") {
+        onConfirm(false, true);
+      } else if (choice === "no") {
         onReject("Operation cancelled by user");
       } else {
         setFeedbackMode(true);
@@ -156,7 +166,7 @@ export default function ConfirmationDialog({
                 color={selectedOption === index ? "black" : "white"}
                 backgroundColor={selectedOption === index ? "cyan" : undefined}
               >
-                {index + 1}. {option}
+                {index + 1}. {option.label}
               </Text>
             </Box>
           ))}
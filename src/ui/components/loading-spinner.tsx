@@ -1,11 +1,19 @@
 import React, { useState, useEffect } from "react";
 import { Box, Text } from "ink";
 import { formatTokenCount } from "../../utils/token-counter.js";
+import { formatRetryEvent, RetryEvent } from "../../grok/retry.js";
+
+export interface RetryStatus {
+  event: RetryEvent;
+  /** Timestamp the retry is sent at */
+  retryAt: number;
+}
 
 interface LoadingSpinnerProps {
   isActive: boolean;
   processingTime: number;
   tokenCount: number;
+  retryStatus?: RetryStatus | null;
 }
 
 const spinnerFrames = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
@@ -43,6 +51,7 @@ export const LoadingSpinner = React.memo(function LoadingSpinner({
   isActive,
   processingTime,
   tokenCount,
+  retryStatus,
 }: LoadingSpinnerProps) {
   const [frame, setFrame] = useState(0);
   const [textIndex, setTextIndex] = useState(0);
@@ -68,6 +77,21 @@ export const LoadingSpinner = React.memo(function LoadingSpinner({
 
   if (!isActive) return null;
 
+  // Counts down while a failed request waits for its retry
+  const retryDelay = retryStatus ? retryStatus.retryAt - Date.now() : 0;
+  if (retryStatus && retryDelay > 0) {
+    return (
+      <Box marginTop={1}>
+        <Text color="yellow">
+          {spinnerFrames[frame]} {formatRetryEvent({ ...retryStatus.event, delay: retryDelay })}
+        </Text>
+        <Text color="gray">
+          {" "}({processingTime}s · esc to interrupt)
+        </Text>
+      </Box>
+    );
+  }
+
   return (
     <Box marginTop={1}>
       <Text color="blue">
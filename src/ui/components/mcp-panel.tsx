@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from "react";
+import { Box, Text } from "ink";
+import { getMCPManager } from "../../grok/tools.js";
+import type { MCPServerState, MCPServerStatus } from "../../mcp/client.js";
+
+interface MCPPanelProps {
+  selectedIndex: number;
+  isVisible: boolean;
+}
+
+const STATE_DISPLAY: Record<MCPServerState, { icon: string; color: string }> = {
+  connecting: { icon: "◌", color: "yellow" },
+  ready: { icon: "●", color: "green" },
+  degraded: { icon: "◐", color: "yellow" },
+  failed: { icon: "✗", color: "red" },
+  disabled: { icon: "○", color: "gray" },
+};
+
+const LISTED_TOOLS = 8;
+const STDERR_LINES = 5;
+
+function describeServer(status: MCPServerStatus, toolCount: number): string {
+  if (status.state === "failed" && status.nextRestartAt) {
+    const seconds = Math.max(0, Math.ceil((status.nextRestartAt.getTime() - Date.now()) / 1000));
+    return `restart in ${seconds}s`;
+  }
+  if (status.state === "ready" || status.state === "degraded") {
+    return `${toolCount} tool${toolCount === 1 ? "" : "s"}`;
+  }
+  return "";
+}
+
+export function MCPPanel({ selectedIndex, isVisible }: MCPPanelProps) {
+  const [statuses, setStatuses] = useState<MCPServerStatus[]>([]);
+
+  useEffect(() => {
+    if (!isVisible) {
+      return;
+    }
+    const manager = getMCPManager();
+    const update = () => setStatuses(manager.getServerStatuses());
+
+    update();
+    manager.on("statusChanged", update);
+    manager.on("serverRemoved", update);
+    // Keeps restart countdowns current
+    const interval = setInterval(update, 1000);
+
+    return () => {
+      manager.off("statusChanged", update);
+      manager.off("serverRemoved", update);
+      clearInterval(interval);
+    };
+  }, [isVisible]);
+
+  if (!isVisible) return null;
+
+  if (statuses.length === 0) {
+    return (
+      <Box marginTop={1} flexDirection="column">
+        <Text color="cyan">MCP Servers:</Text>
+        <Text color="gray">No MCP servers configured. Add one with `grok mcp add`.</Text>
+        <Text color="gray" dimColor>Esc close</Text>
+      </Box>
+    );
+  }
+
+  const tools = getMCPManager().getTools();
+  const selected = statuses[Math.min(selectedIndex, statuses.length - 1)];
+  const selectedTools = tools.filter((tool) => tool.serverName === selected.name);
+  const nameWidth = Math.max(...statuses.map((status) => status.name.length));
+
+  return (
+    <Box marginTop={1} flexDirection="column">
+      <Box marginBottom={1}>
+        <Text color="cyan">MCP Servers:</Text>
+      </Box>
+      {statuses.map((status, index) => {
+        const { icon, color } = STATE_DISPLAY[status.state];
+        const toolCount = tools.filter((tool) => tool.serverName === status.name).length;
+        return (
+          <Box key={status.name} paddingLeft={1}>
+            <Text color={color}>{icon} </Text>
+            <Text
+              color={index === selectedIndex ? "black" : "white"}
+              backgroundColor={index === selectedIndex ? "cyan" : undefined}
+            >
+              {status.name.padEnd(nameWidth)}
+            </Text>
+            <Text color={color}>{"  "}{status.state.padEnd(10)}</Text>
+            <Text color="gray" dimColor>
+              {"  "}{status.transport}{"  "}{describeServer(status, toolCount)}
+            </Text>
+          </Box>
+        );
+      })}
+
+      <Box marginTop={1} flexDirection="column" paddingLeft={1}>
+        <Text color="gray">
+          {selected.connectedAt ? `Connected ${selected.connectedAt.toLocaleTimeString()}` : "Not connected"}
+          {selected.lastPingAt ? ` · last ping ${selected.lastPingAt.toLocaleTimeString()}` : ""}
+          {selected.restarts > 0 ? ` · ${selected.restarts} automatic restart${selected.restarts === 1 ? "" : "s"}` : ""}
+        </Text>
+        {selectedTools.length > 0 && (
+          <Text color="gray">
+            Tools: {selectedTools.slice(0, LISTED_TOOLS).map((tool) => tool.name.replace(`mcp__${selected.name}__`, "")).join(", ")}
+            {selectedTools.length > LISTED_TOOLS ? ` (+${selectedTools.length - LISTED_TOOLS} more)` : ""}
+          </Text>
+        )}
+        {selected.lastError && <Text color="red">Last error: {selected.lastError}</Text>}
+        {selected.stderrTail.length > 0 && (
+          <Box flexDirection="column">
+            <Text color="gray">stderr:</Text>
+            {selected.stderrTail.slice(-STDERR_LINES).map((line, index) => (
+              <Text key={index} color="gray" dimColor>
+                {"  "}{line}
+              </Text>
+            ))}
+          </Box>
+        )}
+      </Box>
+
+      <Box marginTop={1}>
+        <Text color="gray" dimColor>
+          ↑↓ select • r restart • d disable • e enable • Esc close
+        </Text>
+      </Box>
+    </Box>
+  );
+}
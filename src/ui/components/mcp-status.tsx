@@ -1,44 +1,41 @@
 import React, { useState, useEffect } from "react";
 import { Box, Text } from "ink";
 import { getMCPManager } from "../../grok/tools.js";
+import type { MCPServerStatus } from "../../mcp/client.js";
 
 interface MCPStatusProps { }
 
 export function MCPStatus({ }: MCPStatusProps) {
-  const [connectedServers, setConnectedServers] = useState<string[]>([]);
+  const [statuses, setStatuses] = useState<MCPServerStatus[]>([]);
 
   useEffect(() => {
-    const updateStatus = () => {
-      try {
-        const manager = getMCPManager();
-        const servers = manager.getServers();
-
-        setConnectedServers(servers);
-      } catch {
-        // MCP manager not initialized yet
-        setConnectedServers([]);
-      }
-    };
-
-    // Initial update with a small delay to allow MCP initialization
-    const initialTimer = setTimeout(updateStatus, 2000);
+    const manager = getMCPManager();
+    const updateStatus = () => setStatuses(manager.getServerStatuses());
 
-    // Set up polling to check for status changes
-    const interval = setInterval(updateStatus, 2000);
+    updateStatus();
+    manager.on("statusChanged", updateStatus);
+    manager.on("serverRemoved", updateStatus);
 
     return () => {
-      clearTimeout(initialTimer);
-      clearInterval(interval);
+      manager.off("statusChanged", updateStatus);
+      manager.off("serverRemoved", updateStatus);
     };
   }, []);
 
-  if (connectedServers.length === 0) {
+  const active = statuses.filter((status) => status.state !== "disabled");
+  if (active.length === 0) {
     return null;
   }
 
+  const ready = active.filter((status) => status.state === "ready").length;
+  const failed = active.filter((status) => status.state === "failed").length;
+  const color = failed > 0 ? "red" : ready === active.length ? "green" : "yellow";
+
   return (
     <Box marginLeft={1}>
-      <Text color="green">⚒ mcps: {connectedServers.length} </Text>
+      <Text color={color}>
+        ⚒ mcps: {ready}/{active.length}{failed > 0 ? ` (${failed} failed, /mcp)` : ""}{" "}
+      </Text>
     </Box>
   );
 }
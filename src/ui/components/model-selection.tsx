@@ -1,9 +1,6 @@
 import React from "react";
 import { Box, Text } from "ink";
-
-interface ModelOption {
-  model: string;
-}
+import { ModelOption, formatCapabilities } from "../../utils/model-config.js";
 
 interface ModelSelectionProps {
   models: ModelOption[];
@@ -23,7 +20,7 @@ export function ModelSelection({
   return (
     <Box marginTop={1} flexDirection="column">
       <Box marginBottom={1}>
-        <Text color="cyan">Select Grok Model (current: {currentModel}):</Text>
+        <Text color="cyan">Select Model (current: {currentModel}):</Text>
       </Box>
       {models.map((modelOption, index) => (
         <Box key={index} paddingLeft={1}>
@@ -33,6 +30,11 @@ export function ModelSelection({
           >
             {modelOption.model}
           </Text>
+          {modelOption.capabilities && (
+            <Text color="gray" dimColor>
+              {"  "}{modelOption.provider} · {formatCapabilities(modelOption.capabilities)}
+            </Text>
+          )}
         </Box>
       ))}
       <Box marginTop={1}>
@@ -0,0 +1,157 @@
+/**
+ * Tests for custom slash commands: frontmatter parsing, argument expansion,
+ * and how project, user and built-in commands are resolved
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  SlashCommandRegistry,
+  expandCommandPrompt,
+  getProjectCommandsDirectory,
+  getUserCommandsDirectory,
+  parseFrontmatter,
+} from '../slash-commands.js';
+
+describe('parseFrontmatter', () => {
+  it('should read fields, lists and the body', () => {
+    const { fields, body } = parseFrontmatter([
+      '---',
+      'description: "Review the staged changes"',
+      'argument-hint: [focus area]',
+      'allowed-tools:',
+      '  - bash',
+      "  - 'view_file'",
+      '---',
+      'Review $ARGUMENTS.',
+    ].join('\n'));
+
+    expect(fields).toEqual({
+      description: 'Review the staged changes',
+      'argument-hint': '[focus area]',
+      'allowed-tools': ['bash', 'view_file'],
+    });
+    expect(body).toBe('Review $ARGUMENTS.');
+  });
+
+  it('should treat text without frontmatter as the body', () => {
+    expect(parseFrontmatter('Just a prompt\n---\n')).toEqual({ fields: {}, body: 'Just a prompt\n---\n' });
+  });
+});
+
+describe('expandCommandPrompt', () => {
+  it('should replace every $ARGUMENTS placeholder', () => {
+    expect(expandCommandPrompt('Fix $ARGUMENTS, then test $ARGUMENTS', 'parser')).toBe('Fix parser, then test parser');
+  });
+
+  it('should append arguments when the template has no placeholder', () => {
+    expect(expandCommandPrompt('Summarize the repo', 'briefly')).toBe('Summarize the repo\n\nArguments: briefly');
+    expect(expandCommandPrompt('Summarize the repo', '')).toBe('Summarize the repo');
+  });
+});
+
+describe('SlashCommandRegistry', () => {
+  const originalHome = process.env.HOME;
+  let tempDir: string;
+  let projectDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-commands-'));
+    process.env.HOME = path.join(tempDir, 'home');
+  });
+
+  afterAll(() => {
+    process.env.HOME = originalHome;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(tempDir, 'project-'));
+    fs.rmSync(getUserCommandsDirectory(), { recursive: true, force: true });
+  });
+
+  function writeCommand(directory: string, name: string, content: string) {
+    const filePath = path.join(directory, `${name}.md`);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  it('should load command files with their frontmatter and namespace subdirectories', () => {
+    writeCommand(getProjectCommandsDirectory(projectDir), 'git/review', [
+      '---',
+      'description: Review the staged changes',
+      'allowed-tools: [bash, view_file]',
+      'model: grok-4-latest',
+      '---',
+      'Review `git diff --cached` with a focus on $ARGUMENTS.',
+    ].join('\n'));
+
+    const invocation = new SlashCommandRegistry(projectDir).resolve('/git:review  error handling ');
+
+    expect(invocation?.args).toBe('error handling');
+    expect(invocation?.command).toMatchObject({
+      name: 'git:review',
+      description: 'Review the staged changes',
+      source: 'project',
+      allowedTools: ['bash', 'view_file'],
+      model: 'grok-4-latest',
+      prompt: 'Review `git diff --cached` with a focus on $ARGUMENTS.',
+    });
+  });
+
+  it('should describe a command without a description by its first prompt line', () => {
+    writeCommand(getUserCommandsDirectory(), 'standup', 'Summarize what changed since yesterday\nUse bullet points.');
+
+    expect(new SlashCommandRegistry(projectDir).resolve('/standup')?.command).toMatchObject({
+      description: 'Summarize what changed since yesterday',
+      source: 'user',
+    });
+  });
+
+  it('should prefer project commands over user commands and both over built-ins', () => {
+    writeCommand(getUserCommandsDirectory(), 'deploy', 'User deploy');
+    writeCommand(getUserCommandsDirectory(), 'help', 'Custom help');
+    writeCommand(getProjectCommandsDirectory(projectDir), 'deploy', 'Project deploy');
+
+    const registry = new SlashCommandRegistry(projectDir);
+
+    expect(registry.resolve('/deploy')?.command.prompt).toBe('Project deploy');
+    expect(registry.resolve('/help')?.command.source).toBe('user');
+    expect(registry.resolve('/clear')?.command.source).toBe('builtin');
+  });
+
+  it('should not resolve unknown commands or text that is not a command', () => {
+    const registry = new SlashCommandRegistry(projectDir);
+
+    expect(registry.resolve('/no-such-command')).toBeNull();
+    expect(registry.resolve('help me')).toBeNull();
+    expect(registry.resolve('/')).toBeNull();
+  });
+
+  it('should leave disabled commands out of the list but still resolve them', () => {
+    const settingsPath = path.join(os.homedir(), '.grok', 'user-settings.json');
+    fs.mkdirSync(path.dirname(settingsPath), { recursive: true });
+    fs.writeFileSync(settingsPath, JSON.stringify({ disabledCommands: ['/docs'] }));
+    try {
+      const registry = new SlashCommandRegistry(projectDir);
+
+      expect(registry.list().map((command) => command.name)).not.toContain('docs');
+      expect(registry.isDisabled('docs')).toBe(true);
+      expect(registry.resolve('/docs')?.command.source).toBe('builtin');
+    } finally {
+      fs.rmSync(settingsPath, { force: true });
+    }
+  });
+
+  it('should pick up new command files on reload', () => {
+    const registry = new SlashCommandRegistry(projectDir);
+    expect(registry.resolve('/release')).toBeNull();
+
+    writeCommand(getProjectCommandsDirectory(projectDir), 'release', 'Prepare the release notes');
+    registry.reload();
+
+    expect(registry.resolve('/release')?.command.prompt).toBe('Prepare the release notes');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for token usage and cost: pricing lookup, session totals per turn,
+ * round, model and tool, and the monthly ledger
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_PRICING, calculateCost, findModelPricing, toTokenBreakdown } from '../model-pricing.js';
+import { UsageTracker, monthKey, readLedgerEntries, summarizeMonth } from '../usage-tracker.js';
+
+describe('model pricing', () => {
+  it('should count reasoning reported outside completion tokens as output', () => {
+    expect(toTokenBreakdown({
+      prompt_tokens: 100,
+      completion_tokens: 20,
+      total_tokens: 150,
+      completion_tokens_details: { reasoning_tokens: 30 },
+    })).toEqual({ promptTokens: 100, completionTokens: 50, cachedTokens: 0, reasoningTokens: 30 });
+
+    expect(toTokenBreakdown({
+      prompt_tokens: 100,
+      completion_tokens: 50,
+      total_tokens: 150,
+      prompt_tokens_details: { cached_tokens: 40 },
+      completion_tokens_details: { reasoning_tokens: 30 },
+    })).toEqual({ promptTokens: 100, completionTokens: 50, cachedTokens: 40, reasoningTokens: 30 });
+  });
+
+  it('should match prices by full name, then by the longest prefix of the last segment', () => {
+    const pricing = { ...DEFAULT_PRICING, 'openai/gpt-4o': { input: 1, output: 1 } };
+
+    expect(findModelPricing('openai/gpt-4o', pricing)).toEqual({ input: 1, output: 1 });
+    expect(findModelPricing('openrouter/openai/gpt-4o-mini-2024', pricing)).toBe(DEFAULT_PRICING['gpt-4o-mini']);
+    expect(findModelPricing('grok-3-mini-fast-beta', pricing)).toBe(DEFAULT_PRICING['grok-3-mini-fast']);
+    expect(findModelPricing('ollama/llama3', pricing)).toEqual({ input: 0, output: 0 });
+    expect(findModelPricing('mystery-model', pricing)).toBeUndefined();
+  });
+
+  it('should charge cached prompt tokens at the cached price', () => {
+    const tokens = { promptTokens: 10000, completionTokens: 1000, cachedTokens: 2000, reasoningTokens: 0 };
+
+    expect(calculateCost(tokens, { input: 0.2, output: 1.5, cachedInput: 0.02 })).toBeCloseTo(0.00314, 8);
+    expect(calculateCost(tokens, { input: 0.2, output: 1.5 })).toBeCloseTo(0.0035, 8);
+  });
+});
+
+describe('UsageTracker', () => {
+  const originalCwd = process.cwd();
+  const originalHome = process.env.HOME;
+  let tempDir: string;
+  let ledgerDirectory: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-usage-'));
+    process.env.HOME = path.join(tempDir, 'home');
+    process.chdir(tempDir);
+  });
+
+  afterAll(() => {
+    process.chdir(originalCwd);
+    process.env.HOME = originalHome;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    ledgerDirectory = fs.mkdtempSync(path.join(tempDir, 'ledger-'));
+  });
+
+  function usage(prompt: number, completion: number) {
+    return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+  }
+
+  it('should total usage per turn, round, model and tool', () => {
+    const tracker = new UsageTracker({ project: '/work/app', ledgerDirectory: null });
+
+    tracker.startTurn('Fix the tests');
+    tracker.startRound();
+    const first = tracker.record('grok-code-fast-1', usage(1_000_000, 0));
+    tracker.attributeTools(first, ['view_file', 'bash']);
+    tracker.startRound();
+    tracker.record('grok-code-fast-1', usage(0, 1_000_000));
+    const checkpoint = tracker.checkpoint();
+
+    tracker.startTurn('Explain them');
+    tracker.startRound();
+    tracker.record('mystery-model', usage(500, 100));
+
+    const report = tracker.getReport();
+
+    expect(report.session).toMatchObject({ requests: 3, promptTokens: 1_000_500, completionTokens: 1_000_100, unpricedModels: ['mystery-model'] });
+    expect(report.session.cost).toBeCloseTo(1.7, 8);
+    expect(report.byModel['grok-code-fast-1'].cost).toBeCloseTo(1.7, 8);
+    expect(report.byModel['mystery-model'].cost).toBe(0);
+    expect(report.byTool.view_file).toMatchObject({ calls: 1, requests: 0.5, promptTokens: 500_000 });
+    expect(report.byTool.view_file.cost).toBeCloseTo(0.1, 8);
+    expect(report.turns.map((turn) => turn.rounds.length)).toEqual([2, 1]);
+    expect(report.turns[0].rounds[0].tools).toEqual(['view_file', 'bash']);
+    expect(report.turns[0].totals.cost).toBeCloseTo(1.7, 8);
+    expect(tracker.getTotals(checkpoint)).toMatchObject({ requests: 1, cost: 0 });
+  });
+
+  it('should append responses to the monthly ledger and restore a session from it', () => {
+    const tracker = new UsageTracker({ project: '/work/app', ledgerDirectory });
+    tracker.startTurn('First');
+    tracker.record('grok-code-fast-1', usage(1000, 100), { sessionId: 'session-1', phase: 'planning' });
+    tracker.record('grok-4', usage(2000, 200), { sessionId: 'session-1', phase: 'toolRounds' });
+    new UsageTracker({ project: '/work/other', ledgerDirectory })
+      .record('grok-4', usage(3000, 300), { sessionId: 'session-2' });
+
+    expect(readLedgerEntries(ledgerDirectory).map((entry) => entry.phase)).toEqual(['planning', 'toolRounds', undefined]);
+
+    const resumed = new UsageTracker({ project: '/work/app', ledgerDirectory });
+    resumed.restoreSession('session-1');
+    expect(resumed.getTotals()).toMatchObject({ requests: 2, promptTokens: 3000, completionTokens: 300 });
+
+    const month = summarizeMonth(monthKey(), ledgerDirectory);
+    expect(month.total.requests).toBe(3);
+    expect(Object.keys(month.byProject).sort()).toEqual(['/work/app', '/work/other']);
+    expect(Object.keys(month.byProject['/work/app'].byModel).sort()).toEqual(['grok-4', 'grok-code-fast-1']);
+    expect(month.byProject['/work/other'].totals.cost).toBeCloseTo(calculateCost(toTokenBreakdown(usage(3000, 300)), DEFAULT_PRICING['grok-4']), 10);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Commit Message Generation
+ *
+ * The prompt `/commit-and-push` sends for the staged changes. Requests are
+ * made in the `commitMessage` phase, so `modelRouting` can send them to a
+ * cheaper model.
+ */
+
+import type { GrokAgent } from "../agent/grok-agent.js";
+
+export function buildCommitPrompt(status: string, diff: string | undefined): string {
+  return `Generate a concise, professional git commit message for these changes:
+
+Git Status:
+${status}
+
+Git Diff (staged changes):
+${diff || "No staged changes shown"}
+
+Follow conventional commit format (feat:, fix:, docs:, etc.) and keep it under 72 characters.
+Respond with ONLY the commit message, no additional text.`;
+}
+
+/**
+ * Ask the model for a commit message, without surrounding quotes; empty
+ * when the model returned none
+ */
+export async function generateCommitMessage(agent: GrokAgent, status: string, diff: string | undefined): Promise<string> {
+  const entries = await agent.processUserMessage(buildCommitPrompt(status, diff), { phase: "commitMessage" });
+  const message = entries.find((entry) => entry.type === "assistant" && entry.content.trim())?.content.trim() || "";
+  return message.replace(/^["']|["']$/g, "");
+}
@@ -1,6 +1,15 @@
 import { exec } from "child_process";
 import { promisify } from "util";
 import { EventEmitter } from "events";
+import { getSettingsManager } from "./settings-manager.js";
+import {
+  evaluatePermissionRules,
+  suggestPermissionRule,
+  PermissionEvaluation,
+  PermissionRequest,
+  PermissionRules,
+} from "./permission-rules.js";
+import { debugLog } from "./debug.js";
 
 const execAsync = promisify(exec);
 
@@ -9,11 +18,15 @@ export interface ConfirmationOptions {
   filename: string;
   showVSCodeOpen?: boolean;
   content?: string; // Content to show in confirmation dialog
+  toolName?: string; // Tool requesting confirmation, used by permission rules
+  target?: string | string[]; // Command or path(s) matched by permission rules
+  suggestedRule?: string; // Rule offered as "always allow" in the dialog
 }
 
 export interface ConfirmationResult {
   confirmed: boolean;
   dontAskAgain?: boolean;
+  alwaysAllow?: boolean; // Persist suggestedRule as an allow rule
   feedback?: string;
 }
 
@@ -24,6 +37,8 @@ export class ConfirmationService extends EventEmitter {
   private resolveConfirmation: ((result: ConfirmationResult) => void) | null =
     null;
 
+  private permissionRules: { user: PermissionRules; project: PermissionRules } | null = null;
+
   // Session flags for different operation types
   private sessionFlags = {
     fileOperations: false,
@@ -46,15 +61,41 @@ export class ConfirmationService extends EventEmitter {
     options: ConfirmationOptions,
     operationType: "file" | "bash" = "file"
   ): Promise<ConfirmationResult> {
-    // Check session flags
-    if (
-      this.sessionFlags.allOperations ||
-      (operationType === "file" && this.sessionFlags.fileOperations) ||
-      (operationType === "bash" && this.sessionFlags.bashCommands)
-    ) {
+    // Permission rules are checked before session flags so deny rules also
+    // apply when everything else is auto-approved (e.g. headless mode)
+    const permission = this.evaluatePermission(options);
+    if (permission.decision === "deny") {
+      return {
+        confirmed: false,
+        feedback: `Blocked by ${permission.source} permission rule "${permission.rule}"`,
+      };
+    }
+    if (permission.decision === "allow") {
       return { confirmed: true };
     }
 
+    // Check session flags ("ask" rules always prompt)
+    if (permission.decision !== "ask" && this.isApprovedForSession(operationType)) {
+      return { confirmed: true };
+    }
+
+    // Headless runs have nobody to ask; waiting would hang the run
+    if (this.listenerCount("confirmation-requested") === 0) {
+      return {
+        confirmed: false,
+        feedback: permission.decision === "ask"
+          ? `Blocked: ${permission.source} permission rule "${permission.rule}" requires confirmation, and nothing can confirm operations in this mode`
+          : "Blocked: this operation requires confirmation, and nothing can confirm operations in this mode",
+      };
+    }
+
+    if (options.toolName && !options.suggestedRule) {
+      options.suggestedRule = suggestPermissionRule({
+        toolName: options.toolName,
+        target: options.target ?? options.filename,
+      });
+    }
+
     // If VS Code should be opened, try to open it
     if (options.showVSCodeOpen) {
       try {
@@ -77,6 +118,10 @@ export class ConfirmationService extends EventEmitter {
 
     const result = await this.pendingConfirmation;
 
+    if (result.confirmed && result.alwaysAllow && options.suggestedRule) {
+      this.addAllowRule(options.suggestedRule);
+    }
+
     if (result.dontAskAgain) {
       // Set the appropriate session flag based on operation type
       if (operationType === "file") {
@@ -90,9 +135,28 @@ export class ConfirmationService extends EventEmitter {
     return result;
   }
 
-  confirmOperation(confirmed: boolean, dontAskAgain?: boolean): void {
+  /**
+   * Whether a tool should build its preview and call requestConfirmation.
+   * False only when a permission rule or session flag already approves it;
+   * denied operations return true so requestConfirmation can reject them.
+   */
+  needsConfirmation(
+    request: PermissionRequest,
+    operationType: "file" | "bash" = "file"
+  ): boolean {
+    const { decision } = this.evaluatePermission(request);
+    if (decision === "allow") {
+      return false;
+    }
+    if (decision === "deny" || decision === "ask") {
+      return true;
+    }
+    return !this.isApprovedForSession(operationType);
+  }
+
+  confirmOperation(confirmed: boolean, dontAskAgain?: boolean, alwaysAllow?: boolean): void {
     if (this.resolveConfirmation) {
-      this.resolveConfirmation({ confirmed, dontAskAgain });
+      this.resolveConfirmation({ confirmed, dontAskAgain, alwaysAllow });
       this.resolveConfirmation = null;
       this.pendingConfirmation = null;
     }
@@ -106,6 +170,67 @@ export class ConfirmationService extends EventEmitter {
     }
   }
 
+  /**
+   * Read the permission rules from the settings files. Done when an agent
+   * starts rather than per check: `.grok/settings.json` is inside the
+   * writable project root, so tool calls must not be able to change the
+   * rules they are checked against.
+   */
+  loadPermissionRules(): void {
+    try {
+      this.permissionRules = getSettingsManager().getPermissionRules();
+    } catch (error) {
+      debugLog("Failed to load permission rules:", error);
+      this.permissionRules = { user: {}, project: {} };
+    }
+  }
+
+  /**
+   * Persist an "always allow" rule and apply it to the loaded rules
+   */
+  private addAllowRule(rule: string): void {
+    try {
+      getSettingsManager().addProjectPermissionRule("allow", rule);
+    } catch (error) {
+      debugLog("Failed to persist permission rule:", error);
+    }
+    if (!this.permissionRules) {
+      this.loadPermissionRules();
+    }
+    const project = this.permissionRules!.project;
+    if (!project.allow?.includes(rule)) {
+      project.allow = [...(project.allow || []), rule];
+    }
+  }
+
+  private evaluatePermission(
+    request: Partial<PermissionRequest> & { filename?: string }
+  ): PermissionEvaluation {
+    if (!request.toolName) {
+      return { decision: null };
+    }
+    if (!this.permissionRules) {
+      this.loadPermissionRules();
+    }
+    try {
+      return evaluatePermissionRules(this.permissionRules!, {
+        toolName: request.toolName,
+        target: request.target ?? request.filename,
+      });
+    } catch (error) {
+      debugLog("Failed to evaluate permission rules:", error);
+      return { decision: null };
+    }
+  }
+
+  private isApprovedForSession(operationType: "file" | "bash"): boolean {
+    return (
+      this.sessionFlags.allOperations ||
+      (operationType === "file" && this.sessionFlags.fileOperations) ||
+      (operationType === "bash" && this.sessionFlags.bashCommands)
+    );
+  }
+
   private async openInVSCode(filename: string): Promise<void> {
     // Try different VS Code commands
     const commands = ["code", "code-insiders", "codium"];
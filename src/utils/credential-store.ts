@@ -0,0 +1,116 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import type { OAuthClientInformationFull, OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { debugLog } from "./debug.js";
+
+/**
+ * OAuth state of one remote MCP server, keyed by the server URL
+ */
+export interface StoredOAuthCredentials {
+  /** Client registered dynamically with the authorization server */
+  clientInformation?: OAuthClientInformationFull;
+  tokens?: OAuthTokens;
+  /** When the access token expires (ms since epoch), if the server said */
+  expiresAt?: number;
+}
+
+interface CredentialFile {
+  /** Values referenced as `${secret:name}` in MCP server configurations */
+  secrets: Record<string, string>;
+  mcpOAuth: Record<string, StoredOAuthCredentials>;
+}
+
+/**
+ * User-level store for secrets and OAuth tokens in ~/.grok/credentials.json,
+ * readable only by the user. Project settings refer to its secrets instead
+ * of containing them, so they can be committed safely.
+ */
+export class CredentialStore {
+  private static instance: CredentialStore;
+
+  private constructor(private filePath: string = path.join(os.homedir(), ".grok", "credentials.json")) { }
+
+  public static getInstance(): CredentialStore {
+    if (!CredentialStore.instance) {
+      CredentialStore.instance = new CredentialStore();
+    }
+    return CredentialStore.instance;
+  }
+
+  private load(): CredentialFile {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const parsed = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+        return { secrets: parsed.secrets || {}, mcpOAuth: parsed.mcpOAuth || {} };
+      }
+    } catch (error) {
+      debugLog("Failed to load credentials:", error instanceof Error ? error.message : String(error));
+    }
+    return { secrets: {}, mcpOAuth: {} };
+  }
+
+  private save(credentials: CredentialFile): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+    }
+    fs.writeFileSync(this.filePath, JSON.stringify(credentials, null, 2), { mode: 0o600 });
+    // writeFileSync only applies the mode to new files
+    fs.chmodSync(this.filePath, 0o600);
+  }
+
+  getSecret(name: string): string | undefined {
+    return this.load().secrets[name];
+  }
+
+  setSecret(name: string, value: string): void {
+    const credentials = this.load();
+    credentials.secrets[name] = value;
+    this.save(credentials);
+  }
+
+  /**
+   * Returns whether the secret existed
+   */
+  deleteSecret(name: string): boolean {
+    const credentials = this.load();
+    if (!(name in credentials.secrets)) {
+      return false;
+    }
+    delete credentials.secrets[name];
+    this.save(credentials);
+    return true;
+  }
+
+  listSecretNames(): string[] {
+    return Object.keys(this.load().secrets).sort();
+  }
+
+  getOAuthCredentials(serverUrl: string): StoredOAuthCredentials {
+    return this.load().mcpOAuth[serverUrl] || {};
+  }
+
+  updateOAuthCredentials(serverUrl: string, update: Partial<StoredOAuthCredentials>): void {
+    const credentials = this.load();
+    credentials.mcpOAuth[serverUrl] = { ...credentials.mcpOAuth[serverUrl], ...update };
+    this.save(credentials);
+  }
+
+  /**
+   * Returns whether anything was stored for the server
+   */
+  deleteOAuthCredentials(serverUrl: string): boolean {
+    const credentials = this.load();
+    if (!(serverUrl in credentials.mcpOAuth)) {
+      return false;
+    }
+    delete credentials.mcpOAuth[serverUrl];
+    this.save(credentials);
+    return true;
+  }
+}
+
+export function getCredentialStore(): CredentialStore {
+  return CredentialStore.getInstance();
+}
@@ -0,0 +1,93 @@
+/**
+ * Headless Input
+ *
+ * Prompts for headless mode from stdin: piped text used as (or appended to)
+ * the prompt, or a sequence of user turns as newline-delimited JSON
+ * (`--input-format stream-json`).
+ */
+
+import * as fs from 'fs';
+import * as readline from 'readline';
+
+export type InputFormat = 'text' | 'stream-json';
+
+export const INPUT_FORMATS: InputFormat[] = ['text', 'stream-json'];
+
+/**
+ * One line of `stream-json` input
+ */
+export interface InputTurn {
+  type: 'user';
+  content: string;
+}
+
+export function isInputFormat(value: string): value is InputFormat {
+  return (INPUT_FORMATS as string[]).includes(value);
+}
+
+/**
+ * True when stdin is a pipe or a redirected file. Terminals, /dev/null and
+ * sockets left open by some CI runners are not read, so they can't block.
+ */
+export function hasPipedStdin(): boolean {
+  if (process.stdin.isTTY) {
+    return false;
+  }
+  try {
+    const stat = fs.fstatSync(0);
+    return stat.isFIFO() || stat.isFile();
+  } catch {
+    return false;
+  }
+}
+
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * The prompt for piped input: the input itself, or the prompt followed by
+ * the input as context (`git diff | grok -p "review this"`)
+ */
+export function combinePromptWithInput(prompt: string | undefined, input: string): string {
+  const trimmedInput = input.replace(/\s+$/, '');
+  if (!prompt?.trim()) {
+    return trimmedInput;
+  }
+  if (!trimmedInput) {
+    return prompt;
+  }
+  return `${prompt}\n\n<stdin>\n${trimmedInput}\n</stdin>`;
+}
+
+/**
+ * User turns read line by line from a stream. Each line is
+ * `{"type":"user","content":"..."}`; blank lines are skipped and other lines
+ * end the run with an error.
+ */
+export async function* readInputTurns(input: NodeJS.ReadableStream = process.stdin): AsyncGenerator<string> {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) {
+      continue;
+    }
+
+    let turn: Partial<InputTurn>;
+    try {
+      turn = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on input line ${lineNumber}`);
+    }
+    if (turn?.type !== 'user' || typeof turn.content !== 'string') {
+      throw new Error(`Input line ${lineNumber} must be {"type":"user","content":"..."}`);
+    }
+    yield turn.content;
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * Headless Output
+ *
+ * Output formats for headless mode (`--output-format`): the assistant's text,
+ * one JSON result object at the end, or newline-delimited JSON events as the
+ * agent works (stream-json), for scripts and dashboards.
+ */
+
+import type { GrokAgent, StreamingChunk } from '../agent/grok-agent.js';
+import type { GrokToolCall } from '../grok/client.js';
+import type { RetryEvent } from '../grok/retry.js';
+import type { RunBudget, RunSummary } from '../agent/run-budget.js';
+import type { PlanExecutionProgress } from '../planning/types.js';
+import type { UsageTotals } from './usage-tracker.js';
+
+export type OutputFormat = 'text' | 'json' | 'stream-json';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'stream-json'];
+
+/**
+ * Final record of a headless run
+ */
+export interface HeadlessResult extends RunSummary {
+  type: 'result';
+  isError: boolean;
+  /** Assistant text after the last tool call, i.e. the answer */
+  result: string;
+  sessionId: string | null;
+  model: string;
+}
+
+/**
+ * One line of `stream-json` output
+ */
+export type HeadlessEvent =
+  | { type: 'init'; model: string; cwd: string; budget: RunBudget }
+  | { type: 'assistant_delta'; text: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: unknown }
+  | { type: 'tool_output'; id: string; name: string; text: string }
+  | { type: 'tool_result'; id: string; name: string; success: boolean; output?: string; error?: string }
+  | { type: 'token_count'; tokens: number }
+  | { type: 'usage'; usage: UsageTotals }
+  | { type: 'retry'; retry: RetryEvent }
+  | { type: 'plan_phase'; phase: string; message: string }
+  | { type: 'plan_progress'; progress: PlanExecutionProgress }
+  | HeadlessResult;
+
+/**
+ * Process exit codes for headless runs
+ */
+export const EXIT_CODES = {
+  success: 0,
+  /** Unexpected errors, invalid input, loops and cancellation */
+  error: 1,
+  /** The run completed but its last tool call failed */
+  toolFailure: 2,
+  /** A budget limit or `--max-tool-rounds` stopped the run */
+  budgetExceeded: 3,
+  /** A model request failed after retries (auth, rate limit, network, ...) */
+  apiError: 4,
+} as const;
+
+export function exitCodeForRun(summary: RunSummary): number {
+  switch (summary.stopReason) {
+    case 'budget_exceeded':
+    case 'max_tool_rounds':
+      return EXIT_CODES.budgetExceeded;
+    case 'error':
+      return summary.apiError ? EXIT_CODES.apiError : EXIT_CODES.error;
+    case 'loop_detected':
+    case 'cancelled':
+      return EXIT_CODES.error;
+    case 'completed':
+      return summary.lastToolFailed ? EXIT_CODES.toolFailure : EXIT_CODES.success;
+  }
+}
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as string[]).includes(value);
+}
+
+function parseArguments(toolCall: GrokToolCall): unknown {
+  try {
+    return JSON.parse(toolCall.function.arguments || '{}');
+  } catch {
+    return toolCall.function.arguments;
+  }
+}
+
+/**
+ * Run one prompt through the streaming agent loop, reporting what happens as
+ * events. Resolves with the result record, which is also the last event.
+ */
+export async function streamAgentEvents(
+  agent: GrokAgent,
+  prompt: string,
+  emit: (event: HeadlessEvent) => void
+): Promise<HeadlessResult> {
+  // Side-channel events from the agent
+  const listeners: Record<string, (...args: any[]) => void> = {
+    tool_start: (toolCall: GrokToolCall) => emit({
+      type: 'tool_call',
+      id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: parseArguments(toolCall),
+    }),
+    usage: (usage: UsageTotals) => emit({ type: 'usage', usage }),
+    api_retry: (retry: RetryEvent) => emit({ type: 'retry', retry }),
+    plan_phase: (data: { phase: string; message: string }) => emit({ type: 'plan_phase', phase: data.phase, message: data.message }),
+    plan_progress: (progress: PlanExecutionProgress) => emit({ type: 'plan_progress', progress }),
+  };
+  for (const [event, listener] of Object.entries(listeners)) {
+    agent.on(event, listener);
+  }
+
+  emit({
+    type: 'init',
+    model: agent.getCurrentModel(),
+    cwd: process.cwd(),
+    budget: agent.getRunBudget(),
+  });
+
+  let answer = '';
+
+  try {
+    for await (const chunk of agent.processUserMessageStream(prompt)) {
+      handleChunk(chunk);
+    }
+  } finally {
+    for (const [event, listener] of Object.entries(listeners)) {
+      agent.off(event, listener);
+    }
+  }
+
+  function handleChunk(chunk: StreamingChunk): void {
+    switch (chunk.type) {
+      case 'content':
+        if (!chunk.content) {
+          return;
+        }
+        answer += chunk.content;
+        emit({ type: 'assistant_delta', text: chunk.content });
+        return;
+
+      case 'tool_calls':
+        answer = '';
+        return;
+
+      case 'tool_result': {
+        if (!chunk.toolCall || !chunk.toolResult) {
+          return;
+        }
+        const { id, function: { name } } = chunk.toolCall;
+        if (chunk.isPartial) {
+          // Only the new text; toolResult.output is a preview of the tail
+          if (chunk.outputDelta) {
+            emit({ type: 'tool_output', id, name, text: chunk.outputDelta });
+          }
+          return;
+        }
+        answer = '';
+        emit({
+          type: 'tool_result',
+          id,
+          name,
+          success: chunk.toolResult.success,
+          output: chunk.toolResult.output,
+          error: chunk.toolResult.error,
+        });
+        return;
+      }
+
+      case 'token_count':
+        emit({ type: 'token_count', tokens: chunk.tokenCount || 0 });
+        return;
+    }
+  }
+
+  const summary: RunSummary = agent.getLastRunSummary() || {
+    stopReason: 'completed',
+    durationMs: 0,
+    filesChanged: [],
+    toolCalls: 0,
+    failedToolCalls: 0,
+    lastToolFailed: false,
+    usage: agent.getUsageTotals(),
+  };
+  const result: HeadlessResult = {
+    type: 'result',
+    isError: summary.stopReason === 'error',
+    result: answer.trim(),
+    sessionId: agent.getSessionId(),
+    model: agent.getCurrentModel(),
+    ...summary,
+  };
+  emit(result);
+  return result;
+}
+
+/**
+ * Run one prompt and write it in the given format
+ */
+export async function runHeadlessPrompt(
+  agent: GrokAgent,
+  prompt: string,
+  format: OutputFormat,
+  write: (text: string) => void = (text) => process.stdout.write(text)
+): Promise<HeadlessResult> {
+  let endsWithNewline = true;
+  const result = await streamAgentEvents(agent, prompt, (event) => {
+    if (format === 'stream-json') {
+      write(JSON.stringify(event) + '\n');
+    } else if (format === 'text' && event.type === 'assistant_delta') {
+      write(event.text);
+      endsWithNewline = event.text.endsWith('\n');
+    }
+  });
+
+  if (format === 'text' && !endsWithNewline) {
+    write('\n');
+  } else if (format === 'json') {
+    write(JSON.stringify(result, null, 2) + '\n');
+  }
+  return result;
+}
@@ -0,0 +1,179 @@
+/**
+ * Line Diff
+ *
+ * Minimal line-based diffing used to show what a recorded operation changed.
+ */
+
+export interface DiffLine {
+  type: '+' | '-' | ' ';
+  content: string;
+}
+
+export interface LineChangeStats {
+  added: number;
+  removed: number;
+}
+
+/** Above this many line pairs the changed region is shown as a full replacement */
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Diff two texts line by line. Common leading and trailing lines are matched
+ * directly; the remaining region is diffed with an LCS table.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+
+  const result: DiffLine[] = oldLines.slice(0, prefix).map(content => ({ type: ' ', content }));
+  result.push(...diffRegion(oldMiddle, newMiddle));
+  result.push(...oldLines.slice(oldLines.length - suffix).map(content => ({ type: ' ' as const, content })));
+  return result;
+}
+
+function diffRegion(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map(content => ({ type: '-' as const, content })),
+      ...newLines.map(content => ({ type: '+' as const, content }))
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of oldLines[i..] and newLines[j..]
+  const lcs: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) {
+    lcs.push(new Uint32Array(m + 1));
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: ' ', content: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: '-', content: oldLines[i++] });
+    } else {
+      result.push({ type: '+', content: newLines[j++] });
+    }
+  }
+  while (i < n) result.push({ type: '-', content: oldLines[i++] });
+  while (j < m) result.push({ type: '+', content: newLines[j++] });
+  return result;
+}
+
+/**
+ * Count added and removed lines between two texts
+ */
+export function countLineChanges(oldText: string, newText: string): LineChangeStats {
+  const stats: LineChangeStats = { added: 0, removed: 0 };
+  for (const line of diffLines(oldText, newText)) {
+    if (line.type === '+') stats.added++;
+    if (line.type === '-') stats.removed++;
+  }
+  return stats;
+}
+
+/**
+ * Format the difference between two texts as a unified diff
+ */
+export function formatUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  contextLines: number = 3
+): string {
+  const lines = diffLines(oldText, newText);
+  if (!lines.some(line => line.type !== ' ')) {
+    return '';
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  let index = 0;
+  let oldLine = 1;
+  let newLine = 1;
+
+  while (index < lines.length) {
+    // Skip to the next change
+    const changeStart = lines.findIndex((line, i) => i >= index && line.type !== ' ');
+    if (changeStart === -1) {
+      break;
+    }
+
+    const hunkStart = Math.max(index, changeStart - contextLines);
+    for (let i = index; i < hunkStart; i++) {
+      oldLine++;
+      newLine++;
+    }
+
+    // Extend the hunk until a run of unchanged lines longer than twice the context
+    let hunkEnd = changeStart;
+    let unchangedRun = 0;
+    for (let i = changeStart; i < lines.length; i++) {
+      if (lines[i].type === ' ') {
+        unchangedRun++;
+        if (unchangedRun > contextLines * 2) {
+          break;
+        }
+      } else {
+        unchangedRun = 0;
+        hunkEnd = i;
+      }
+    }
+    hunkEnd = Math.min(lines.length - 1, hunkEnd + contextLines);
+
+    const hunk = lines.slice(hunkStart, hunkEnd + 1);
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+    output.push(`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`);
+    for (const line of hunk) {
+      output.push(`${line.type}${line.content}`);
+    }
+
+    oldLine += oldCount;
+    newLine += newCount;
+    index = hunkEnd + 1;
+  }
+
+  return output.join('\n');
+}
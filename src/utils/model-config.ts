@@ -1,8 +1,13 @@
 import { getSettingsManager } from './settings-manager.js';
 import type { UserSettings, ProjectSettings } from './settings-manager.js';
+import { getProviderApiKey, listProviderModels } from '../providers/config.js';
+import type { ProviderCapabilities, ProviderConfig } from '../providers/types.js';
+import { formatModelRouting, ModelRoutingSettings } from '../agent/model-router.js';
 
 export interface ModelOption {
   model: string;
+  provider?: string;
+  capabilities?: ProviderCapabilities;
 }
 
 export type ModelConfig = string;
@@ -20,15 +25,15 @@ export function getCurrentModel(): string {
 }
 
 /**
- * Load model configuration
- * Priority: user-settings.json models > default hardcoded
+ * Load model configuration: the default provider's models (user-settings.json
+ * `models`) followed by the models of the other configured providers as
+ * `provider/model`
  */
 export function loadModelConfig(): ModelOption[] {
-  const manager = getSettingsManager();
-  const models = manager.getAvailableModels();
-
-  return models.map(model => ({
-    model: model.trim()
+  return listProviderModels().map(({ model, provider }) => ({
+    model: model.trim(),
+    provider: provider.name,
+    capabilities: provider.capabilities
   }));
 }
 
@@ -55,3 +60,71 @@ export function updateDefaultModel(modelName: string): void {
   const manager = getSettingsManager();
   manager.updateUserSetting('defaultModel', modelName);
 }
+
+/**
+ * Known context window sizes (in tokens), matched by model name prefix
+ */
+const MODEL_CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+  ['grok-code-fast', 256_000],
+  ['grok-4', 256_000],
+  ['grok-3', 131_072],
+  ['grok-2', 131_072],
+  ['claude', 200_000],
+  ['gemini', 1_000_000],
+  ['gpt-4o', 128_000],
+  ['gpt-4.1', 1_000_000],
+];
+
+const DEFAULT_CONTEXT_WINDOW = 128_000;
+
+/**
+ * Get the context window size for a model
+ * Priority: GROK_CONTEXT_WINDOW env var > known model table > default (128k)
+ */
+export function getContextWindow(model: string): number {
+  const override = Number(process.env.GROK_CONTEXT_WINDOW);
+  if (Number.isFinite(override) && override > 0) {
+    return override;
+  }
+
+  // Ignore the provider prefix of `provider/model` names
+  const normalized = model.toLowerCase().slice(model.lastIndexOf('/') + 1);
+  const match = MODEL_CONTEXT_WINDOWS.find(([prefix]) => normalized.startsWith(prefix));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Short capability list for display, e.g. "tools, streaming, reasoning"
+ */
+export function formatCapabilities(capabilities: ProviderCapabilities): string {
+  const labels: Array<[keyof ProviderCapabilities, string]> = [
+    ['toolCalling', 'tools'],
+    ['streaming', 'streaming'],
+    ['liveSearch', 'live search'],
+    ['reasoning', 'reasoning'],
+  ];
+  const enabled = labels.filter(([key]) => capabilities[key]).map(([, label]) => label);
+  return enabled.length > 0 ? enabled.join(', ') : 'none';
+}
+
+/**
+ * Model routing rules as a section to append to the provider summary
+ */
+export function formatRoutingSummary(routing: ModelRoutingSettings): string {
+  const lines = formatModelRouting(routing);
+  return lines.length > 0 ? `\n\nModel routing:\n${lines.map(line => `  ${line}`).join('\n')}` : '';
+}
+
+/**
+ * One line per provider: name, type, base URL, API key status and capabilities
+ */
+export function formatProviderSummary(providers: ProviderConfig[]): string {
+  return providers
+    .map(provider => {
+      const keyStatus = getProviderApiKey(provider)
+        ? 'key set'
+        : provider.apiKeyEnv ? `no key (${provider.apiKeyEnv})` : 'no key needed';
+      return `${provider.name} (${provider.type}) ${provider.baseURL}\n  ${keyStatus} | ${formatCapabilities(provider.capabilities)}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,125 @@
+import { getSettingsManager } from './settings-manager.js';
+import type { GrokUsage } from '../grok/client.js';
+
+/**
+ * Prices in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Price of prompt tokens served from the provider's cache (defaults to `input`) */
+  cachedInput?: number;
+}
+
+/**
+ * Token counts of one response, normalized across providers
+ */
+export interface TokenBreakdown {
+  promptTokens: number;
+  completionTokens: number;
+  /** Part of `promptTokens` served from cache */
+  cachedTokens: number;
+  reasoningTokens: number;
+}
+
+/**
+ * Built-in list prices, matched by model name prefix (longest first).
+ * Override or extend them with the `pricing` setting.
+ */
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'grok-code-fast': { input: 0.2, output: 1.5, cachedInput: 0.02 },
+  'grok-4-fast': { input: 0.2, output: 0.5, cachedInput: 0.05 },
+  'grok-4': { input: 3, output: 15, cachedInput: 0.75 },
+  'grok-3-mini-fast': { input: 0.6, output: 4, cachedInput: 0.15 },
+  'grok-3-mini': { input: 0.3, output: 0.5, cachedInput: 0.075 },
+  'grok-3-fast': { input: 5, output: 25, cachedInput: 1.25 },
+  'grok-3': { input: 3, output: 15, cachedInput: 0.75 },
+  'gpt-5-mini': { input: 0.25, output: 2, cachedInput: 0.025 },
+  'gpt-5': { input: 1.25, output: 10, cachedInput: 0.125 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+  'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075 },
+};
+
+/** Providers running on your own hardware cost nothing per token */
+const LOCAL_PROVIDERS = ['ollama', 'llamacpp', 'vllm'];
+
+/**
+ * Price table: built-in prices overridden by user, then project `pricing` settings
+ */
+export function loadPricing(): Record<string, ModelPricing> {
+  const manager = getSettingsManager();
+  return {
+    ...DEFAULT_PRICING,
+    ...manager.getUserSetting('pricing'),
+    ...manager.getProjectSetting('pricing'),
+  };
+}
+
+/**
+ * Price for a model, or undefined when it is not in the table. Entries match
+ * the full name (e.g. `openai/gpt-4o`) or, by longest prefix, the last
+ * segment of the name (`gpt-4o` of `openrouter/openai/gpt-4o`).
+ */
+export function findModelPricing(model: string, pricing: Record<string, ModelPricing>): ModelPricing | undefined {
+  if (pricing[model]) {
+    return pricing[model];
+  }
+
+  const slash = model.indexOf('/');
+  if (slash > 0 && LOCAL_PROVIDERS.includes(model.slice(0, slash))) {
+    return { input: 0, output: 0 };
+  }
+
+  const name = model.slice(model.lastIndexOf('/') + 1).toLowerCase();
+  const prefix = Object.keys(pricing)
+    .filter((key) => name.startsWith(key.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
+
+/**
+ * Normalize a provider's usage report
+ */
+export function toTokenBreakdown(usage: GrokUsage): TokenBreakdown {
+  const promptTokens = usage.prompt_tokens || 0;
+  let completionTokens = usage.completion_tokens || 0;
+  const reasoningTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+
+  // Providers that report reasoning outside completion_tokens still bill it as output
+  if (reasoningTokens > 0 && (usage.total_tokens || 0) >= promptTokens + completionTokens + reasoningTokens) {
+    completionTokens += reasoningTokens;
+  }
+
+  return {
+    promptTokens,
+    completionTokens,
+    cachedTokens: Math.min(promptTokens, usage.prompt_tokens_details?.cached_tokens || 0),
+    reasoningTokens,
+  };
+}
+
+/**
+ * Cost in USD of a response
+ */
+export function calculateCost(tokens: TokenBreakdown, pricing: ModelPricing): number {
+  const uncachedTokens = tokens.promptTokens - tokens.cachedTokens;
+  return (
+    uncachedTokens * pricing.input +
+    tokens.cachedTokens * (pricing.cachedInput ?? pricing.input) +
+    tokens.completionTokens * pricing.output
+  ) / 1_000_000;
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) {
+    return '$0.00';
+  }
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
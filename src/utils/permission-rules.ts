@@ -0,0 +1,238 @@
+/**
+ * Permission Rules
+ *
+ * Declarative allow/deny/ask rules for tool confirmations, configured in
+ * ~/.grok/user-settings.json and .grok/settings.json:
+ *
+ *   "permissions": {
+ *     "allow": ["bash(npm test:*)", "str_replace_editor(src/**)"],
+ *     "deny": ["bash(rm -rf *)"],
+ *     "ask": ["bash(git push:*)"]
+ *   }
+ *
+ * A rule is a tool name, optionally followed by a pattern in parentheses.
+ * For `bash` the pattern matches the command: `npm test:*` is a prefix match,
+ * anything else is a glob where `*` matches any characters. For every other
+ * tool the pattern is a path glob relative to the project root (`*` stays
+ * within one directory, `**` crosses directories).
+ */
+
+import * as path from 'path';
+
+export type PermissionDecision = 'allow' | 'deny' | 'ask';
+
+export interface PermissionRules {
+  allow?: string[];
+  deny?: string[];
+  ask?: string[];
+}
+
+export interface PermissionRequest {
+  toolName: string;
+  /** Command for bash, path(s) for file tools */
+  target?: string | string[];
+}
+
+export interface PermissionEvaluation {
+  /** null when no rule matched and the session flags decide */
+  decision: PermissionDecision | null;
+  rule?: string;
+  source?: 'user' | 'project';
+}
+
+interface ParsedRule {
+  tool: string;
+  pattern?: string;
+}
+
+const COMMAND_TOOLS = new Set(['bash']);
+
+/**
+ * Command substitution (`$(...)`, backticks), process substitution (`<(...)`,
+ * `>(...)`) and background `&` (but not `&&`, `2>&1` or `&>`); they run
+ * commands a prefix rule cannot see
+ */
+const HIDDEN_COMMAND_PATTERN = /\$\(|`|[<>]\(|(?:^|[^&>|])&(?![&>])/;
+
+/**
+ * Deny wins over ask, and ask wins over allow, regardless of which settings
+ * file the rule came from
+ */
+const DECISION_ORDER: PermissionDecision[] = ['deny', 'ask', 'allow'];
+
+export function parsePermissionRule(rule: string): ParsedRule | null {
+  const match = rule.trim().match(/^([\w.*-]+)(?:\((.*)\))?$/s);
+  if (!match) {
+    return null;
+  }
+  return { tool: match[1], pattern: match[2]?.trim() || undefined };
+}
+
+export function isValidPermissionRule(rule: string): boolean {
+  return parsePermissionRule(rule) !== null;
+}
+
+export function evaluatePermissionRules(
+  rules: { user?: PermissionRules; project?: PermissionRules },
+  request: PermissionRequest,
+  cwd: string = process.cwd()
+): PermissionEvaluation {
+  for (const decision of DECISION_ORDER) {
+    for (const source of ['project', 'user'] as const) {
+      // Commands that hide other commands are never auto-allowed
+      if (decision === 'allow' && hasHiddenCommands(request)) {
+        continue;
+      }
+      for (const rule of rules[source]?.[decision] || []) {
+        // An allow rule must cover every part of the request (each command in
+        // `a && b`, each file of a multi-file edit); deny and ask need only one
+        if (matchesPermissionRule(rule, request, decision === 'allow' ? 'every' : 'some', cwd)) {
+          return { decision, rule, source };
+        }
+      }
+    }
+  }
+  return { decision: null };
+}
+
+export function matchesPermissionRule(
+  rule: string,
+  request: PermissionRequest,
+  mode: 'every' | 'some' = 'every',
+  cwd: string = process.cwd()
+): boolean {
+  const parsed = parsePermissionRule(rule);
+  if (!parsed || !globToRegExp(parsed.tool, false).test(request.toolName)) {
+    return false;
+  }
+  if (!parsed.pattern || parsed.pattern === '*' || parsed.pattern === '**') {
+    return true;
+  }
+
+  const parts = getRequestParts(request);
+  if (parts.length === 0) {
+    return false;
+  }
+
+  const pattern = parsed.pattern;
+  const matchesPart = COMMAND_TOOLS.has(request.toolName)
+    ? (command: string) => matchesCommand(pattern, command)
+    : (filePath: string) => matchesPath(pattern, filePath, cwd);
+
+  return mode === 'every' ? parts.every(matchesPart) : parts.some(matchesPart);
+}
+
+/**
+ * Rule offered by the confirmation dialog's "always allow" option
+ */
+export function suggestPermissionRule(request: PermissionRequest, cwd: string = process.cwd()): string | undefined {
+  const parts = getRequestParts(request);
+  if (parts.length === 0 || hasHiddenCommands(request)) {
+    return undefined;
+  }
+
+  if (COMMAND_TOOLS.has(request.toolName)) {
+    const prefixes = new Set(parts.map(commandPrefix));
+    return prefixes.size === 1 ? `${request.toolName}(${[...prefixes][0]}:*)` : undefined;
+  }
+
+  const directories = new Set(parts.map(part => path.dirname(toRuleRelativePath(part, cwd))));
+  if (directories.size !== 1) {
+    return undefined;
+  }
+  const directory = [...directories][0];
+  if (directory.startsWith('..')) {
+    return undefined;
+  }
+  return `${request.toolName}(${directory === '.' ? '*' : `${directory}/**`})`;
+}
+
+function getRequestParts(request: PermissionRequest): string[] {
+  if (request.target === undefined) {
+    return [];
+  }
+  const targets = Array.isArray(request.target) ? request.target : [request.target];
+  if (!COMMAND_TOOLS.has(request.toolName)) {
+    return targets.filter(Boolean);
+  }
+  return targets.flatMap(splitCommand);
+}
+
+function hasHiddenCommands(request: PermissionRequest): boolean {
+  if (!COMMAND_TOOLS.has(request.toolName) || request.target === undefined) {
+    return false;
+  }
+  const targets = Array.isArray(request.target) ? request.target : [request.target];
+  return targets.some((command) => HIDDEN_COMMAND_PATTERN.test(command));
+}
+
+/**
+ * Split a shell command on `&&`, `||`, `;`, `|`, background `&` and newlines
+ * so that an allow rule for `npm test` cannot be used to smuggle
+ * `npm test && rm -rf ~`
+ */
+function splitCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||(?<![>|])&(?!>)|[;|\n]/)
+    .map(part => part.trim().replace(/\s+/g, ' '))
+    .filter(Boolean);
+}
+
+function matchesCommand(pattern: string, command: string): boolean {
+  const normalizedPattern = pattern.replace(/\s+/g, ' ');
+  if (normalizedPattern.endsWith(':*')) {
+    const prefix = normalizedPattern.slice(0, -2);
+    return command === prefix || command.startsWith(`${prefix} `);
+  }
+  return globToRegExp(normalizedPattern, false).test(command);
+}
+
+function matchesPath(pattern: string, filePath: string, cwd: string): boolean {
+  if (path.isAbsolute(pattern)) {
+    return globToRegExp(toPosix(pattern), true).test(toPosix(path.resolve(cwd, filePath)));
+  }
+  return globToRegExp(toPosix(pattern), true).test(toRuleRelativePath(filePath, cwd));
+}
+
+function toRuleRelativePath(filePath: string, cwd: string): string {
+  return toPosix(path.relative(cwd, path.resolve(cwd, filePath))) || '.';
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function commandPrefix(command: string): string {
+  const words = command.split(' ');
+  // Keep the subcommand for tools like `npm test` or `git status`, but not flags or paths
+  if (words.length > 1 && /^[a-z][\w-]*$/i.test(words[1])) {
+    return `${words[0]} ${words[1]}`;
+  }
+  return words[0];
+}
+
+function globToRegExp(glob: string, pathAware: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (pathAware && glob[i + 1] === '*') {
+        // `**/` also matches zero directories
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += pathAware ? '[^/]*' : '.*';
+      }
+    } else if (char === '?') {
+      source += pathAware ? '[^/]' : '.';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
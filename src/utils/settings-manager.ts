@@ -1,6 +1,22 @@
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import type { PermissionDecision, PermissionRules } from "./permission-rules.js";
+import type { LSPServerSettings } from "../lsp/config.js";
+import type { ProviderSettings } from "../providers/config.js";
+import type { ModelRoutingSettings } from "../agent/model-router.js";
+import type { ModelPricing } from "./model-pricing.js";
+import type { RunBudget } from "../agent/run-budget.js";
+import type { MCPServeSettings } from "../mcp/server.js";
+
+/**
+ * Opt-in sandbox for bash commands (see src/tools/sandbox.ts)
+ */
+export interface SandboxSettings {
+  enabled?: boolean;
+  allowNetwork?: boolean; // Network is blocked by default
+  writablePaths?: string[]; // Writable in addition to the project root and temp dir
+}
 
 /**
  * User-level settings stored in ~/.grok/user-settings.json
@@ -13,10 +29,19 @@ export interface UserSettings {
   models?: string[]; // Available models list
   timeout?: number; // API timeout in milliseconds (default: 360000 for 6 minutes)
   streamTimeout?: number; // Streaming timeout override for reasoning models (default: 3600000 for 1 hour)
+  maxRetries?: number; // Retries for rate limits, server errors and dropped connections (default: 4)
   temperature?: number; // Model temperature (default: 0.7)
   maxTokens?: number; // Max tokens per request (default: 1536)
   parallelToolCalls?: boolean; // Enable parallel tool execution (default: true)
   maxConcurrentTools?: number; // Max concurrent tool calls (default: 3)
+  permissions?: PermissionRules; // Allow/deny/ask rules applied in every project
+  sandbox?: SandboxSettings; // Bash sandbox defaults
+  lspServers?: Record<string, LSPServerSettings>; // Language servers available in every project
+  providers?: Record<string, ProviderSettings>; // Model providers (base URL, key, models, capabilities)
+  fallbackModel?: string; // Model used when the current model's provider is unreachable
+  modelRouting?: ModelRoutingSettings; // Model per phase (planning, tool rounds, summarization, ...)
+  pricing?: Record<string, ModelPricing>; // USD per million tokens, by model name or prefix
+  disabledCommands?: string[]; // Slash commands hidden and blocked in every project, e.g. ["commit-and-push"]
 }
 
 /**
@@ -28,10 +53,21 @@ export interface ProjectSettings {
   mcpServers?: Record<string, any>; // MCP server configurations
   timeout?: number; // Project-specific timeout override
   streamTimeout?: number; // Project-specific streaming timeout override
+  maxRetries?: number; // Project-specific retry count override
   temperature?: number; // Project-specific temperature override
   maxTokens?: number; // Project-specific max tokens override
   parallelToolCalls?: boolean; // Project-specific parallel tool execution override
   maxConcurrentTools?: number; // Project-specific max concurrent tools override
+  permissions?: PermissionRules; // Project-specific allow/deny/ask rules
+  sandbox?: SandboxSettings; // Project-specific bash sandbox settings
+  lspServers?: Record<string, LSPServerSettings>; // Language servers for this project
+  providers?: Record<string, ProviderSettings>; // Project-specific model providers
+  fallbackModel?: string; // Project-specific fallback model (e.g. a local model when offline)
+  modelRouting?: ModelRoutingSettings; // Project-specific model routing rules
+  pricing?: Record<string, ModelPricing>; // Project-specific prices (e.g. negotiated rates)
+  budget?: RunBudget; // Default limits for each run in this project (overridden by --max-* options)
+  disabledCommands?: string[]; // Slash commands disabled in this project (in addition to the user's)
+  mcpServe?: MCPServeSettings; // Tools and confirmation policy of `grok mcp serve`
 }
 
 /**
@@ -49,6 +85,7 @@ const DEFAULT_USER_SETTINGS: Partial<UserSettings> = {
   ],
   timeout: 360000, // 6 minutes for standard requests
   streamTimeout: 3600000, // 1 hour for reasoning models (as per xAI docs)
+  maxRetries: 4,
   temperature: 0.7,
   maxTokens: 1536,
   parallelToolCalls: true, // Enable parallel tool execution by default
@@ -334,6 +371,53 @@ export class SettingsManager {
     );
   }
 
+  /**
+   * Get the model to fall back to when the current model's provider cannot
+   * be reached
+   * Priority: environment > project setting > user setting
+   */
+  public getFallbackModel(): string | undefined {
+    return (
+      process.env.GROK_FALLBACK_MODEL ||
+      this.getProjectSetting("fallbackModel") ||
+      this.getUserSetting("fallbackModel")
+    );
+  }
+
+  /**
+   * Get model routing rules. Project rules override user rules per phase.
+   */
+  public getModelRouting(): ModelRoutingSettings {
+    return {
+      ...this.getUserSetting("modelRouting"),
+      ...this.getProjectSetting("modelRouting"),
+    };
+  }
+
+  /**
+   * Slash commands disabled by user or project settings
+   */
+  public getDisabledCommands(): string[] {
+    return [
+      ...(this.getUserSetting("disabledCommands") || []),
+      ...(this.getProjectSetting("disabledCommands") || []),
+    ];
+  }
+
+  /**
+   * Exported tools and confirmation policy of `grok mcp serve` in this project
+   */
+  public getMCPServeSettings(): MCPServeSettings {
+    return { ...this.getProjectSetting("mcpServe") };
+  }
+
+  /**
+   * Default run limits of the current project
+   */
+  public getRunBudget(): RunBudget {
+    return { ...this.getProjectSetting("budget") };
+  }
+
   /**
    * Get timeout from settings or environment
    * Priority: project setting > user setting > environment > default
@@ -373,6 +457,24 @@ export class SettingsManager {
     return userStreamTimeout || DEFAULT_USER_SETTINGS.streamTimeout || 3600000;
   }
 
+  /**
+   * Get the number of retries for failed model requests (0 disables retries)
+   * Priority: environment > project setting > user setting > default
+   */
+  public getMaxRetries(): number {
+    const envRetries = process.env.GROK_MAX_RETRIES;
+    if (envRetries && Number.isInteger(Number(envRetries)) && Number(envRetries) >= 0) {
+      return Number(envRetries);
+    }
+
+    return (
+      this.getProjectSetting("maxRetries") ??
+      this.getUserSetting("maxRetries") ??
+      DEFAULT_USER_SETTINGS.maxRetries ??
+      4
+    );
+  }
+
   /**
    * Get temperature from settings or environment
    * Priority: project setting > user setting > environment > default
@@ -438,6 +540,50 @@ export class SettingsManager {
     const userMax = this.getUserSetting("maxConcurrentTools");
     return userMax || DEFAULT_USER_SETTINGS.maxConcurrentTools || 3;
   }
+
+  /**
+   * Get bash sandbox settings
+   * Priority: environment (GROK_SANDBOX=1/0) > project setting > user setting
+   */
+  public getSandboxSettings(): SandboxSettings {
+    const settings: SandboxSettings = {
+      ...this.getUserSetting("sandbox"),
+      ...this.getProjectSetting("sandbox"),
+    };
+
+    const envSandbox = process.env.GROK_SANDBOX;
+    if (envSandbox === "1" || envSandbox === "0") {
+      settings.enabled = envSandbox === "1";
+    }
+
+    return settings;
+  }
+
+  /**
+   * Get permission rules from both settings files.
+   * Rules are combined rather than overridden: a deny in either file wins.
+   */
+  public getPermissionRules(): { user: PermissionRules; project: PermissionRules } {
+    return {
+      user: this.getUserSetting("permissions") || {},
+      project: this.getProjectSetting("permissions") || {},
+    };
+  }
+
+  /**
+   * Add a permission rule to .grok/settings.json
+   */
+  public addProjectPermissionRule(decision: PermissionDecision, rule: string): void {
+    const permissions = this.getProjectSetting("permissions") || {};
+    const rules = permissions[decision] || [];
+    if (rules.includes(rule)) {
+      return;
+    }
+    this.updateProjectSetting("permissions", {
+      ...permissions,
+      [decision]: [...rules, rule],
+    });
+  }
 }
 
 /**
@@ -0,0 +1,255 @@
+/**
+ * Slash Commands
+ *
+ * Registry of the commands offered after `/` in the chat input: the built-in
+ * commands plus prompt commands defined as markdown files in
+ * `.grok/commands/` (project) and `~/.grok/commands/` (user). A command file's
+ * body is the prompt, with `$ARGUMENTS` replaced by what follows the command.
+ * Prompts of connected MCP servers are offered as `/mcp__server__prompt`.
+ * Custom commands override built-ins of the same name, and any command can be
+ * disabled with the `disabledCommands` setting.
+ *
+ * ```markdown
+ * ---
+ * description: Review the staged changes
+ * argument-hint: [focus area]
+ * allowed-tools: bash, view_file, search
+ * model: grok-4-latest
+ * ---
+ * Review `git diff --cached` with a focus on $ARGUMENTS.
+ * ```
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getMCPManager } from '../grok/tools.js';
+import type { MCPPrompt } from '../mcp/client.js';
+import { formatPromptArgumentHint } from '../mcp/content.js';
+import { debugLog } from './debug.js';
+import { getSettingsManager } from './settings-manager.js';
+
+export type SlashCommandSource = 'builtin' | 'project' | 'user' | 'mcp';
+
+export interface SlashCommand {
+  /** Without the leading slash; subdirectories become `dir:name` */
+  name: string;
+  description: string;
+  argumentHint?: string;
+  source: SlashCommandSource;
+  /** Prompt template of a custom command */
+  prompt?: string;
+  /** Tools the agent may use while running the command (all when unset) */
+  allowedTools?: string[];
+  /** Model used for the command instead of the current one */
+  model?: string;
+  filePath?: string;
+  /** Prompt of an MCP server, fetched when the command runs */
+  mcpPrompt?: MCPPrompt;
+}
+
+export interface SlashCommandInvocation {
+  command: SlashCommand;
+  /** Text after the command name */
+  args: string;
+}
+
+const BUILTIN_COMMANDS: Array<Pick<SlashCommand, 'name' | 'description' | 'argumentHint'>> = [
+  { name: 'help', description: 'Show help information' },
+  { name: 'clear', description: 'Clear chat history' },
+  { name: 'models', description: 'Switch model or provider', argumentHint: '[provider/model | providers]' },
+  { name: 'sessions', description: 'List, resume, fork or delete saved sessions', argumentHint: '[resume|fork|delete] [id]' },
+  { name: 'cost', description: 'Show token usage and cost of this session', argumentHint: '[month [YYYY-MM]]' },
+  { name: 'commands', description: 'List custom commands and where they are defined' },
+  { name: 'mcp', description: 'MCP server status; restart, disable or enable servers' },
+  { name: 'init-agent', description: 'Initialize .agent documentation system' },
+  { name: 'docs', description: 'Documentation generation menu' },
+  { name: 'readme', description: 'Generate project README.md' },
+  { name: 'api-docs', description: 'Generate API documentation' },
+  { name: 'changelog', description: 'Generate changelog from git history' },
+  { name: 'update-agent-docs', description: 'Update .agent docs with recent changes' },
+  { name: 'compact', description: 'Compress conversation history', argumentHint: '[--dry-run] [--force]' },
+  { name: 'heal', description: 'Document and prevent failure recurrence' },
+  { name: 'guardrails', description: 'Manage prevention rules', argumentHint: '[--check]' },
+  { name: 'comments', description: 'Add code comments to files', argumentHint: '[file]' },
+  { name: 'commit-and-push', description: 'AI commit & push to remote' },
+  { name: 'exit', description: 'Exit the application' },
+];
+
+export function getUserCommandsDirectory(): string {
+  return path.join(os.homedir(), '.grok', 'commands');
+}
+
+export function getProjectCommandsDirectory(workingDirectory: string = process.cwd()): string {
+  return path.join(workingDirectory, '.grok', 'commands');
+}
+
+function unquote(value: string): string {
+  return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
+
+/**
+ * Split a markdown file into its frontmatter fields and body. Supports the
+ * simple YAML used by command files: `key: value` and `- item` lists.
+ * Values are kept as text, so `argument-hint: [file]` stays as written.
+ */
+export function parseFrontmatter(text: string): { fields: Record<string, string | string[]>; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { fields: {}, body: text };
+  }
+
+  const fields: Record<string, string | string[]> = {};
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.*)$/);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(unquote(item[1].trim()));
+      continue;
+    }
+    const field = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!field) {
+      continue;
+    }
+    if (field[2].trim() === '') {
+      listKey = field[1];
+      fields[listKey] = [];
+    } else {
+      listKey = null;
+      fields[field[1]] = unquote(field[2].trim());
+    }
+  }
+  return { fields, body: text.slice(match[0].length) };
+}
+
+function toList(value: string | string[] | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  // `a, b` or `[a, b]`
+  const list = Array.isArray(value) ? value : value.replace(/^\[(.*)\]$/, '$1').split(',');
+  return list.map((item) => unquote(item.trim())).filter(Boolean);
+}
+
+function toText(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value.join(', ') : value || undefined;
+}
+
+export function parseCommandFile(filePath: string, name: string, source: SlashCommandSource): SlashCommand {
+  const { fields, body } = parseFrontmatter(fs.readFileSync(filePath, 'utf-8'));
+  const prompt = body.trim();
+  return {
+    name,
+    // Without a description, the first line of the prompt is shown
+    description: toText(fields.description) || prompt.split('\n')[0].slice(0, 80) || `Custom ${source} command`,
+    argumentHint: toText(fields['argument-hint']),
+    source,
+    prompt,
+    allowedTools: toList(fields['allowed-tools']),
+    model: toText(fields.model),
+    filePath,
+  };
+}
+
+/**
+ * Command files in a directory, including subdirectories as namespaces
+ */
+function loadCommandDirectory(directory: string, source: SlashCommandSource, namespace = ''): SlashCommand[] {
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+
+  const commands: SlashCommand[] = [];
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      commands.push(...loadCommandDirectory(entryPath, source, `${namespace}${entry.name}:`));
+    } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      try {
+        commands.push(parseCommandFile(entryPath, namespace + entry.name.slice(0, -3), source));
+      } catch (error) {
+        debugLog(`Failed to load command ${entryPath}:`, error);
+      }
+    }
+  }
+  return commands;
+}
+
+/**
+ * Expand a command's prompt template. Arguments are appended when the
+ * template has no `$ARGUMENTS` placeholder.
+ */
+export function expandCommandPrompt(template: string, args: string): string {
+  if (template.includes('$ARGUMENTS')) {
+    return template.split('$ARGUMENTS').join(args);
+  }
+  return args ? `${template}\n\nArguments: ${args}` : template;
+}
+
+export class SlashCommandRegistry {
+  private commands: Map<string, SlashCommand> = new Map();
+  private disabled: Set<string> = new Set();
+
+  constructor(private workingDirectory: string = process.cwd()) {
+    this.reload();
+  }
+
+  /**
+   * Read the command files and MCP prompts again; project commands win over
+   * user commands, and both over built-ins and MCP prompts
+   */
+  reload(): void {
+    this.commands.clear();
+    for (const builtin of BUILTIN_COMMANDS) {
+      this.commands.set(builtin.name, { ...builtin, source: 'builtin' });
+    }
+    for (const prompt of getMCPManager().getPrompts()) {
+      const name = `mcp__${prompt.serverName}__${prompt.name}`;
+      this.commands.set(name, {
+        name,
+        description: prompt.description || `Prompt from ${prompt.serverName} server`,
+        argumentHint: formatPromptArgumentHint(prompt.arguments),
+        source: 'mcp',
+        mcpPrompt: prompt,
+      });
+    }
+    for (const command of loadCommandDirectory(getUserCommandsDirectory(), 'user')) {
+      this.commands.set(command.name, command);
+    }
+    for (const command of loadCommandDirectory(getProjectCommandsDirectory(this.workingDirectory), 'project')) {
+      this.commands.set(command.name, command);
+    }
+
+    try {
+      this.disabled = new Set(getSettingsManager().getDisabledCommands().map((name) => name.replace(/^\//, '')));
+    } catch {
+      this.disabled = new Set();
+    }
+  }
+
+  /**
+   * Enabled commands, sorted with built-ins first
+   */
+  list(): SlashCommand[] {
+    return Array.from(this.commands.values())
+      .filter((command) => !this.disabled.has(command.name))
+      .sort((a, b) => Number(a.source !== 'builtin') - Number(b.source !== 'builtin'));
+  }
+
+  isDisabled(name: string): boolean {
+    return this.disabled.has(name);
+  }
+
+  /**
+   * The command typed in the input, or null when it is not a known command
+   * (disabled commands are resolved so callers can say so)
+   */
+  resolve(input: string): SlashCommandInvocation | null {
+    const match = input.trim().match(/^\/(\S+)(?:\s+([\s\S]*))?$/);
+    if (!match) {
+      return null;
+    }
+    const command = this.commands.get(match[1]);
+    return command ? { command, args: (match[2] || '').trim() } : null;
+  }
+}
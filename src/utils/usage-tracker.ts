@@ -0,0 +1,354 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { GrokUsage } from '../grok/client.js';
+import {
+  ModelPricing,
+  TokenBreakdown,
+  calculateCost,
+  findModelPricing,
+  formatCost,
+  loadPricing,
+  toTokenBreakdown,
+} from './model-pricing.js';
+import { formatTokenCount } from './token-counter.js';
+import { debugLog } from './debug.js';
+
+/**
+ * Usage of one model response, as written to the monthly ledger
+ */
+export interface LedgerEntry extends TokenBreakdown {
+  timestamp: string;
+  project: string;
+  sessionId?: string;
+  model: string;
+  /** Routing phase of the request (planning, toolRounds, summarization, ...) */
+  phase?: string;
+  cost: number;
+  /** False when the model has no price, so `cost` is 0 */
+  priced: boolean;
+}
+
+export interface UsageRecord extends LedgerEntry {
+  turn: number;
+  round: number;
+  /** Tools called by the response, which share its cost */
+  tools: string[];
+}
+
+export interface UsageTotals extends TokenBreakdown {
+  requests: number;
+  cost: number;
+  unpricedModels: string[];
+}
+
+export interface TurnUsage {
+  turn: number;
+  prompt: string;
+  totals: UsageTotals;
+  rounds: Array<{ round: number; tools: string[]; totals: UsageTotals }>;
+}
+
+export interface UsageReport {
+  session: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byTool: Record<string, UsageTotals & { calls: number }>;
+  turns: TurnUsage[];
+}
+
+export interface MonthlyUsage {
+  month: string;
+  total: UsageTotals;
+  byProject: Record<string, { totals: UsageTotals; byModel: Record<string, UsageTotals> }>;
+}
+
+export function getUsageLedgerDirectory(): string {
+  return path.join(os.homedir(), '.grok', 'usage');
+}
+
+/** `YYYY-MM` of a date, in local time */
+export function monthKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    cost: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    cachedTokens: 0,
+    reasoningTokens: 0,
+    unpricedModels: [],
+  };
+}
+
+function addToTotals(totals: UsageTotals, entry: LedgerEntry, share: number = 1): void {
+  totals.requests += share;
+  totals.cost += entry.cost * share;
+  totals.promptTokens += entry.promptTokens * share;
+  totals.completionTokens += entry.completionTokens * share;
+  totals.cachedTokens += entry.cachedTokens * share;
+  totals.reasoningTokens += entry.reasoningTokens * share;
+  if (!entry.priced && !totals.unpricedModels.includes(entry.model)) {
+    totals.unpricedModels.push(entry.model);
+  }
+}
+
+function sumEntries(entries: LedgerEntry[]): UsageTotals {
+  const totals = emptyTotals();
+  for (const entry of entries) {
+    addToTotals(totals, entry);
+  }
+  return totals;
+}
+
+/**
+ * Token usage and cost of a session, broken down per turn, per tool-call
+ * round, per tool and per model. Every response is also appended to a
+ * monthly ledger (~/.grok/usage/YYYY-MM.jsonl) for spend across projects.
+ */
+export class UsageTracker {
+  private records: UsageRecord[] = [];
+  private turnPrompts: string[] = [];
+  private round = 0;
+  private pricing: Record<string, ModelPricing>;
+  private project: string;
+  private ledgerDirectory: string | null;
+
+  constructor(options: { project?: string; ledgerDirectory?: string | null } = {}) {
+    this.project = options.project || process.cwd();
+    this.ledgerDirectory = options.ledgerDirectory === undefined ? getUsageLedgerDirectory() : options.ledgerDirectory;
+    this.pricing = loadPricing();
+  }
+
+  /**
+   * Start accounting a new user turn
+   */
+  startTurn(prompt: string): void {
+    this.turnPrompts.push(prompt);
+    this.round = 0;
+  }
+
+  /**
+   * Start a new model request of the current turn
+   */
+  startRound(): void {
+    this.round++;
+  }
+
+  record(model: string, usage: GrokUsage, context: { sessionId?: string; phase?: string } = {}): UsageRecord {
+    const tokens = toTokenBreakdown(usage);
+    const pricing = findModelPricing(model, this.pricing);
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      project: this.project,
+      sessionId: context.sessionId,
+      model,
+      phase: context.phase,
+      ...tokens,
+      cost: pricing ? calculateCost(tokens, pricing) : 0,
+      priced: Boolean(pricing),
+      turn: this.turnPrompts.length,
+      round: this.round,
+      tools: [],
+    };
+    this.records.push(record);
+    this.appendToLedger(record);
+    return record;
+  }
+
+  /**
+   * Charge a response's cost to the tools it called
+   */
+  attributeTools(record: UsageRecord, tools: string[]): void {
+    record.tools = tools;
+  }
+
+  /**
+   * Continue the totals of a resumed session from the ledger
+   */
+  restoreSession(sessionId: string): void {
+    const entries = readLedgerEntries(this.ledgerDirectory || getUsageLedgerDirectory())
+      .filter((entry) => entry.sessionId === sessionId);
+    // Earlier turns are not itemized; they count as turn 0
+    this.records = entries.map((entry) => ({ ...entry, turn: 0, round: 0, tools: [] }));
+  }
+
+  /**
+   * Position to measure later usage from, with `getTotals(checkpoint)`
+   */
+  checkpoint(): number {
+    return this.records.length;
+  }
+
+  getTotals(since: number = 0): UsageTotals {
+    return sumEntries(this.records.slice(since));
+  }
+
+  getReport(): UsageReport {
+    const byModel: UsageReport['byModel'] = {};
+    const byTool: UsageReport['byTool'] = {};
+
+    for (const record of this.records) {
+      byModel[record.model] ||= emptyTotals();
+      addToTotals(byModel[record.model], record);
+
+      // Each tool call gets an equal share of the response that requested it
+      for (const tool of record.tools) {
+        byTool[tool] ||= { ...emptyTotals(), calls: 0 };
+        byTool[tool].calls++;
+        addToTotals(byTool[tool], record, 1 / record.tools.length);
+      }
+    }
+
+    const turns: TurnUsage[] = this.turnPrompts.map((prompt, index) => {
+      const turnRecords = this.records.filter((record) => record.turn === index + 1);
+      const rounds = [...new Set(turnRecords.map((record) => record.round))].map((round) => {
+        const roundRecords = turnRecords.filter((record) => record.round === round);
+        return {
+          round,
+          tools: roundRecords.flatMap((record) => record.tools),
+          totals: sumEntries(roundRecords),
+        };
+      });
+      return { turn: index + 1, prompt, totals: sumEntries(turnRecords), rounds };
+    });
+
+    return { session: this.getTotals(), byModel, byTool, turns };
+  }
+
+  private appendToLedger(record: UsageRecord): void {
+    if (!this.ledgerDirectory) {
+      return;
+    }
+    const { turn: _turn, round: _round, tools: _tools, ...entry } = record;
+    try {
+      fs.mkdirSync(this.ledgerDirectory, { recursive: true });
+      fs.appendFileSync(
+        path.join(this.ledgerDirectory, `${monthKey(new Date(record.timestamp))}.jsonl`),
+        JSON.stringify(entry) + '\n'
+      );
+    } catch (error) {
+      debugLog('Failed to write usage ledger:', error);
+    }
+  }
+}
+
+/**
+ * Ledger entries of one month (`YYYY-MM`), or of all months
+ */
+export function readLedgerEntries(directory: string = getUsageLedgerDirectory(), month?: string): LedgerEntry[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(directory).filter((file) => /^\d{4}-\d{2}\.jsonl$/.test(file));
+  } catch {
+    return [];
+  }
+  if (month) {
+    files = files.filter((file) => file === `${month}.jsonl`);
+  }
+
+  const entries: LedgerEntry[] = [];
+  for (const file of files.sort()) {
+    for (const line of fs.readFileSync(path.join(directory, file), 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip partially written lines
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Spend of a month per project and model
+ */
+export function summarizeMonth(month: string, directory?: string): MonthlyUsage {
+  const entries = readLedgerEntries(directory, month);
+  const byProject: MonthlyUsage['byProject'] = {};
+
+  for (const entry of entries) {
+    const project = (byProject[entry.project] ||= { totals: emptyTotals(), byModel: {} });
+    addToTotals(project.totals, entry);
+    project.byModel[entry.model] ||= emptyTotals();
+    addToTotals(project.byModel[entry.model], entry);
+  }
+
+  return { month, total: sumEntries(entries), byProject };
+}
+
+function formatTokens(totals: UsageTotals): string {
+  const cached = totals.cachedTokens > 0 ? ` (${formatTokenCount(Math.round(totals.cachedTokens))} cached)` : '';
+  const reasoning = totals.reasoningTokens > 0 ? ` (${formatTokenCount(Math.round(totals.reasoningTokens))} reasoning)` : '';
+  return `${formatTokenCount(Math.round(totals.promptTokens))} in${cached} / ${formatTokenCount(Math.round(totals.completionTokens))} out${reasoning}`;
+}
+
+function formatUnpriced(models: string[]): string {
+  return models.length > 0
+    ? `\n\n⚠️ No price for ${models.join(', ')}; add it under "pricing" in settings to include it in costs.`
+    : '';
+}
+
+/**
+ * Text report for /cost
+ */
+export function formatUsageReport(report: UsageReport): string {
+  const { session } = report;
+  if (session.requests === 0) {
+    return 'No model requests in this session yet.';
+  }
+
+  const lines = [
+    `Session: ${formatCost(session.cost)} · ${formatTokens(session)} · ${session.requests} requests`,
+    '',
+    'By model:',
+    ...Object.entries(report.byModel)
+      .sort(([, a], [, b]) => b.cost - a.cost)
+      .map(([model, totals]) => `  ${model}: ${formatCost(totals.cost)} · ${formatTokens(totals)} · ${totals.requests} requests`),
+  ];
+
+  const tools = Object.entries(report.byTool).sort(([, a], [, b]) => b.cost - a.cost);
+  if (tools.length > 0) {
+    lines.push('', 'By tool (share of the responses that called it):');
+    lines.push(...tools.map(([tool, totals]) => `  ${tool}: ${formatCost(totals.cost)} · ${totals.calls} calls`));
+  }
+
+  const turns = report.turns.filter((turn) => turn.totals.requests > 0).slice(-10);
+  if (turns.length > 0) {
+    lines.push('', 'Recent turns:');
+    for (const turn of turns) {
+      const prompt = turn.prompt.length > 50 ? `${turn.prompt.slice(0, 47)}...` : turn.prompt;
+      lines.push(`  #${turn.turn} "${prompt.replace(/\s+/g, ' ')}": ${formatCost(turn.totals.cost)} · ${turn.rounds.length} rounds`);
+      for (const round of turn.rounds) {
+        const tools = round.tools.length > 0 ? ` → ${round.tools.join(', ')}` : '';
+        lines.push(`     round ${round.round}: ${formatCost(round.totals.cost)} · ${formatTokens(round.totals)}${tools}`);
+      }
+    }
+  }
+
+  return lines.join('\n') + formatUnpriced(session.unpricedModels);
+}
+
+/**
+ * Text report of a month's spend per project
+ */
+export function formatMonthlyReport(usage: MonthlyUsage): string {
+  if (usage.total.requests === 0) {
+    return `No usage recorded for ${usage.month}.`;
+  }
+
+  const lines = [`${usage.month}: ${formatCost(usage.total.cost)} · ${formatTokens(usage.total)} · ${usage.total.requests} requests`];
+  const projects = Object.entries(usage.byProject).sort(([, a], [, b]) => b.totals.cost - a.totals.cost);
+  for (const [project, { totals, byModel }] of projects) {
+    lines.push('', `${project}: ${formatCost(totals.cost)} · ${totals.requests} requests`);
+    for (const [model, modelTotals] of Object.entries(byModel).sort(([, a], [, b]) => b.cost - a.cost)) {
+      lines.push(`  ${model}: ${formatCost(modelTotals.cost)} · ${formatTokens(modelTotals)}`);
+    }
+  }
+  return lines.join('\n') + formatUnpriced(usage.total.unpricedModels);
+}